@@ -0,0 +1,61 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/lib/database.types';
+
+// Awards every user the badges they've already earned, e.g. after the badge rules change.
+// award_badges skips badges a user has, so running this again only adds what's new
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Please set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+const PAGE_SIZE = 500;
+
+async function backfill() {
+  console.log('Awarding badges...');
+
+  let checked = 0;
+  let awarded = 0;
+  let failed = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, username')
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching users:', error);
+      process.exit(1);
+    }
+
+    for (const user of users) {
+      const { data: badges, error: awardError } = await supabase.rpc('award_badges', { target_user: user.id });
+      checked++;
+
+      if (awardError) {
+        console.error(`Error awarding badges to ${user.username}:`, awardError);
+        failed++;
+        continue;
+      }
+
+      if (badges.length > 0) {
+        console.log(`${user.username}: ${badges.map((badge) => badge.badge_name).join(', ')}`);
+        awarded += badges.length;
+      }
+    }
+
+    if (users.length < PAGE_SIZE) break;
+  }
+
+  console.log(`✅ Checked ${checked} users and awarded ${awarded} badges${failed ? ` (${failed} failed)` : ''}`);
+  if (failed) process.exit(1);
+}
+
+backfill();
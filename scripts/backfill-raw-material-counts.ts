@@ -0,0 +1,64 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/lib/database.types';
+import { getRawMaterialCount } from '../src/lib/efficiency';
+import { parseMaterials } from '../src/lib/farm';
+
+// Fills in raw_material_count for farms saved before migration 0014, which get no efficiency score
+// without one. Only farms still missing a count are touched, so running this again is harmless
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Please set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+const PAGE_SIZE = 500;
+
+async function backfill() {
+  console.log('Counting raw materials...');
+
+  let updated = 0;
+  let failed = 0;
+
+  // Pages through every farm rather than filtering on the missing count, which updates would shift
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: farms, error } = await supabase
+      .from('farms')
+      .select('id, title, materials, raw_material_count')
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching farms:', error);
+      process.exit(1);
+    }
+
+    for (const farm of farms) {
+      if (farm.raw_material_count !== null) continue;
+
+      const { error: updateError } = await supabase
+        .from('farms')
+        .update({ raw_material_count: getRawMaterialCount(parseMaterials(farm.materials)) })
+        .eq('id', farm.id);
+
+      if (updateError) {
+        console.error(`Error updating ${farm.title}:`, updateError);
+        failed++;
+        continue;
+      }
+
+      updated++;
+    }
+
+    if (farms.length < PAGE_SIZE) break;
+  }
+
+  console.log(`✅ Counted raw materials for ${updated} farms${failed ? ` (${failed} failed)` : ''}`);
+  if (failed) process.exit(1);
+}
+
+backfill();
@@ -0,0 +1,361 @@
+/**
+ * Reads the tables and functions out of supabase/schema.sql and supabase/migrations and renders
+ * them as the `Database` type supabase-js expects. Only understands the statements this repo's
+ * SQL uses: CREATE TABLE, ALTER TABLE ... ADD/DROP COLUMN, DROP TABLE and CREATE FUNCTION
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readMigrations } from './migrations';
+
+export interface ColumnDef {
+  name: string;
+  // TypeScript type, without null
+  type: string;
+  nullable: boolean;
+  hasDefault: boolean;
+  unique: boolean;
+  references: { table: string; column: string } | null;
+}
+
+export interface TableDef {
+  name: string;
+  columns: ColumnDef[];
+}
+
+export interface FunctionArg {
+  name: string;
+  type: string;
+  hasDefault: boolean;
+  defaultsToNull: boolean;
+}
+
+export interface FunctionDef {
+  name: string;
+  args: FunctionArg[];
+  returns: string;
+}
+
+export interface SqlSchema {
+  tables: Map<string, TableDef>;
+  functions: Map<string, FunctionDef>;
+}
+
+const SCALAR_TYPES: Array<{ pattern: RegExp; type: string }> = [
+  { pattern: /^(uuid|text|citext|varchar|character varying|char|character|date|time|timestamp|timestamptz|interval|tsvector)\b/, type: 'string' },
+  { pattern: /^(smallint|integer|int|int2|int4|int8|bigint|serial|bigserial|numeric|decimal|real|float4|float8|double precision)\b/, type: 'number' },
+  { pattern: /^(boolean|bool)\b/, type: 'boolean' },
+  { pattern: /^(jsonb|json)\b/, type: 'Json' },
+];
+
+/**
+ * Splits SQL into statements on top-level semicolons, dropping comments and keeping quoted
+ * strings and $$ function bodies intact
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  const dollarTag = /\$([A-Za-z_]\w*)?\$/y;
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      let end = i + 1;
+      while (end < sql.length && !(sql[end] === "'" && sql[end + 1] !== "'")) {
+        end += sql[end] === "'" ? 2 : 1;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '$' && ((dollarTag.lastIndex = i), dollarTag.exec(sql))) {
+      const tag = sql.slice(i, dollarTag.lastIndex);
+      const end = sql.indexOf(tag, dollarTag.lastIndex);
+      const stop = end === -1 ? sql.length : end + tag.length;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (char === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// Splits on commas outside parentheses, brackets and quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && (char === '(' || char === '[')) depth++;
+    if (!quoted && (char === ')' || char === ']')) depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// The text inside the parentheses that open at `start`
+function balancedParens(text: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return text.slice(start + 1, i);
+  }
+  return text.slice(start + 1);
+}
+
+export function sqlTypeToTs(sqlType: string): string {
+  const normalized = sqlType.trim().toLowerCase().replace(/\s+/g, ' ');
+  const dimensions = (normalized.match(/\[\]/g) || []).length;
+  const base = SCALAR_TYPES.find(({ pattern }) => pattern.test(normalized))?.type ?? 'unknown';
+  return base + '[]'.repeat(dimensions);
+}
+
+// Leading type of a column or argument definition, e.g. "TEXT[]", "DOUBLE PRECISION", "VARCHAR(30)"
+function readType(definition: string): { sqlType: string; rest: string } {
+  const match = definition.match(
+    /^((?:double precision|character varying|timestamp with(?:out)? time zone|\w+)(?:\s*\(\s*\d+(?:\s*,\s*\d+)?\s*\))?(?:\s*\[\])*)(.*)$/is
+  );
+  return match ? { sqlType: match[1], rest: match[2] } : { sqlType: definition, rest: '' };
+}
+
+function parseColumn(definition: string): ColumnDef {
+  const [, name, remainder] = definition.match(/^"?(\w+)"?\s+(.*)$/s) || [];
+  const { sqlType, rest } = readType(remainder || '');
+  const upper = rest.toUpperCase();
+  const primaryKey = /\bPRIMARY KEY\b/.test(upper);
+  const checkIn = rest.match(new RegExp(`CHECK\\s*\\(\\s*${name}\\s+IN\\s*\\(([^)]*)\\)\\s*\\)`, 'i'));
+  const reference = rest.match(/REFERENCES\s+(?:(\w+)\.)?(\w+)\s*\(\s*(\w+)\s*\)/i);
+
+  let type = sqlTypeToTs(sqlType);
+  if (checkIn && type === 'string') {
+    type = checkIn[1].split(',').map((value) => value.trim()).join(' | ');
+  }
+
+  return {
+    name,
+    type,
+    nullable: !primaryKey && !/\bNOT NULL\b/.test(upper),
+    hasDefault: /\bDEFAULT\b/.test(upper),
+    unique: primaryKey || /\bUNIQUE\b/.test(upper),
+    // Tables outside `public`, like auth.users, can't be joined through the API
+    references: reference && (!reference[1] || reference[1] === 'public')
+      ? { table: reference[2], column: reference[3] }
+      : null,
+  };
+}
+
+function parseCreateTable(body: string): ColumnDef[] {
+  const columns: ColumnDef[] = [];
+  splitTopLevel(body).forEach((item) => {
+    const primaryKey = item.match(/^(?:CONSTRAINT\s+\w+\s+)?PRIMARY KEY\s*\(([^)]*)\)/i);
+    if (primaryKey) {
+      const keys = primaryKey[1].split(',').map((key) => key.trim());
+      columns
+        .filter((column) => keys.includes(column.name))
+        .forEach((column) => {
+          column.nullable = false;
+          column.unique ||= keys.length === 1;
+        });
+      return;
+    }
+    if (/^(CONSTRAINT|UNIQUE|CHECK|FOREIGN KEY|EXCLUDE)\b/i.test(item)) return;
+    columns.push(parseColumn(item));
+  });
+  return columns;
+}
+
+function parseFunctionArgs(list: string): FunctionArg[] {
+  return splitTopLevel(list)
+    .filter(Boolean)
+    .map((arg) => arg.replace(/^(IN|INOUT|VARIADIC)\s+/i, ''))
+    .map((arg) => {
+      const [, name, remainder] = arg.match(/^(\w+)\s+(.*)$/s) || [];
+      const { sqlType, rest } = readType(remainder || '');
+      const defaultValue = rest.match(/\b(?:DEFAULT|=)\s*(.*)$/is)?.[1].trim();
+      return {
+        name,
+        type: sqlTypeToTs(sqlType),
+        hasDefault: defaultValue !== undefined,
+        defaultsToNull: /^NULL$/i.test(defaultValue || ''),
+      };
+    });
+}
+
+function parseReturns(statement: string, afterArgs: number): string | null {
+  const returns = statement.slice(afterArgs).match(/^\s*RETURNS\s+/i);
+  if (!returns) return null;
+  const start = afterArgs + returns[0].length;
+  const rest = statement.slice(start);
+
+  if (/^TABLE\s*\(/i.test(rest)) {
+    const columns = splitTopLevel(balancedParens(statement, statement.indexOf('(', start))).map(parseColumn);
+    return `${block(columns.map((column) => `${column.name}: ${column.type};`))}[]`;
+  }
+
+  const setOf = rest.match(/^SETOF\s+(?:public\.)?(\w+)/i);
+  if (setOf) return `Database['public']['Tables']['${setOf[1]}']['Row'][]`;
+
+  const { sqlType } = readType(rest.split(/\s+(?:AS|LANGUAGE)\b/i)[0].trim());
+  if (/^trigger$/i.test(sqlType)) return null;
+  if (/^void$/i.test(sqlType)) return 'undefined';
+  return sqlTypeToTs(sqlType);
+}
+
+/**
+ * Builds the schema from SQL sources in order. The first source is taken as the full schema;
+ * later ones (migrations for existing databases) only add tables, columns and functions it lacks
+ */
+export function parseSql(sources: string[]): SqlSchema {
+  const schema: SqlSchema = { tables: new Map(), functions: new Map() };
+
+  sources.flatMap(splitStatements).forEach((raw) => {
+    const statement = raw.replace(/\s+/g, ' ');
+
+    const createTable = statement.match(/^CREATE TABLE (?:IF NOT EXISTS )?(?:public\.)?(\w+) ?\(/i);
+    if (createTable) {
+      if (!schema.tables.has(createTable[1])) {
+        const body = balancedParens(statement, createTable[0].length - 1);
+        schema.tables.set(createTable[1], { name: createTable[1], columns: parseCreateTable(body) });
+      }
+      return;
+    }
+
+    const dropTable = statement.match(/^DROP TABLE (?:IF EXISTS )?(?:public\.)?(\w+)/i);
+    if (dropTable) {
+      schema.tables.delete(dropTable[1]);
+      return;
+    }
+
+    const alterTable = statement.match(/^ALTER TABLE (?:ONLY )?(?:IF EXISTS )?(?:public\.)?(\w+) (.*)$/i);
+    if (alterTable) {
+      const table = schema.tables.get(alterTable[1]);
+      if (!table) return;
+      splitTopLevel(alterTable[2]).forEach((action) => {
+        const add = action.match(/^ADD COLUMN (?:IF NOT EXISTS )?(.*)$/i);
+        if (add) {
+          const column = parseColumn(add[1]);
+          if (!table.columns.some((existing) => existing.name === column.name)) table.columns.push(column);
+        }
+        const drop = action.match(/^DROP COLUMN (?:IF EXISTS )?"?(\w+)"?/i);
+        if (drop) table.columns = table.columns.filter((column) => column.name !== drop[1]);
+      });
+      return;
+    }
+
+    const createFunction = statement.match(/^CREATE (?:OR REPLACE )?FUNCTION (?:public\.)?(\w+) ?\(/i);
+    if (createFunction && !schema.functions.has(createFunction[1])) {
+      const argsStart = createFunction[0].length - 1;
+      const args = balancedParens(statement, argsStart);
+      const returns = parseReturns(statement, argsStart + args.length + 2);
+      if (returns) {
+        schema.functions.set(createFunction[1], { name: createFunction[1], args: parseFunctionArgs(args), returns });
+      }
+    }
+  });
+
+  return schema;
+}
+
+// schema.sql first, then the migrations in order
+export function readSchemaSources(dir: string): string[] {
+  return [
+    fs.readFileSync(path.join(dir, 'schema.sql'), 'utf8'),
+    ...readMigrations(path.join(dir, 'migrations')).map((migration) => migration.up),
+  ];
+}
+
+const indent = (text: string, depth: number) =>
+  text
+    .split('\n')
+    .map((line) => (line ? '  '.repeat(depth) + line : line))
+    .join('\n');
+
+const block = (entries: string[]) => (entries.length ? `{\n${indent(entries.join('\n'), 1)}\n}` : '{ [_ in never]: never }');
+
+function renderTable(table: TableDef, schema: SqlSchema): string {
+  const row = table.columns.map((c) => `${c.name}: ${c.type}${c.nullable ? ' | null' : ''};`);
+  const insert = table.columns.map(
+    (c) => `${c.name}${c.nullable || c.hasDefault ? '?' : ''}: ${c.type}${c.nullable ? ' | null' : ''};`
+  );
+  const update = table.columns.map((c) => `${c.name}?: ${c.type}${c.nullable ? ' | null' : ''};`);
+  const relationships = table.columns
+    .filter((c) => c.references && schema.tables.has(c.references.table))
+    .map((c) =>
+      [
+        '{',
+        `  foreignKeyName: '${table.name}_${c.name}_fkey';`,
+        `  columns: ['${c.name}'];`,
+        `  isOneToOne: ${c.unique};`,
+        `  referencedRelation: '${c.references!.table}';`,
+        `  referencedColumns: ['${c.references!.column}'];`,
+        '},',
+      ].join('\n')
+    );
+
+  return [
+    `${table.name}: {`,
+    indent(`Row: ${block(row)};`, 1),
+    indent(`Insert: ${block(insert)};`, 1),
+    indent(`Update: ${block(update)};`, 1),
+    indent(relationships.length ? `Relationships: [\n${indent(relationships.join('\n'), 1)}\n];` : 'Relationships: [];', 1),
+    '};',
+  ].join('\n');
+}
+
+function renderFunction(fn: FunctionDef): string {
+  const args = fn.args.map(
+    (arg) => `${arg.name}${arg.hasDefault ? '?' : ''}: ${arg.type}${arg.defaultsToNull ? ' | null' : ''};`
+  );
+  return [`${fn.name}: {`, indent(`Args: ${block(args)};`, 1), indent(`Returns: ${fn.returns};`, 1), '};'].join('\n');
+}
+
+export function renderDatabaseTypes(schema: SqlSchema): string {
+  const byName = <T extends { name: string }>(items: Iterable<T>) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+  const tables = byName(schema.tables.values()).map((table) => renderTable(table, schema));
+  const functions = byName(schema.functions.values()).map(renderFunction);
+
+  return `/**
+ * Generated from supabase/schema.sql and supabase/migrations by scripts/generate-db-types.ts.
+ * Don't edit by hand; change the SQL and run \`npm run db:types\`
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: ${indent(block(tables), 2).trimStart()};
+    Views: { [_ in never]: never };
+    Functions: ${indent(block(functions), 2).trimStart()};
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+};
+
+type PublicTables = Database['public']['Tables'];
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row'];
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update'];
+`;
+}
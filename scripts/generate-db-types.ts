@@ -0,0 +1,11 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSql, readSchemaSources, renderDatabaseTypes } from './dbTypes';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const output = path.join(root, 'src/lib/database.types.ts');
+
+const schema = parseSql(readSchemaSources(path.join(root, 'supabase')));
+fs.writeFileSync(output, renderDatabaseTypes(schema));
+
+console.log(`✅ Wrote ${schema.tables.size} tables and ${schema.functions.size} functions to ${path.relative(root, output)}`);
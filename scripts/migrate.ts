@@ -0,0 +1,94 @@
+import * as path from 'path';
+import pg from 'pg';
+import {
+  changedMigrations,
+  ensureMigrationsTable,
+  fetchAppliedMigrations,
+  planMigrations,
+  readMigrations,
+  recordMigration,
+  runMigration,
+} from './migrations';
+
+const USAGE = `Usage: npm run migrate -- <command> [--to <version>] [--dry-run]
+
+Commands:
+  up        Apply pending migrations (up to --to)
+  down      Roll back the newest migration (or every migration newer than --to)
+  status    List migrations and whether they have been applied
+  baseline  Mark migrations (up to --to) as applied without running them, for a database
+            set up by hand from supabase/schema.sql or the old SQL scripts`;
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const migrationsDir = path.join(root, 'supabase/migrations');
+
+const [command = 'up', ...flags] = process.argv.slice(2);
+const dryRun = flags.includes('--dry-run');
+const toIndex = flags.indexOf('--to');
+const to = toIndex >= 0 ? flags[toIndex + 1] : undefined;
+
+const databaseUrl = process.env.DATABASE_URL || '';
+
+if (!['up', 'down', 'status', 'baseline'].includes(command) || (toIndex >= 0 && !to)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+if (!databaseUrl) {
+  console.error('Please set DATABASE_URL (Supabase: Project Settings → Database → Connection string)');
+  process.exit(1);
+}
+
+async function migrate() {
+  const migrations = readMigrations(migrationsDir);
+  const client = new pg.Client({ connectionString: databaseUrl });
+  await client.connect();
+
+  try {
+    const applied = await fetchAppliedMigrations(client);
+
+    changedMigrations(migrations, applied).forEach((migration) => {
+      console.warn(`⚠️  ${migration.version}_${migration.name} has been edited since it was applied`);
+    });
+
+    if (command === 'status') {
+      migrations.forEach((migration) => {
+        const entry = applied.find((a) => Number(a.version) === Number(migration.version));
+        const state = entry ? `applied ${entry.applied_at.toISOString()}` : 'pending';
+        console.log(`${migration.version}_${migration.name}: ${state}`);
+      });
+      return;
+    }
+
+    const plan = planMigrations(migrations, applied, command === 'down' ? 'down' : 'up', { to });
+    if (plan.length === 0) {
+      console.log(command === 'down' ? 'Nothing to roll back' : 'Database is up to date');
+      return;
+    }
+
+    const verb = command === 'up' ? 'Applying' : command === 'down' ? 'Rolling back' : 'Marking as applied';
+    if (dryRun) {
+      console.log(`${verb} (dry run, nothing is changed):`);
+      plan.forEach((migration) => console.log(`  ${migration.version}_${migration.name}`));
+      return;
+    }
+
+    await ensureMigrationsTable(client);
+    for (const migration of plan) {
+      console.log(`${verb} ${migration.version}_${migration.name}...`);
+      if (command === 'baseline') {
+        await recordMigration(client, migration);
+      } else {
+        await runMigration(client, migration, command === 'down' ? 'down' : 'up');
+      }
+    }
+    console.log(`✅ ${plan.length} migration${plan.length !== 1 ? 's' : ''} done`);
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+/**
+ * Numbered SQL migrations from supabase/migrations, applied in order and recorded in the
+ * schema_migrations table. `0005_name.sql` moves the schema forward and an optional
+ * `0005_name.down.sql` next to it undoes it
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export type Direction = 'up' | 'down';
+
+// What the runner needs from a database connection; a pg Client fits. Rows are typed by the caller
+export interface Queryable {
+  query<Row extends object = Record<string, unknown>>(text: string, values?: unknown[]): Promise<{ rows: Row[] }>;
+}
+
+export const MIGRATIONS_TABLE = 'schema_migrations';
+
+const FILE_PATTERN = /^(\d+)_(\w+?)(\.down)?\.sql$/;
+
+const checksum = (sql: string) => createHash('sha256').update(sql).digest('hex');
+
+const byVersion = (a: { version: string }, b: { version: string }) => Number(a.version) - Number(b.version);
+
+/**
+ * Reads the migrations in a folder, oldest first. Every file has to follow the naming scheme,
+ * and a version can only be used once, so a typo can't quietly skip a migration
+ */
+export function readMigrations(dir: string): Migration[] {
+  const migrations = new Map<string, Migration>();
+  const downs = new Map<string, string>();
+
+  for (const file of fs.readdirSync(dir).filter((file) => file.endsWith('.sql'))) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) throw new Error(`Migration ${file} isn't named like 0001_description.sql`);
+
+    const [, version, name, down] = match;
+    const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+    if (down) {
+      downs.set(version, sql);
+      continue;
+    }
+
+    const existing = [...migrations.values()].find((migration) => Number(migration.version) === Number(version));
+    if (existing) throw new Error(`Migrations ${existing.version}_${existing.name} and ${version}_${name} share a version`);
+    migrations.set(version, { version, name, up: sql, down: null, checksum: checksum(sql) });
+  }
+
+  downs.forEach((sql, version) => {
+    const migration = migrations.get(version);
+    if (!migration) throw new Error(`Down migration ${version} has no matching up migration`);
+    migration.down = sql;
+  });
+
+  return [...migrations.values()].sort(byVersion);
+}
+
+/**
+ * The migrations to run, in the order to run them. Going up applies everything pending up to
+ * `to`; going down rolls back the newest migration, or everything newer than `to`
+ */
+export function planMigrations(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+  direction: Direction,
+  { to }: { to?: string } = {}
+): Migration[] {
+  const appliedVersions = new Set(applied.map((migration) => Number(migration.version)));
+  const target = to === undefined ? null : Number(to);
+  if (target !== null && !Number.isInteger(target)) throw new Error(`"${to}" isn't a migration version`);
+
+  if (direction === 'up') {
+    const pending = migrations.filter(
+      (migration) => !appliedVersions.has(Number(migration.version)) && (target === null || Number(migration.version) <= target)
+    );
+    const newestApplied = Math.max(...appliedVersions);
+    const outOfOrder = pending.find((migration) => Number(migration.version) < newestApplied);
+    if (outOfOrder) {
+      throw new Error(
+        `Migration ${outOfOrder.version}_${outOfOrder.name} is older than the newest applied one; give it a newer version`
+      );
+    }
+    return pending;
+  }
+
+  const toRollBack = [...applied]
+    .sort(byVersion)
+    .reverse()
+    .filter((entry) => target === null || Number(entry.version) > target);
+
+  return (target === null ? toRollBack.slice(0, 1) : toRollBack).map((entry) => {
+    const migration = migrations.find((migration) => Number(migration.version) === Number(entry.version));
+    if (!migration) throw new Error(`Applied migration ${entry.version}_${entry.name} is missing from the folder`);
+    if (migration.down === null) throw new Error(`Migration ${migration.version}_${migration.name} can't be rolled back`);
+    return migration;
+  });
+}
+
+/**
+ * Applied migrations whose file has been edited since they ran
+ */
+export function changedMigrations(migrations: Migration[], applied: AppliedMigration[]): Migration[] {
+  return migrations.filter((migration) =>
+    applied.some((entry) => Number(entry.version) === Number(migration.version) && entry.checksum !== migration.checksum)
+  );
+}
+
+export async function ensureMigrationsTable(db: Queryable) {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+// Empty until the first migration runs, without creating the table (so dry runs change nothing)
+export async function fetchAppliedMigrations(db: Queryable): Promise<AppliedMigration[]> {
+  const { rows } = await db.query<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists', [MIGRATIONS_TABLE]);
+  if (!rows[0]?.exists) return [];
+
+  const { rows: applied } = await db.query<AppliedMigration>(
+    `SELECT version, name, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version::INT`
+  );
+  return applied;
+}
+
+/**
+ * Runs one migration and records it in a single transaction, so a failing migration leaves
+ * neither half its changes nor a record behind
+ */
+export async function runMigration(db: Queryable, migration: Migration, direction: Direction) {
+  await db.query('BEGIN');
+  try {
+    await db.query(direction === 'up' ? migration.up : migration.down!);
+    if (direction === 'up') {
+      await recordMigration(db, migration);
+    } else {
+      await db.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+    }
+    await db.query('COMMIT');
+  } catch (error) {
+    await db.query('ROLLBACK');
+    throw new Error(`Migration ${migration.version}_${migration.name} (${direction}) failed: ${(error as Error).message}`);
+  }
+}
+
+// Marks a migration as applied without running it, for databases set up by hand
+export async function recordMigration(db: Queryable, migration: Migration) {
+  await db.query(`INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`, [
+    migration.version,
+    migration.name,
+    migration.checksum,
+  ]);
+}
@@ -0,0 +1,231 @@
+/**
+ * Read-only JSON API for farms (v1), as a plain Request -> Response function so it runs the same
+ * in a Cloudflare Worker, the local Node server and tests. See docs/PUBLIC_API.md
+ */
+
+import { FARM_CATEGORIES, getCategoryFromSlug, getCategorySlug } from '../../src/lib/farmCategories';
+import { parseMinecraftVersion } from '../../src/lib/minecraftVersions';
+import { API_SORTS, ApiSort, FarmQuery, FarmSource } from './sources';
+import { toApiFarm } from './serialize';
+
+export const API_VERSION = 'v1';
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+export interface FarmsApiOptions {
+  // Public site root, used for each farm's `url`
+  siteUrl?: string;
+  // Seconds clients and CDNs may cache a response
+  maxAge?: number;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+// A problem with the request itself, answered with its status instead of a 500
+class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function computeETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+// If-None-Match may list several tags, weak or strong; either form of ours counts as a match
+function matchesETag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some((tag) => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+function parsePositiveInt(value: string | null, name: string, fallback: number, max = Infinity): number {
+  if (value === null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new ApiError(400, max === Infinity ? `${name} must be a whole number of at least 1` : `${name} must be between 1 and ${max}`);
+  }
+  return number;
+}
+
+function parseSort(value: string | null, fallback: ApiSort): ApiSort {
+  if (!value) return fallback;
+  if (!(API_SORTS as readonly string[]).includes(value)) {
+    throw new ApiError(400, `sort must be one of: ${API_SORTS.join(', ')}`);
+  }
+  return value as ApiSort;
+}
+
+// Categories are accepted by slug ("iron-farm") or by name ("Iron Farm")
+function resolveCategory(value: string, status = 400): string {
+  const category = getCategoryFromSlug(value) || FARM_CATEGORIES.find((name) => name.toLowerCase() === value.toLowerCase());
+  if (!category) {
+    throw new ApiError(status, `Unknown category "${value}"`);
+  }
+  return category;
+}
+
+/**
+ * Reads the shared list parameters; `fixed` holds filters that come from the path instead
+ */
+function parseListQuery(params: URLSearchParams, fixed: Partial<FarmQuery> = {}, defaultSort: ApiSort = 'newest') {
+  const page = parsePositiveInt(params.get('page'), 'page', 1);
+  const perPage = parsePositiveInt(params.get('per_page'), 'per_page', DEFAULT_PER_PAGE, MAX_PER_PAGE);
+  const text = params.get('q')?.trim() || undefined;
+
+  const categoryText = params.get('category')?.trim();
+  const versionText = params.get('version')?.trim();
+  const version = versionText ? parseMinecraftVersion(versionText) : null;
+  if (versionText && !version) {
+    throw new ApiError(400, `"${versionText}" isn't a Minecraft version (try "1.21" or "Java 1.20.4")`);
+  }
+
+  const query: FarmQuery = {
+    query: text,
+    platform: params.get('platform')?.trim() || undefined,
+    category: categoryText ? resolveCategory(categoryText) : undefined,
+    item: params.get('item')?.trim() || undefined,
+    tag: params.get('tag')?.trim() || undefined,
+    version,
+    sort: parseSort(params.get('sort'), text ? 'relevance' : defaultSort),
+    limit: perPage,
+    offset: (page - 1) * perPage,
+    ...fixed,
+  };
+  return { query, page, perPage };
+}
+
+export function createFarmsApiHandler(source: FarmSource, options: FarmsApiOptions = {}) {
+  const { siteUrl, maxAge = 60 } = options;
+
+  const listFarms = async (url: URL, fixed: Partial<FarmQuery> = {}, defaultSort?: ApiSort) => {
+    const { query, page, perPage } = parseListQuery(url.searchParams, fixed, defaultSort);
+    const { farms, total } = await source.searchFarms(query);
+    const totalPages = Math.ceil(total / perPage);
+
+    const linkTo = (targetPage: number) => {
+      const target = new URL(url);
+      target.searchParams.set('page', String(targetPage));
+      return target.toString();
+    };
+
+    return {
+      data: farms.map((farm) => toApiFarm(farm, siteUrl)),
+      pagination: { page, per_page: perPage, total, total_pages: totalPages },
+      links: {
+        self: url.toString(),
+        next: page < totalPages ? linkTo(page + 1) : null,
+        prev: page > 1 ? linkTo(Math.min(page - 1, Math.max(totalPages, 1))) : null,
+      },
+    };
+  };
+
+  const route = async (url: URL): Promise<unknown> => {
+    const prefix = `/${API_VERSION}`;
+    if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+      throw new ApiError(404, `Not found; the API lives under /${API_VERSION}`);
+    }
+    const segments = url.pathname
+      .slice(prefix.length)
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => {
+        try {
+          return decodeURIComponent(segment);
+        } catch {
+          throw new ApiError(400, `Malformed path segment "${segment}"`);
+        }
+      });
+
+    const [resource, key, sub] = segments;
+
+    if (segments.length === 0) {
+      return {
+        version: API_VERSION,
+        endpoints: [
+          `${prefix}/farms`,
+          `${prefix}/farms/{slug}`,
+          `${prefix}/search?q={text}`,
+          `${prefix}/categories`,
+          `${prefix}/categories/{slug}/farms`,
+          `${prefix}/items/{item}/farms`,
+        ],
+      };
+    }
+
+    if (resource === 'farms' && segments.length === 1) {
+      return listFarms(url);
+    }
+
+    if (resource === 'farms' && segments.length === 2) {
+      const farm = await source.getFarmBySlug(key);
+      if (!farm) throw new ApiError(404, `No public farm with slug "${key}"`);
+      return { data: toApiFarm(farm, siteUrl) };
+    }
+
+    if (resource === 'search' && segments.length === 1) {
+      if (!url.searchParams.get('q')?.trim()) throw new ApiError(400, 'q is required');
+      return listFarms(url);
+    }
+
+    if (resource === 'categories' && segments.length === 1) {
+      return { data: FARM_CATEGORIES.map((name) => ({ name, slug: getCategorySlug(name) })) };
+    }
+
+    if (resource === 'categories' && sub === 'farms' && segments.length === 3) {
+      return listFarms(url, { category: resolveCategory(key, 404) });
+    }
+
+    if (resource === 'items' && sub === 'farms' && segments.length === 3) {
+      // Fastest producers first unless the caller asks otherwise
+      return listFarms(url, { item: key }, 'throughput');
+    }
+
+    throw new ApiError(404, `Unknown endpoint ${url.pathname}`);
+  };
+
+  return async function handleRequest(request: Request): Promise<Response> {
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { headers: CORS_HEADERS });
+    }
+
+    const json = (status: number, body: string, extra: Record<string, string> = {}) =>
+      new Response(request.method === 'HEAD' ? null : body, {
+        status,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8', ...extra },
+      });
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return json(405, JSON.stringify({ error: 'This API is read-only' }), { Allow: 'GET, HEAD, OPTIONS' });
+    }
+
+    let payload: unknown;
+    try {
+      payload = await route(new URL(request.url));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return json(error.status, JSON.stringify({ error: error.message }));
+      }
+      console.error('Error handling API request:', error);
+      return json(502, JSON.stringify({ error: 'Farms are unavailable right now' }));
+    }
+
+    const body = JSON.stringify(payload);
+    const etag = await computeETag(body);
+    const cacheHeaders = { ETag: etag, 'Cache-Control': `public, max-age=${maxAge}` };
+
+    if (matchesETag(request.headers.get('If-None-Match'), etag)) {
+      return new Response(null, { status: 304, headers: { ...CORS_HEADERS, ...cacheHeaders } });
+    }
+    return json(200, body, cacheHeaders);
+  };
+}
@@ -0,0 +1,27 @@
+// Cloudflare Worker serving the public farms API (docs/PUBLIC_API.md)
+// Set SUPABASE_URL and SUPABASE_ANON_KEY as worker variables, and SITE_URL for links to farm pages
+
+import { createFarmsApiHandler } from './handler';
+import { createSupabaseSource } from './sources';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_ANON_KEY: string;
+  SITE_URL?: string;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const handleRequest = createFarmsApiHandler(
+      createSupabaseSource({ url: env.SUPABASE_URL, anonKey: env.SUPABASE_ANON_KEY }),
+      { siteUrl: env.SITE_URL }
+    );
+    return handleRequest(request);
+  },
+};
+
+// To deploy:
+// 1. Install Wrangler: npm i -g wrangler
+// 2. Login: wrangler login
+// 3. Set variables: wrangler secret put SUPABASE_ANON_KEY (and SUPABASE_URL, SITE_URL)
+// 4. Deploy: wrangler deploy serverless/farms-api/index.ts --name minecraft-farms-api
@@ -0,0 +1,43 @@
+// Runs the farms API on http://localhost:8787 for local development
+//   npm run api                   serves the demo farms, no network needed
+//   npm run api -- farms.json     serves farm rows from a JSON file (e.g. a Supabase export)
+// With VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY set and no file given, it reads the real database
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { mockFarms } from '../../src/lib/demoData';
+import { createFarmsApiHandler } from './handler';
+import { FarmSource, createMemorySource, createSupabaseSource } from './sources';
+
+const port = Number(process.env.PORT) || 8787;
+const file = process.argv[2];
+const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY || '';
+
+let source: FarmSource;
+if (file) {
+  source = createMemorySource(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  console.log(`Serving farms from ${file}`);
+} else if (supabaseUrl && supabaseAnonKey) {
+  source = createSupabaseSource({ url: supabaseUrl, anonKey: supabaseAnonKey });
+  console.log(`Serving farms from ${supabaseUrl}`);
+} else {
+  source = createMemorySource(mockFarms);
+  console.log('Serving the demo farms');
+}
+
+const handleRequest = createFarmsApiHandler(source, { siteUrl: process.env.SITE_URL || 'http://localhost:5173' });
+
+http
+  .createServer(async (req, res) => {
+    const request = new Request(`http://localhost:${port}${req.url}`, {
+      method: req.method,
+      headers: req.headers as Record<string, string>,
+    });
+    const response = await handleRequest(request);
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(await response.text());
+  })
+  .listen(port, () => {
+    console.log(`Farms API listening on http://localhost:${port}/v1`);
+  });
@@ -0,0 +1,105 @@
+/**
+ * The public shape of a farm. Field names here are part of the v1 contract and must not follow
+ * renames in the database; add new fields rather than changing existing ones
+ */
+
+import { DropRateConditions, normalizeDropRate } from '../../src/lib/dropRates';
+import type { Farm, Material } from '../../src/lib/farm';
+
+export interface ApiMaterial {
+  item: string;
+  count: number;
+}
+
+export interface ApiDropRate {
+  item: string;
+  // What the uploader wrote, e.g. "~2.4k/h AFK"
+  rate_text: string;
+  items_per_hour: number | null;
+  conditions: DropRateConditions;
+}
+
+export interface ApiFarm {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  url: string | null;
+  category: string | null;
+  platforms: string[];
+  versions: string[];
+  verified_versions: string[];
+  tags: string[];
+  farmable_items: string[];
+  materials: ApiMaterial[];
+  optional_materials: ApiMaterial[];
+  drop_rates: ApiDropRate[];
+  build_time_minutes: number | null;
+  required_biome: string | null;
+  chunk_requirements: string | null;
+  height_requirements: string | null;
+  notes: string | null;
+  designer: string | null;
+  video_url: string | null;
+  schematic_url: string | null;
+  schematic_format: string | null;
+  preview_image_url: string | null;
+  image_urls: string[];
+  upvotes: number;
+  author: { username: string; avatar_url: string | null } | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const textOrNull = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value : null);
+
+function toApiMaterials(materials: Material[]): ApiMaterial[] {
+  return materials.map((m) => ({ item: m.name, count: m.count }));
+}
+
+/**
+ * Converts a farm (optionally joined with its author under `users`) to the API shape
+ * `siteUrl` is the public site root used to build links to farm pages
+ */
+export function toApiFarm(row: Farm, siteUrl?: string): ApiFarm {
+  const platforms = row.platform;
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description || '',
+    url: siteUrl ? `${siteUrl.replace(/\/$/, '')}/farms/${platforms[0] || 'java'}/${row.slug}` : null,
+    category: textOrNull(row.category),
+    platforms,
+    versions: row.versions,
+    verified_versions: row.verified_versions,
+    tags: row.tags,
+    farmable_items: row.farmable_items,
+    materials: toApiMaterials(row.materials),
+    optional_materials: toApiMaterials(row.optional_materials),
+    drop_rates: row.drop_rate_per_hour.map((entry) => {
+      const dropRate = normalizeDropRate(entry);
+      return {
+        item: dropRate.item,
+        rate_text: dropRate.rate,
+        items_per_hour: dropRate.items_per_hour ?? null,
+        conditions: dropRate.conditions || {},
+      };
+    }),
+    build_time_minutes: typeof row.estimated_time === 'number' ? row.estimated_time : null,
+    required_biome: textOrNull(row.required_biome),
+    chunk_requirements: textOrNull(row.chunk_requirements),
+    height_requirements: textOrNull(row.height_requirements),
+    notes: textOrNull(row.notes),
+    designer: textOrNull(row.farm_designer),
+    video_url: textOrNull(row.video_url),
+    schematic_url: textOrNull(row.schematic_url),
+    schematic_format: textOrNull(row.schematic_format),
+    preview_image_url: textOrNull(row.preview_image),
+    image_urls: row.images,
+    upvotes: row.upvotes_count || 0,
+    author: row.users?.username ? { username: row.users.username, avatar_url: row.users.avatar_url || null } : null,
+    created_at: row.created_at || '',
+    updated_at: row.updated_at || null,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Where the API reads farms from: Supabase over plain HTTP (so the worker needs no client library)
+ * or an in-memory list for running and testing locally without a network
+ */
+
+import { MinecraftVersion, isFarmCompatible } from '../../src/lib/minecraftVersions';
+import { getMaxItemsPerHour } from '../../src/lib/dropRates';
+import { getEfficiencyScore } from '../../src/lib/efficiency';
+import { Farm, parseFarm } from '../../src/lib/farm';
+
+// Public sort names; kept separate from search_farms' sort keys so those can change freely
+export const API_SORTS = ['relevance', 'newest', 'oldest', 'popular', 'title', 'throughput', 'efficiency', 'build_time'] as const;
+export type ApiSort = (typeof API_SORTS)[number];
+
+export interface FarmQuery {
+  query?: string;
+  platform?: string;
+  category?: string;
+  item?: string;
+  tag?: string;
+  version?: MinecraftVersion | null;
+  sort: ApiSort;
+  limit: number;
+  offset: number;
+}
+
+export interface FarmPage {
+  // Rows from `farms`, with the author under `users`
+  farms: Farm[];
+  total: number;
+}
+
+export interface FarmSource {
+  searchFarms(query: FarmQuery): Promise<FarmPage>;
+  getFarmBySlug(slug: string): Promise<Farm | null>;
+}
+
+const RPC_SORTS: Record<ApiSort, string> = {
+  relevance: 'relevance',
+  newest: 'newest',
+  oldest: 'oldest',
+  popular: 'upvotes',
+  title: 'title',
+  throughput: 'drop_rate_desc',
+  efficiency: 'efficiency_desc',
+  build_time: 'build_time_asc',
+};
+
+interface SupabaseSourceOptions {
+  url: string;
+  anonKey: string;
+  // Injectable so the source can be exercised without a network
+  fetch?: typeof fetch;
+}
+
+/**
+ * Reads public farms with the anon key, so row level security applies exactly as it does on the site
+ */
+export function createSupabaseSource({ url, anonKey, fetch: fetchImpl = fetch }: SupabaseSourceOptions): FarmSource {
+  const restUrl = `${url.replace(/\/$/, '')}/rest/v1`;
+  const headers = {
+    apikey: anonKey,
+    Authorization: `Bearer ${anonKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetchImpl(`${restUrl}${path}`, { ...init, headers });
+    if (!response.ok) {
+      throw new Error(`Supabase request failed (${response.status})`);
+    }
+    return response.json();
+  };
+
+  return {
+    async searchFarms(query) {
+      const rows: Array<{ farm: Record<string, unknown>; total_count: number }> = await request('/rpc/search_farms', {
+        method: 'POST',
+        body: JSON.stringify({
+          search_query: query.query || null,
+          filter_platform: query.platform || null,
+          filter_tag: query.tag || null,
+          filter_category: query.category || null,
+          filter_edition: query.version?.edition || null,
+          filter_version: query.version?.parts || null,
+          filter_item: query.item || null,
+          sort_by: RPC_SORTS[query.sort],
+          page_size: query.limit,
+          page_offset: query.offset,
+        }),
+      });
+      return {
+        farms: rows.map((row) => parseFarm(row.farm)),
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
+    },
+
+    async getFarmBySlug(slug) {
+      const params = new URLSearchParams({
+        select: '*,users:author_id(username,avatar_url)',
+        slug: `eq.${slug}`,
+        public: 'eq.true',
+        limit: '1',
+      });
+      const rows: Array<Record<string, unknown>> = await request(`/farms?${params}`);
+      return rows[0] ? parseFarm(rows[0]) : null;
+    },
+  };
+}
+
+const sameText = (a: unknown, b: string) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+const byDate = (farm: Farm) => new Date(farm.created_at || 0).getTime();
+
+const SORTERS: Record<ApiSort, (a: Farm, b: Farm) => number> = {
+  // Plain substring matching has no rank, so relevance falls back to newest
+  relevance: (a, b) => byDate(b) - byDate(a),
+  newest: (a, b) => byDate(b) - byDate(a),
+  oldest: (a, b) => byDate(a) - byDate(b),
+  popular: (a, b) => (b.upvotes_count || 0) - (a.upvotes_count || 0),
+  title: (a, b) => a.title.localeCompare(b.title),
+  throughput: (a, b) => getMaxItemsPerHour(b) - getMaxItemsPerHour(a),
+  efficiency: (a, b) => (getEfficiencyScore(b) ?? -1) - (getEfficiencyScore(a) ?? -1),
+  build_time: (a, b) => (a.estimated_time || Infinity) - (b.estimated_time || Infinity),
+};
+
+function matchesQuery(farm: Farm, text: string): boolean {
+  const haystack = [farm.title, farm.description, ...farm.tags, ...farm.farmable_items]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
+
+/**
+ * Serves a fixed list of farm rows, e.g. a Supabase export or the demo data
+ * Filters mirror search_farms; the text query is a simple all-words match
+ */
+export function createMemorySource(farms: Array<Record<string, any>>): FarmSource {
+  const visible = farms.map(parseFarm).filter((farm) => farm.public !== false);
+
+  return {
+    async searchFarms(query) {
+      const results = visible
+        .filter((farm) => !query.query || matchesQuery(farm, query.query))
+        .filter((farm) => !query.platform || farm.platform.some((p) => sameText(p, query.platform!)))
+        .filter((farm) => !query.category || farm.category === query.category)
+        .filter((farm) => !query.item || farm.farmable_items.some((item) => sameText(item, query.item!)))
+        .filter((farm) => !query.tag || farm.tags.some((tag) => sameText(tag, query.tag!)))
+        .filter((farm) => !query.version || isFarmCompatible(farm, query.version))
+        .sort((a, b) => SORTERS[query.sort](a, b) || byDate(b) - byDate(a));
+
+      return {
+        farms: results.slice(query.offset, query.offset + query.limit),
+        total: results.length,
+      };
+    },
+
+    async getFarmBySlug(slug) {
+      return visible.find((farm) => farm.slug === slug) || null;
+    },
+  };
+}
@@ -7,6 +7,7 @@ import Footer from './components/Footer';
 import DemoBanner from './components/DemoBanner';
 import DonationBox from './components/DonationBox';
 import ScrollToTop from './components/ScrollToTop';
+import CompareBar from './components/CompareBar';
 import Home from './pages/Home';
 import Browse from './pages/Browse';
 import FarmDetail from './pages/FarmDetail';
@@ -18,6 +19,9 @@ import CategoryPage from './pages/CategoryPage';
 import BulkImport from './pages/BulkImport';
 import Admin from './pages/Admin';
 import UserProfile from './pages/UserProfile';
+import Planner from './pages/Planner';
+import ItemSearch from './pages/ItemSearch';
+import Compare from './pages/Compare';
 import { User } from '@supabase/supabase-js';
 import { useGitHubPagesRouting } from './lib/router';
 
@@ -27,11 +31,6 @@ function App() {
   useGitHubPagesRouting(); // Fix GitHub Pages routing
 
   useEffect(() => {
-    if (isDemoMode()) {
-      setLoading(false);
-      return;
-    }
-
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
@@ -67,6 +66,8 @@ function App() {
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/farms" element={<Browse />} />
+          <Route path="/items" element={<ItemSearch />} />
+          <Route path="/compare" element={<Compare />} />
           <Route path="/farms/:platform/:slug" element={<FarmDetail user={user} />} />
           <Route path="/upload" element={<Upload user={user} />} />
           <Route path="/account" element={<Account user={user} />} />
@@ -76,9 +77,11 @@ function App() {
           <Route path="/bulk-import" element={<BulkImport user={user} />} />
           <Route path="/admin" element={<Admin user={user} />} />
           <Route path="/user/:username" element={<UserProfile currentUser={user} />} />
+          <Route path="/planner" element={<Planner user={user} />} />
         </Routes>
       </main>
       <Footer />
+      <CompareBar />
       <DonationBox position="bottom-right" donationUrl="https://ko-fi.com/oscarbrimelow" />
     </div>
   );
@@ -0,0 +1,55 @@
+import { HelpCircle, X } from 'lucide-react';
+import { AmbiguousMaterial } from '../lib/materialParser';
+
+interface AmbiguousMaterialsPromptProps {
+  items: AmbiguousMaterial[];
+  // Called with the chosen item name, or null when the line is skipped
+  onResolve: (item: AmbiguousMaterial, name: string | null) => void;
+}
+
+export default function AmbiguousMaterialsPrompt({ items, onResolve }: AmbiguousMaterialsPromptProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-yellow-50 rounded-lg border-2 border-yellow-200">
+      <div className="flex items-center space-x-2 text-yellow-800 text-sm font-semibold mb-2">
+        <HelpCircle size={16} />
+        <span>
+          Which item did you mean? ({items.length} line{items.length !== 1 ? 's' : ''} to confirm)
+        </span>
+      </div>
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={`${item.line}-${index}`} className="text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-mono text-gray-800">{item.line}</span>
+              <button
+                type="button"
+                onClick={() => onResolve(item, null)}
+                className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600"
+              >
+                <X size={12} />
+                <span>Skip</span>
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {item.candidates.map((candidate) => (
+                <button
+                  key={candidate.name}
+                  type="button"
+                  onClick={() => onResolve(item, candidate.name)}
+                  className="px-3 py-1 bg-white border-2 border-gray-200 rounded-lg hover:border-minecraft-green hover:text-minecraft-green-dark transition-colors"
+                >
+                  {candidate.name}
+                  <span className="ml-1 text-xs text-gray-500">{Math.round(candidate.score * 100)}%</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
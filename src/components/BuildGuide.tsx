@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, ChevronLeft, ChevronRight, Download, Printer } from 'lucide-react';
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import { repos } from '../lib/repos';
+import { Schematic } from '../lib/schematic';
+import { getBuildGuideLayers, renderLayerGrid, generateBuildGuideHtml, openPrintableBuildGuide } from '../lib/buildGuide';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+
+interface BuildGuideProps {
+  schematic: Schematic;
+  farmId: string;
+  farmTitle: string;
+  user: SupabaseUser | null;
+}
+
+export default function BuildGuide({ schematic, farmId, farmTitle, user }: BuildGuideProps) {
+  const layers = useMemo(() => getBuildGuideLayers(schematic), [schematic]);
+  const [current, setCurrent] = useState(0);
+  const [completedLayers, setCompletedLayers] = useState<Set<number>>(new Set());
+
+  const layer = layers[current];
+  const gridImage = useMemo(() => (layer ? renderLayerGrid(schematic, layer.y) : ''), [schematic, layer]);
+
+  useEffect(() => {
+    setCurrent(0);
+  }, [schematic]);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [farmId, user]);
+
+  const fetchProgress = async () => {
+    if (!user) {
+      setCompletedLayers(new Set());
+      return;
+    }
+
+    try {
+      const progress = await repos.progress.get(farmId, user.id);
+      setCompletedLayers(new Set(progress.completed_layers));
+    } catch (error) {
+      console.error('Error fetching build progress:', error);
+    }
+  };
+
+  const handleToggleLayer = async (y: number) => {
+    const updated = new Set(completedLayers);
+    if (updated.has(y)) {
+      updated.delete(y);
+    } else {
+      updated.add(y);
+    }
+    setCompletedLayers(updated);
+
+    if (!user) return;
+
+    try {
+      await repos.progress.save(farmId, user.id, {
+        completed_layers: Array.from(updated).sort((a, b) => a - b),
+      });
+    } catch (error) {
+      console.error('Error saving build progress:', error);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!openPrintableBuildGuide(schematic, farmTitle)) {
+      alert('Please allow pop-ups to open the printable build guide.');
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([generateBuildGuideHtml(schematic, farmTitle)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${farmTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'farm'}-build-guide.html`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (layers.length === 0) {
+    return <p className="text-gray-600">This schematic has no blocks to build.</p>;
+  }
+
+  const completedCount = layers.filter((l) => completedLayers.has(l.y)).length;
+  const progressPercent = Math.round((completedCount / layers.length) * 100);
+
+  return (
+    <div>
+      {/* Progress */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div className="flex-1">
+          <div className="flex justify-between text-sm text-gray-700 mb-1">
+            <span className="font-semibold">
+              {completedCount} of {layers.length} layers built
+            </span>
+            <span>{progressPercent}%</span>
+          </div>
+          <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-minecraft-green transition-all" style={{ width: `${progressPercent}%` }} />
+          </div>
+          {!user && (
+            <p className="text-xs text-gray-500 mt-1">Sign in to save your progress.</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handlePrint}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            <Printer size={18} />
+            <span>Print</span>
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            <Download size={18} />
+            <span>HTML</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Layer Navigation */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setCurrent((prev) => Math.max(0, prev - 1))}
+          disabled={current === 0}
+          className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+          title="Previous layer"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <label className="flex items-center space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={completedLayers.has(layer.y)}
+            onChange={() => handleToggleLayer(layer.y)}
+            className="w-5 h-5 accent-minecraft-green"
+          />
+          <span className="text-lg font-bold text-gray-900">
+            Layer {layer.y + 1} of {schematic.height}
+          </span>
+        </label>
+        <button
+          onClick={() => setCurrent((prev) => Math.min(layers.length - 1, prev + 1))}
+          disabled={current === layers.length - 1}
+          className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+          title="Next layer"
+        >
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="overflow-auto bg-gray-50 rounded-lg border-2 border-gray-200 p-2">
+          {gridImage && (
+            <img
+              src={gridImage}
+              alt={`Layer ${layer.y + 1} top-down view`}
+              className="max-w-full"
+              style={{ imageRendering: 'pixelated' }}
+            />
+          )}
+          <p className="text-xs text-gray-500 mt-1">Top-down view, north is up. Faded cells show the layer below.</p>
+        </div>
+        <div className="space-y-2">
+          {layer.materials.materials.map((material) => (
+            <div key={material.name} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+              <div className="flex items-center space-x-2">
+                <img
+                  src={sanitizeImageUrl(getMinecraftItemIcon(material.name)) || ''}
+                  alt={escapeHtml(material.name)}
+                  className="w-6 h-6 object-contain"
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).style.display = 'none';
+                  }}
+                />
+                <span>{material.name}</span>
+              </div>
+              <span className="font-semibold text-gray-700">{material.count}</span>
+            </div>
+          ))}
+          {layer.materials.unmatched.map((block) => (
+            <div key={block.block} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-600">
+              <span className="font-mono">{block.block}</span>
+              <span className="font-semibold">{block.count}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Layer Checklist */}
+      <div className="mt-6 flex flex-wrap gap-2">
+        {layers.map((l, index) => (
+          <button
+            key={l.y}
+            onClick={() => setCurrent(index)}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm border-2 transition-colors ${
+              index === current
+                ? 'border-minecraft-green bg-minecraft-green/10 text-minecraft-green-dark'
+                : 'border-gray-200 text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {completedLayers.has(l.y) && <CheckCircle size={14} className="text-minecraft-green" />}
+            <span>{l.y + 1}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
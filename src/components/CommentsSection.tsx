@@ -3,38 +3,19 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Send, Edit3, Trash2, Flag, Reply, ThumbsUp, HelpCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Link } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockComments } from '../lib/demoData';
+import { repos, CommentReactions, CommentThread, ReactionType } from '../lib/repos';
 import ReportModal from './ReportModal';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { getMinecraftMobAvatar } from '../lib/avatarUtils';
+import { checkAndAwardBadges } from '../lib/badges';
 
 interface CommentsSectionProps {
   farmId: string;
   user: SupabaseUser | null;
 }
 
-interface Comment {
-  id: string;
-  body: string;
-  user_id: string;
-  parent_comment_id: string | null;
-  created_at: string;
-  edited_at: string | null;
-  users?: {
-    username: string;
-    avatar_url: string | null;
-  };
-  replies?: Comment[];
-  reactions?: {
-    like: number;
-    helpful: number;
-    userReactions?: string[];
-  };
-}
-
 export default function CommentsSection({ farmId, user }: CommentsSectionProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<CommentThread[]>([]);
   const [newComment, setNewComment] = useState('');
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -43,102 +24,26 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
   const [replyText, setReplyText] = useState('');
   const [showReportModal, setShowReportModal] = useState(false);
   const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
-  const [commentReactions, setCommentReactions] = useState<Record<string, { like: number; helpful: number; userReactions: string[] }>>({});
+  const [commentReactions, setCommentReactions] = useState<Record<string, CommentReactions>>({});
 
   useEffect(() => {
     fetchComments();
   }, [farmId]);
 
   const fetchComments = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      const farmComments = mockComments.filter(c => c.farm_id === farmId);
-      const commentsWithReplies = farmComments.map(comment => ({
-        ...comment,
-        replies: [],
-      }));
-      setComments(commentsWithReplies);
-      setLoading(false);
-      return;
-    }
-
     try {
-      const { data, error } = await supabase
-        .from('comments')
-        .select('*, users:user_id(username, avatar_url)')
-        .eq('farm_id', farmId)
-        .is('parent_comment_id', null)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Fetch replies and reactions for each comment
-      const commentsWithReplies = await Promise.all(
-        (data || []).map(async (comment) => {
-          const [repliesResult, reactionsResult] = await Promise.all([
-            supabase
-              .from('comments')
-              .select('*, users:user_id(username, avatar_url)')
-              .eq('parent_comment_id', comment.id)
-              .order('created_at', { ascending: true }),
-            supabase
-              .from('comment_reactions')
-              .select('reaction_type, user_id')
-              .eq('comment_id', comment.id),
-          ]);
-
-          const replies = repliesResult.data || [];
-          const reactions = reactionsResult.data || [];
-
-          // Count reactions
-          const likeCount = reactions.filter(r => r.reaction_type === 'like').length;
-          const helpfulCount = reactions.filter(r => r.reaction_type === 'helpful').length;
-          const userReactions = user
-            ? reactions.filter(r => r.user_id === user.id).map(r => r.reaction_type)
-            : [];
-
-          // Store reactions for this comment
-          setCommentReactions(prev => ({
-            ...prev,
-            [comment.id]: {
-              like: likeCount,
-              helpful: helpfulCount,
-              userReactions,
-            },
-          }));
+      const threads = await repos.comments.listThreads(farmId, user?.id);
 
-          // Fetch reactions for replies
-          const repliesWithReactions = await Promise.all(
-            replies.map(async (reply) => {
-              const { data: replyReactions } = await supabase
-                .from('comment_reactions')
-                .select('reaction_type, user_id')
-                .eq('comment_id', reply.id);
-
-              const replyLikeCount = replyReactions?.filter(r => r.reaction_type === 'like').length || 0;
-              const replyHelpfulCount = replyReactions?.filter(r => r.reaction_type === 'helpful').length || 0;
-              const replyUserReactions = user
-                ? replyReactions?.filter(r => r.user_id === user.id).map(r => r.reaction_type) || []
-                : [];
-
-              setCommentReactions(prev => ({
-                ...prev,
-                [reply.id]: {
-                  like: replyLikeCount,
-                  helpful: replyHelpfulCount,
-                  userReactions: replyUserReactions,
-                },
-              }));
-
-              return reply;
-            })
-          );
-
-          return { ...comment, replies: repliesWithReactions };
-        })
-      );
+      const reactions: Record<string, CommentReactions> = {};
+      threads.forEach((comment) => {
+        reactions[comment.id] = comment.reactions;
+        comment.replies.forEach((reply) => {
+          reactions[reply.id] = reply.reactions;
+        });
+      });
 
-      setComments(commentsWithReplies);
+      setCommentReactions(reactions);
+      setComments(threads);
     } catch (error) {
       console.error('Error fetching comments:', error);
     } finally {
@@ -164,16 +69,13 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
     }
 
     try {
-      const { error } = await supabase
-        .from('comments')
-        .insert({
-          farm_id: farmId,
-          user_id: user.id,
-          body: text.trim(),
-          parent_comment_id: parentId,
-        });
+      await repos.comments.add({
+        farm_id: farmId,
+        user_id: user.id,
+        body: trimmedText,
+        parent_comment_id: parentId,
+      });
 
-      if (error) throw error;
       if (parentId) {
         setReplyText('');
         setReplyingToId(null);
@@ -194,15 +96,7 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
     }
 
     try {
-      const { error } = await supabase
-        .from('comments')
-        .update({
-          body: editText.trim(),
-          edited_at: new Date().toISOString(),
-        })
-        .eq('id', commentId);
-
-      if (error) throw error;
+      await repos.comments.edit(commentId, editText.trim());
       setEditingId(null);
       fetchComments();
     } catch (error) {
@@ -214,12 +108,7 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
     if (!confirm('Are you sure you want to delete this comment?')) return;
 
     try {
-      const { error } = await supabase
-        .from('comments')
-        .delete()
-        .eq('id', commentId);
-
-      if (error) throw error;
+      await repos.comments.delete(commentId);
       fetchComments();
     } catch (error) {
       console.error('Error deleting comment:', error);
@@ -235,7 +124,7 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
     setShowReportModal(true);
   };
 
-  const handleReaction = async (commentId: string, reactionType: 'like' | 'helpful') => {
+  const handleReaction = async (commentId: string, reactionType: ReactionType) => {
     if (!user) {
       alert('Please sign in to react to comments.');
       return;
@@ -245,15 +134,10 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
       const currentReactions = commentReactions[commentId] || { like: 0, helpful: 0, userReactions: [] };
       const hasReaction = currentReactions.userReactions.includes(reactionType);
 
-      if (hasReaction) {
-        // Remove reaction
-        await supabase
-          .from('comment_reactions')
-          .delete()
-          .eq('comment_id', commentId)
-          .eq('user_id', user.id)
-          .eq('reaction_type', reactionType);
+      // Reacting again removes the reaction; a different one replaces it
+      await repos.comments.setReaction(commentId, user.id, hasReaction ? null : reactionType);
 
+      if (hasReaction) {
         setCommentReactions(prev => ({
           ...prev,
           [commentId]: {
@@ -263,25 +147,6 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
           },
         }));
       } else {
-        // Add reaction (remove other reaction type if exists)
-        const otherType = reactionType === 'like' ? 'helpful' : 'like';
-        if (currentReactions.userReactions.includes(otherType)) {
-          await supabase
-            .from('comment_reactions')
-            .delete()
-            .eq('comment_id', commentId)
-            .eq('user_id', user.id)
-            .eq('reaction_type', otherType);
-        }
-
-        await supabase
-          .from('comment_reactions')
-          .insert({
-            comment_id: commentId,
-            user_id: user.id,
-            reaction_type: reactionType,
-          });
-
         setCommentReactions(prev => ({
           ...prev,
           [commentId]: {
@@ -290,6 +155,10 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
             userReactions: [reactionType],
           },
         }));
+
+        // Helpful reactions count towards the comment author's badges
+        const comment = comments.flatMap((thread) => [thread, ...thread.replies]).find((c) => c.id === commentId);
+        if (reactionType === 'helpful' && comment) await checkAndAwardBadges(comment.user_id, repos.users);
       }
     } catch (error) {
       console.error('Error toggling reaction:', error);
@@ -369,7 +238,7 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
                         {comment.users?.username || 'Unknown'}
                       </Link>
                       <span className="text-sm text-gray-500">
-                        {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                        {formatDistanceToNow(new Date(comment.created_at!), { addSuffix: true })}
                       </span>
                       {comment.edited_at && (
                         <span className="text-xs text-gray-400">(edited)</span>
@@ -528,7 +397,7 @@ export default function CommentsSection({ farmId, user }: CommentsSectionProps)
                                   {reply.users?.username || 'Unknown'}
                                 </Link>
                                 <span className="text-xs text-gray-500">
-                                  {formatDistanceToNow(new Date(reply.created_at), { addSuffix: true })}
+                                  {formatDistanceToNow(new Date(reply.created_at!), { addSuffix: true })}
                                 </span>
                                 {reply.edited_at && (
                                   <span className="text-xs text-gray-400">(edited)</span>
@@ -0,0 +1,53 @@
+import { Link, useLocation } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Columns3, X } from 'lucide-react';
+import { MAX_COMPARE_FARMS, MIN_COMPARE_FARMS, clearCompareSelection, getCompareUrl, useCompareSelection } from '../lib/compare';
+
+/**
+ * Floating bar showing how many farms are picked for comparison, with a link to the compare page
+ */
+export default function CompareBar() {
+  const selection = useCompareSelection();
+  const location = useLocation();
+
+  const visible = selection.length > 0 && location.pathname !== '/compare';
+  const canCompare = selection.length >= MIN_COMPARE_FARMS;
+
+  return (
+    <AnimatePresence>
+      {/* framer-motion owns `transform`, so the bar is centred with flex rather than a translate */}
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          className="fixed bottom-4 inset-x-0 z-40 flex justify-center pointer-events-none"
+        >
+          <div className="pointer-events-auto flex items-center gap-3 bg-white rounded-xl shadow-minecraft-lg border-2 border-minecraft-indigo/30 px-4 py-3">
+            <span className="font-semibold text-gray-700 text-sm">
+              {selection.length} of {MAX_COMPARE_FARMS} farms picked
+            </span>
+            {canCompare ? (
+              <Link
+                to={getCompareUrl(selection)}
+                className="flex items-center space-x-2 px-4 py-2 bg-minecraft-indigo text-white rounded-lg hover:bg-minecraft-indigo-dark transition-colors text-sm font-semibold"
+              >
+                <Columns3 size={16} />
+                <span>Compare</span>
+              </Link>
+            ) : (
+              <span className="text-sm text-gray-500">Pick at least {MIN_COMPARE_FARMS}</span>
+            )}
+            <button
+              onClick={clearCompareSelection}
+              title="Clear comparison"
+              className="p-1 text-gray-400 hover:text-red-600"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
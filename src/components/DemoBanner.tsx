@@ -1,25 +1,44 @@
 import { motion } from 'framer-motion';
-import { Info } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Info, RotateCcw } from 'lucide-react';
+import { DEMO_ACCOUNT } from '../lib/demoData';
+import { resetDemoData } from '../lib/repos';
 
 export default function DemoBanner() {
+  const handleReset = async () => {
+    if (!confirm('Reset the demo? Everything you have added, and any accounts you created, will be deleted.')) {
+      return;
+    }
+
+    try {
+      await resetDemoData();
+      window.location.reload();
+    } catch (error) {
+      console.error('Error resetting demo data:', error);
+      alert('Failed to reset the demo data');
+    }
+  };
+
   return (
     <motion.div
       initial={{ y: -100 }}
       animate={{ y: 0 }}
       className="bg-gradient-to-r from-minecraft-gold to-minecraft-gold-dark text-white py-3 px-4 text-center shadow-minecraft-sm"
     >
-      <div className="max-w-7xl mx-auto flex items-center justify-center space-x-2">
+      <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-center gap-2">
         <Info size={20} />
         <span className="font-semibold">
-          🎮 Demo Mode: You're previewing with mock data. 
-          <Link to="/account" className="underline ml-1 hover:text-gray-200">
-            Set up Supabase
-          </Link>
-          {' '}to enable full functionality!
+          🎮 Demo Mode: everything is saved in this browser only. Sign in as{' '}
+          <code className="bg-white/20 px-1 rounded">{DEMO_ACCOUNT.email}</code> /{' '}
+          <code className="bg-white/20 px-1 rounded">{DEMO_ACCOUNT.password}</code> or create an account.
         </span>
+        <button
+          onClick={handleReset}
+          className="inline-flex items-center space-x-1 underline hover:text-gray-200"
+        >
+          <RotateCcw size={16} />
+          <span>Reset demo</span>
+        </button>
       </div>
     </motion.div>
   );
 }
-
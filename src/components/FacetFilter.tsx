@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count?: number;
+}
+
+interface FacetFilterProps {
+  title: string;
+  options: FacetOption[];
+  selected: string | string[];
+  onSelect: (value: string) => void;
+  maxVisible?: number;
+}
+
+/**
+ * Sidebar filter section listing each value with the number of farms it would return
+ */
+export default function FacetFilter({ title, options, selected, onSelect, maxVisible = 6 }: FacetFilterProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  const selectedValues = Array.isArray(selected) ? selected : [selected];
+  // Keep a selected value visible even when it falls outside the collapsed list
+  const visibleOptions = expanded
+    ? options
+    : options.slice(0, maxVisible).concat(
+        options.slice(maxVisible).filter((option) => selectedValues.includes(option.value))
+      );
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-bold text-gray-800 mb-4 text-sm uppercase tracking-wide">{title}</h3>
+      <div className="space-y-2">
+        {visibleOptions.map((option) => {
+          const isSelected = selectedValues.includes(option.value);
+          const isEmpty = option.count === 0 && !isSelected;
+          return (
+            <motion.button
+              key={option.value}
+              onClick={() => onSelect(option.value)}
+              disabled={isEmpty}
+              whileHover={isEmpty ? undefined : { scale: 1.02, x: 4 }}
+              whileTap={isEmpty ? undefined : { scale: 0.98 }}
+              className={`w-full flex items-center justify-between gap-2 text-left px-4 py-2 rounded-xl font-semibold text-sm transition-all shadow-minecraft-sm ${
+                isSelected
+                  ? 'bg-gradient-to-r from-minecraft-green to-minecraft-green-dark text-white shadow-minecraft-lg'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700 hover:shadow-minecraft disabled:opacity-40 disabled:hover:bg-gray-100 disabled:cursor-not-allowed'
+              }`}
+            >
+              <span className="truncate">{option.label}</span>
+              {option.count !== undefined && (
+                <span className={`text-xs font-bold ${isSelected ? 'text-white/80' : 'text-gray-500'}`}>
+                  {option.count}
+                </span>
+              )}
+            </motion.button>
+          );
+        })}
+      </div>
+      {options.length > maxVisible && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="mt-2 text-sm font-semibold text-minecraft-green hover:underline"
+        >
+          {expanded ? 'Show less' : `Show all ${options.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
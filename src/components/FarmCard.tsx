@@ -1,33 +1,26 @@
-import { Link } from 'react-router-dom';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Clock, ThumbsUp, Tag, Video, ArrowRight } from 'lucide-react';
+import { Clock, ThumbsUp, Tag, Video, ArrowRight, ClipboardList, Check, BadgeCheck } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { repos } from '../lib/repos';
+import { getVerifiedLabel } from '../lib/farmTests';
+import { MAX_COMPARE_FARMS, toggleCompareFarm, useCompareSelection } from '../lib/compare';
 import { getMinecraftMobAvatar, getYouTubeThumbnail } from '../lib/avatarUtils';
+import type { Farm } from '../lib/farm';
 
 interface FarmCardProps {
-  farm: {
-    id: string;
-    slug: string;
-    title: string;
-    description: string;
-    platform: string[];
-    versions: string[];
-    preview_image: string | null;
-    upvotes_count: number;
-    created_at: string;
-    tags: string[];
-    video_url: string | null;
-    estimated_time: number | null;
-    author?: {
-      username: string;
-      avatar_url: string | null;
-    };
-    author_id?: string;
-  };
+  farm: Farm;
   index?: number;
 }
 
 export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
+  const [addedToPlanner, setAddedToPlanner] = useState(false);
+  const navigate = useNavigate();
+  const compareSelection = useCompareSelection();
+  const isCompared = compareSelection.includes(farm.id);
+
   const platformColors: Record<string, string> = {
     java: 'bg-blue-500',
     bedrock: 'bg-green-500',
@@ -35,6 +28,34 @@ export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
 
   // Get image source: preview_image, YouTube thumbnail, or null
   const imageSrc = farm.preview_image || getYouTubeThumbnail(farm.video_url);
+  const verifiedLabel = getVerifiedLabel(farm.verified_versions);
+
+  const handleAddToPlanner = async (e: React.MouseEvent) => {
+    // The whole card is a link, so keep the click from navigating to the farm
+    e.preventDefault();
+    e.stopPropagation();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      navigate('/account');
+      return;
+    }
+
+    try {
+      await repos.planner.add(farm.id, session.user.id);
+      setAddedToPlanner(true);
+    } catch (error) {
+      console.error('Error adding farm to planner:', error);
+    }
+  };
+
+  const handleToggleCompare = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!toggleCompareFarm(farm.id)) {
+      alert(`You can compare up to ${MAX_COMPARE_FARMS} farms at a time. Remove one first.`);
+    }
+  };
 
   return (
     <motion.div
@@ -103,6 +124,40 @@ export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
             </motion.div>
           )}
           
+          {/* Planner button */}
+          <motion.button
+            type="button"
+            onClick={handleAddToPlanner}
+            whileHover={{ scale: 1.1 }}
+            title={addedToPlanner ? 'Added to planner' : 'Add to planner'}
+            className={`absolute top-3 left-3 p-2 rounded-lg shadow-minecraft-sm z-20 backdrop-blur-sm ${
+              addedToPlanner ? 'bg-minecraft-green text-white' : 'bg-white/90 text-gray-700 hover:text-minecraft-green-dark'
+            }`}
+          >
+            {addedToPlanner ? <Check size={16} /> : <ClipboardList size={16} />}
+          </motion.button>
+
+          {/* Compare toggle */}
+          <motion.button
+            type="button"
+            role="checkbox"
+            aria-checked={isCompared}
+            onClick={handleToggleCompare}
+            whileHover={{ scale: 1.05 }}
+            className={`absolute top-3 left-14 flex items-center space-x-1.5 px-2.5 py-2 rounded-lg text-xs font-semibold shadow-minecraft-sm z-20 backdrop-blur-sm ${
+              isCompared ? 'bg-minecraft-indigo text-white' : 'bg-white/90 text-gray-700 hover:text-minecraft-indigo'
+            }`}
+          >
+            <span
+              className={`w-3.5 h-3.5 rounded border-2 flex items-center justify-center ${
+                isCompared ? 'border-white bg-white text-minecraft-indigo' : 'border-gray-400'
+              }`}
+            >
+              {isCompared && <Check size={10} strokeWidth={4} />}
+            </span>
+            <span>Compare</span>
+          </motion.button>
+
           {/* Platform badges */}
           <div className="absolute bottom-3 left-3 flex flex-wrap gap-2 z-20">
             {farm.platform.slice(0, 2).map((p, idx) => (
@@ -119,6 +174,15 @@ export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
                 {p}
               </motion.span>
             ))}
+            {verifiedLabel && (
+              <span
+                title={`Community verified: ${farm.verified_versions!.join(', ')}`}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-minecraft-gold shadow-minecraft-sm"
+              >
+                <BadgeCheck size={14} />
+                <span>{verifiedLabel}</span>
+              </span>
+            )}
           </div>
 
           {/* Hover arrow indicator */}
@@ -164,7 +228,7 @@ export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
                 className="flex items-center space-x-1.5 font-semibold"
               >
                 <ThumbsUp size={16} className="text-minecraft-green" />
-                <span>{farm.upvotes_count}</span>
+                <span>{farm.upvotes_count ?? 0}</span>
               </motion.div>
               {farm.estimated_time && (
                 <motion.div
@@ -177,31 +241,31 @@ export default function FarmCard({ farm, index = 0 }: FarmCardProps) {
               )}
             </div>
             <span className="text-xs text-gray-500">
-              {formatDistanceToNow(new Date(farm.created_at), { addSuffix: true })}
+              {formatDistanceToNow(new Date(farm.created_at!), { addSuffix: true })}
             </span>
           </div>
 
           {/* Author */}
-          {farm.author && (
+          {farm.users && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               transition={{ delay: index * 0.05 + 0.2 }}
               className="pt-4 border-t border-gray-200 flex items-center space-x-2"
             >
-              {farm.author.avatar_url ? (
+              {farm.users.avatar_url ? (
                 <motion.img
-                  src={farm.author.avatar_url}
-                  alt={farm.author.username}
+                  src={farm.users.avatar_url}
+                  alt={farm.users.username}
                   className="w-7 h-7 rounded-full object-cover ring-2 ring-minecraft-green/20"
                   whileHover={{ scale: 1.1 }}
                 />
               ) : (
                 <div className="w-7 h-7 rounded-full bg-gradient-to-br from-minecraft-green-light to-minecraft-indigo-light flex items-center justify-center text-lg ring-2 ring-minecraft-green/20">
-                  {getMinecraftMobAvatar((farm as any).author_id || farm.author.username)}
+                  {getMinecraftMobAvatar(farm.author_id || farm.users.username)}
                 </div>
               )}
-              <span className="text-xs text-gray-600 font-medium">by {farm.author.username}</span>
+              <span className="text-xs text-gray-600 font-medium">by {farm.users.username}</span>
             </motion.div>
           )}
         </div>
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import { repos } from '../lib/repos';
+import { FarmRevision, diffFarmSnapshots } from '../lib/farmRevisions';
+import type { Farm } from '../lib/farm';
+
+interface FarmHistoryProps {
+  farm: Farm;
+  user: SupabaseUser | null;
+  onRestored: (farm: Farm) => void;
+}
+
+export default function FarmHistory({ farm, user, onRestored }: FarmHistoryProps) {
+  const [revisions, setRevisions] = useState<FarmRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [farm.id, farm.updated_at]);
+
+  useEffect(() => {
+    if (user) {
+      repos.users
+        .getRole(user.id)
+        .then((role) => setIsAdmin(role === 'admin'))
+        .catch((error) => console.error('Error checking user role:', error));
+    } else {
+      setIsAdmin(false);
+    }
+  }, [user]);
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true);
+      setRevisions(await repos.revisions.list(farm.id));
+    } catch (error) {
+      console.error('Error fetching farm history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (revision: FarmRevision) => {
+    if (!confirm('Restore this version? The current version stays in the history, so you can undo this.')) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    try {
+      const restored = await repos.revisions.restore(farm.id, revision, user?.id);
+      onRestored(restored);
+    } catch (error: any) {
+      console.error('Error restoring farm revision:', error);
+      alert('Failed to restore revision: ' + (error.message || 'Unknown error'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const canRestore = !!user && (user.id === farm.author_id || isAdmin);
+
+  if (loading) {
+    return <p className="text-gray-600">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-gray-600">No edits have been recorded for this farm yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {revisions.map((revision, index) => {
+        const previous = revisions[index + 1];
+        const changes = previous ? diffFarmSnapshots(previous.snapshot, revision.snapshot) : [];
+
+        return (
+          <div key={revision.id} className="p-4 bg-gray-50 rounded-lg border-2 border-gray-200">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+              <div className="flex items-center space-x-2 text-sm text-gray-700">
+                <History size={16} className="text-minecraft-indigo" />
+                <span className="font-semibold">
+                  {index === 0 ? 'Current version' : formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                </span>
+                <span className="text-gray-500">
+                  by {revision.editor?.username || 'unknown'} · {new Date(revision.created_at).toLocaleString()}
+                </span>
+              </div>
+              {canRestore && index > 0 && (
+                <button
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoringId !== null}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm bg-minecraft-indigo text-white rounded-lg hover:bg-minecraft-indigo-dark transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw size={14} />
+                  <span>{restoringId === revision.id ? 'Restoring...' : 'Restore'}</span>
+                </button>
+              )}
+            </div>
+
+            {!previous ? (
+              <p className="text-sm text-gray-600">First recorded version.</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-600">Only the order of items changed.</p>
+            ) : (
+              <div className="space-y-2">
+                {changes.map((change) => (
+                  <div key={change.field} className="text-sm">
+                    <div className="font-semibold text-gray-800">{change.label}</div>
+                    <ul className="font-mono text-xs space-y-0.5">
+                      {change.removed.map((line, i) => (
+                        <li key={`removed-${i}`} className="text-red-700 bg-red-50 px-2 py-0.5 rounded break-words">
+                          − {line}
+                        </li>
+                      ))}
+                      {change.added.map((line, i) => (
+                        <li key={`added-${i}`} className="text-green-700 bg-green-50 px-2 py-0.5 rounded break-words">
+                          + {line}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
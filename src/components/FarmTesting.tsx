@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, AlertTriangle, XCircle, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import { repos } from '../lib/repos';
+import { checkAndAwardBadges } from '../lib/badges';
+import { COMMON_VERSIONS, parseMinecraftVersion } from '../lib/minecraftVersions';
+import {
+  FarmTest,
+  FarmTestResult,
+  TEST_RESULT_LABELS,
+  buildCompatibilityMatrix,
+} from '../lib/farmTests';
+import type { Farm } from '../lib/farm';
+
+interface FarmTestingProps {
+  farm: Farm;
+  user: SupabaseUser | null;
+}
+
+const RESULT_STYLES: Record<FarmTestResult, string> = {
+  works: 'bg-green-100 text-green-800 border-green-300',
+  works_with_issues: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  does_not_work: 'bg-red-100 text-red-800 border-red-300',
+};
+
+export default function FarmTesting({ farm, user }: FarmTestingProps) {
+  const platforms: string[] = farm.platform?.length ? farm.platform : ['Java', 'Bedrock'];
+  const [tests, setTests] = useState<FarmTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<FarmTestResult>('works');
+  const [platform, setPlatform] = useState(platforms[0]);
+  const [version, setVersion] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    fetchTests();
+  }, [farm.id]);
+
+  const fetchTests = async () => {
+    try {
+      setLoading(true);
+      setTests(await repos.farmTests.list(farm.id));
+    } catch (error) {
+      console.error('Error fetching farm tests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const parsed = parseMinecraftVersion(version);
+    if (!parsed) {
+      alert('Please enter the Minecraft version you tested on, e.g. 1.21.3');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await repos.farmTests.submit(farm.id, user.id, {
+        result,
+        platform,
+        version: parsed.parts.join('.'),
+        notes,
+      });
+      setVersion('');
+      setNotes('');
+      await fetchTests();
+      await checkAndAwardBadges(user.id, repos.users);
+    } catch (error: any) {
+      console.error('Error submitting farm test:', error);
+      alert('Failed to submit test result: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (test: FarmTest) => {
+    if (!confirm('Delete your test report?')) return;
+
+    try {
+      await repos.farmTests.delete(test.id);
+      setTests((prev) => prev.filter((t) => t.id !== test.id));
+    } catch (error: any) {
+      console.error('Error deleting farm test:', error);
+      alert('Failed to delete test result: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const matrix = buildCompatibilityMatrix(tests);
+
+  return (
+    <div className="space-y-6">
+      {/* Compatibility matrix */}
+      {loading ? (
+        <p className="text-gray-600">Loading test results...</p>
+      ) : matrix.length === 0 ? (
+        <p className="text-gray-600">Nobody has tested this farm yet. Built it? Let others know which version it works on.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-4">Version</th>
+                <th className="py-2 px-2 text-center">Works</th>
+                <th className="py-2 px-2 text-center">With issues</th>
+                <th className="py-2 px-2 text-center">Doesn't work</th>
+                <th className="py-2 pl-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((row) => (
+                <tr key={`${row.platform}-${row.version}`} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-semibold text-gray-900">
+                    {row.platform} {row.version}
+                  </td>
+                  <td className="py-2 px-2 text-center text-green-700">{row.works}</td>
+                  <td className="py-2 px-2 text-center text-yellow-700">{row.withIssues}</td>
+                  <td className="py-2 px-2 text-center text-red-700">{row.doesNotWork}</td>
+                  <td className="py-2 pl-2">
+                    {row.verified ? (
+                      <span className="inline-flex items-center space-x-1 text-green-700 font-semibold">
+                        <CheckCircle size={16} />
+                        <span>Verified</span>
+                      </span>
+                    ) : row.doesNotWork > 0 && row.works + row.withIssues <= row.doesNotWork ? (
+                      <span className="inline-flex items-center space-x-1 text-red-700 font-semibold">
+                        <XCircle size={16} />
+                        <span>Reported broken</span>
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center space-x-1 text-yellow-700 font-semibold">
+                        <AlertTriangle size={16} />
+                        <span>Mixed</span>
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Submit a test result */}
+      {user ? (
+        <form onSubmit={handleSubmit} className="p-4 bg-gray-50 rounded-lg border-2 border-gray-200 space-y-3">
+          <h3 className="font-semibold text-gray-800">Report your test</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(TEST_RESULT_LABELS) as FarmTestResult[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setResult(value)}
+                className={`px-3 py-1 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  result === value ? RESULT_STYLES[value] : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                {TEST_RESULT_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value)}
+              className="px-4 py-2 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+            >
+              {platforms.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              list="farm-test-versions"
+              placeholder="Version, e.g. 1.21.3"
+              required
+              className="px-4 py-2 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+            />
+            <datalist id="farm-test-versions">
+              {COMMON_VERSIONS.map((v) => (
+                <option key={v} value={v} />
+              ))}
+            </datalist>
+          </div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional): rates you got, changes you had to make..."
+            rows={3}
+            className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-minecraft-green text-white rounded-lg hover:bg-minecraft-green-dark transition-colors font-semibold disabled:opacity-50"
+          >
+            {submitting ? 'Submitting...' : 'Submit Test Result'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-600">
+          <Link to="/account" className="text-minecraft-green-dark font-semibold hover:underline">
+            Sign in
+          </Link>{' '}
+          to report whether this farm works for you.
+        </p>
+      )}
+
+      {/* Individual reports */}
+      {tests.length > 0 && (
+        <div className="space-y-2">
+          {tests.map((test) => (
+            <div key={test.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded border text-xs font-semibold ${RESULT_STYLES[test.test_result]}`}>
+                    {TEST_RESULT_LABELS[test.test_result]}
+                  </span>
+                  <span className="font-semibold text-gray-800">
+                    {test.tested_platform} {test.tested_version}
+                  </span>
+                  <span className="text-gray-500">
+                    by {test.tester?.username || 'unknown'} · {formatDistanceToNow(new Date(test.updated_at), { addSuffix: true })}
+                  </span>
+                </div>
+                {user?.id === test.user_id && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(test)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete your report"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+              {test.test_notes && <p className="mt-1 text-gray-600 whitespace-pre-wrap">{test.test_notes}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page when scrolled into view, with a button as a fallback
+ */
+export default function LoadMoreTrigger({ hasMore, loading, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="mt-8 text-center">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={loading}
+        className="px-6 py-3 bg-minecraft-green text-white rounded-xl font-semibold shadow-minecraft hover:bg-minecraft-green-dark transition-colors disabled:opacity-50"
+      >
+        {loading ? 'Loading more farms...' : 'Load more farms'}
+      </button>
+    </div>
+  );
+}
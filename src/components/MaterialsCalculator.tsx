@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Calculator, RotateCcw } from 'lucide-react';
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import { repos } from '../lib/repos';
+import { getStackBreakdown, formatStacks, SHULKER_BOX_SLOTS } from '../lib/stackSizes';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+import type { Material } from '../lib/farm';
+
+interface MaterialsCalculatorProps {
+  materials: Material[];
+  farmId: string;
+  user: SupabaseUser | null;
+}
+
+export default function MaterialsCalculator({ materials, farmId, user }: MaterialsCalculatorProps) {
+  const [copies, setCopies] = useState(1);
+  const [checkedMaterials, setCheckedMaterials] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchProgress();
+  }, [farmId, user]);
+
+  const fetchProgress = async () => {
+    if (!user) {
+      setCheckedMaterials(new Set());
+      return;
+    }
+
+    try {
+      const progress = await repos.progress.get(farmId, user.id);
+      setCheckedMaterials(new Set(progress.checked_materials));
+    } catch (error) {
+      console.error('Error fetching material progress:', error);
+    }
+  };
+
+  const persistChecked = async (updated: Set<string>) => {
+    setCheckedMaterials(updated);
+    if (!user) return;
+
+    try {
+      await repos.progress.save(farmId, user.id, { checked_materials: Array.from(updated) });
+    } catch (error) {
+      console.error('Error saving material progress:', error);
+    }
+  };
+
+  const handleToggle = (name: string) => {
+    const updated = new Set(checkedMaterials);
+    if (updated.has(name)) {
+      updated.delete(name);
+    } else {
+      updated.add(name);
+    }
+    persistChecked(updated);
+  };
+
+  const rows = materials.map(({ name, count }) => {
+    const total = (count || 1) * copies;
+    return { name, total, breakdown: getStackBreakdown(total, name) };
+  });
+
+  const totalItems = rows.reduce((sum, row) => sum + row.total, 0);
+  const totalSlots = rows.reduce((sum, row) => sum + row.breakdown.slots, 0);
+  const remainingSlots = rows
+    .filter((row) => !checkedMaterials.has(row.name))
+    .reduce((sum, row) => sum + row.breakdown.slots, 0);
+  const checkedCount = rows.filter((row) => checkedMaterials.has(row.name)).length;
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 p-4 bg-gray-50 rounded-lg border-2 border-gray-200">
+        <label className="flex items-center space-x-3">
+          <Calculator className="text-minecraft-green" size={20} />
+          <span className="font-semibold text-gray-700">Build copies</span>
+          <input
+            type="number"
+            min={1}
+            max={999}
+            value={copies}
+            onChange={(e) => setCopies(Math.max(1, Math.min(999, parseInt(e.target.value) || 1)))}
+            className="w-20 px-3 py-1 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+          />
+        </label>
+        <div className="text-sm text-gray-600">
+          {totalItems.toLocaleString()} items · {totalSlots} slots · {Math.ceil(totalSlots / SHULKER_BOX_SLOTS)} shulker box{Math.ceil(totalSlots / SHULKER_BOX_SLOTS) !== 1 ? 'es' : ''}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {rows.map((row, index) => (
+          <label
+            key={index}
+            className={`flex items-center justify-between p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+              checkedMaterials.has(row.name) ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 flex items-center justify-center flex-shrink-0">
+                <img
+                  src={sanitizeImageUrl(getMinecraftItemIcon(row.name)) || ''}
+                  alt={escapeHtml(row.name)}
+                  className="w-10 h-10 object-contain"
+                  onError={(e) => {
+                    // Fallback to emoji if image fails to load
+                    const target = e.target as HTMLImageElement;
+                    target.style.display = 'none';
+                    const fallback = target.nextElementSibling as HTMLElement;
+                    if (fallback) {
+                      fallback.style.display = 'inline';
+                    }
+                  }}
+                />
+                <span className="text-2xl hidden">🧱</span>
+              </div>
+              <div>
+                <div className={`font-semibold ${checkedMaterials.has(row.name) ? 'line-through text-gray-500' : ''}`}>
+                  {row.name}
+                </div>
+                <div className="text-sm text-gray-600">
+                  x{row.total.toLocaleString()}
+                  {row.breakdown.stacks > 0 && ` · ${formatStacks(row.breakdown)}`}
+                </div>
+                {row.breakdown.shulkerBoxes >= 0.5 && (
+                  <div className="text-xs text-gray-500">
+                    {row.breakdown.shulkerBoxes.toFixed(1)} shulker boxes
+                  </div>
+                )}
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={checkedMaterials.has(row.name)}
+              onChange={() => handleToggle(row.name)}
+              className="w-5 h-5 text-minecraft-green rounded focus:ring-minecraft-green cursor-pointer"
+            />
+          </label>
+        ))}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm text-gray-600">
+          <span>
+            {checkedCount} of {rows.length} gathered · {remainingSlots} slots still needed
+            {!user && ' · Sign in to save your checklist'}
+          </span>
+          {checkedCount > 0 && (
+            <button
+              onClick={() => persistChecked(new Set())}
+              className="flex items-center space-x-1 text-gray-600 hover:text-red-600"
+            >
+              <RotateCcw size={14} />
+              <span>Reset checklist</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
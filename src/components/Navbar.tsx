@@ -1,9 +1,10 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Search, Menu, X, Upload, User, LogOut, LogIn, Shield } from 'lucide-react';
+import { Search, Menu, X, Upload, User, LogOut, LogIn, Shield, ClipboardList } from 'lucide-react';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { repos } from '../lib/repos';
 
 interface NavbarProps {
   user: SupabaseUser | null;
@@ -17,14 +18,12 @@ export default function Navbar({ user }: NavbarProps) {
 
   useEffect(() => {
     if (user) {
-      supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .single()
-        .then(({ data }) => {
-          if (data) setUserRole(data.role);
-        });
+      repos.users
+        .getRole(user.id)
+        .then((role) => {
+          if (role) setUserRole(role);
+        })
+        .catch((error) => console.error('Error checking user role:', error));
     } else {
       setUserRole(null);
     }
@@ -82,6 +81,12 @@ export default function Navbar({ user }: NavbarProps) {
             >
               Browse
             </Link>
+            <Link
+              to="/items"
+              className="px-4 py-2 text-gray-700 hover:text-minecraft-green font-medium transition-colors"
+            >
+              By Item
+            </Link>
             <Link
               to="/upload"
               className="flex items-center space-x-2 px-4 py-2 bg-minecraft-green text-white rounded-lg hover:bg-minecraft-green-dark transition-colors shadow-minecraft-sm"
@@ -100,6 +105,13 @@ export default function Navbar({ user }: NavbarProps) {
                     <span>Admin</span>
                   </Link>
                 )}
+                <Link
+                  to="/planner"
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-700 hover:text-minecraft-green transition-colors"
+                >
+                  <ClipboardList size={18} />
+                  <span>Planner</span>
+                </Link>
                 <Link
                   to="/account"
                   className="flex items-center space-x-2 px-4 py-2 text-gray-700 hover:text-minecraft-green transition-colors"
@@ -162,6 +174,13 @@ export default function Navbar({ user }: NavbarProps) {
             >
               Browse
             </Link>
+            <Link
+              to="/items"
+              className="block px-4 py-2 text-gray-700 hover:bg-minecraft-green/10 rounded-lg"
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Find by Item
+            </Link>
             <Link
               to="/upload"
               className="flex items-center space-x-2 px-4 py-2 bg-minecraft-green text-white rounded-lg"
@@ -182,6 +201,13 @@ export default function Navbar({ user }: NavbarProps) {
                     <span>Admin</span>
                   </Link>
                 )}
+                <Link
+                  to="/planner"
+                  className="block px-4 py-2 text-gray-700 hover:bg-minecraft-green/10 rounded-lg"
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  Planner
+                </Link>
                 <Link
                   to="/account"
                   className="block px-4 py-2 text-gray-700 hover:bg-minecraft-green/10 rounded-lg"
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Layers } from 'lucide-react';
+import { resolveRawMaterials } from '../lib/recipes';
+import { getStackBreakdown, formatStacks } from '../lib/stackSizes';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+import type { Material } from '../lib/farm';
+
+interface RawMaterialsBreakdownProps {
+  materials: Material[];
+}
+
+export default function RawMaterialsBreakdown({ materials }: RawMaterialsBreakdownProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [owned, setOwned] = useState<Set<string>>(new Set());
+
+  const normalized = useMemo(
+    () => materials.map((material) => ({ name: material.name, count: material.count || 1 })),
+    [materials]
+  );
+  const resolved = useMemo(() => resolveRawMaterials(normalized, owned), [normalized, owned]);
+
+  const handleToggleOwned = (name: string) => {
+    const updated = new Set(owned);
+    if (updated.has(name)) {
+      updated.delete(name);
+    } else {
+      updated.add(name);
+    }
+    setOwned(updated);
+  };
+
+  if (resolved.intermediates.length === 0) {
+    return null;
+  }
+
+  // Owned items come back as raw resources, but there is nothing left to gather for them
+  const rawResources = resolved.raw.filter((resource) => !owned.has(resource.name));
+
+  return (
+    <div className="border-2 border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50 rounded-lg"
+      >
+        <span className="flex items-center space-x-2 font-semibold text-gray-900">
+          <Layers size={20} className="text-minecraft-indigo" />
+          <span>Raw Resources</span>
+        </span>
+        {expanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+      </button>
+
+      {expanded && (
+        <div className="p-4 pt-0 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">To gather</h4>
+            <div className="space-y-2">
+              {rawResources.map((resource) => (
+                <div key={resource.name} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <img
+                      src={sanitizeImageUrl(getMinecraftItemIcon(resource.name)) || ''}
+                      alt={escapeHtml(resource.name)}
+                      className="w-6 h-6 object-contain"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).style.display = 'none';
+                      }}
+                    />
+                    <span>{resource.name}</span>
+                  </div>
+                  <span className="text-gray-700">
+                    <span className="font-semibold">{resource.count.toLocaleString()}</span>
+                    {resource.count >= 64 && (
+                      <span className="text-gray-500"> · {formatStacks(getStackBreakdown(resource.count, resource.name))}</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {rawResources.length === 0 && (
+                <p className="text-sm text-gray-600">You already have everything.</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Crafted items · tick what you already have</h4>
+            <div className="space-y-2">
+              {resolved.intermediates.map((item) => (
+                <label
+                  key={item.name}
+                  className={`flex items-center justify-between p-2 rounded-lg border text-sm cursor-pointer ${
+                    owned.has(item.name) ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <span className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={owned.has(item.name)}
+                      onChange={() => handleToggleOwned(item.name)}
+                      className="w-4 h-4 accent-minecraft-green"
+                    />
+                    <span className={owned.has(item.name) ? 'line-through text-gray-500' : ''}>{item.name}</span>
+                  </span>
+                  <span className="font-semibold text-gray-700">{item.count.toLocaleString()}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { X, Flag } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from '../lib/supabase';
+import { repos } from '../lib/repos';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 
 interface ReportModalProps {
@@ -59,17 +59,12 @@ export default function ReportModal({
     setSubmitting(true);
 
     try {
-      const { error } = await supabase
-        .from('reports')
-        .insert({
-          item_type: itemType,
-          item_id: itemId,
-          reason: reason,
-          reporter_id: user.id,
-          status: 'pending',
-        });
-
-      if (error) throw error;
+      await repos.reports.create({
+        item_type: itemType,
+        item_id: itemId,
+        reason: reason,
+        reporter_id: user.id,
+      });
 
       setSubmitted(true);
       setTimeout(() => {
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { RotateCcw, ZoomIn, ZoomOut, Layers } from 'lucide-react';
+import { Schematic } from '../lib/schematic';
+import { schematicToMaterials } from '../lib/schematicMaterials';
+import { buildVisibleFaces, renderFaces, CameraState, DEFAULT_CAMERA } from '../lib/schematicRenderer';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+
+interface SchematicViewerProps {
+  schematic: Schematic;
+}
+
+const CANVAS_HEIGHT = 420;
+
+export default function SchematicViewer({ schematic }: SchematicViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [canvasWidth, setCanvasWidth] = useState(600);
+  const [camera, setCamera] = useState<CameraState>(DEFAULT_CAMERA);
+  const [layer, setLayer] = useState(schematic.height - 1);
+  const [showLayersBelow, setShowLayersBelow] = useState(true);
+
+  useEffect(() => {
+    setLayer(schematic.height - 1);
+    setCamera(DEFAULT_CAMERA);
+  }, [schematic]);
+
+  // Keep the canvas as wide as its container
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const updateWidth = () => setCanvasWidth(container.clientWidth || 600);
+    updateWidth();
+    const observer = new ResizeObserver(updateWidth);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const faceSet = useMemo(
+    () => buildVisibleFaces(schematic, showLayersBelow ? 0 : layer, layer),
+    [schematic, layer, showLayersBelow]
+  );
+
+  const layerMaterials = useMemo(() => schematicToMaterials(schematic, layer), [schematic, layer]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const frame = requestAnimationFrame(() => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvasWidth * ratio;
+      canvas.height = CANVAS_HEIGHT * ratio;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      renderFaces(ctx, faceSet, schematic, camera, canvasWidth, CANVAS_HEIGHT);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [faceSet, schematic, camera, canvasWidth]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setCamera((prev) => ({ ...prev, zoom: clampZoom(prev.zoom * (e.deltaY > 0 ? 0.9 : 1.1)) }));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCamera((prev) => ({
+      ...prev,
+      yaw: prev.yaw + dx * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, prev.pitch + dy * 0.01)),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative bg-gradient-to-b from-minecraft-sky-light/40 to-gray-100 rounded-lg border-2 border-gray-200 overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          style={{ width: canvasWidth, height: CANVAS_HEIGHT, touchAction: 'none' }}
+          className="block cursor-grab active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        <div className="absolute top-2 right-2 flex space-x-1">
+          <button
+            onClick={() => setCamera((prev) => ({ ...prev, zoom: clampZoom(prev.zoom * 1.25) }))}
+            className="p-2 bg-white/90 rounded-lg shadow hover:bg-white"
+            title="Zoom in"
+          >
+            <ZoomIn size={16} />
+          </button>
+          <button
+            onClick={() => setCamera((prev) => ({ ...prev, zoom: clampZoom(prev.zoom * 0.8) }))}
+            className="p-2 bg-white/90 rounded-lg shadow hover:bg-white"
+            title="Zoom out"
+          >
+            <ZoomOut size={16} />
+          </button>
+          <button
+            onClick={() => setCamera(DEFAULT_CAMERA)}
+            className="p-2 bg-white/90 rounded-lg shadow hover:bg-white"
+            title="Reset view"
+          >
+            <RotateCcw size={16} />
+          </button>
+        </div>
+        <div className="absolute bottom-2 left-2 text-xs text-gray-600 bg-white/80 rounded px-2 py-1">
+          {schematic.width}x{schematic.height}x{schematic.length} · Drag to rotate, scroll to zoom
+        </div>
+      </div>
+
+      {faceSet.truncated && (
+        <p className="mt-2 text-xs text-gray-600">
+          This schematic is very large, so only part of it is shown. Use the layer slider to inspect the rest.
+        </p>
+      )}
+
+      {/* Layer Controls */}
+      <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="flex items-center space-x-2 font-semibold text-gray-700">
+          <Layers size={18} className="text-minecraft-green" />
+          <span>Layer {layer + 1} / {schematic.height}</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={schematic.height - 1}
+          value={layer}
+          onChange={(e) => setLayer(parseInt(e.target.value))}
+          className="flex-1 accent-minecraft-green"
+        />
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showLayersBelow}
+            onChange={(e) => setShowLayersBelow(e.target.checked)}
+            className="w-4 h-4 accent-minecraft-green"
+          />
+          <span>Show layers below</span>
+        </label>
+      </div>
+
+      {/* Layer Block Counts */}
+      <div className="mt-4">
+        <h3 className="font-semibold text-gray-900 mb-2">
+          Blocks in layer {layer + 1} ({layerMaterials.totalBlocks.toLocaleString()})
+        </h3>
+        {layerMaterials.materials.length === 0 && layerMaterials.unmatched.length === 0 ? (
+          <p className="text-sm text-gray-600">This layer is empty.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {layerMaterials.materials.map((material) => (
+              <div key={material.name} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+                <div className="flex items-center space-x-2">
+                  <img
+                    src={sanitizeImageUrl(getMinecraftItemIcon(material.name)) || ''}
+                    alt={escapeHtml(material.name)}
+                    className="w-6 h-6 object-contain"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).style.display = 'none';
+                    }}
+                  />
+                  <span>{material.name}</span>
+                </div>
+                <span className="font-semibold text-gray-700">{material.count}</span>
+              </div>
+            ))}
+            {layerMaterials.unmatched.map((block) => (
+              <div key={block.block} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-600">
+                <span className="font-mono">{block.block}</span>
+                <span className="font-semibold">{block.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function clampZoom(zoom: number): number {
+  return Math.max(0.2, Math.min(20, zoom));
+}
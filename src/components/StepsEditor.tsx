@@ -1,23 +1,18 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Edit3, Save, X, GripVertical, Play } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Step {
-  id?: string;
-  title: string;
-  description: string;
-  duration?: number;
-  order: number;
-}
+import { repos } from '../lib/repos';
+import type { Step } from '../lib/farm';
 
 interface StepsEditorProps {
   steps: Step[];
   farmId: string;
+  // The signed-in user, credited with edits in the farm's history
+  editorId?: string;
   readOnly?: boolean;
 }
 
-export default function StepsEditor({ steps: initialSteps, farmId, readOnly = false }: StepsEditorProps) {
+export default function StepsEditor({ steps: initialSteps, farmId, editorId, readOnly = false }: StepsEditorProps) {
   const [steps, setSteps] = useState<Step[]>(initialSteps || []);
   const [editing, setEditing] = useState(!readOnly && (!initialSteps || initialSteps.length === 0));
   const [saving, setSaving] = useState(false);
@@ -46,14 +41,9 @@ export default function StepsEditor({ steps: initialSteps, farmId, readOnly = fa
   const handleSave = async () => {
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('farms')
-        .update({
-          steps: steps.filter((s) => s.title.trim() || s.description.trim()),
-        })
-        .eq('id', farmId);
-
-      if (error) throw error;
+      await repos.farms.update(farmId, {
+        steps: steps.filter((s) => s.title.trim() || s.description.trim()),
+      }, editorId);
       setEditing(false);
     } catch (error) {
       console.error('Error saving steps:', error);
@@ -1,58 +1,121 @@
 /**
- * Badge system for user achievements
+ * Badge system for user achievements. Each badge is earned when one of a user's counts reaches
+ * its threshold; the database awards them with the same rules (award_badges in supabase/schema.sql)
  */
 
+import type { UserBadge, UsersRepo } from './repos/types';
+
+export type BadgeMetric = 'farms' | 'upvotes' | 'tests' | 'helpful_reactions';
+
+// What a user has done so far, one count per metric
+export type BadgeStats = Record<BadgeMetric, number>;
+
 export interface Badge {
   type: string;
   name: string;
   description: string;
+  metric: BadgeMetric;
+  threshold: number;
 }
 
+export interface BadgeProgress {
+  badge: Badge;
+  current: number;
+  earned: boolean;
+  // 0 to 1
+  progress: number;
+}
+
+export const BADGE_METRIC_LABELS: Record<BadgeMetric, string> = {
+  farms: 'farms uploaded',
+  upvotes: 'upvotes received',
+  tests: 'farms tested',
+  helpful_reactions: 'helpful reactions',
+};
+
 export const BADGE_TYPES: Record<string, Badge> = {
   first_farm: {
     type: 'first_farm',
     name: 'First Farm',
     description: 'Uploaded your first farm',
+    metric: 'farms',
+    threshold: 1,
   },
   ten_farms: {
     type: 'ten_farms',
     name: 'Farm Builder',
     description: 'Uploaded 10 farms',
+    metric: 'farms',
+    threshold: 10,
   },
   fifty_farms: {
     type: 'fifty_farms',
     name: 'Master Builder',
     description: 'Uploaded 50 farms',
+    metric: 'farms',
+    threshold: 50,
   },
   hundred_upvotes: {
     type: 'hundred_upvotes',
     name: 'Popular Creator',
     description: 'Received 100 upvotes on your farms',
+    metric: 'upvotes',
+    threshold: 100,
   },
   first_test: {
     type: 'first_test',
     name: 'Tester',
     description: 'Tested your first farm',
+    metric: 'tests',
+    threshold: 1,
   },
   ten_tests: {
     type: 'ten_tests',
     name: 'Quality Tester',
     description: 'Tested 10 farms',
+    metric: 'tests',
+    threshold: 10,
   },
   helpful_comment: {
     type: 'helpful_comment',
     name: 'Helpful',
     description: 'Received 10 helpful reactions on comments',
+    metric: 'helpful_reactions',
+    threshold: 10,
   },
 };
 
 /**
- * Check and award badges based on user achievements
+ * Progress towards every badge, in BADGE_TYPES order. Badges already awarded count as earned
+ * even if the count has since dropped (a deleted farm doesn't take a badge away)
  */
-export async function checkAndAwardBadges(_userId: string, _supabase: any) {
-  // This function would be called after significant actions
-  // For now, badges can be awarded manually or through database triggers
-  // In a production system, you'd want to check achievements and award badges here
-  // Parameters prefixed with _ to indicate they're intentionally unused for now
+export function getBadgeProgress(stats: BadgeStats, awardedTypes: string[] = []): BadgeProgress[] {
+  return Object.values(BADGE_TYPES).map((badge) => {
+    const current = stats[badge.metric] || 0;
+    const earned = awardedTypes.includes(badge.type) || current >= badge.threshold;
+    return { badge, current, earned, progress: earned ? 1 : Math.min(current / badge.threshold, 1) };
+  });
 }
 
+/**
+ * Badges the stats have earned that aren't in `awardedTypes` yet
+ */
+export function getNewBadges(stats: BadgeStats, awardedTypes: string[]): Badge[] {
+  return Object.values(BADGE_TYPES).filter(
+    (badge) => !awardedTypes.includes(badge.type) && (stats[badge.metric] || 0) >= badge.threshold
+  );
+}
+
+/**
+ * Check and award badges based on user achievements. Called after actions that can earn one
+ * (uploading, testing, upvoting, reacting); awarding twice is harmless. Returns the new badges
+ */
+export async function checkAndAwardBadges(userId: string, users: Pick<UsersRepo, 'awardBadges'>): Promise<UserBadge[]> {
+  try {
+    return await users.awardBadges(userId);
+  } catch (error) {
+    // Badges are extras; the action that earned one has already succeeded
+    console.error('Error awarding badges:', error);
+    return [];
+  }
+}
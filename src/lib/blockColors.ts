@@ -0,0 +1,178 @@
+/**
+ * Approximate map colors for rendering schematics without textures
+ */
+
+export type RGB = [number, number, number];
+
+const DYE_COLORS: Record<string, RGB> = {
+  white: [234, 236, 237],
+  light_gray: [142, 142, 135],
+  gray: [62, 68, 71],
+  black: [21, 21, 26],
+  brown: [114, 72, 40],
+  red: [161, 39, 35],
+  orange: [241, 118, 20],
+  yellow: [249, 198, 40],
+  lime: [112, 185, 26],
+  green: [85, 110, 28],
+  cyan: [21, 138, 145],
+  light_blue: [58, 175, 217],
+  blue: [53, 57, 157],
+  purple: [122, 42, 173],
+  magenta: [190, 69, 180],
+  pink: [238, 141, 172],
+};
+
+const WOOD_COLORS: Record<string, RGB> = {
+  dark_oak: [67, 43, 20],
+  oak: [162, 131, 78],
+  spruce: [115, 85, 49],
+  birch: [196, 179, 123],
+  jungle: [160, 115, 81],
+  acacia: [168, 90, 50],
+  mangrove: [117, 54, 48],
+  cherry: [226, 178, 172],
+  bamboo: [194, 173, 80],
+  crimson: [101, 48, 70],
+  warped: [43, 104, 99],
+};
+
+// Checked in order, so more specific keywords come first
+const KEYWORD_COLORS: Array<[string, RGB]> = [
+  ['water', [63, 118, 228]],
+  ['lava', [207, 92, 20]],
+  ['redstone_block', [175, 24, 5]],
+  ['redstone', [171, 28, 9]],
+  ['repeater', [160, 160, 160]],
+  ['comparator', [160, 160, 160]],
+  ['observer', [98, 98, 98]],
+  ['sticky_piston', [110, 150, 90]],
+  ['piston', [153, 127, 85]],
+  ['hopper', [68, 68, 72]],
+  ['dropper', [110, 110, 110]],
+  ['dispenser', [110, 110, 110]],
+  ['trapped_chest', [170, 110, 40]],
+  ['chest', [163, 116, 46]],
+  ['barrel', [134, 100, 58]],
+  ['shulker_box', [150, 100, 150]],
+  ['slime', [111, 192, 91]],
+  ['honey', [251, 185, 52]],
+  ['glass', [200, 225, 235]],
+  ['ice', [145, 183, 253]],
+  ['snow', [249, 254, 254]],
+  ['obsidian', [21, 18, 30]],
+  ['deepslate', [80, 80, 83]],
+  ['cobblestone', [122, 122, 122]],
+  ['stone_brick', [122, 121, 122]],
+  ['smooth_stone', [158, 158, 158]],
+  ['stone', [125, 125, 125]],
+  ['andesite', [136, 136, 137]],
+  ['diorite', [188, 188, 188]],
+  ['granite', [149, 103, 85]],
+  ['tuff', [108, 109, 102]],
+  ['calcite', [223, 224, 220]],
+  ['sandstone', [216, 203, 155]],
+  ['red_sand', [190, 102, 33]],
+  ['sand', [219, 207, 163]],
+  ['gravel', [131, 127, 126]],
+  ['grass_block', [95, 159, 53]],
+  ['mycelium', [111, 99, 105]],
+  ['podzol', [92, 63, 24]],
+  ['mud', [60, 57, 60]],
+  ['dirt', [134, 96, 67]],
+  ['farmland', [143, 102, 70]],
+  ['clay', [160, 166, 179]],
+  ['netherrack', [97, 38, 38]],
+  ['nether_brick', [44, 21, 26]],
+  ['soul_sand', [81, 62, 50]],
+  ['soul_soil', [75, 57, 46]],
+  ['magma', [142, 63, 31]],
+  ['basalt', [80, 81, 86]],
+  ['blackstone', [42, 36, 41]],
+  ['end_stone', [219, 222, 158]],
+  ['purpur', [169, 125, 169]],
+  ['prismarine', [99, 156, 151]],
+  ['quartz', [235, 229, 222]],
+  ['iron', [220, 220, 220]],
+  ['gold', [246, 208, 61]],
+  ['diamond', [98, 237, 228]],
+  ['emerald', [42, 203, 87]],
+  ['lapis', [30, 67, 140]],
+  ['copper', [192, 107, 79]],
+  ['amethyst', [133, 97, 191]],
+  ['glowstone', [171, 131, 84]],
+  ['sea_lantern', [172, 199, 190]],
+  ['froglight', [240, 235, 190]],
+  ['lantern', [200, 150, 70]],
+  ['torch', [255, 200, 80]],
+  ['rail', [125, 110, 90]],
+  ['leaves', [60, 120, 40]],
+  ['kelp', [88, 142, 45]],
+  ['bamboo', [93, 144, 19]],
+  ['cactus', [88, 130, 40]],
+  ['sugar_cane', [148, 192, 101]],
+  ['scaffolding', [170, 132, 73]],
+  ['bed', [160, 40, 40]],
+  ['tnt', [200, 60, 40]],
+  ['bedrock', [85, 85, 85]],
+  ['sculk', [12, 30, 36]],
+];
+
+const colorCache = new Map<string, RGB>();
+
+function hashColor(name: string): RGB {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  const hue = Math.abs(hash) % 360;
+  // HSL(hue, 35%, 55%) converted to RGB
+  const s = 0.35;
+  const l = 0.55;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] : hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+/**
+ * Returns an approximate color for a block ID such as "minecraft:oak_planks"
+ */
+export function getBlockColor(blockName: string): RGB {
+  const cached = colorCache.get(blockName);
+  if (cached) return cached;
+
+  const id = blockName.includes(':') ? blockName.split(':')[1] : blockName;
+  let color: RGB | undefined;
+
+  const dye = Object.keys(DYE_COLORS)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => id.startsWith(`${name}_`));
+  if (dye && /(wool|concrete|terracotta|carpet|stained_glass|shulker_box|bed|candle|banner)/.test(id)) {
+    color = DYE_COLORS[dye];
+  }
+
+  if (!color) {
+    const wood = Object.keys(WOOD_COLORS).find((name) => id.startsWith(`${name}_`) || id.startsWith(`stripped_${name}_`));
+    if (wood && !id.includes('leaves')) {
+      color = WOOD_COLORS[wood];
+    }
+  }
+
+  if (!color) {
+    color = KEYWORD_COLORS.find(([keyword]) => id.includes(keyword))?.[1];
+  }
+
+  const result = color || hashColor(id);
+  colorCache.set(blockName, result);
+  return result;
+}
+
+/**
+ * Blocks that are drawn see-through so what is behind them stays visible
+ */
+export function isTransparentBlock(blockName: string): boolean {
+  return /(glass|water|ice|slime|honey_block|leaves|scaffolding|rail|redstone_wire|tripwire)/.test(blockName) && !blockName.includes('packed_ice') && !blockName.includes('blue_ice');
+}
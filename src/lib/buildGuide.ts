@@ -0,0 +1,155 @@
+/**
+ * Layer-by-layer build guide generation from a schematic
+ */
+
+import { Schematic, getBlockAt } from './schematic';
+import { getBlockColor } from './blockColors';
+import { schematicToMaterials, SchematicMaterialsResult } from './schematicMaterials';
+import { escapeHtml } from './urlSanitizer';
+
+export interface BuildGuideLayer {
+  // Y index within the schematic (0 = bottom)
+  y: number;
+  materials: SchematicMaterialsResult;
+}
+
+/**
+ * Returns every layer that contains at least one block, bottom to top
+ */
+export function getBuildGuideLayers(schematic: Schematic): BuildGuideLayer[] {
+  const layers: BuildGuideLayer[] = [];
+  for (let y = 0; y < schematic.height; y++) {
+    const materials = schematicToMaterials(schematic, y);
+    if (materials.materials.length > 0 || materials.unmatched.length > 0) {
+      layers.push({ y, materials });
+    }
+  }
+  return layers;
+}
+
+function getCellSize(schematic: Schematic): number {
+  const largest = Math.max(schematic.width, schematic.length);
+  return Math.max(4, Math.min(24, Math.floor(512 / largest)));
+}
+
+/**
+ * Draws a top-down grid of one layer (north up, x to the right) and returns it as a PNG data URL
+ * Empty cells show the layer below faintly so the layer can be lined up while building
+ */
+export function renderLayerGrid(schematic: Schematic, y: number): string {
+  const cell = getCellSize(schematic);
+  const { width, length, palette } = schematic;
+  const canvas = document.createElement('canvas');
+  canvas.width = width * cell + 1;
+  canvas.height = length * cell + 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (let z = 0; z < length; z++) {
+    for (let x = 0; x < width; x++) {
+      const index = getBlockAt(schematic, x, y, z);
+      const below = index === 0 ? getBlockAt(schematic, x, y - 1, z) : 0;
+      const block = index || below;
+      if (block === 0) continue;
+
+      const [r, g, b] = getBlockColor(palette[block].name);
+      ctx.fillStyle = index ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, 0.2)`;
+      ctx.fillRect(x * cell, z * cell, cell, cell);
+    }
+  }
+
+  // Grid lines, with a stronger line every 5 blocks to make counting easier
+  for (let i = 0; i <= Math.max(width, length); i++) {
+    ctx.strokeStyle = i % 5 === 0 ? 'rgba(0, 0, 0, 0.5)' : 'rgba(0, 0, 0, 0.15)';
+    ctx.lineWidth = 1;
+    if (i <= width) {
+      ctx.beginPath();
+      ctx.moveTo(i * cell + 0.5, 0);
+      ctx.lineTo(i * cell + 0.5, length * cell);
+      ctx.stroke();
+    }
+    if (i <= length) {
+      ctx.beginPath();
+      ctx.moveTo(0, i * cell + 0.5);
+      ctx.lineTo(width * cell, i * cell + 0.5);
+      ctx.stroke();
+    }
+  }
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Builds a standalone, printable HTML document with a grid and material list for every layer
+ */
+export function generateBuildGuideHtml(schematic: Schematic, title: string): string {
+  const layers = getBuildGuideLayers(schematic);
+  const total = schematicToMaterials(schematic);
+
+  const materialRows = (materials: SchematicMaterialsResult) =>
+    [
+      ...materials.materials.map((m) => `<tr><td>${escapeHtml(m.name)}</td><td>${m.count}</td></tr>`),
+      ...materials.unmatched.map((u) => `<tr><td><code>${escapeHtml(u.block)}</code></td><td>${u.count}</td></tr>`),
+    ].join('');
+
+  const sections = layers
+    .map(
+      (layer) => `
+    <section class="layer">
+      <h2><input type="checkbox"> Layer ${layer.y + 1} of ${schematic.height}</h2>
+      <div class="layer-body">
+        <img src="${renderLayerGrid(schematic, layer.y)}" alt="Layer ${layer.y + 1}">
+        <table><thead><tr><th>Block</th><th>Count</th></tr></thead><tbody>${materialRows(layer.materials)}</tbody></table>
+      </div>
+    </section>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)} - Build Guide</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 24px; }
+    h1 { margin-bottom: 4px; }
+    .meta { color: #555; margin-bottom: 24px; }
+    .layer { page-break-inside: avoid; break-inside: avoid; border-top: 2px solid #ddd; padding: 16px 0; }
+    .layer h2 { font-size: 18px; margin: 0 0 12px; }
+    .layer-body { display: flex; gap: 24px; align-items: flex-start; flex-wrap: wrap; }
+    img { image-rendering: pixelated; border: 1px solid #999; max-width: 100%; }
+    table { border-collapse: collapse; font-size: 14px; }
+    th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+    th { background: #f3f3f3; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">${schematic.width} x ${schematic.height} x ${schematic.length} blocks &middot; ${layers.length} layers &middot; North is up</div>
+  <h2>All Materials</h2>
+  <table><thead><tr><th>Block</th><th>Count</th></tr></thead><tbody>${materialRows(total)}</tbody></table>
+  ${sections}
+</body>
+</html>`;
+}
+
+/**
+ * Opens the build guide in a new window and shows the print dialog
+ */
+export function openPrintableBuildGuide(schematic: Schematic, title: string): boolean {
+  const guideWindow = window.open('', '_blank');
+  if (!guideWindow) return false;
+  const html = generateBuildGuideHtml(schematic, title).replace(
+    '</body>',
+    '<script>window.onload = function () { window.print(); };</script>\n</body>'
+  );
+  guideWindow.document.open();
+  guideWindow.document.write(html);
+  guideWindow.document.close();
+  guideWindow.focus();
+  return true;
+}
@@ -0,0 +1,206 @@
+/**
+ * Farm comparison: the farms picked for /compare (kept in localStorage so the pick survives
+ * navigating between pages) and the rows of the side-by-side table
+ */
+
+import { useEffect, useState } from 'react';
+import { resolveRawMaterials } from './recipes';
+import { formatDropRateConditions, formatItemsPerHour, getMaxItemsPerHour, normalizeDropRate } from './dropRates';
+import { FarmTestSummary } from './farmTests';
+import { formatEfficiencyScore, getEfficiencyScore } from './efficiency';
+import type { Farm, Material } from './farm';
+
+export const MIN_COMPARE_FARMS = 2;
+export const MAX_COMPARE_FARMS = 4;
+
+const STORAGE_KEY = 'compareFarmIds';
+const CHANGE_EVENT = 'compare-selection-change';
+
+export function getCompareSelection(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((id) => typeof id === 'string').slice(0, MAX_COMPARE_FARMS) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCompareSelection(ids: string[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Adds or removes a farm; returns false when the farm can't be added because the selection is full
+ */
+export function toggleCompareFarm(farmId: string): boolean {
+  const ids = getCompareSelection();
+  if (ids.includes(farmId)) {
+    saveCompareSelection(ids.filter((id) => id !== farmId));
+    return true;
+  }
+  if (ids.length >= MAX_COMPARE_FARMS) {
+    return false;
+  }
+  saveCompareSelection([...ids, farmId]);
+  return true;
+}
+
+export function setCompareSelection(ids: string[]) {
+  saveCompareSelection(ids.slice(0, MAX_COMPARE_FARMS));
+}
+
+export function clearCompareSelection() {
+  saveCompareSelection([]);
+}
+
+export function getCompareUrl(ids: string[]): string {
+  return `/compare?ids=${ids.map(encodeURIComponent).join(',')}`;
+}
+
+/**
+ * The current selection, updated when it changes in this tab or another one
+ */
+export function useCompareSelection(): string[] {
+  const [ids, setIds] = useState<string[]>(getCompareSelection);
+
+  useEffect(() => {
+    const update = () => setIds(getCompareSelection());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) update();
+    };
+    window.addEventListener(CHANGE_EVENT, update);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, update);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return ids;
+}
+
+export interface ComparisonRow {
+  label: string;
+  values: string[];
+  // Whether the farms disagree on this row
+  differs: boolean;
+  // Columns holding the best value, for rows where more or less is clearly better
+  best: number[];
+}
+
+type Better = 'higher' | 'lower';
+
+function materialTotal(materials: Material[]): number {
+  return materials.reduce((sum, m) => sum + m.count, 0);
+}
+
+function rawMaterials(materials: Material[]) {
+  return resolveRawMaterials(materials).raw;
+}
+
+function bestColumns(numbers: Array<number | null>, better: Better): number[] {
+  const known = numbers.filter((n): n is number => n !== null);
+  if (known.length < 2 || known.every((n) => n === known[0])) return [];
+  const target = better === 'higher' ? Math.max(...known) : Math.min(...known);
+  return numbers.flatMap((n, index) => (n === target ? [index] : []));
+}
+
+function row(label: string, values: string[], numbers?: Array<number | null>, better?: Better): ComparisonRow {
+  const normalized = values.map((value) => value.trim().toLowerCase());
+  return {
+    label,
+    values,
+    differs: normalized.some((value) => value !== normalized[0]),
+    best: numbers && better ? bestColumns(numbers, better) : [],
+  };
+}
+
+const orDash = (value: string | null | undefined) => (value && value.trim() ? value : '—');
+
+/**
+ * Builds the comparison table; `tests` maps farm id to its community test counts
+ */
+export function buildComparisonRows(farms: Farm[], tests: Record<string, FarmTestSummary> = {}): ComparisonRow[] {
+  const materialTotals = farms.map((farm) => materialTotal(farm.materials));
+  const raws = farms.map((farm) => rawMaterials(farm.materials));
+  const rawTotals = raws.map((raw) => raw.reduce((sum, m) => sum + m.count, 0));
+  const maxRates = farms.map((farm) => getMaxItemsPerHour(farm) || null);
+  const efficiency = farms.map((farm) => getEfficiencyScore(farm));
+  const timedEfficiency = farms.map((farm) => getEfficiencyScore(farm, { includeBuildTime: true }));
+  const buildTimes = farms.map((farm) => (typeof farm.estimated_time === 'number' ? farm.estimated_time : null));
+  const workingReports = farms.map((farm) => (tests[farm.id] ? tests[farm.id].works : null));
+
+  return [
+    row('Platform', farms.map((farm) => orDash((farm.platform || []).join(', ')))),
+    row('Versions', farms.map((farm) => orDash((farm.versions || []).join(', ')))),
+    row('Category', farms.map((farm) => orDash(farm.category))),
+    row(
+      'Materials',
+      farms.map((farm, i) => {
+        const types = (farm.materials || []).length;
+        return `${materialTotals[i].toLocaleString()} items (${types} type${types !== 1 ? 's' : ''})`;
+      }),
+      materialTotals.map((total) => total || null),
+      'lower'
+    ),
+    row(
+      'Raw resource cost',
+      raws.map((raw, i) => {
+        if (rawTotals[i] === 0) return '—';
+        const top = raw.slice(0, 3).map((m) => `${m.count.toLocaleString()} ${m.name}`);
+        return `${rawTotals[i].toLocaleString()} total: ${top.join(', ')}${raw.length > 3 ? ', …' : ''}`;
+      }),
+      rawTotals.map((total) => total || null),
+      'lower'
+    ),
+    row(
+      'Drop rates',
+      farms.map((farm) =>
+        orDash(
+          farm.drop_rate_per_hour
+            .map(normalizeDropRate)
+            .map((dropRate) => {
+              const rate = typeof dropRate.items_per_hour === 'number' ? formatItemsPerHour(dropRate.items_per_hour) : dropRate.rate;
+              const conditions = formatDropRateConditions(dropRate.conditions);
+              return `${dropRate.item}: ${rate}${conditions.length > 0 ? ` (${conditions.join(', ')})` : ''}`;
+            })
+            .join('\n')
+        )
+      )
+    ),
+    row(
+      'Top throughput',
+      maxRates.map((rate) => (rate !== null ? formatItemsPerHour(rate) : '—')),
+      maxRates,
+      'higher'
+    ),
+    row(
+      'Output per resource',
+      efficiency.map((score) => (score !== null ? formatEfficiencyScore(score) : '—')),
+      efficiency,
+      'higher'
+    ),
+    row(
+      'Incl. build time',
+      timedEfficiency.map((score) => (score !== null ? formatEfficiencyScore(score) : '—')),
+      timedEfficiency,
+      'higher'
+    ),
+    row('Build time', buildTimes.map((minutes) => (minutes !== null ? `${minutes} min` : '—')), buildTimes, 'lower'),
+    row('Required biome', farms.map((farm) => orDash(farm.required_biome))),
+    row('Chunk requirements', farms.map((farm) => orDash(farm.chunk_requirements))),
+    row('Height requirements', farms.map((farm) => orDash(farm.height_requirements))),
+    row(
+      'Community tests',
+      farms.map((farm) => {
+        const summary = tests[farm.id];
+        if (!summary || summary.works + summary.withIssues + summary.doesNotWork === 0) return 'No reports yet';
+        return `${summary.works} works · ${summary.withIssues} with issues · ${summary.doesNotWork} broken`;
+      }),
+      workingReports,
+      'higher'
+    ),
+    row('Verified on', farms.map((farm) => orDash((farm.verified_versions || []).join(', ')))),
+  ];
+}
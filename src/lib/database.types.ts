@@ -0,0 +1,748 @@
+/**
+ * Generated from supabase/schema.sql and supabase/migrations by scripts/generate-db-types.ts.
+ * Don't edit by hand; change the SQL and run `npm run db:types`
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      comment_reactions: {
+        Row: {
+          comment_id: string;
+          user_id: string;
+          reaction_type: 'like' | 'helpful';
+          created_at: string | null;
+        };
+        Insert: {
+          comment_id: string;
+          user_id: string;
+          reaction_type: 'like' | 'helpful';
+          created_at?: string | null;
+        };
+        Update: {
+          comment_id?: string;
+          user_id?: string;
+          reaction_type?: 'like' | 'helpful';
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comment_reactions_comment_id_fkey';
+            columns: ['comment_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comment_reactions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      comments: {
+        Row: {
+          id: string;
+          farm_id: string;
+          user_id: string;
+          body: string;
+          parent_comment_id: string | null;
+          created_at: string | null;
+          edited_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          farm_id: string;
+          user_id: string;
+          body: string;
+          parent_comment_id?: string | null;
+          created_at?: string | null;
+          edited_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          farm_id?: string;
+          user_id?: string;
+          body?: string;
+          parent_comment_id?: string | null;
+          created_at?: string | null;
+          edited_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_comment_id_fkey';
+            columns: ['parent_comment_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      farm_progress: {
+        Row: {
+          farm_id: string;
+          user_id: string;
+          completed_layers: number[] | null;
+          checked_materials: string[] | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          farm_id: string;
+          user_id: string;
+          completed_layers?: number[] | null;
+          checked_materials?: string[] | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          farm_id?: string;
+          user_id?: string;
+          completed_layers?: number[] | null;
+          checked_materials?: string[] | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'farm_progress_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'farm_progress_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      farm_revisions: {
+        Row: {
+          id: string;
+          farm_id: string;
+          snapshot: Json;
+          edited_by: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          farm_id: string;
+          snapshot: Json;
+          edited_by?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          farm_id?: string;
+          snapshot?: Json;
+          edited_by?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'farm_revisions_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'farm_revisions_edited_by_fkey';
+            columns: ['edited_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      farm_tests: {
+        Row: {
+          id: string;
+          farm_id: string;
+          user_id: string;
+          tested: boolean | null;
+          test_result: 'works' | 'works_with_issues' | 'does_not_work' | null;
+          test_notes: string | null;
+          tested_version: string | null;
+          tested_platform: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          farm_id: string;
+          user_id: string;
+          tested?: boolean | null;
+          test_result?: 'works' | 'works_with_issues' | 'does_not_work' | null;
+          test_notes?: string | null;
+          tested_version?: string | null;
+          tested_platform?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          farm_id?: string;
+          user_id?: string;
+          tested?: boolean | null;
+          test_result?: 'works' | 'works_with_issues' | 'does_not_work' | null;
+          test_notes?: string | null;
+          tested_version?: string | null;
+          tested_platform?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'farm_tests_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'farm_tests_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      farms: {
+        Row: {
+          id: string;
+          slug: string;
+          title: string;
+          description: string;
+          platform: string[];
+          versions: string[];
+          video_url: string | null;
+          materials: Json | null;
+          optional_materials: Json | null;
+          images: string[] | null;
+          preview_image: string | null;
+          author_id: string;
+          public: boolean | null;
+          upvotes_count: number | null;
+          created_at: string | null;
+          updated_at: string | null;
+          search_vector: string | null;
+          steps: Json | null;
+          tags: string[] | null;
+          estimated_time: number | null;
+          chunk_requirements: string | null;
+          height_requirements: string | null;
+          notes: string | null;
+          farm_designer: string | null;
+          drop_rate_per_hour: Json | null;
+          farmable_items: string[] | null;
+          required_biome: string | null;
+          category: string | null;
+          schematic_url: string | null;
+          schematic_format: string | null;
+          verified_versions: string[] | null;
+          raw_material_count: number | null;
+        };
+        Insert: {
+          id?: string;
+          slug: string;
+          title: string;
+          description: string;
+          platform: string[];
+          versions: string[];
+          video_url?: string | null;
+          materials?: Json | null;
+          optional_materials?: Json | null;
+          images?: string[] | null;
+          preview_image?: string | null;
+          author_id: string;
+          public?: boolean | null;
+          upvotes_count?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+          search_vector?: string | null;
+          steps?: Json | null;
+          tags?: string[] | null;
+          estimated_time?: number | null;
+          chunk_requirements?: string | null;
+          height_requirements?: string | null;
+          notes?: string | null;
+          farm_designer?: string | null;
+          drop_rate_per_hour?: Json | null;
+          farmable_items?: string[] | null;
+          required_biome?: string | null;
+          category?: string | null;
+          schematic_url?: string | null;
+          schematic_format?: string | null;
+          verified_versions?: string[] | null;
+          raw_material_count?: number | null;
+        };
+        Update: {
+          id?: string;
+          slug?: string;
+          title?: string;
+          description?: string;
+          platform?: string[];
+          versions?: string[];
+          video_url?: string | null;
+          materials?: Json | null;
+          optional_materials?: Json | null;
+          images?: string[] | null;
+          preview_image?: string | null;
+          author_id?: string;
+          public?: boolean | null;
+          upvotes_count?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+          search_vector?: string | null;
+          steps?: Json | null;
+          tags?: string[] | null;
+          estimated_time?: number | null;
+          chunk_requirements?: string | null;
+          height_requirements?: string | null;
+          notes?: string | null;
+          farm_designer?: string | null;
+          drop_rate_per_hour?: Json | null;
+          farmable_items?: string[] | null;
+          required_biome?: string | null;
+          category?: string | null;
+          schematic_url?: string | null;
+          schematic_format?: string | null;
+          verified_versions?: string[] | null;
+          raw_material_count?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'farms_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      favorites: {
+        Row: {
+          farm_id: string;
+          user_id: string;
+          created_at: string | null;
+        };
+        Insert: {
+          farm_id: string;
+          user_id: string;
+          created_at?: string | null;
+        };
+        Update: {
+          farm_id?: string;
+          user_id?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'favorites_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'favorites_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      following: {
+        Row: {
+          follower_id: string;
+          following_id: string;
+          created_at: string | null;
+        };
+        Insert: {
+          follower_id: string;
+          following_id: string;
+          created_at?: string | null;
+        };
+        Update: {
+          follower_id?: string;
+          following_id?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'following_follower_id_fkey';
+            columns: ['follower_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'following_following_id_fkey';
+            columns: ['following_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      planner_items: {
+        Row: {
+          user_id: string;
+          farm_id: string;
+          quantity: number;
+          created_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          farm_id: string;
+          quantity?: number;
+          created_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          farm_id?: string;
+          quantity?: number;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'planner_items_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'planner_items_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      reports: {
+        Row: {
+          id: string;
+          item_type: 'farm' | 'comment';
+          item_id: string;
+          reason: string;
+          reporter_id: string;
+          status: 'pending' | 'resolved' | 'dismissed' | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          item_type: 'farm' | 'comment';
+          item_id: string;
+          reason: string;
+          reporter_id: string;
+          status?: 'pending' | 'resolved' | 'dismissed' | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          item_type?: 'farm' | 'comment';
+          item_id?: string;
+          reason?: string;
+          reporter_id?: string;
+          status?: 'pending' | 'resolved' | 'dismissed' | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reports_reporter_id_fkey';
+            columns: ['reporter_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      upvotes: {
+        Row: {
+          farm_id: string;
+          user_id: string;
+          created_at: string | null;
+        };
+        Insert: {
+          farm_id: string;
+          user_id: string;
+          created_at?: string | null;
+        };
+        Update: {
+          farm_id?: string;
+          user_id?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'upvotes_farm_id_fkey';
+            columns: ['farm_id'];
+            isOneToOne: false;
+            referencedRelation: 'farms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'upvotes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_badges: {
+        Row: {
+          id: string;
+          user_id: string;
+          badge_type: string;
+          badge_name: string;
+          badge_description: string | null;
+          earned_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          badge_type: string;
+          badge_name: string;
+          badge_description?: string | null;
+          earned_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          badge_type?: string;
+          badge_name?: string;
+          badge_description?: string | null;
+          earned_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_badges_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      users: {
+        Row: {
+          id: string;
+          username: string;
+          email: string;
+          avatar_url: string | null;
+          bio: string | null;
+          created_at: string | null;
+          username_changed_at: string | null;
+          role: 'user' | 'moderator' | 'admin' | null;
+        };
+        Insert: {
+          id: string;
+          username: string;
+          email: string;
+          avatar_url?: string | null;
+          bio?: string | null;
+          created_at?: string | null;
+          username_changed_at?: string | null;
+          role?: 'user' | 'moderator' | 'admin' | null;
+        };
+        Update: {
+          id?: string;
+          username?: string;
+          email?: string;
+          avatar_url?: string | null;
+          bio?: string | null;
+          created_at?: string | null;
+          username_changed_at?: string | null;
+          role?: 'user' | 'moderator' | 'admin' | null;
+        };
+        Relationships: [];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: {
+      award_badges: {
+        Args: {
+          target_user: string;
+        };
+        Returns: Database['public']['Tables']['user_badges']['Row'][];
+      };
+      badge_stats: {
+        Args: {
+          target_user: string;
+        };
+        Returns: {
+          farms: number;
+          upvotes: number;
+          tests: number;
+          helpful_reactions: number;
+        }[];
+      };
+      build_time_bucket: {
+        Args: {
+          minutes: number;
+        };
+        Returns: string;
+      };
+      compare_version_parts: {
+        Args: {
+          a: number[];
+          b: number[];
+        };
+        Returns: number;
+      };
+      farm_efficiency: {
+        Args: {
+          drop_rates: Json;
+          raw_count: number;
+          materials: Json;
+          build_minutes: number;
+          include_build_time?: boolean;
+        };
+        Returns: number;
+      };
+      farm_max_drop_rate: {
+        Args: {
+          drop_rates: Json;
+        };
+        Returns: number;
+      };
+      farm_newest_version: {
+        Args: {
+          farm_versions: string[];
+        };
+        Returns: number[];
+      };
+      farm_search_matches: {
+        Args: {
+          search_query?: string | null;
+          filter_platform?: string | null;
+          filter_tag?: string | null;
+          filter_category?: string | null;
+          filter_edition?: string | null;
+          filter_version?: number[] | null;
+          filter_biome?: string | null;
+          filter_build_time?: string | null;
+          filter_material_count?: string | null;
+          filter_has_schematic?: boolean | null;
+          filter_has_video?: boolean | null;
+          filter_item?: string | null;
+          filter_verified?: boolean | null;
+        };
+        Returns: {
+          farm_id: string;
+          match_rank: number;
+          platform_ok: boolean;
+          category_ok: boolean;
+          version_ok: boolean;
+          biome_ok: boolean;
+          build_time_ok: boolean;
+          material_count_ok: boolean;
+          schematic_ok: boolean;
+          video_ok: boolean;
+          item_ok: boolean;
+          verified_ok: boolean;
+        }[];
+      };
+      farm_supports_version: {
+        Args: {
+          farm_versions: string[];
+          farm_platforms: string[];
+          query_edition: string;
+          query_version: number[];
+        };
+        Returns: boolean;
+      };
+      farms_by_item: {
+        Args: {
+          item_name: string;
+        };
+        Returns: {
+          farm: Json;
+        }[];
+      };
+      material_count_bucket: {
+        Args: {
+          materials: Json;
+        };
+        Returns: string;
+      };
+      search_farm_facets: {
+        Args: {
+          search_query?: string | null;
+          filter_platform?: string | null;
+          filter_tag?: string | null;
+          filter_category?: string | null;
+          filter_edition?: string | null;
+          filter_version?: number[] | null;
+          filter_biome?: string | null;
+          filter_build_time?: string | null;
+          filter_material_count?: string | null;
+          filter_has_schematic?: boolean | null;
+          filter_has_video?: boolean | null;
+          filter_item?: string | null;
+          filter_verified?: boolean | null;
+          facet_versions?: string[];
+        };
+        Returns: Json;
+      };
+      search_farms: {
+        Args: {
+          search_query?: string | null;
+          filter_platform?: string | null;
+          filter_tag?: string | null;
+          filter_category?: string | null;
+          filter_edition?: string | null;
+          filter_version?: number[] | null;
+          filter_biome?: string | null;
+          filter_build_time?: string | null;
+          filter_material_count?: string | null;
+          filter_has_schematic?: boolean | null;
+          filter_has_video?: boolean | null;
+          filter_item?: string | null;
+          filter_verified?: boolean | null;
+          sort_by?: string;
+          page_size?: number;
+          page_offset?: number;
+        };
+        Returns: {
+          farm: Json;
+          rank: number;
+          total_count: number;
+        }[];
+      };
+    };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+};
+
+type PublicTables = Database['public']['Tables'];
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row'];
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update'];
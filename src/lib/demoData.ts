@@ -4,6 +4,14 @@ export const isDemoMode = () => {
   return !import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY;
 };
 
+// Ready-made sign-in for demo mode; owns the first demo farm and is an admin, so moderation can be tried too
+export const DEMO_ACCOUNT = {
+  id: 'demo-user',
+  email: 'demo@example.com',
+  password: 'demo-password',
+  username: 'DemoFarmer',
+};
+
 export const mockFarms = [
   {
     id: 'demo-1',
@@ -12,6 +20,7 @@ export const mockFarms = [
     description: 'A highly efficient auto sugarcane farm using observers and pistons. Produces up to 2000 sugarcane per hour. Works perfectly in survival mode. This is a demo farm to showcase the design!',
     platform: ['Java', 'Bedrock'],
     versions: ['Java 1.21.1', 'Java 1.20.6', 'Bedrock 1.21.0'],
+    verified_versions: ['Bedrock 1.21.0', 'Java 1.20.6', 'Java 1.21.1'],
     tags: ['auto-sugarcane', 'redstone', 'easy', 'efficient'],
     materials: [
       { name: 'Observer', count: 8 },
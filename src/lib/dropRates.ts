@@ -0,0 +1,248 @@
+/**
+ * Drop rate parsing: turns free-text rates like "~2.4k/h AFK", "60 per minute" or "3 stacks/hour"
+ * into items per hour plus the conditions they were measured under, so farms can be compared
+ */
+
+import { SHULKER_BOX_SLOTS, getMaxStackSize } from './stackSizes';
+
+export type DropRateMode = 'afk' | 'active';
+
+export interface DropRateConditions {
+  mode?: DropRateMode;
+  looting?: number;
+  players?: number;
+  simulation_distance?: number;
+}
+
+/**
+ * One `drop_rate_per_hour` entry; `rate` keeps what the uploader wrote,
+ * `items_per_hour` and `conditions` are filled in by normalizeDropRate
+ */
+export interface DropRate {
+  item: string;
+  rate: string;
+  items_per_hour?: number | null;
+  conditions?: DropRateConditions;
+}
+
+export const MAX_LOOTING_LEVEL = 3;
+export const SIMULATION_DISTANCE_RANGE = { min: 2, max: 32 };
+
+const ROMAN_LEVELS: Record<string, number> = { i: 1, ii: 2, iii: 3 };
+
+// Condition phrases, matched against lower-cased text and removed before reading the rate
+const CONDITION_PATTERNS: Array<{ pattern: RegExp; apply: (match: RegExpMatchArray, conditions: DropRateConditions) => void }> = [
+  { pattern: /\bafk\b/, apply: (_, c) => { c.mode = 'afk'; } },
+  { pattern: /\b(?:active(?:ly)?|manual(?:ly)?|while playing)\b/, apply: (_, c) => { c.mode = 'active'; } },
+  { pattern: /\bno looting\b/, apply: (_, c) => { c.looting = 0; } },
+  {
+    pattern: /\blooting\s*(iii|ii|i|\d+)\b/,
+    apply: (m, c) => { c.looting = ROMAN_LEVELS[m[1]] ?? parseInt(m[1]); },
+  },
+  { pattern: /\b(?:solo|single[- ]?player)\b/, apply: (_, c) => { c.players = 1; } },
+  { pattern: /\b(\d+)\s*players?\b/, apply: (m, c) => { c.players = parseInt(m[1]); } },
+  {
+    pattern: /\b(?:sim(?:ulation)?[- ]?(?:dist(?:ance)?)?|sd)\s*[:=]?\s*(\d+)\b/,
+    apply: (m, c) => { c.simulation_distance = parseInt(m[1]); },
+  },
+  {
+    pattern: /\b(\d+)\s*(?:chunks?\s*)?sim(?:ulation)?[- ]?dist(?:ance)?\b/,
+    apply: (m, c) => { c.simulation_distance = parseInt(m[1]); },
+  },
+];
+
+// Multipliers that turn "per <unit>" into per hour
+const TIME_UNITS: Array<{ pattern: RegExp; perHour: number }> = [
+  { pattern: /^(?:s|secs?|seconds?)$/, perHour: 3600 },
+  { pattern: /^(?:m|mins?|minutes?)$/, perHour: 60 },
+  { pattern: /^(?:h|hrs?|hours?)$/, perHour: 1 },
+  { pattern: /^(?:d|days?)$/, perHour: 1 / 24 },
+  // A Minecraft day is 20 minutes
+  { pattern: /^(?:mc ?days?|minecraft days?|in-?game days?)$/, perHour: 3 },
+];
+
+// How many stacks one unit holds
+const STACK_UNITS: Array<{ pattern: RegExp; stacks: number }> = [
+  { pattern: /^(?:stacks?|st)$/, stacks: 1 },
+  { pattern: /^(?:shulkers?|shulker boxes|shulker box|sb)$/, stacks: SHULKER_BOX_SLOTS },
+  { pattern: /^(?:double chests?|dcs?)$/, stacks: SHULKER_BOX_SLOTS * 2 },
+];
+
+const SUFFIXES: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+/**
+ * Reads conditions written into a rate, e.g. "40k/h AFK, looting 3, 4 players, sim distance 10"
+ */
+export function parseDropRateConditions(rate: string | null | undefined): DropRateConditions {
+  const conditions: DropRateConditions = {};
+  const text = (rate || '').toLowerCase();
+  CONDITION_PATTERNS.forEach(({ pattern, apply }) => {
+    const match = text.match(pattern);
+    if (match) apply(match, conditions);
+  });
+  return conditions;
+}
+
+function stripConditions(text: string): string {
+  return CONDITION_PATTERNS.reduce((rest, { pattern }) => rest.replace(new RegExp(pattern.source, 'g'), ' '), text);
+}
+
+/**
+ * Converts a drop rate to items per hour, or null when the text has no usable number
+ * Ranges ("2000-3000/h") use their midpoint; a rate without a time unit is taken as per hour
+ */
+export function parseDropRate(rate: string | number | null | undefined, itemName = ''): number | null {
+  if (typeof rate === 'number') return isFinite(rate) && rate >= 0 ? rate : null;
+  if (!rate) return null;
+
+  const text = stripConditions(rate.toLowerCase())
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/[~≈]/g, '')
+    .trim();
+  const match = text.match(/(\d+(?:\.\d+)?)\s*([km](?![a-z]))?(?:\s*(?:-|–|—|to)\s*(\d+(?:\.\d+)?)\s*([km](?![a-z]))?)?(.*)$/);
+  if (!match) return null;
+
+  const [, low, lowSuffix, high, highSuffix, unitText] = match;
+  // "2-3k/h" shares the suffix between both ends
+  const scale = (suffix?: string) => SUFFIXES[suffix || highSuffix || ''] || 1;
+  let amount = parseFloat(low) * scale(lowSuffix);
+  if (high) {
+    amount = (amount + parseFloat(high) * scale(highSuffix)) / 2;
+  }
+
+  // "3 stacks per hour" -> ["stacks", "hour"]
+  let perHour = 1;
+  for (const part of unitText.split(/\/|\b(?:per|an?|every|each)\b/)) {
+    const unit = part.trim().replace(/^(?:items?|drops?)\b\s*/, '').replace(/\s+/g, ' ');
+    if (!unit) continue;
+    const stackUnit = STACK_UNITS.find((u) => u.pattern.test(unit));
+    const timeUnit = TIME_UNITS.find((u) => u.pattern.test(unit));
+    if (stackUnit) {
+      amount *= stackUnit.stacks * getMaxStackSize(itemName);
+    } else if (timeUnit) {
+      perHour = timeUnit.perHour;
+    }
+  }
+
+  const itemsPerHour = amount * perHour;
+  return isFinite(itemsPerHour) ? itemsPerHour : null;
+}
+
+/**
+ * Fills in items_per_hour and conditions for an entry; conditions given explicitly win over
+ * ones read from the rate text
+ */
+export function normalizeDropRate(entry: DropRate): DropRate {
+  const item = (entry.item || '').trim();
+  const rate = String(entry.rate ?? '').trim();
+  const explicit = Object.fromEntries(
+    Object.entries(entry.conditions || {}).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as DropRateConditions;
+  const conditions = { ...parseDropRateConditions(rate), ...explicit };
+
+  const normalized: DropRate = {
+    item,
+    rate,
+    items_per_hour: typeof entry.items_per_hour === 'number' ? entry.items_per_hour : parseDropRate(rate, item),
+  };
+  if (Object.keys(conditions).length > 0) {
+    normalized.conditions = conditions;
+  }
+  return normalized;
+}
+
+/**
+ * Problems with a normalized entry, as messages for the uploader
+ */
+export function validateDropRate(entry: DropRate): string[] {
+  const errors: string[] = [];
+  const label = entry.item || 'Drop rate';
+  const { looting, players, simulation_distance: simulationDistance } = entry.conditions || {};
+
+  if (!entry.item) {
+    errors.push('Drop rate: item is required');
+  }
+  if (entry.items_per_hour === null || entry.items_per_hour === undefined) {
+    errors.push(`${label}: "${entry.rate}" isn't a rate (try "3600/hour", "2.5k/h" or "3 stacks per hour")`);
+  } else if (entry.items_per_hour <= 0) {
+    errors.push(`${label}: rate must be more than 0 items per hour`);
+  }
+  if (looting !== undefined && (!Number.isInteger(looting) || looting < 0 || looting > MAX_LOOTING_LEVEL)) {
+    errors.push(`${label}: looting level must be between 0 and ${MAX_LOOTING_LEVEL}`);
+  }
+  if (players !== undefined && (!Number.isInteger(players) || players < 1)) {
+    errors.push(`${label}: player count must be at least 1`);
+  }
+  if (
+    simulationDistance !== undefined &&
+    (!Number.isInteger(simulationDistance) ||
+      simulationDistance < SIMULATION_DISTANCE_RANGE.min ||
+      simulationDistance > SIMULATION_DISTANCE_RANGE.max)
+  ) {
+    errors.push(
+      `${label}: simulation distance must be between ${SIMULATION_DISTANCE_RANGE.min} and ${SIMULATION_DISTANCE_RANGE.max}`
+    );
+  }
+
+  return errors;
+}
+
+export function formatDropRateConditions(conditions: DropRateConditions | null | undefined): string[] {
+  if (!conditions) return [];
+  const labels: string[] = [];
+  if (conditions.mode) labels.push(conditions.mode === 'afk' ? 'AFK' : 'Active play');
+  if (conditions.looting !== undefined) {
+    labels.push(conditions.looting === 0 ? 'No looting' : `Looting ${['I', 'II', 'III'][conditions.looting - 1] || conditions.looting}`);
+  }
+  if (conditions.players !== undefined) labels.push(`${conditions.players} player${conditions.players !== 1 ? 's' : ''}`);
+  if (conditions.simulation_distance !== undefined) labels.push(`Sim distance ${conditions.simulation_distance}`);
+  return labels;
+}
+
+function entryItemsPerHour(entry: DropRate): number | null {
+  if (typeof entry?.items_per_hour === 'number') return entry.items_per_hour;
+  // Rates saved before items_per_hour existed only have the text
+  return parseDropRate(entry?.rate, entry?.item);
+}
+
+/**
+ * Items per hour a farm lists for an item, or null when it lists no usable rate
+ */
+export function getItemsPerHour(farm: { drop_rate_per_hour?: DropRate[] | null }, itemName: string): number | null {
+  const entry = (Array.isArray(farm.drop_rate_per_hour) ? farm.drop_rate_per_hour : []).find(
+    (dropRate) => dropRate?.item?.toLowerCase() === itemName.toLowerCase()
+  );
+  return entry ? entryItemsPerHour(entry) : null;
+}
+
+/**
+ * The farm's fastest listed output, or 0 when it lists no usable rate
+ */
+export function getMaxItemsPerHour(farm: { drop_rate_per_hour?: DropRate[] | null }): number {
+  const rates = (Array.isArray(farm?.drop_rate_per_hour) ? farm.drop_rate_per_hour : [])
+    .map(entryItemsPerHour)
+    .filter((rate): rate is number => rate !== null);
+  return rates.length > 0 ? Math.max(...rates) : 0;
+}
+
+export function formatItemsPerHour(itemsPerHour: number): string {
+  if (itemsPerHour >= 10_000) {
+    return `${Math.round(itemsPerHour / 100) / 10}k/hour`;
+  }
+  return `${Math.round(itemsPerHour).toLocaleString()}/hour`;
+}
+
+/**
+ * Parses the text form used by bulk import: "Iron Ingot: 3600/hour AFK; Gold Nugget: 5400/hour"
+ * Entries are separated by semicolons or pipes, so rates may contain commas ("3,600/h, looting 3")
+ */
+export function parseDropRatesText(text: string): DropRate[] {
+  return text
+    .split(/[;|]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^(.+?)\s*:\s*(.+)$/) || entry.match(/^([^,\d]+?)\s*,\s*(.+)$/);
+      return normalizeDropRate(match ? { item: match[1], rate: match[2] } : { item: entry, rate: '' });
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * Cost-effectiveness: how much a farm produces for what it costs to build, so a cheap 2k/h farm
+ * can be weighed against an expensive 10k/h one
+ */
+
+import { resolveRawMaterials } from './recipes';
+import { getMaxItemsPerHour } from './dropRates';
+import type { Farm, Material } from './farm';
+
+// A minute of building is counted as gathering one stack of raw resources
+// Keep in sync with farm_efficiency in the database
+export const BUILD_MINUTE_COST = 64;
+
+/**
+ * Raw resources the materials list resolves to (iron ingots, logs, ...), or 0 when it lists none
+ * Saved with the farm as `raw_material_count` so the database can sort by efficiency
+ */
+export function getRawMaterialCount(materials: Material[]): number {
+  return resolveRawMaterials(materials).raw.reduce((sum, m) => sum + m.count, 0);
+}
+
+/**
+ * Items per hour for every raw resource spent, optionally counting build time as extra cost
+ * Null when the farm lists no usable drop rate or no materials, or has no `raw_material_count`
+ * saved yet (the database sorts those last too)
+ */
+export function getEfficiencyScore(
+  farm: Pick<Farm, 'drop_rate_per_hour' | 'raw_material_count' | 'estimated_time'>,
+  { includeBuildTime = false } = {}
+): number | null {
+  const itemsPerHour = getMaxItemsPerHour(farm);
+  const rawCost = farm.raw_material_count;
+  if (!itemsPerHour || !rawCost) return null;
+
+  const buildCost = includeBuildTime ? (farm.estimated_time || 0) * BUILD_MINUTE_COST : 0;
+  return itemsPerHour / (rawCost + buildCost);
+}
+
+export function formatEfficiencyScore(score: number): string {
+  const perUnit = score >= 10 ? Math.round(score).toLocaleString() : String(Math.round(score * 100) / 100);
+  return `${perUnit}/hour per resource`;
+}
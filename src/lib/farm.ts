@@ -0,0 +1,149 @@
+/**
+ * The farm model: a farms row with its JSONB columns checked and typed. Rows go through parseFarm on
+ * their way out of the repositories, so pages never see a malformed material, step or drop rate
+ */
+
+import type { Tables, TablesInsert } from './database.types';
+import type { DropRate, DropRateConditions } from './dropRates';
+
+export type { DropRate };
+
+export interface Material {
+  name: string;
+  count: number;
+}
+
+export interface Step {
+  id?: string;
+  title: string;
+  description: string;
+  duration?: number;
+  order: number;
+}
+
+// The `users` join on a farm
+export interface FarmAuthor {
+  id?: string;
+  username: string;
+  avatar_url: string | null;
+  bio?: string | null;
+}
+
+type JsonColumns = 'materials' | 'optional_materials' | 'steps' | 'drop_rate_per_hour';
+type ListColumns = 'platform' | 'versions' | 'images' | 'tags' | 'farmable_items' | 'verified_versions';
+
+export type Farm = Omit<Tables<'farms'>, JsonColumns | ListColumns | 'search_vector'> & {
+  materials: Material[];
+  optional_materials: Material[];
+  steps: Step[];
+  drop_rate_per_hour: DropRate[];
+  platform: string[];
+  versions: string[];
+  images: string[];
+  tags: string[];
+  farmable_items: string[];
+  verified_versions: string[];
+  users?: FarmAuthor | null;
+};
+
+export type NewFarm = Omit<TablesInsert<'farms'>, JsonColumns | 'search_vector'> & {
+  materials?: Material[];
+  optional_materials?: Material[];
+  steps?: Step[] | null;
+  drop_rate_per_hour?: DropRate[] | null;
+};
+
+export type FarmChanges = Partial<NewFarm>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Numbers, or numeric strings as CSV imports leave them; null otherwise
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+/**
+ * Materials with a name and a count; older rows name the item under `item`
+ */
+export function parseMaterials(value: unknown): Material[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!isRecord(entry)) return [];
+    const name = typeof entry.name === 'string' ? entry.name : typeof entry.item === 'string' ? entry.item : '';
+    const count = toNumber(entry.count);
+    return name.trim() && count !== null && count >= 0 ? [{ name, count }] : [];
+  });
+}
+
+/**
+ * Steps with a title or description; `order` falls back to the step's position
+ */
+export function parseSteps(value: unknown): Step[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry, index) => {
+    if (!isRecord(entry)) return [];
+    const title = typeof entry.title === 'string' ? entry.title : '';
+    const description = typeof entry.description === 'string' ? entry.description : '';
+    if (!title.trim() && !description.trim()) return [];
+
+    const step: Step = { title, description, order: toNumber(entry.order) ?? index };
+    if (typeof entry.id === 'string') step.id = entry.id;
+    const duration = toNumber(entry.duration);
+    if (duration !== null) step.duration = duration;
+    return [step];
+  });
+}
+
+function parseConditions(value: unknown): DropRateConditions | undefined {
+  if (!isRecord(value)) return undefined;
+  const conditions: DropRateConditions = {};
+  if (value.mode === 'afk' || value.mode === 'active') conditions.mode = value.mode;
+  (['looting', 'players', 'simulation_distance'] as const).forEach((key) => {
+    const number = toNumber(value[key]);
+    if (number !== null) conditions[key] = number;
+  });
+  return conditions;
+}
+
+/**
+ * Drop rates with an item and a rate; the parsed numbers are kept only when they're numbers
+ */
+export function parseDropRates(value: unknown): DropRate[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!isRecord(entry) || typeof entry.item !== 'string' || !entry.item.trim()) return [];
+    if (typeof entry.rate !== 'string' && typeof entry.rate !== 'number') return [];
+
+    const dropRate: DropRate = { item: entry.item, rate: String(entry.rate) };
+    if ('items_per_hour' in entry) dropRate.items_per_hour = toNumber(entry.items_per_hour);
+    const conditions = parseConditions(entry.conditions);
+    if (conditions) dropRate.conditions = conditions;
+    return [dropRate];
+  });
+}
+
+/**
+ * Checks a farm row from the database (or demo data) and fills in its JSONB and array columns;
+ * entries that don't have the expected shape are dropped
+ */
+export function parseFarm(row: Record<string, unknown>): Farm {
+  const { search_vector: _searchVector, ...farm } = row;
+  return {
+    ...(farm as Farm),
+    materials: parseMaterials(row.materials),
+    optional_materials: parseMaterials(row.optional_materials),
+    steps: parseSteps(row.steps),
+    drop_rate_per_hour: parseDropRates(row.drop_rate_per_hour),
+    platform: toStrings(row.platform),
+    versions: toStrings(row.versions),
+    images: toStrings(row.images),
+    tags: toStrings(row.tags),
+    farmable_items: toStrings(row.farmable_items),
+    verified_versions: toStrings(row.verified_versions),
+  };
+}
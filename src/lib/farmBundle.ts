@@ -0,0 +1,206 @@
+/**
+ * Portable farm bundles: one JSON file holding a farm's fields, steps, images and schematic, for moving
+ * farms between instances of the site without retyping them
+ */
+
+import { repos } from './repos';
+import type { Farm } from './farm';
+
+export const FARM_BUNDLE_FORMAT = 'minecraft-farms-bundle';
+export const FARM_BUNDLE_VERSION = 1;
+export const FARM_BUNDLE_EXTENSION = '.farm.json';
+
+// Columns copied into a bundle; ids, authors, votes and timestamps belong to the instance it came from
+export const FARM_BUNDLE_FIELDS = [
+  'title',
+  'slug',
+  'description',
+  'category',
+  'platform',
+  'versions',
+  'tags',
+  'farmable_items',
+  'materials',
+  'optional_materials',
+  'drop_rate_per_hour',
+  'steps',
+  'estimated_time',
+  'required_biome',
+  'chunk_requirements',
+  'height_requirements',
+  'notes',
+  'farm_designer',
+  'video_url',
+  'schematic_format',
+] as const;
+
+export type FarmBundleField = (typeof FARM_BUNDLE_FIELDS)[number];
+
+export interface FarmBundleAsset {
+  file_name: string;
+  content_type: string;
+  // Base64 file contents; null when the file couldn't be downloaded, so the importer links `source_url` instead
+  data: string | null;
+  source_url: string;
+}
+
+export interface FarmBundle {
+  format: typeof FARM_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  farm: Partial<Pick<Farm, FarmBundleField>>;
+  images: FarmBundleAsset[];
+  schematic: FarmBundleAsset | null;
+}
+
+export function isFarmBundle(value: unknown): value is FarmBundle {
+  return typeof value === 'object' && value !== null && 'format' in value && value.format === FARM_BUNDLE_FORMAT;
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URLs look like "data:image/png;base64,...."
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function base64ToBlob(data: string, contentType: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+}
+
+function fileNameFromUrl(url: string, fallback: string): string {
+  // Demo mode stores files inline as data URLs, which have no name
+  if (url.startsWith('data:')) return fallback;
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    // Uploads are stored as "<timestamp>_<name>"
+    return name.replace(/^\d+_/, '') || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function fetchAsset(url: string, fallbackName: string): Promise<FarmBundleAsset> {
+  const asset: FarmBundleAsset = {
+    file_name: fileNameFromUrl(url, fallbackName),
+    content_type: 'application/octet-stream',
+    data: null,
+    source_url: url,
+  };
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    asset.content_type = blob.type || asset.content_type;
+    asset.data = await blobToBase64(blob);
+  } catch (error) {
+    // Usually an image hosted somewhere that doesn't allow cross-origin downloads
+    console.error(`Error downloading ${url} for export:`, error);
+  }
+  return asset;
+}
+
+/**
+ * Builds a bundle for a farm row, downloading its images and schematic so the file is self-contained
+ */
+export async function createFarmBundle(farm: Farm): Promise<FarmBundle> {
+  const fields = Object.fromEntries(
+    FARM_BUNDLE_FIELDS.filter((field) => farm[field] !== undefined).map((field) => [field, farm[field]])
+  );
+  const imageUrls: string[] = Array.isArray(farm.images) ? farm.images : [];
+
+  const [images, schematic] = await Promise.all([
+    Promise.all(imageUrls.map((url, index) => fetchAsset(url, `image-${index + 1}`))),
+    farm.schematic_url ? fetchAsset(farm.schematic_url, 'schematic') : Promise.resolve(null),
+  ]);
+
+  return {
+    format: FARM_BUNDLE_FORMAT,
+    version: FARM_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    farm: fields,
+    images,
+    schematic,
+  };
+}
+
+export function downloadFarmBundle(bundle: FarmBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${bundle.farm.slug || 'farm'}${FARM_BUNDLE_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Checks a parsed bundle is one this version of the site can import; returns problems as messages
+ */
+export function validateFarmBundle(bundle: FarmBundle): string[] {
+  const errors: string[] = [];
+  if (typeof bundle.version !== 'number' || bundle.version > FARM_BUNDLE_VERSION) {
+    errors.push(`Bundle version ${bundle.version} is newer than this site supports (${FARM_BUNDLE_VERSION})`);
+  }
+  if (!bundle.farm || typeof bundle.farm !== 'object') {
+    errors.push('Bundle has no farm data');
+  }
+  if (!Array.isArray(bundle.images)) {
+    errors.push('Bundle images must be a list');
+  }
+  return errors;
+}
+
+// Same "<folder>/<timestamp>_<name>" layout as files uploaded on the Upload page
+async function uploadAsset(asset: FarmBundleAsset, folder: string, timestamp: number): Promise<string> {
+  if (!asset.data) return asset.source_url;
+
+  const fileName = `${folder}/${timestamp}_${asset.file_name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+  return repos.files.upload(fileName, base64ToBlob(asset.data, asset.content_type), asset.content_type);
+}
+
+/**
+ * Uploads a bundle's files to this site's storage under the importing user's folder
+ * Files the bundle only links to are kept as links
+ */
+export async function uploadFarmBundleAssets(
+  bundle: FarmBundle,
+  userId: string
+): Promise<{ images: string[]; schematic_url: string | null }> {
+  // Images in a bundle can share a file name, so each one gets its own timestamp
+  const now = Date.now();
+  const images = await Promise.all((bundle.images || []).map((image, index) => uploadAsset(image, userId, now + index)));
+  const schematicUrl = bundle.schematic ? await uploadAsset(bundle.schematic, `${userId}/schematics`, now) : null;
+  return { images, schematic_url: schematicUrl };
+}
+
+export function slugifyTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * The title itself if its slug is free, otherwise "Title (2)", "Title (3)", ...
+ * Slugs are derived from titles on every save, so the title has to change for the slug to stay unique
+ */
+export async function findAvailableTitle(title: string): Promise<string> {
+  const baseSlug = slugifyTitle(title);
+  const taken = new Set(await repos.farms.listSlugs(baseSlug));
+
+  let candidate = title;
+  for (let copy = 2; taken.has(slugifyTitle(candidate)); copy++) {
+    candidate = `${title} (${copy})`;
+  }
+  return candidate;
+}
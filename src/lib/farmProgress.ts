@@ -0,0 +1,9 @@
+/**
+ * Per-user build progress for a farm (completed schematic layers and checked materials), stored
+ * through `repos.progress`
+ */
+
+export interface FarmProgress {
+  completed_layers: number[];
+  checked_materials: string[];
+}
@@ -0,0 +1,159 @@
+/**
+ * Farm edit history: snapshots recorded on every farm update (read through `repos.revisions`), diffs
+ * and restore
+ */
+
+import type { Json, Tables, TablesUpdate } from './database.types';
+import { getRawMaterialCount } from './efficiency';
+import { Material, Step, parseMaterials, parseSteps } from './farm';
+
+// The farm row as it was saved, minus the fields the revision trigger leaves out
+export type FarmSnapshot = Partial<Tables<'farms'>>;
+type SnapshotField = keyof FarmSnapshot;
+
+export interface FarmRevision {
+  id: string;
+  farm_id: string;
+  snapshot: FarmSnapshot;
+  edited_by: string | null;
+  created_at: string;
+  editor?: { username: string } | null;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  // Human-readable lines, e.g. "64 Hopper" or "Step 2: Dig the pit"
+  added: string[];
+  removed: string[];
+}
+
+const FIELD_LABELS: Partial<Record<SnapshotField, string>> = {
+  title: 'Title',
+  slug: 'URL',
+  description: 'Description',
+  platform: 'Platforms',
+  versions: 'Versions',
+  video_url: 'Video',
+  materials: 'Required materials',
+  optional_materials: 'Optional materials',
+  images: 'Images',
+  preview_image: 'Preview image',
+  tags: 'Tags',
+  estimated_time: 'Estimated time',
+  chunk_requirements: 'Chunk requirements',
+  height_requirements: 'Height requirements',
+  notes: 'Notes',
+  farm_designer: 'Farm designer',
+  drop_rate_per_hour: 'Drop rates',
+  farmable_items: 'Farmable items',
+  required_biome: 'Required biome',
+  category: 'Category',
+  schematic_url: 'Schematic',
+  schematic_format: 'Schematic format',
+  public: 'Visibility',
+  steps: 'Build steps',
+};
+
+/**
+ * The farm update that brings back a revision's content. Restoring is an edit like any other, so
+ * it's recorded as a new revision
+ */
+export function getRevisionUpdate(revision: FarmRevision): TablesUpdate<'farms'> {
+  const fields = (Object.keys(FIELD_LABELS) as SnapshotField[]).filter((field) => field in revision.snapshot);
+  const update: TablesUpdate<'farms'> = Object.fromEntries(fields.map((field) => [field, revision.snapshot[field]]));
+  if ('materials' in update) {
+    update.raw_material_count = getRawMaterialCount(parseMaterials(update.materials));
+  }
+  return update;
+}
+
+function formatValue(value: Json | undefined): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Public' : 'Private';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function diffMaterials(before: Material[], after: Material[]): Pick<FieldChange, 'added' | 'removed'> {
+  const toCounts = (list: Material[]) => {
+    const counts = new Map<string, number>();
+    list.forEach((material) => counts.set(material.name, (counts.get(material.name) || 0) + material.count));
+    return counts;
+  };
+
+  const beforeCounts = toCounts(before);
+  const afterCounts = toCounts(after);
+  const added: string[] = [];
+  const removed: string[] = [];
+
+  afterCounts.forEach((count, name) => {
+    const previous = beforeCounts.get(name);
+    if (previous !== count) {
+      if (previous !== undefined) removed.push(`${previous} ${name}`);
+      added.push(`${count} ${name}`);
+    }
+  });
+  beforeCounts.forEach((count, name) => {
+    if (!afterCounts.has(name)) removed.push(`${count} ${name}`);
+  });
+
+  return { added, removed };
+}
+
+function diffSteps(before: Step[], after: Step[]): Pick<FieldChange, 'added' | 'removed'> {
+  const describe = (step: Step, index: number) =>
+    `Step ${index + 1}: ${step.title || '(untitled)'}${step.description ? ` - ${step.description}` : ''}`;
+  const beforeSteps = before.map(describe);
+  const afterSteps = after.map(describe);
+
+  return {
+    added: afterSteps.filter((step) => !beforeSteps.includes(step)),
+    removed: beforeSteps.filter((step) => !afterSteps.includes(step)),
+  };
+}
+
+// Lists of strings (platforms, tags) or of JSON entries (drop rates)
+function diffList(before: Json[], after: Json[]): Pick<FieldChange, 'added' | 'removed'> {
+  const beforeItems = before.map(formatValue);
+  const afterItems = after.map(formatValue);
+
+  return {
+    added: afterItems.filter((item) => !beforeItems.includes(item)),
+    removed: beforeItems.filter((item) => !afterItems.includes(item)),
+  };
+}
+
+/**
+ * Field-level changes between two snapshots (an empty `before` treats everything as added)
+ */
+export function diffFarmSnapshots(before: FarmSnapshot | null, after: FarmSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, label] of Object.entries(FIELD_LABELS) as Array<[SnapshotField, string]>) {
+    const oldValue = before?.[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    let diff: Pick<FieldChange, 'added' | 'removed'>;
+    if (field === 'materials' || field === 'optional_materials') {
+      diff = diffMaterials(parseMaterials(oldValue), parseMaterials(newValue));
+    } else if (field === 'steps') {
+      diff = diffSteps(parseSteps(oldValue), parseSteps(newValue));
+    } else if (Array.isArray(oldValue) || Array.isArray(newValue)) {
+      diff = diffList(Array.isArray(oldValue) ? oldValue : [], Array.isArray(newValue) ? newValue : []);
+    } else {
+      diff = {
+        added: newValue === null ? [] : [formatValue(newValue)],
+        removed: oldValue === null ? [] : [formatValue(oldValue)],
+      };
+    }
+
+    // Reordering alone leaves nothing to show
+    if (diff.added.length > 0 || diff.removed.length > 0) {
+      changes.push({ field, label, ...diff });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,265 @@
+/**
+ * Farm search: the options and result shapes shared with the `search_farms` and `search_farm_facets`
+ * database functions, and in-memory equivalents of them used by the memory repository
+ */
+
+import Fuse from 'fuse.js';
+import { MinecraftVersion, compareVersions, getNewestListedVersion, isFarmCompatible } from './minecraftVersions';
+import { getItemsPerHour, getMaxItemsPerHour } from './dropRates';
+import { getEfficiencyScore } from './efficiency';
+import type { Farm } from './farm';
+
+export const SEARCH_PAGE_SIZE = 24;
+
+// Keep these buckets in sync with build_time_bucket / material_count_bucket in the database
+export const BUILD_TIME_BUCKETS = [
+  { value: 'under_30m', label: 'Under 30 minutes' },
+  { value: '30m_2h', label: '30 minutes to 2 hours' },
+  { value: 'over_2h', label: 'Over 2 hours' },
+];
+
+export const MATERIAL_COUNT_BUCKETS = [
+  { value: 'under_10', label: 'Fewer than 10 materials' },
+  { value: '10_25', label: '10 to 25 materials' },
+  { value: 'over_25', label: 'More than 25 materials' },
+];
+
+// Latest release of each minor version; the version facet shows counts for these
+export const FACET_VERSIONS = ['1.21.4', '1.20.6', '1.19.4', '1.18.2', '1.17.1', '1.16.5'];
+
+export interface FarmSearchOptions {
+  query?: string;
+  platform?: string;
+  tag?: string;
+  category?: string;
+  version?: MinecraftVersion | null;
+  biome?: string;
+  buildTime?: string;
+  materialCount?: string;
+  hasSchematic?: boolean;
+  hasVideo?: boolean;
+  item?: string;
+  verified?: boolean;
+  // relevance, newest, oldest, upvotes, title, or one of the CategoryPage sorts (build_time_asc, version_newest, ...)
+  sort?: string;
+}
+
+export interface FarmSearchPage {
+  farms: Farm[];
+  total: number;
+}
+
+export interface FarmFacets {
+  total: number;
+  platform: Record<string, number>;
+  category: Record<string, number>;
+  version: Record<string, number>;
+  biome: Record<string, number>;
+  build_time: Record<string, number>;
+  material_count: Record<string, number>;
+  item: Record<string, number>;
+  has_schematic: number;
+  has_video: number;
+  verified: number;
+}
+
+export function getBuildTimeBucket(minutes: number | null | undefined): string | null {
+  if (minutes === null || minutes === undefined) return null;
+  if (minutes < 30) return 'under_30m';
+  if (minutes <= 120) return '30m_2h';
+  return 'over_2h';
+}
+
+export function getMaterialCountBucket(materials: unknown): string | null {
+  if (!Array.isArray(materials) || materials.length === 0) return null;
+  if (materials.length < 10) return 'under_10';
+  if (materials.length <= 25) return '10_25';
+  return 'over_25';
+}
+
+function getMaterialCount(farm: Farm): number {
+  return farm.materials.length + farm.optional_materials.length;
+}
+
+function compareNewestVersion(a: Farm, b: Farm): number {
+  const aVersion = getNewestListedVersion(a.versions) || { edition: null, parts: [0, 0] };
+  const bVersion = getNewestListedVersion(b.versions) || { edition: null, parts: [0, 0] };
+  return compareVersions(aVersion, bVersion);
+}
+
+const byDate = (farm: Farm) => new Date(farm.created_at || 0).getTime();
+const byUpvotes = (farm: Farm) => farm.upvotes_count || 0;
+
+// Same orderings as search_farms; anything unknown falls back to newest first
+const SORTERS: Record<string, (a: Farm, b: Farm) => number> = {
+  newest: (a, b) => byDate(b) - byDate(a),
+  oldest: (a, b) => byDate(a) - byDate(b),
+  upvotes: (a, b) => byUpvotes(b) - byUpvotes(a),
+  upvotes_desc: (a, b) => byUpvotes(b) - byUpvotes(a),
+  upvotes_asc: (a, b) => byUpvotes(a) - byUpvotes(b),
+  title: (a, b) => a.title.localeCompare(b.title),
+  build_time_asc: (a, b) => (a.estimated_time || Infinity) - (b.estimated_time || Infinity),
+  build_time_desc: (a, b) => (b.estimated_time || 0) - (a.estimated_time || 0),
+  resources_asc: (a, b) => getMaterialCount(a) - getMaterialCount(b),
+  resources_desc: (a, b) => getMaterialCount(b) - getMaterialCount(a),
+  drop_rate_desc: (a, b) => getMaxItemsPerHour(b) - getMaxItemsPerHour(a),
+  drop_rate_asc: (a, b) => getMaxItemsPerHour(a) - getMaxItemsPerHour(b),
+  efficiency_desc: (a, b) => (getEfficiencyScore(b) ?? -1) - (getEfficiencyScore(a) ?? -1),
+  efficiency_time_desc: (a, b) =>
+    (getEfficiencyScore(b, { includeBuildTime: true }) ?? -1) - (getEfficiencyScore(a, { includeBuildTime: true }) ?? -1),
+  version_newest: (a, b) => compareNewestVersion(b, a),
+  version_oldest: (a, b) => compareNewestVersion(a, b),
+};
+
+/**
+ * In-memory version of the search_farms function; uses Fuse.js for the text query
+ */
+export function searchFarmsLocally(
+  farms: Farm[],
+  options: FarmSearchOptions,
+  page = 0,
+  pageSize = SEARCH_PAGE_SIZE
+): FarmSearchPage {
+  let results = matchQueryLocally(farms, options).filter((farm) => failedFacets(farm, options).length === 0);
+
+  const query = options.query?.trim();
+  const sort = options.sort || 'relevance';
+  if (sort !== 'relevance' || !query) {
+    results = [...results].sort(SORTERS[sort] || SORTERS.newest);
+  }
+
+  return {
+    farms: results.slice(page * pageSize, (page + 1) * pageSize),
+    total: results.length,
+  };
+}
+
+const hasText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const sameText = (a: unknown, b: string) => typeof a === 'string' && a.trim().toLowerCase() === b.toLowerCase();
+
+type FacetKey = 'platform' | 'category' | 'version' | 'biome' | 'build_time' | 'material_count' | 'has_schematic' | 'has_video' | 'item' | 'verified';
+
+// Mirrors the per-facet flags of farm_search_matches
+const FACET_CHECKS: Record<FacetKey, (farm: Farm, options: FarmSearchOptions) => boolean> = {
+  platform: (farm, o) => !o.platform || (farm.platform || []).some((p: string) => sameText(p, o.platform!)),
+  category: (farm, o) => !o.category || farm.category === o.category,
+  version: (farm, o) => !o.version || isFarmCompatible(farm, o.version),
+  biome: (farm, o) => !o.biome || sameText(farm.required_biome, o.biome),
+  build_time: (farm, o) => !o.buildTime || getBuildTimeBucket(farm.estimated_time) === o.buildTime,
+  material_count: (farm, o) => !o.materialCount || getMaterialCountBucket(farm.materials) === o.materialCount,
+  has_schematic: (farm, o) => o.hasSchematic === undefined || hasText(farm.schematic_url) === o.hasSchematic,
+  has_video: (farm, o) => o.hasVideo === undefined || hasText(farm.video_url) === o.hasVideo,
+  item: (farm, o) => !o.item || (farm.farmable_items || []).some((item: string) => sameText(item, o.item!)),
+  verified: (farm, o) => o.verified === undefined || (farm.verified_versions?.length > 0) === o.verified,
+};
+
+function failedFacets(farm: Farm, options: FarmSearchOptions): FacetKey[] {
+  return (Object.keys(FACET_CHECKS) as FacetKey[]).filter((key) => !FACET_CHECKS[key](farm, options));
+}
+
+/**
+ * Farms matching the text query and tag (the filters that facets never relax)
+ */
+function matchQueryLocally(farms: Farm[], options: FarmSearchOptions): Farm[] {
+  const results = options.tag ? farms.filter((farm) => farm.tags?.includes(options.tag!.toLowerCase())) : farms;
+
+  const query = options.query?.trim();
+  if (query) {
+    const fuse = new Fuse(results, {
+      keys: [
+        'title',
+        'description',
+        'tags',
+        'materials.name',
+        'farmable_items',
+        { name: 'drop_rate_per_hour', getFn: (farm: Farm) => farm.drop_rate_per_hour.map((dr) => dr.item).join(' ') },
+      ],
+      threshold: 0.3,
+    });
+    return fuse.search(query).map((result) => result.item);
+  }
+
+  return results;
+}
+
+/**
+ * In-memory version of the search_farm_facets function
+ */
+export function computeFacetsLocally(farms: Farm[], options: FarmSearchOptions): FarmFacets {
+  const facets: FarmFacets = {
+    total: 0,
+    platform: {},
+    category: {},
+    version: {},
+    biome: {},
+    build_time: {},
+    material_count: {},
+    item: {},
+    has_schematic: 0,
+    has_video: 0,
+    verified: 0,
+  };
+  const increment = (counts: Record<string, number>, key: string | null | undefined) => {
+    if (key) counts[key] = (counts[key] || 0) + 1;
+  };
+
+  for (const farm of matchQueryLocally(farms, options)) {
+    const failed = failedFacets(farm, options);
+    // A farm counts towards a facet when it passes every other filter
+    const countsFor = (key: FacetKey) => failed.length === 0 || (failed.length === 1 && failed[0] === key);
+
+    if (failed.length === 0) facets.total++;
+    if (countsFor('platform')) (farm.platform || []).forEach((p: string) => increment(facets.platform, p));
+    if (countsFor('category')) increment(facets.category, farm.category);
+    if (countsFor('version')) {
+      FACET_VERSIONS.forEach((version) => {
+        const parts = version.split('.').map(Number);
+        if (isFarmCompatible(farm, { edition: options.version?.edition || null, parts })) increment(facets.version, version);
+      });
+    }
+    if (countsFor('biome') && hasText(farm.required_biome)) increment(facets.biome, farm.required_biome.trim());
+    if (countsFor('build_time')) increment(facets.build_time, getBuildTimeBucket(farm.estimated_time));
+    if (countsFor('material_count')) increment(facets.material_count, getMaterialCountBucket(farm.materials));
+    if (countsFor('item')) new Set<string>(farm.farmable_items || []).forEach((item) => increment(facets.item, item));
+    if (countsFor('has_schematic') && hasText(farm.schematic_url)) facets.has_schematic++;
+    if (countsFor('has_video') && hasText(farm.video_url)) facets.has_video++;
+    if (countsFor('verified') && farm.verified_versions?.length > 0) facets.verified++;
+  }
+
+  return facets;
+}
+
+export interface ItemFarmResult {
+  farm: Farm;
+  // null when the farm lists the item without a usable rate
+  itemsPerHour: number | null;
+}
+
+export interface ItemSearchOptions {
+  platform?: string;
+  version?: MinecraftVersion | null;
+}
+
+function producesItem(farm: Farm, item: string): boolean {
+  const name = item.toLowerCase();
+  return (
+    farm.farmable_items.some((farmable) => farmable.toLowerCase() === name) ||
+    farm.drop_rate_per_hour.some((dr) => dr.item.toLowerCase() === name)
+  );
+}
+
+/**
+ * Farms producing an item, fastest first; farms without a rate for it come last, by upvotes
+ */
+export function rankFarmsByItem(farms: Farm[], item: string, options: ItemSearchOptions = {}): ItemFarmResult[] {
+  return farms
+    .filter((farm) => producesItem(farm, item))
+    .filter((farm) => FACET_CHECKS.platform(farm, options) && FACET_CHECKS.version(farm, options))
+    .map((farm) => ({ farm, itemsPerHour: getItemsPerHour(farm, item) }))
+    .sort((a, b) => {
+      if (a.itemsPerHour !== null && b.itemsPerHour !== null) return b.itemsPerHour - a.itemsPerHour;
+      if (a.itemsPerHour !== null) return -1;
+      if (b.itemsPerHour !== null) return 1;
+      return byUpvotes(b.farm) - byUpvotes(a.farm);
+    });
+}
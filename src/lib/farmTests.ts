@@ -0,0 +1,120 @@
+/**
+ * Community farm testing: "works on version X" reports and the per-version compatibility matrix
+ * Reports are stored through `repos.farmTests`
+ */
+
+import { compareVersions, formatMinecraftVersion, getNewestListedVersion, parseMinecraftVersion } from './minecraftVersions';
+
+export type FarmTestResult = 'works' | 'works_with_issues' | 'does_not_work';
+
+export const TEST_RESULT_LABELS: Record<FarmTestResult, string> = {
+  works: 'Works',
+  works_with_issues: 'Works with issues',
+  does_not_work: 'Does not work',
+};
+
+export interface FarmTest {
+  id: string;
+  farm_id: string;
+  user_id: string;
+  test_result: FarmTestResult;
+  test_notes: string | null;
+  tested_version: string | null;
+  tested_platform: string | null;
+  created_at: string;
+  updated_at: string;
+  tester?: { username: string } | null;
+}
+
+export interface FarmTestInput {
+  result: FarmTestResult;
+  platform: string;
+  version: string;
+  notes: string;
+}
+
+export interface CompatibilityRow {
+  platform: string;
+  version: string;
+  works: number;
+  withIssues: number;
+  doesNotWork: number;
+  verified: boolean;
+}
+
+export interface FarmTestSummary {
+  works: number;
+  withIssues: number;
+  doesNotWork: number;
+}
+
+/**
+ * Report counts per farm, keyed by farm id
+ */
+export function summarizeFarmTests(
+  tests: Array<{ farm_id: string; test_result: FarmTestResult | null }>
+): Record<string, FarmTestSummary> {
+  const summaries: Record<string, FarmTestSummary> = {};
+  for (const test of tests) {
+    const summary = (summaries[test.farm_id] ||= { works: 0, withIssues: 0, doesNotWork: 0 });
+    if (test.test_result === 'works') summary.works++;
+    else if (test.test_result === 'works_with_issues') summary.withIssues++;
+    else if (test.test_result === 'does_not_work') summary.doesNotWork++;
+  }
+  return summaries;
+}
+
+/**
+ * Same rule the database uses for `farms.verified_versions`
+ */
+export function isVerified(row: Pick<CompatibilityRow, 'works' | 'withIssues' | 'doesNotWork'>): boolean {
+  return row.works > 0 && row.works + row.withIssues > row.doesNotWork;
+}
+
+/**
+ * Groups reports by platform + version, newest version first
+ */
+export function buildCompatibilityMatrix(tests: FarmTest[]): CompatibilityRow[] {
+  const rows = new Map<string, CompatibilityRow>();
+
+  for (const test of tests) {
+    if (!test.tested_version) continue;
+    const platform = test.tested_platform || '';
+    const key = `${platform}|${test.tested_version}`;
+    const row = rows.get(key) || { platform, version: test.tested_version, works: 0, withIssues: 0, doesNotWork: 0, verified: false };
+
+    if (test.test_result === 'works') row.works++;
+    else if (test.test_result === 'works_with_issues') row.withIssues++;
+    else if (test.test_result === 'does_not_work') row.doesNotWork++;
+
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, verified: isVerified(row) }))
+    .sort((a, b) => {
+      const aVersion = parseMinecraftVersion(a.version);
+      const bVersion = parseMinecraftVersion(b.version);
+      const byVersion = aVersion && bVersion ? compareVersions(bVersion, aVersion) : b.version.localeCompare(a.version);
+      return byVersion || a.platform.localeCompare(b.platform);
+    });
+}
+
+/**
+ * The labels the database keeps in `farms.verified_versions`, e.g. ["Bedrock 1.21.0", "Java 1.21"]
+ */
+export function getVerifiedVersions(tests: FarmTest[]): string[] {
+  return buildCompatibilityMatrix(tests)
+    .filter((row) => row.verified)
+    .map((row) => `${row.platform} ${row.version}`.trim())
+    .sort();
+}
+
+/**
+ * Short badge text for the newest verified version, e.g. "Verified on 1.21"
+ */
+export function getVerifiedLabel(verifiedVersions: string[] | null | undefined): string | null {
+  const newest = getNewestListedVersion(verifiedVersions);
+  if (!newest) return null;
+  return `Verified on ${formatMinecraftVersion({ edition: null, parts: newest.parts })}`;
+}
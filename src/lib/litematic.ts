@@ -0,0 +1,172 @@
+/**
+ * Litematica (.litematic) schematic decoding
+ */
+
+import {
+  NbtCompound,
+  getCompound,
+  getList,
+  getNumber,
+  getString,
+  isCompound,
+} from './nbt';
+import { BlockState, PaletteBuilder, Schematic, checkVolume, readBlockState } from './schematic';
+
+/**
+ * Splits a long array into little-endian 32-bit words so bits can be read without BigInt math
+ */
+function toWords(longs: BigInt64Array): Uint32Array {
+  const words = new Uint32Array(longs.length * 2);
+  for (let i = 0; i < longs.length; i++) {
+    const value = BigInt.asUintN(64, longs[i]);
+    words[i * 2] = Number(value & 0xffffffffn);
+    words[i * 2 + 1] = Number(value >> 32n);
+  }
+  return words;
+}
+
+function readVec(tag: NbtCompound | null): { x: number; y: number; z: number } {
+  if (!tag) {
+    throw new Error('Litematic region is missing its position or size');
+  }
+  return {
+    x: getNumber(tag, 'x') ?? 0,
+    y: getNumber(tag, 'y') ?? 0,
+    z: getNumber(tag, 'z') ?? 0,
+  };
+}
+
+interface Region {
+  min: { x: number; y: number; z: number };
+  size: { x: number; y: number; z: number };
+  palette: BlockState[];
+  words: Uint32Array;
+  bits: number;
+}
+
+function readRegion(tag: NbtCompound): Region {
+  const position = readVec(getCompound(tag, 'Position'));
+  const rawSize = readVec(getCompound(tag, 'Size'));
+
+  // Negative sizes extend from the position towards negative coordinates
+  const min = {
+    x: rawSize.x < 0 ? position.x + rawSize.x + 1 : position.x,
+    y: rawSize.y < 0 ? position.y + rawSize.y + 1 : position.y,
+    z: rawSize.z < 0 ? position.z + rawSize.z + 1 : position.z,
+  };
+  const size = { x: Math.abs(rawSize.x), y: Math.abs(rawSize.y), z: Math.abs(rawSize.z) };
+  checkVolume(size.x, size.y, size.z);
+
+  const palette = getList(tag, 'BlockStatePalette').map((entry) => {
+    if (!isCompound(entry)) throw new Error('Invalid litematic block palette');
+    return readBlockState(entry);
+  });
+  if (palette.length === 0) {
+    throw new Error('Litematic region has an empty block palette');
+  }
+
+  const states = tag.BlockStates;
+  if (!(states instanceof BigInt64Array)) {
+    throw new Error('Litematic region is missing block data');
+  }
+
+  const bits = Math.max(2, Math.ceil(Math.log2(palette.length)));
+  const volume = size.x * size.y * size.z;
+  if (states.length * 64 < volume * bits) {
+    throw new Error('Litematic block data is truncated');
+  }
+
+  return { min, size, palette, words: toWords(states), bits };
+}
+
+/**
+ * Reads the palette index at position `index` from Litematica's tightly packed bit array,
+ * where entries may span two longs
+ */
+function readPacked(words: Uint32Array, bits: number, index: number): number {
+  const bitOffset = index * bits;
+  const word = Math.floor(bitOffset / 32);
+  const shift = bitOffset % 32;
+  let value = words[word] >>> shift;
+  if (shift + bits > 32) {
+    value |= words[word + 1] << (32 - shift);
+  }
+  const mask = bits >= 32 ? 0xffffffff : (1 << bits) - 1;
+  return (value & mask) >>> 0;
+}
+
+/**
+ * Returns true if the NBT root looks like a Litematica schematic
+ */
+export function isLitematic(root: NbtCompound): boolean {
+  return isCompound(root.Regions) && isCompound(root.Metadata);
+}
+
+/**
+ * Decodes a parsed Litematica NBT tree, merging all regions into one volume
+ */
+export function decodeLitematic(root: NbtCompound): Schematic {
+  const regionsTag = getCompound(root, 'Regions');
+  if (!regionsTag || !isLitematic(root)) {
+    throw new Error('File is not a valid Litematica schematic');
+  }
+
+  const regions = Object.values(regionsTag).filter(isCompound).map(readRegion);
+  if (regions.length === 0) {
+    throw new Error('Litematic file contains no regions');
+  }
+
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const region of regions) {
+    min.x = Math.min(min.x, region.min.x);
+    min.y = Math.min(min.y, region.min.y);
+    min.z = Math.min(min.z, region.min.z);
+    max.x = Math.max(max.x, region.min.x + region.size.x);
+    max.y = Math.max(max.y, region.min.y + region.size.y);
+    max.z = Math.max(max.z, region.min.z + region.size.z);
+  }
+
+  const width = max.x - min.x;
+  const height = max.y - min.y;
+  const length = max.z - min.z;
+  checkVolume(width, height, length);
+
+  const builder = new PaletteBuilder();
+  const blocks = new Uint32Array(width * height * length);
+
+  for (const region of regions) {
+    const mapping = region.palette.map((state) => builder.add(state));
+    const { x: sx, y: sy, z: sz } = region.size;
+    const ox = region.min.x - min.x;
+    const oy = region.min.y - min.y;
+    const oz = region.min.z - min.z;
+
+    let index = 0;
+    for (let y = 0; y < sy; y++) {
+      for (let z = 0; z < sz; z++) {
+        for (let x = 0; x < sx; x++, index++) {
+          const local = readPacked(region.words, region.bits, index);
+          const global = mapping[local];
+          if (global === undefined) {
+            throw new Error('Litematic block data references an unknown palette entry');
+          }
+          if (global !== 0) {
+            blocks[((oy + y) * length + (oz + z)) * width + (ox + x)] = global;
+          }
+        }
+      }
+    }
+  }
+
+  const metadata = getCompound(root, 'Metadata');
+  return {
+    name: metadata ? getString(metadata, 'Name') : null,
+    author: metadata ? getString(metadata, 'Author') : null,
+    width,
+    height,
+    length,
+    palette: builder.palette,
+    blocks,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Email and password accounts kept in localStorage, standing in for Supabase Auth in demo mode.
+ * Results are shaped like supabase.auth's so pages don't need to know which one they're using
+ */
+
+import {
+  AuthError,
+  type AuthChangeEvent,
+  type AuthResponse,
+  type AuthTokenResponsePassword,
+  type Session,
+  type SignInWithPasswordCredentials,
+  type SignUpWithPasswordCredentials,
+  type Subscription,
+  type User,
+} from '@supabase/supabase-js';
+import { DEMO_ACCOUNT } from './demoData';
+
+interface LocalAccount {
+  id: string;
+  email: string;
+  password_hash: string;
+  username: string;
+  created_at: string;
+}
+
+const ACCOUNTS_KEY = 'minecraft-farms-demo-accounts';
+const SESSION_KEY = 'minecraft-farms-demo-session';
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void;
+const listeners = new Set<AuthListener>();
+
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const loadAccounts = async (): Promise<LocalAccount[]> => {
+  const accounts = readJson<LocalAccount[]>(ACCOUNTS_KEY, []);
+  if (accounts.some((account) => account.id === DEMO_ACCOUNT.id)) return accounts;
+
+  // The demo account is always there to sign in with
+  return [
+    {
+      id: DEMO_ACCOUNT.id,
+      email: DEMO_ACCOUNT.email,
+      password_hash: await hashPassword(DEMO_ACCOUNT.password),
+      username: DEMO_ACCOUNT.username,
+      created_at: new Date().toISOString(),
+    },
+    ...accounts,
+  ];
+};
+
+const toUser = (account: LocalAccount) =>
+  ({
+    id: account.id,
+    email: account.email,
+    aud: 'authenticated',
+    role: 'authenticated',
+    app_metadata: { provider: 'email' },
+    user_metadata: { username: account.username },
+    created_at: account.created_at,
+  }) as User;
+
+const toSession = (user: User) =>
+  ({
+    access_token: `local-${user.id}`,
+    refresh_token: `local-${user.id}`,
+    token_type: 'bearer',
+    expires_in: 60 * 60 * 24 * 365,
+    user,
+  }) as Session;
+
+const startSession = (account: LocalAccount) => {
+  const session = toSession(toUser(account));
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  listeners.forEach((listener) => listener('SIGNED_IN', session));
+  return session;
+};
+
+// Status codes as Supabase Auth sends them
+const authError = (message: string, status: number) => ({
+  data: { user: null, session: null },
+  error: new AuthError(message, status),
+});
+
+export const localAuth = {
+  async getSession() {
+    const session = readJson<Session | null>(SESSION_KEY, null);
+    return session ? { data: { session }, error: null } : { data: { session: null }, error: null };
+  },
+
+  onAuthStateChange(callback: AuthListener): { data: { subscription: Subscription } } {
+    listeners.add(callback);
+    return {
+      data: {
+        subscription: {
+          id: 'local',
+          callback,
+          unsubscribe: () => {
+            listeners.delete(callback);
+          },
+        },
+      },
+    };
+  },
+
+  async signInWithPassword(credentials: SignInWithPasswordCredentials): Promise<AuthTokenResponsePassword> {
+    if (!('email' in credentials)) return authError('Phone sign-in is not available in demo mode', 400);
+    const { email, password } = credentials;
+    const accounts = await loadAccounts();
+    const account = accounts.find((a) => a.email.toLowerCase() === email.trim().toLowerCase());
+    if (!account || account.password_hash !== (await hashPassword(password))) {
+      return authError('Invalid login credentials', 400);
+    }
+
+    const session = startSession(account);
+    return { data: { user: session.user, session }, error: null };
+  },
+
+  async signUp(credentials: SignUpWithPasswordCredentials): Promise<AuthResponse> {
+    if (!('email' in credentials)) return authError('Phone sign-up is not available in demo mode', 400);
+    const { email, password, options } = credentials;
+    const accounts = await loadAccounts();
+    if (accounts.some((a) => a.email.toLowerCase() === email.trim().toLowerCase())) {
+      return authError('User already registered', 422);
+    }
+
+    const account: LocalAccount = {
+      id: crypto.randomUUID(),
+      email: email.trim(),
+      password_hash: await hashPassword(password),
+      username: options?.data && 'username' in options.data ? String(options.data.username) : '',
+      created_at: new Date().toISOString(),
+    };
+    localStorage.setItem(ACCOUNTS_KEY, JSON.stringify([...accounts, account]));
+
+    const session = startSession(account);
+    return { data: { user: session.user, session }, error: null };
+  },
+
+  async signOut() {
+    localStorage.removeItem(SESSION_KEY);
+    listeners.forEach((listener) => listener('SIGNED_OUT', null));
+    return { error: null };
+  },
+};
+
+// Forgets every local account and signs out
+export function clearLocalAuth() {
+  localStorage.removeItem(ACCOUNTS_KEY);
+  localStorage.removeItem(SESSION_KEY);
+}
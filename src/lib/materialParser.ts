@@ -1,15 +1,355 @@
 import { MINECRAFT_ITEMS } from './minecraftItems';
+import { getMaxStackSize, SHULKER_BOX_SLOTS } from './stackSizes';
 
 export interface ParsedMaterial {
   name: string;
   count: number;
+  // The original text the material was parsed from, for review
+  line?: string;
+}
+
+export interface MaterialCandidate {
+  name: string;
+  // 0-1, where 1 is an exact name or alias match
+  score: number;
+}
+
+export interface MaterialMatch {
+  // Best candidate, or null when no candidate is confident enough to use without asking
+  name: string | null;
+  confidence: number;
+  candidates: MaterialCandidate[];
+}
+
+export interface AmbiguousMaterial {
+  line: string;
+  // Resolve with quantityToCount once an item is chosen
+  quantity: MaterialQuantity;
+  candidates: MaterialCandidate[];
 }
 
 export interface MaterialParseResult {
   added: ParsedMaterial[];
+  // Lines with possible matches that the user should confirm
+  ambiguous: AmbiguousMaterial[];
   failed: string[];
 }
 
+// Scores at or above this are used without asking
+const CONFIDENT_SCORE = 0.85;
+// A lower top score is still accepted when it clearly beats the runner-up
+const CLEAR_WIN_SCORE = 0.6;
+const CLEAR_WIN_MARGIN = 0.2;
+// Candidates below this are not worth suggesting
+const MIN_CANDIDATE_SCORE = 0.4;
+// Token pairs less similar than this (e.g. "oak" vs "boat") count as no match
+const MIN_TOKEN_SIMILARITY = 0.7;
+
+const STOPWORDS = new Set(['of', 'with', 'the', 'a', 'an', 'and', 'on']);
+// Words people tack on ("dirt blocks", "glass items") that item names usually leave out
+const FILLER_WORDS = new Set(['block', 'item']);
+
+/**
+ * Common shorthand and community names; keys are normalized the same way as user input
+ */
+const MATERIAL_ALIASES: Record<string, string> = {
+  rs: 'Redstone Dust',
+  'rs dust': 'Redstone Dust',
+  redstone: 'Redstone Dust',
+  'rs torch': 'Redstone Torch',
+  'rs block': 'Block of Redstone',
+  'rs repeater': 'Redstone Repeater',
+  repeater: 'Redstone Repeater',
+  'rs comparator': 'Redstone Comparator',
+  comparator: 'Redstone Comparator',
+  'rs lamp': 'Redstone Lamp',
+  obsi: 'Obsidian',
+  obby: 'Obsidian',
+  echest: 'Ender Chest',
+  'e chest': 'Ender Chest',
+  enderchest: 'Ender Chest',
+  'ender eye': 'Eye of Ender',
+  pearl: 'Ender Pearl',
+  quartz: 'Nether Quartz',
+  cobble: 'Cobblestone',
+  'cobble slab': 'Cobblestone Slab',
+  'cobble stair': 'Cobblestone Stairs',
+  'cobble wall': 'Cobblestone Wall',
+  'deepslate cobble': 'Cobbled Deepslate',
+  iron: 'Iron Ingot',
+  gold: 'Gold Ingot',
+  copper: 'Copper Ingot',
+  plank: 'Oak Planks',
+  'wood plank': 'Oak Planks',
+  'wooden plank': 'Oak Planks',
+  'wood slab': 'Oak Slab',
+  'wooden slab': 'Oak Slab',
+  log: 'Oak Log',
+  wood: 'Oak Log',
+  slimeball: 'Slimeball',
+  'slime ball': 'Slimeball',
+  sticky: 'Sticky Piston',
+  'hopper minecart': 'Minecart with Hopper',
+  'hopper cart': 'Minecart with Hopper',
+  'chest minecart': 'Minecart with Chest',
+  'chest cart': 'Minecart with Chest',
+  cart: 'Minecart',
+  water: 'Water Bucket',
+  'bucket of water': 'Water Bucket',
+  lava: 'Lava Bucket',
+  'bucket of lava': 'Lava Bucket',
+  'daylight sensor': 'Daylight Detector',
+  'light sensor': 'Daylight Detector',
+  shulker: 'Shulker Box',
+  scaffold: 'Scaffolding',
+  magma: 'Magma Block',
+  trapdoor: 'Oak Trapdoor',
+  fence: 'Oak Fence',
+  'fence gate': 'Oak Fence Gate',
+  sign: 'Oak Sign',
+  slab: 'Smooth Stone Slab',
+  'pressure plate': 'Stone Pressure Plate',
+  button: 'Stone Button',
+  bed: 'White Bed',
+  wool: 'White Wool',
+  carpet: 'White Carpet',
+  'glass block': 'Glass',
+};
+
+/**
+ * Reduces a plural word to its singular form ("torches" -> "torch", "berries" -> "berry")
+ */
+function singularize(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !STOPWORDS.has(token))
+    .map(singularize);
+}
+
+function normalizeMaterialName(name: string): string {
+  return tokenize(name).join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  // Skip the edit distance when the lengths alone rule out a close match
+  if (Math.abs(a.length - b.length) > longest * (1 - MIN_TOKEN_SIMILARITY)) return 0;
+  const similarity = 1 - editDistance(a, b) / longest;
+  return similarity >= MIN_TOKEN_SIMILARITY ? similarity : 0;
+}
+
+// Each token's best similarity against the other side, averaged
+function coverage(from: string[], to: string[]): number {
+  if (from.length === 0) return 0;
+  const total = from.reduce((sum, token) => sum + Math.max(0, ...to.map((other) => tokenSimilarity(token, other))), 0);
+  return total / from.length;
+}
+
+// Word order is ignored for exact matches, so "iron block" matches "Block of Iron"
+function tokenSetKey(tokens: string[]): string {
+  return [...tokens].sort().join(' ');
+}
+
+let itemIndex: Array<{ name: string; key: string; tokens: string[] }> | null = null;
+
+function getItemIndex() {
+  if (!itemIndex) {
+    itemIndex = MINECRAFT_ITEMS.map((name) => {
+      const tokens = tokenize(name);
+      return { name, key: tokenSetKey(tokens), tokens };
+    });
+  }
+  return itemIndex;
+}
+
+const normalizedAliases = new Map(
+  Object.entries(MATERIAL_ALIASES).map(([alias, name]) => [normalizeMaterialName(alias), name])
+);
+
+/**
+ * Ranks Minecraft items by how well they match a material name
+ * - Exact names and aliases score 1 (slightly less once filler words like "blocks" are dropped)
+ * - Otherwise scores combine how much of the query and of the item name are covered,
+ *   with tokens compared by edit distance after plural normalization
+ */
+export function findMaterialCandidates(itemName: string, limit = 5): MaterialCandidate[] {
+  const tokens = tokenize(itemName);
+  if (tokens.length === 0) return [];
+
+  const withoutFiller = tokens.filter((token) => !FILLER_WORDS.has(token));
+  const exactKeys = new Map([[tokenSetKey(tokens), 1]]);
+  if (withoutFiller.length > 0 && withoutFiller.length < tokens.length) {
+    exactKeys.set(tokenSetKey(withoutFiller), 0.98);
+  }
+
+  const scores = new Map<string, number>();
+  const alias = normalizedAliases.get(tokens.join(' '));
+  const fillerAlias = normalizedAliases.get(withoutFiller.join(' '));
+  if (alias) {
+    scores.set(alias, 1);
+  } else if (fillerAlias) {
+    scores.set(fillerAlias, 0.98);
+  }
+
+  for (const item of getItemIndex()) {
+    const exactScore = exactKeys.get(item.key);
+    if (exactScore) {
+      scores.set(item.name, Math.max(exactScore, scores.get(item.name) || 0));
+      continue;
+    }
+
+    const recall = coverage(tokens, item.tokens);
+    const precision = coverage(item.tokens, tokens);
+    if (recall === 0 || precision === 0) continue;
+
+    // Kept just under 1 so only exact matches count as certain
+    const score = ((2 * recall * precision) / (recall + precision)) * 0.95;
+    if (score >= MIN_CANDIDATE_SCORE && score > (scores.get(item.name) || 0)) {
+      scores.set(item.name, score);
+    }
+  }
+
+  return Array.from(scores, ([name, score]) => ({ name, score }))
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+    .slice(0, limit);
+}
+
+/**
+ * Picks the best Minecraft item for a material name, or returns null with ranked candidates when unsure
+ */
+export function matchMaterialName(itemName: string): MaterialMatch {
+  const candidates = findMaterialCandidates(itemName);
+  const [best, runnerUp] = candidates;
+  if (!best) {
+    return { name: null, confidence: 0, candidates };
+  }
+
+  const margin = best.score - (runnerUp?.score || 0);
+  const confident =
+    (best.score >= CONFIDENT_SCORE && margin > 0) || (best.score >= CLEAR_WIN_SCORE && margin >= CLEAR_WIN_MARGIN);
+
+  return { name: confident ? best.name : null, confidence: best.score, candidates };
+}
+
+// Quantity units, in inventory slots (stacks); a shulker box holds 27 stacks, a double chest 54
+const QUANTITY_UNITS: Array<{ pattern: string; stacks: number }> = [
+  { pattern: 'double\\s*chests?|dchests?|dcs?', stacks: 54 },
+  { pattern: 'shulker\\s*box(?:es)?|shulkers?|shulks?|sb', stacks: SHULKER_BOX_SLOTS },
+  { pattern: 'stacks?|st|s', stacks: 1 },
+];
+
+const QUANTITY_TERM = new RegExp(
+  `^(\\d+(?:\\.\\d+)?)\\s*(?:(${QUANTITY_UNITS.map((unit) => unit.pattern).join('|')})(?![a-z]))?`,
+  'i'
+);
+
+// "- ", "* ", "• ", "1. ", "2) ", "[ ] ", "[x] "
+const BULLET_PREFIX = /^(?:[-*•–—>]+|\d+[.)]|\[[ xX]?\])\s+/;
+
+/**
+ * A quantity that may be written in stacks, kept apart from loose items
+ * because stack size depends on the item it is resolved to
+ */
+export interface MaterialQuantity {
+  items: number;
+  stacks: number;
+}
+
+export function quantityToCount(quantity: MaterialQuantity, itemName: string): number {
+  return Math.round(quantity.items + quantity.stacks * getMaxStackSize(itemName));
+}
+
+/**
+ * Reads a quantity expression from the start of the text, e.g. "3 stacks + 12", "2s+5", "1.5 shulkers"
+ * Returns the quantity and the remaining text, or null when the text doesn't start with a number
+ */
+function readQuantity(text: string): { quantity: MaterialQuantity; rest: string } | null {
+  const quantity: MaterialQuantity = { items: 0, stacks: 0 };
+  let rest = text;
+  let termCount = 0;
+
+  while (true) {
+    const term = rest.match(QUANTITY_TERM);
+    if (!term) break;
+
+    const amount = parseFloat(term[1]);
+    const unitText = term[2]?.toLowerCase().replace(/\s+/g, '');
+    const unit = unitText ? QUANTITY_UNITS.find((u) => new RegExp(`^(?:${u.pattern})$`, 'i').test(unitText)) : undefined;
+    if (unit) {
+      quantity.stacks += amount * unit.stacks;
+    } else {
+      quantity.items += amount;
+    }
+    termCount++;
+    rest = rest.slice(term[0].length);
+
+    const plus = rest.match(/^\s*\+\s*(?=\d)/);
+    if (!plus) break;
+    rest = rest.slice(plus[0].length);
+  }
+
+  if (termCount === 0) return null;
+  return { quantity, rest: rest.trim() };
+}
+
+/**
+ * Splits one line into a quantity and an item name
+ */
+function parseMaterialLine(line: string): { quantity: MaterialQuantity; itemName: string } | null {
+  // Pattern 1: "93 Cobbled Deepslate", "93x Cobbled Deepslate", "3 stacks + 12 Glass", "2 shulkers of Cobblestone"
+  const leading = readQuantity(line);
+  if (leading) {
+    const itemName = leading.rest.replace(/^(?:x\s+|of\s+)+/i, '').trim();
+    if (itemName) {
+      return { quantity: leading.quantity, itemName };
+    }
+  }
+
+  // A unit word with nothing after it is part of the name ("3 Shulker Boxes"), so retry as a plain count
+  const plain = line.match(/^(\d+)x?\s+(.+)$/i);
+  if (plain) {
+    return { quantity: { items: parseInt(plain[1]), stacks: 0 }, itemName: plain[2].trim() };
+  }
+
+  // Pattern 2: "Cobbled Deepslate x93", "Cobbled Deepslate: 93", "Glass - 3 stacks"
+  const trailing = line.match(/^(.+?)\s*(?:\bx|:|=|\s-)\s*(\d.*)$/i);
+  if (trailing) {
+    const quantity = readQuantity(trailing[2]);
+    if (quantity && !quantity.rest) {
+      return { quantity: quantity.quantity, itemName: trailing[1].trim() };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Parse materials from various text formats
  * Supports:
@@ -19,13 +359,18 @@ export interface MaterialParseResult {
  * - "Cobbled Deepslate: 93"
  * - "93 Cobbled Deepslate; 59 Scaffolding" (semicolon separated)
  * - "93 Cobbled Deepslate, 59 Scaffolding" (comma separated)
+ * - "3 stacks + 12 Glass", "2s+5 Sand", "1.5 stacks Hoppers" (stacks use the item's stack size)
+ * - "2 shulkers of Cobblestone", "1 dc Glass" (shulker box = 27 stacks, double chest = 54 stacks)
+ * - Bullet and numbered list prefixes like "- ", "• ", "1. " and "[ ] "
+ * Names are matched with matchMaterialName; uncertain matches are returned in `ambiguous`
  */
 export function parseMaterialsFromText(text: string): MaterialParseResult {
   const added: ParsedMaterial[] = [];
+  const ambiguous: AmbiguousMaterial[] = [];
   const failed: string[] = [];
 
   if (!text.trim()) {
-    return { added, failed };
+    return { added, ambiguous, failed };
   }
 
   // Split by semicolon or comma, then by newlines
@@ -35,106 +380,35 @@ export function parseMaterialsFromText(text: string): MaterialParseResult {
     .map(line => line.trim())
     .filter(line => line);
 
-  // Helper function to find matching Minecraft item
-  const findMatchingItem = (itemName: string): string | null => {
-    const normalized = itemName.toLowerCase().trim();
-    
-    // Try exact match first (case-insensitive)
-    const exactMatch = MINECRAFT_ITEMS.find(item => item.toLowerCase() === normalized);
-    if (exactMatch) return exactMatch;
-
-    // Try removing common suffixes/plurals
-    const withoutSuffixes = normalized
-      .replace(/\s+blocks?$/i, '')
-      .replace(/\s+block$/i, '')
-      .replace(/\s+buckets?$/i, '')
-      .replace(/\s+bucket$/i, '')
-      .replace(/\s+slabs?$/i, '')
-      .replace(/\s+slab$/i, '')
-      .replace(/\s+trapdoors?$/i, '')
-      .replace(/\s+trapdoor$/i, '')
-      .replace(/\s+chests?$/i, '')
-      .replace(/\s+chest$/i, '')
-      .replace(/\s+hoppers?$/i, '')
-      .replace(/\s+hopper$/i, '')
-      .replace(/\s+signs?$/i, '')
-      .replace(/\s+sign$/i, '')
-      .replace(/\s+torches?$/i, '')
-      .replace(/\s+torch$/i, '')
-      .replace(/\s+repeaters?$/i, '')
-      .replace(/\s+repeater$/i, '')
-      .replace(/\s+pistons?$/i, '')
-      .replace(/\s+piston$/i, '')
-      .replace(/\s+levers?$/i, '')
-      .replace(/\s+lever$/i, '')
-      .trim();
-
-    // Try matching without suffixes
-    const suffixMatch = MINECRAFT_ITEMS.find(item => 
-      item.toLowerCase() === withoutSuffixes ||
-      item.toLowerCase().includes(withoutSuffixes) ||
-      withoutSuffixes.includes(item.toLowerCase())
-    );
-    if (suffixMatch) return suffixMatch;
-
-    // Try partial match
-    const partialMatch = MINECRAFT_ITEMS.find(item => 
-      item.toLowerCase().includes(normalized) ||
-      normalized.includes(item.toLowerCase())
-    );
-    if (partialMatch) return partialMatch;
-
-    return null;
-  };
-
   lines.forEach((line) => {
-    // Pattern 1: "93 Cobbled Deepslate" or "93 Cobbled Deepslate blocks"
-    let match = line.match(/^(\d+)\s+(.+)$/i);
-    
-    // Pattern 2: "Cobbled Deepslate x93" or "Cobbled Deepslate x 93"
-    if (!match) {
-      match = line.match(/^(.+?)\s*x\s*(\d+)$/i);
-      if (match) {
-        // Swap groups: item name is first, count is second
-        match = [match[0], match[2], match[1]];
-      }
-    }
-    
-    // Pattern 3: "93x Cobbled Deepslate"
-    if (!match) {
-      match = line.match(/^(\d+)x\s+(.+)$/i);
-    }
-    
-    // Pattern 4: "Cobbled Deepslate: 93" or "Cobbled Deepslate : 93"
-    if (!match) {
-      match = line.match(/^(.+?)\s*:\s*(\d+)$/i);
-      if (match) {
-        // Swap groups
-        match = [match[0], match[2], match[1]];
-      }
+    let content = line;
+    while (BULLET_PREFIX.test(content)) {
+      content = content.replace(BULLET_PREFIX, '');
     }
 
-    if (!match) {
+    const parsed = parseMaterialLine(content);
+    if (!parsed) {
       failed.push(line);
       return;
     }
 
-    const count = parseInt(match[1]);
-    const itemName = match[2].trim();
-    
-    if (isNaN(count) || count <= 0) {
+    const { quantity, itemName } = parsed;
+    // Loose items must be whole; fractions are only allowed for stacks ("1.5 stacks")
+    if (!Number.isInteger(quantity.items) || quantity.items + quantity.stacks <= 0) {
       failed.push(line);
       return;
     }
 
-    const matchedItem = findMatchingItem(itemName);
-    if (matchedItem) {
-      added.push({ name: matchedItem, count });
+    const materialMatch = matchMaterialName(itemName);
+    if (materialMatch.name) {
+      added.push({ name: materialMatch.name, count: quantityToCount(quantity, materialMatch.name), line });
+    } else if (materialMatch.candidates.length > 0) {
+      ambiguous.push({ line, quantity, candidates: materialMatch.candidates });
     } else {
       failed.push(line);
     }
   });
 
-  return { added, failed };
+  return { added, ambiguous, failed };
 }
 
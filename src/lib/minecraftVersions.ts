@@ -0,0 +1,215 @@
+/**
+ * Minecraft version model: edition + version parsing, ranges and farm compatibility
+ * Farms store versions as free text ("Java 1.21.1", "1.21", "1.20–1.21.4", "All versions"),
+ * so everything here works from those strings rather than a separate column
+ */
+
+export type MinecraftEdition = 'java' | 'bedrock';
+
+export interface MinecraftVersion {
+  edition: MinecraftEdition | null;
+  // [major, minor, patch?] - "1.21" is kept as [1, 21] so it can stand for the whole 1.21.x line
+  parts: number[];
+}
+
+export interface VersionRange {
+  edition: MinecraftEdition | null;
+  // Inclusive bounds; null means open-ended
+  min: number[] | null;
+  max: number[] | null;
+}
+
+export const COMMON_VERSIONS = [
+  '1.21.4', '1.21.3', '1.21.2', '1.21.1', '1.21',
+  '1.20.6', '1.20.5', '1.20.4', '1.20.3', '1.20.2', '1.20.1', '1.20',
+  '1.19.4', '1.19.3', '1.19.2', '1.19.1', '1.19',
+  '1.18.2', '1.18.1', '1.18',
+  '1.17.1', '1.17',
+  '1.16.5', '1.16.4', '1.16.3', '1.16.2', '1.16.1', '1.16',
+  '1.15.2', '1.15.1', '1.15',
+  '1.14.4', '1.14.3', '1.14.2', '1.14.1', '1.14',
+  '1.13.2', '1.13.1', '1.13',
+  '1.12.2', '1.12.1', '1.12',
+  '1.11.2', '1.11.1', '1.11',
+  '1.10.2', '1.10.1', '1.10',
+  '1.9.4', '1.9.3', '1.9.2', '1.9.1', '1.9',
+  '1.8.9', '1.8.8', '1.8.7', '1.8.6', '1.8.5', '1.8.4', '1.8.3', '1.8.2', '1.8.1', '1.8',
+];
+
+const EDITION_PATTERNS: Array<[MinecraftEdition, RegExp]> = [
+  ['java', /(?<![a-z])(java(\s+edition)?|je)(?![a-z])/i],
+  ['bedrock', /(?<![a-z])(bedrock(\s+edition)?|be|mcpe|pocket(\s+edition)?)(?![a-z])/i],
+];
+
+const EDITION_LABELS: Record<MinecraftEdition, string> = {
+  java: 'Java',
+  bedrock: 'Bedrock',
+};
+
+const VERSION_TOKEN = /\d+\.\d+(?:\.\d+)?(?:\.x)?/gi;
+const ALL_VERSIONS = /^(all|any)(\s+versions?)?$/i;
+const RANGE_SEPARATOR = /^\s*(-|–|—|to|through|until)\s*$/i;
+const OPEN_ENDED = /^\s*(\+|and\s+(up|above|newer|later)|or\s+(newer|later|above))\s*$/i;
+
+export function parseEdition(text: string): MinecraftEdition | null {
+  const value = text.trim().toLowerCase();
+  for (const [edition, pattern] of EDITION_PATTERNS) {
+    if (pattern.test(value)) return edition;
+  }
+  return null;
+}
+
+function splitEdition(text: string): { edition: MinecraftEdition | null; rest: string } {
+  let rest = text;
+  let edition: MinecraftEdition | null = null;
+
+  for (const [candidate, pattern] of EDITION_PATTERNS) {
+    if (pattern.test(rest)) {
+      edition = candidate;
+      rest = rest.replace(pattern, ' ');
+    }
+  }
+
+  return { edition, rest: rest.replace(/[():,]/g, ' ').replace(/\s+/g, ' ').trim() };
+}
+
+function toParts(token: string): number[] {
+  return token.replace(/\.x$/i, '').split('.').map(Number);
+}
+
+/**
+ * Compares version numbers part by part; missing parts count as 0, so [1, 21] equals [1, 21, 0]
+ */
+function compareParts(a: number[], b: number[]): number {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const difference = (a[i] || 0) - (b[i] || 0);
+    if (difference !== 0) return difference > 0 ? 1 : -1;
+  }
+  return 0;
+}
+
+/**
+ * Parses a single version such as "1.21.3", "Java 1.21" or "Bedrock 1.21.0"
+ */
+export function parseMinecraftVersion(text: string): MinecraftVersion | null {
+  const { edition, rest } = splitEdition(text || '');
+  const tokens = rest.match(VERSION_TOKEN) || [];
+  if (tokens.length !== 1 || rest.replace(VERSION_TOKEN, '').trim() !== '') return null;
+
+  return { edition, parts: toParts(tokens[0]) };
+}
+
+/**
+ * Parses one entry of a farm's `versions` list into a range
+ * Accepts exact versions, "1.20–1.21.4" / "1.20 to 1.21.4", "1.20+" / "1.20 and up" and "All versions"
+ */
+export function parseVersionRange(text: string): VersionRange | null {
+  const { edition, rest } = splitEdition(text || '');
+
+  if (ALL_VERSIONS.test(rest) || (rest === '' && edition)) {
+    return { edition, min: null, max: null };
+  }
+
+  const tokens = rest.match(VERSION_TOKEN) || [];
+  const between = rest.split(VERSION_TOKEN);
+
+  if (tokens.length === 1 && between[0].trim() === '') {
+    const parts = toParts(tokens[0]);
+    if (between[1].trim() === '') return { edition, min: parts, max: parts };
+    if (OPEN_ENDED.test(between[1])) return { edition, min: parts, max: null };
+    return null;
+  }
+
+  if (tokens.length === 2 && between[0].trim() === '' && between[2].trim() === '' && RANGE_SEPARATOR.test(between[1])) {
+    let min = toParts(tokens[0]);
+    let max = toParts(tokens[1]);
+    if (compareParts(min, max) > 0) [min, max] = [max, min];
+    return { edition, min, max };
+  }
+
+  return null;
+}
+
+export function compareVersions(a: MinecraftVersion, b: MinecraftVersion): number {
+  return compareParts(a.parts, b.parts);
+}
+
+/**
+ * True when `version` falls inside `range`. An upper bound written as "1.21" covers every 1.21.x release
+ */
+export function rangeIncludes(range: VersionRange, version: MinecraftVersion): boolean {
+  if (range.edition && version.edition && range.edition !== version.edition) return false;
+  if (range.min && compareParts(version.parts, range.min) < 0) return false;
+  if (range.max && compareParts(version.parts.slice(0, range.max.length), range.max) > 0) return false;
+  return true;
+}
+
+export function formatMinecraftVersion(version: MinecraftVersion): string {
+  const number = version.parts.join('.');
+  return version.edition ? `${EDITION_LABELS[version.edition]} ${number}` : number;
+}
+
+export function formatVersionRange(range: VersionRange): string {
+  const prefix = range.edition ? `${EDITION_LABELS[range.edition]} ` : '';
+
+  if (!range.min && !range.max) {
+    return range.edition ? `All ${EDITION_LABELS[range.edition]} versions` : 'All versions';
+  }
+  const min = (range.min || [1, 0]).join('.');
+  if (!range.max) return `${prefix}${min}+`;
+
+  const max = range.max.join('.');
+  return min === max ? `${prefix}${min}` : `${prefix}${min}–${max}`;
+}
+
+/**
+ * Canonical spelling of a versions entry ("java1.21.1" -> "Java 1.21.1", "1.20 - 1.21.4" -> "1.20–1.21.4")
+ * Text that isn't a recognisable version is returned trimmed, unchanged
+ */
+export function normalizeVersionLabel(text: string): string {
+  const range = parseVersionRange(text);
+  return range ? formatVersionRange(range) : text.trim();
+}
+
+/**
+ * Whether a farm is listed as working on `version`
+ * Entries without an edition take it from the farm's platform when the farm is single-platform.
+ * Farms that list no recognisable versions are not excluded, since the author didn't restrict them
+ */
+export function isFarmCompatible(
+  farm: { versions?: string[] | null; platform?: string[] | null },
+  version: MinecraftVersion
+): boolean {
+  const platforms = (farm.platform || []).map((p) => parseEdition(p)).filter(Boolean) as MinecraftEdition[];
+  if (version.edition && platforms.length > 0 && !platforms.includes(version.edition)) {
+    return false;
+  }
+
+  const defaultEdition = platforms.length === 1 ? platforms[0] : null;
+  const ranges = (farm.versions || [])
+    .map((entry) => parseVersionRange(entry))
+    .filter((range): range is VersionRange => range !== null)
+    .map((range) => ({ ...range, edition: range.edition || defaultEdition }));
+
+  if (ranges.length === 0) return true;
+  return ranges.some((range) => rangeIncludes(range, version));
+}
+
+/**
+ * Newest version a farm lists (the upper end of ranges, or the start of open ranges), for sorting
+ */
+export function getNewestListedVersion(versions: string[] | null | undefined): MinecraftVersion | null {
+  let newest: MinecraftVersion | null = null;
+
+  for (const entry of versions || []) {
+    const range = parseVersionRange(entry);
+    const parts = range?.max || range?.min;
+    if (!range || !parts) continue;
+    if (!newest || compareParts(parts, newest.parts) > 0) {
+      newest = { edition: range.edition, parts };
+    }
+  }
+
+  return newest;
+}
@@ -0,0 +1,241 @@
+/**
+ * Minimal reader for Minecraft's binary NBT format (big-endian, Java Edition)
+ */
+
+export type NbtValue =
+  | number
+  | bigint
+  | string
+  | Int8Array
+  | Int32Array
+  | BigInt64Array
+  | NbtValue[]
+  | NbtCompound;
+
+export interface NbtCompound {
+  [key: string]: NbtValue;
+}
+
+const TAG_END = 0;
+const TAG_BYTE = 1;
+const TAG_SHORT = 2;
+const TAG_INT = 3;
+const TAG_LONG = 4;
+const TAG_FLOAT = 5;
+const TAG_DOUBLE = 6;
+const TAG_BYTE_ARRAY = 7;
+const TAG_STRING = 8;
+const TAG_LIST = 9;
+const TAG_COMPOUND = 10;
+const TAG_INT_ARRAY = 11;
+const TAG_LONG_ARRAY = 12;
+
+// Guards against corrupt files that would otherwise recurse forever
+const MAX_DEPTH = 512;
+
+class NbtReader {
+  private view: DataView;
+  private offset = 0;
+  private decoder = new TextDecoder('utf-8');
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private ensure(length: number) {
+    if (length < 0 || this.offset + length > this.bytes.byteLength) {
+      throw new Error('Unexpected end of NBT data');
+    }
+  }
+
+  private byte(): number {
+    this.ensure(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  private short(): number {
+    this.ensure(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  private int(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private string(): string {
+    this.ensure(2);
+    const length = this.view.getUint16(this.offset);
+    this.offset += 2;
+    this.ensure(length);
+    // NBT uses modified UTF-8, which only differs from UTF-8 for NUL and supplementary characters
+    const value = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  readRoot(): { name: string; value: NbtCompound } {
+    const type = this.byte();
+    if (type !== TAG_COMPOUND) {
+      throw new Error('NBT data does not start with a compound tag');
+    }
+    const name = this.string();
+    return { name, value: this.payload(TAG_COMPOUND, 0) as NbtCompound };
+  }
+
+  private payload(type: number, depth: number): NbtValue {
+    if (depth > MAX_DEPTH) {
+      throw new Error('NBT data is nested too deeply');
+    }
+
+    switch (type) {
+      case TAG_BYTE:
+        return this.byte();
+      case TAG_SHORT:
+        return this.short();
+      case TAG_INT:
+        return this.int();
+      case TAG_LONG: {
+        this.ensure(8);
+        const value = this.view.getBigInt64(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case TAG_FLOAT: {
+        this.ensure(4);
+        const value = this.view.getFloat32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case TAG_DOUBLE: {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case TAG_BYTE_ARRAY: {
+        const length = this.int();
+        this.ensure(length);
+        const value = new Int8Array(this.bytes.slice(this.offset, this.offset + length).buffer);
+        this.offset += length;
+        return value;
+      }
+      case TAG_STRING:
+        return this.string();
+      case TAG_LIST: {
+        const itemType = this.byte();
+        const length = this.int();
+        const items: NbtValue[] = [];
+        if (itemType === TAG_END) return items;
+        for (let i = 0; i < length; i++) {
+          items.push(this.payload(itemType, depth + 1));
+        }
+        return items;
+      }
+      case TAG_COMPOUND: {
+        const compound: NbtCompound = {};
+        for (;;) {
+          const childType = this.byte();
+          if (childType === TAG_END) break;
+          const name = this.string();
+          compound[name] = this.payload(childType, depth + 1);
+        }
+        return compound;
+      }
+      case TAG_INT_ARRAY: {
+        const length = this.int();
+        this.ensure(length * 4);
+        const value = new Int32Array(length);
+        for (let i = 0; i < length; i++) {
+          value[i] = this.view.getInt32(this.offset + i * 4);
+        }
+        this.offset += length * 4;
+        return value;
+      }
+      case TAG_LONG_ARRAY: {
+        const length = this.int();
+        this.ensure(length * 8);
+        const value = new BigInt64Array(length);
+        for (let i = 0; i < length; i++) {
+          value[i] = this.view.getBigInt64(this.offset + i * 8);
+        }
+        this.offset += length * 8;
+        return value;
+      }
+      default:
+        throw new Error(`Unknown NBT tag type ${type}`);
+    }
+  }
+}
+
+/**
+ * Returns true if the bytes start with the gzip magic number
+ */
+export function isGzipped(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Decompresses gzip data using the browser's built-in DecompressionStream
+ */
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('gzip'));
+  const buffer = await new Response(stream).arrayBuffer();
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Parses uncompressed NBT bytes into plain JS values
+ * - Longs become bigint, long arrays become BigInt64Array
+ */
+export function parseNbt(bytes: Uint8Array): { name: string; value: NbtCompound } {
+  return new NbtReader(bytes).readRoot();
+}
+
+/**
+ * Reads an NBT file, transparently handling gzip compression
+ */
+export async function readNbtFile(data: ArrayBuffer | Uint8Array): Promise<{ name: string; value: NbtCompound }> {
+  let bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (isGzipped(bytes)) {
+    bytes = await gunzip(bytes);
+  }
+  return parseNbt(bytes);
+}
+
+// Helpers for reading typed values out of parsed compounds
+
+export function isCompound(value: NbtValue | undefined): value is NbtCompound {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !ArrayBuffer.isView(value)
+  );
+}
+
+export function getCompound(parent: NbtCompound, key: string): NbtCompound | null {
+  const value = parent[key];
+  return isCompound(value) ? value : null;
+}
+
+export function getNumber(parent: NbtCompound, key: string): number | null {
+  const value = parent[key];
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return null;
+}
+
+export function getString(parent: NbtCompound, key: string): string | null {
+  const value = parent[key];
+  return typeof value === 'string' ? value : null;
+}
+
+export function getList(parent: NbtCompound, key: string): NbtValue[] {
+  const value = parent[key];
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,58 @@
+/**
+ * Multi-farm build planner: farms a user plans to build and their merged material list
+ * Entries are stored through `repos.planner`
+ */
+
+export interface PlannerEntry {
+  farm_id: string;
+  quantity: number;
+  farm: {
+    id: string;
+    title: string;
+    slug: string;
+    platform: string[];
+    materials: Array<{ name?: string; item?: string; count?: number }> | null;
+  } | null;
+}
+
+/**
+ * Merges every planned farm's materials (times its quantity) into one list
+ * Names are matched case-insensitively; the first spelling seen is kept
+ */
+export function mergePlannerMaterials(entries: PlannerEntry[]): Array<{ name: string; count: number }> {
+  const merged = new Map<string, { name: string; count: number }>();
+
+  for (const entry of entries) {
+    for (const material of entry.farm?.materials || []) {
+      const name = (material.name || material.item || '').trim();
+      if (!name) continue;
+
+      const key = name.toLowerCase();
+      const count = (material.count || 1) * entry.quantity;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.count += count;
+      } else {
+        merged.set(key, { name, count });
+      }
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function materialsToCsv(materials: Array<{ name: string; count: number }>): string {
+  const rows = materials.map((material) => `${escapeCsvField(material.name)},${material.count}`);
+  return ['name,count', ...rows].join('\n');
+}
+
+/**
+ * Plain text in the same "count name" format the material parser accepts
+ */
+export function materialsToText(materials: Array<{ name: string; count: number }>): string {
+  return materials.map((material) => `${material.count} ${material.name}`).join('\n');
+}
@@ -0,0 +1,191 @@
+/**
+ * Crafting and smelting recipes for common farm materials, keyed on names from MINECRAFT_ITEMS
+ * Wood recipes use oak as the stand-in for any wood type; planks, ingots and dusts count as base resources
+ */
+
+export interface Recipe {
+  // How many items one craft produces
+  output: number;
+  ingredients: Record<string, number>;
+}
+
+const recipe = (output: number, ingredients: Record<string, number>): Recipe => ({ output, ingredients });
+
+export const RECIPES: Record<string, Recipe> = {
+  // Wood
+  Stick: recipe(4, { 'Oak Planks': 2 }),
+  'Oak Slab': recipe(6, { 'Oak Planks': 3 }),
+  'Oak Stairs': recipe(4, { 'Oak Planks': 6 }),
+  'Oak Trapdoor': recipe(2, { 'Oak Planks': 6 }),
+  'Oak Door': recipe(3, { 'Oak Planks': 6 }),
+  'Oak Fence': recipe(3, { 'Oak Planks': 4, Stick: 2 }),
+  'Oak Fence Gate': recipe(1, { Stick: 4, 'Oak Planks': 2 }),
+  'Oak Sign': recipe(3, { 'Oak Planks': 6, Stick: 1 }),
+  'Oak Pressure Plate': recipe(1, { 'Oak Planks': 2 }),
+  'Oak Button': recipe(1, { 'Oak Planks': 1 }),
+  'Oak Boat': recipe(1, { 'Oak Planks': 5 }),
+  'Crafting Table': recipe(1, { 'Oak Planks': 4 }),
+  Chest: recipe(1, { 'Oak Planks': 8 }),
+  Barrel: recipe(1, { 'Oak Planks': 6, 'Oak Slab': 2 }),
+  Composter: recipe(1, { 'Oak Slab': 7 }),
+  Ladder: recipe(3, { Stick: 7 }),
+  'Note Block': recipe(1, { 'Oak Planks': 8, 'Redstone Dust': 1 }),
+
+  // Stone
+  Stone: recipe(1, { Cobblestone: 1 }),
+  'Smooth Stone': recipe(1, { Stone: 1 }),
+  'Stone Bricks': recipe(4, { Stone: 4 }),
+  'Stone Slab': recipe(6, { Stone: 3 }),
+  'Smooth Stone Slab': recipe(6, { 'Smooth Stone': 3 }),
+  'Cobblestone Slab': recipe(6, { Cobblestone: 3 }),
+  'Cobblestone Stairs': recipe(4, { Cobblestone: 6 }),
+  'Cobblestone Wall': recipe(6, { Cobblestone: 6 }),
+  'Cobbled Deepslate Slab': recipe(6, { 'Cobbled Deepslate': 3 }),
+  'Stone Pressure Plate': recipe(1, { Stone: 2 }),
+  'Stone Button': recipe(1, { Stone: 1 }),
+  Furnace: recipe(1, { Cobblestone: 8 }),
+  Glass: recipe(1, { Sand: 1 }),
+  'Glass Pane': recipe(16, { Glass: 6 }),
+  Sandstone: recipe(1, { Sand: 4 }),
+
+  // Redstone
+  'Redstone Torch': recipe(1, { 'Redstone Dust': 1, Stick: 1 }),
+  'Redstone Repeater': recipe(1, { 'Redstone Torch': 2, 'Redstone Dust': 1, Stone: 3 }),
+  'Redstone Comparator': recipe(1, { 'Redstone Torch': 3, 'Nether Quartz': 1, Stone: 3 }),
+  'Redstone Lamp': recipe(1, { 'Redstone Dust': 4, Glowstone: 1 }),
+  'Block of Redstone': recipe(1, { 'Redstone Dust': 9 }),
+  Observer: recipe(1, { Cobblestone: 6, 'Redstone Dust': 2, 'Nether Quartz': 1 }),
+  Piston: recipe(1, { 'Oak Planks': 3, Cobblestone: 4, 'Iron Ingot': 1, 'Redstone Dust': 1 }),
+  'Sticky Piston': recipe(1, { Piston: 1, Slimeball: 1 }),
+  Hopper: recipe(1, { 'Iron Ingot': 5, Chest: 1 }),
+  Dropper: recipe(1, { Cobblestone: 7, 'Redstone Dust': 1 }),
+  Dispenser: recipe(1, { Cobblestone: 7, 'Redstone Dust': 1, Bow: 1 }),
+  Lever: recipe(1, { Stick: 1, Cobblestone: 1 }),
+  'Tripwire Hook': recipe(2, { 'Iron Ingot': 1, Stick: 1, 'Oak Planks': 1 }),
+  'Trapped Chest': recipe(1, { Chest: 1, 'Tripwire Hook': 1 }),
+  'Daylight Detector': recipe(1, { Glass: 3, 'Nether Quartz': 3, 'Oak Slab': 3 }),
+  Target: recipe(1, { 'Redstone Dust': 4, 'Hay Bale': 1 }),
+  Crafter: recipe(1, { 'Iron Ingot': 5, 'Redstone Dust': 2, 'Crafting Table': 1, Dropper: 1 }),
+  'Lightning Rod': recipe(1, { 'Copper Ingot': 3 }),
+
+  // Rails
+  Rail: recipe(16, { 'Iron Ingot': 6, Stick: 1 }),
+  'Powered Rail': recipe(6, { 'Gold Ingot': 6, Stick: 1, 'Redstone Dust': 1 }),
+  'Detector Rail': recipe(6, { 'Iron Ingot': 6, 'Stone Pressure Plate': 1, 'Redstone Dust': 1 }),
+  'Activator Rail': recipe(6, { 'Iron Ingot': 6, Stick: 2, 'Redstone Torch': 1 }),
+  Minecart: recipe(1, { 'Iron Ingot': 5 }),
+  'Minecart with Hopper': recipe(1, { Hopper: 1, Minecart: 1 }),
+  'Minecart with Chest': recipe(1, { Chest: 1, Minecart: 1 }),
+
+  // Iron and metal
+  'Iron Nugget': recipe(9, { 'Iron Ingot': 1 }),
+  'Block of Iron': recipe(1, { 'Iron Ingot': 9 }),
+  'Iron Bars': recipe(16, { 'Iron Ingot': 6 }),
+  'Iron Trapdoor': recipe(1, { 'Iron Ingot': 4 }),
+  'Iron Door': recipe(3, { 'Iron Ingot': 6 }),
+  Bucket: recipe(1, { 'Iron Ingot': 3 }),
+  'Water Bucket': recipe(1, { Bucket: 1 }),
+  'Lava Bucket': recipe(1, { Bucket: 1 }),
+  Cauldron: recipe(1, { 'Iron Ingot': 7 }),
+  Chain: recipe(1, { 'Iron Nugget': 2, 'Iron Ingot': 1 }),
+  Lantern: recipe(1, { 'Iron Nugget': 8, Torch: 1 }),
+  'Blast Furnace': recipe(1, { 'Iron Ingot': 5, Furnace: 1, 'Smooth Stone': 3 }),
+
+  // Misc
+  Torch: recipe(4, { Coal: 1, Stick: 1 }),
+  Campfire: recipe(1, { Stick: 3, Coal: 1, 'Oak Log': 3 }),
+  Smoker: recipe(1, { Furnace: 1, 'Oak Log': 4 }),
+  Bow: recipe(1, { Stick: 3, String: 3 }),
+  Glowstone: recipe(1, { 'Glowstone Dust': 4 }),
+  'Slime Block': recipe(1, { Slimeball: 9 }),
+  'Honey Block': recipe(1, { 'Honey Bottle': 4 }),
+  'Magma Block': recipe(1, { 'Magma Cream': 4 }),
+  'Hay Bale': recipe(1, { Wheat: 9 }),
+  'Bone Meal': recipe(3, { Bone: 1 }),
+  'Bone Block': recipe(1, { 'Bone Meal': 9 }),
+  'Blaze Powder': recipe(2, { 'Blaze Rod': 1 }),
+  'Eye of Ender': recipe(1, { 'Ender Pearl': 1, 'Blaze Powder': 1 }),
+  'Ender Chest': recipe(1, { Obsidian: 8, 'Eye of Ender': 1 }),
+  'Shulker Box': recipe(1, { 'Shulker Shell': 2, Chest: 1 }),
+  Scaffolding: recipe(6, { Bamboo: 6, String: 1 }),
+  Lead: recipe(2, { String: 4, Slimeball: 1 }),
+  'Tinted Glass': recipe(2, { 'Amethyst Shard': 4, Glass: 1 }),
+  'White Wool': recipe(1, { String: 4 }),
+  'White Bed': recipe(1, { 'White Wool': 3, 'Oak Planks': 3 }),
+  'White Carpet': recipe(3, { 'White Wool': 2 }),
+  'Item Frame': recipe(1, { Stick: 8, Leather: 1 }),
+  'Armor Stand': recipe(1, { Stick: 6, 'Smooth Stone Slab': 1 }),
+  TNT: recipe(1, { Gunpowder: 5, Sand: 4 }),
+  'Flower Pot': recipe(1, { Brick: 3 }),
+};
+
+export interface ResolvedMaterials {
+  // Items that have no recipe (or were marked as already owned)
+  raw: Array<{ name: string; count: number }>;
+  // Craftable items that appear in the tree, with how many are needed
+  intermediates: Array<{ name: string; count: number }>;
+}
+
+/**
+ * Orders items so every item comes before the ingredients it is crafted from
+ */
+function getCraftingOrder(names: string[], owned: Set<string>): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name) || visiting.has(name)) return;
+    visiting.add(name);
+    const entry = RECIPES[name];
+    if (entry && !owned.has(name)) {
+      Object.keys(entry.ingredients).forEach(visit);
+    }
+    visiting.delete(name);
+    visited.add(name);
+    order.push(name);
+  };
+
+  names.forEach(visit);
+  return order.reverse();
+}
+
+/**
+ * Expands materials into the raw resources needed to craft them
+ * - Crafts are rounded up per item, after combining demand from every recipe that uses it
+ * - Items in `owned` are treated as raw and not expanded further
+ */
+export function resolveRawMaterials(
+  materials: Array<{ name: string; count: number }>,
+  owned: Set<string> = new Set()
+): ResolvedMaterials {
+  const demand = new Map<string, number>();
+  for (const { name, count } of materials) {
+    if (!name || !count) continue;
+    demand.set(name, (demand.get(name) || 0) + count);
+  }
+
+  const raw: Array<{ name: string; count: number }> = [];
+  const intermediates: Array<{ name: string; count: number }> = [];
+
+  for (const name of getCraftingOrder(Array.from(demand.keys()), owned)) {
+    const needed = demand.get(name) || 0;
+    if (needed === 0) continue;
+
+    const entry = RECIPES[name];
+    if (!entry || owned.has(name)) {
+      raw.push({ name, count: needed });
+      if (entry) intermediates.push({ name, count: needed });
+      continue;
+    }
+
+    intermediates.push({ name, count: needed });
+    const crafts = Math.ceil(needed / entry.output);
+    for (const [ingredient, amount] of Object.entries(entry.ingredients)) {
+      demand.set(ingredient, (demand.get(ingredient) || 0) + amount * crafts);
+    }
+  }
+
+  const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+  return { raw: raw.sort(byCount), intermediates: intermediates.sort(byCount) };
+}
@@ -0,0 +1,35 @@
+/**
+ * The app's data access: Supabase when it's configured, otherwise the demo data, kept in memory and
+ * saved to IndexedDB so demo mode works end to end offline
+ */
+
+import { DEMO_ACCOUNT, isDemoMode, mockComments, mockFarms } from '../demoData';
+import { clearLocalAuth } from '../localAuth';
+import { supabase } from '../supabase';
+import { createIndexedDbPersistence } from './indexedDb';
+import { createMemoryRepos, usersFromRows } from './memory';
+import { createSupabaseRepos } from './supabase';
+import type { Repos } from './types';
+
+const demoPersistence = createIndexedDbPersistence();
+
+const createDemoRepos = () =>
+  createMemoryRepos(
+    {
+      users: usersFromRows(mockFarms, mockComments).map((user) =>
+        user.id === DEMO_ACCOUNT.id ? { ...user, email: DEMO_ACCOUNT.email, role: 'admin' as const } : user
+      ),
+    },
+    demoPersistence
+  );
+
+export const repos: Repos = isDemoMode() ? createDemoRepos() : createSupabaseRepos(supabase);
+
+// Throws away everything saved in demo mode, accounts included; reload the page afterwards
+export async function resetDemoData() {
+  clearLocalAuth();
+  await demoPersistence.clear();
+}
+
+export { createMemoryRepos, createSupabaseRepos };
+export type * from './types';
@@ -0,0 +1,46 @@
+/**
+ * Saves the in-memory repositories to IndexedDB, so demo mode keeps its data across reloads
+ */
+
+import type { MemoryPersistence, MemorySnapshot } from './memory';
+
+const DB_NAME = 'minecraft-farms-demo';
+const STORE = 'state';
+const KEY = 'snapshot';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = () => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+  return request(req);
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export function createIndexedDbPersistence(): MemoryPersistence & { clear(): Promise<void> } {
+  return {
+    async load() {
+      return ((await withStore('readonly', (store) => store.get(KEY))) as MemorySnapshot | undefined) || null;
+    },
+
+    async save(snapshot) {
+      await withStore('readwrite', (store) => store.put(snapshot, KEY));
+    },
+
+    async clear() {
+      await withStore('readwrite', (store) => store.delete(KEY));
+    },
+  };
+}
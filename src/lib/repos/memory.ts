@@ -0,0 +1,781 @@
+/**
+ * Repositories that keep everything in memory, seeded with the demo data by default. Used for demo
+ * mode and tests; behaves like the database, including its cascades, vote counters, unique slugs,
+ * farm revisions and verified versions.
+ * Given a MemoryPersistence, changes are saved after every write and loaded back on start
+ */
+
+import { BadgeStats, getNewBadges } from '../badges';
+import { mockComments, mockFarms } from '../demoData';
+import { getRawMaterialCount } from '../efficiency';
+import { Farm, parseFarm } from '../farm';
+import type { FarmProgress } from '../farmProgress';
+import { FarmRevision, FarmSnapshot, getRevisionUpdate } from '../farmRevisions';
+import { SEARCH_PAGE_SIZE, computeFacetsLocally, rankFarmsByItem, searchFarmsLocally } from '../farmSearch';
+import { FarmTest, getVerifiedVersions, summarizeFarmTests } from '../farmTests';
+import type {
+  CommentRecord,
+  ReactionType,
+  ReportItemType,
+  ReportStatus,
+  Repos,
+  UserBadge,
+  UserRecord,
+} from './types';
+
+export interface MemorySeed {
+  // Raw rows, checked with parseFarm on the way in
+  farms?: Array<Record<string, unknown>>;
+  comments?: CommentRecord[];
+  // Defaults to the authors and commenters named in `farms` and `comments`
+  users?: UserRecord[];
+  badges?: UserBadge[];
+}
+
+export interface StoredReport {
+  id: string;
+  item_type: ReportItemType;
+  item_id: string;
+  reason: string;
+  reporter_id: string;
+  status: ReportStatus;
+  created_at: string;
+}
+
+export interface StoredReaction {
+  comment_id: string;
+  user_id: string;
+  reaction_type: ReactionType;
+}
+
+export interface StoredPlannerItem {
+  farm_id: string;
+  user_id: string;
+  quantity: number;
+  created_at: string;
+}
+
+export type StoredFarmTest = Omit<FarmTest, 'tester'>;
+
+export type StoredRevision = Omit<FarmRevision, 'editor'>;
+
+export interface StoredProgress extends FarmProgress {
+  farm_id: string;
+  user_id: string;
+}
+
+// Bumped when the snapshot shape changes; older saved data is then ignored
+export const MEMORY_SNAPSHOT_VERSION = 2;
+
+export interface MemorySnapshot {
+  version: number;
+  farms: Farm[];
+  comments: CommentRecord[];
+  users: UserRecord[];
+  badges: UserBadge[];
+  reactions: StoredReaction[];
+  reports: StoredReport[];
+  planner: StoredPlannerItem[];
+  farmTests: StoredFarmTest[];
+  revisions: StoredRevision[];
+  progress: StoredProgress[];
+  upvotes: string[];
+  favorites: string[];
+  following: string[];
+}
+
+export interface MemoryPersistence {
+  load(): Promise<MemorySnapshot | null>;
+  save(snapshot: MemorySnapshot): Promise<void>;
+}
+
+const newestFirst = (a: { created_at: string | null }, b: { created_at: string | null }) =>
+  new Date(b.created_at!).getTime() - new Date(a.created_at!).getTime();
+
+// Join tables keyed like their composite primary keys
+const pairKey = (a: string, b: string) => `${a}:${b}`;
+
+// Left out of farm revisions, as in the database trigger: ids, counters, tester verdicts, timestamps and the joined author
+const REVISION_IGNORED_FIELDS = ['id', 'author_id', 'upvotes_count', 'verified_versions', 'created_at', 'updated_at', 'users'];
+
+const snapshotOf = (farm: Farm): FarmSnapshot =>
+  Object.fromEntries(Object.entries(farm).filter(([field]) => !REVISION_IGNORED_FIELDS.includes(field)));
+
+const sameSnapshot = (a: FarmSnapshot, b: FarmSnapshot) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)] as Array<keyof FarmSnapshot>)].every(
+    (field) => JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null)
+  );
+
+// Rows saved before raw_material_count existed get one, as the backfill script gives them in the database
+const withRawMaterialCount = (farm: Farm): Farm =>
+  typeof farm.raw_material_count === 'number' ? farm : { ...farm, raw_material_count: getRawMaterialCount(farm.materials) };
+
+/**
+ * Profiles for the authors and commenters named in demo rows, which only carry a username and avatar
+ */
+export function usersFromRows(
+  farms: Array<Pick<Farm, 'author_id' | 'users' | 'created_at'>>,
+  comments: CommentRecord[]
+): UserRecord[] {
+  const users = new Map<string, UserRecord>();
+  const add = (id: string | undefined, profile: { username?: string; avatar_url?: string | null } | null | undefined, createdAt: string | null) => {
+    if (!id || !profile?.username || users.has(id)) return;
+    users.set(id, {
+      id,
+      username: profile.username,
+      email: `${profile.username.toLowerCase()}@example.com`,
+      avatar_url: profile.avatar_url ?? null,
+      bio: null,
+      role: 'user',
+      created_at: createdAt,
+      username_changed_at: null,
+    });
+  };
+
+  farms.forEach((farm) => add(farm.author_id, farm.users, farm.created_at));
+  comments.forEach((comment) => add(comment.user_id, comment.users, comment.created_at));
+  return [...users.values()];
+}
+
+// Files are kept inline as data URLs, so they live in the rows that reference them
+async function toDataUrl(file: Blob, contentType?: string): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${contentType || file.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+export function createMemoryRepos(seed: MemorySeed = {}, persistence?: MemoryPersistence): Repos {
+  // Copies, so changes never leak back into the seed
+  let farms: Farm[] = (seed.farms ?? mockFarms).map(parseFarm).map(withRawMaterialCount);
+  let comments: CommentRecord[] = (seed.comments ?? mockComments).map((comment) => ({ ...comment }));
+  let users: UserRecord[] = (seed.users ?? usersFromRows(farms, comments)).map((user) => ({ ...user }));
+  let badges: UserBadge[] = (seed.badges ?? []).map((badge) => ({ ...badge }));
+  let reactions: StoredReaction[] = [];
+  let reports: StoredReport[] = [];
+  let planner: StoredPlannerItem[] = [];
+  let farmTests: StoredFarmTest[] = [];
+  let revisions: StoredRevision[] = [];
+  let progress: StoredProgress[] = [];
+  const upvotes = new Set<string>();
+  const favorites = new Set<string>();
+  const following = new Set<string>();
+
+  const snapshot = (): MemorySnapshot => ({
+    version: MEMORY_SNAPSHOT_VERSION,
+    farms: [...farms],
+    comments: [...comments],
+    users: [...users],
+    badges: [...badges],
+    reactions: [...reactions],
+    reports: [...reports],
+    planner: [...planner],
+    farmTests: [...farmTests],
+    revisions: [...revisions],
+    progress: [...progress],
+    upvotes: [...upvotes],
+    favorites: [...favorites],
+    following: [...following],
+  });
+
+  const restore = (saved: MemorySnapshot) => {
+    ({ farms, comments, users, badges, reactions, reports, planner, farmTests, revisions, progress } = saved);
+    [upvotes, favorites, following].forEach((keys) => keys.clear());
+    saved.upvotes.forEach((key) => upvotes.add(key));
+    saved.favorites.forEach((key) => favorites.add(key));
+    saved.following.forEach((key) => following.add(key));
+  };
+
+  const ready = persistence
+    ? persistence
+        .load()
+        .then((saved) => {
+          if (saved?.version === MEMORY_SNAPSHOT_VERSION) restore(saved);
+        })
+        .catch((error) => console.error('Error loading saved data:', error))
+    : Promise.resolve();
+
+  // Saves run one at a time, in the order the writes happened
+  let saving: Promise<void> = Promise.resolve();
+  const save = () => {
+    if (!persistence) return saving;
+    const current = snapshot();
+    saving = saving.catch(() => undefined).then(() => persistence.save(current));
+    return saving;
+  };
+
+  // Every call waits for saved data to load; `writes` save once they've changed something
+  const persisted = <T extends object>(repo: T, writes: Array<keyof T>): T =>
+    Object.fromEntries(
+      Object.entries(repo).map(([name, method]) => [
+        name,
+        async (...args: unknown[]) => {
+          await ready;
+          const result = await method(...args);
+          if (writes.includes(name as keyof T)) await save();
+          return result;
+        },
+      ])
+    ) as T;
+
+  let nextId = 0;
+  const createId = (prefix: string) => `${prefix}-${Date.now()}-${++nextId}`;
+  const now = () => new Date().toISOString();
+
+  const isPublic = (farm: Farm) => farm.public !== false;
+  const findUser = (id: string) => users.find((user) => user.id === id) || null;
+  const authorOf = (userId: string) => {
+    const user = findUser(userId);
+    return user ? { username: user.username, avatar_url: user.avatar_url } : undefined;
+  };
+  const farmsIn = (keys: Set<string>, userId: string) =>
+    farms.filter((farm) => isPublic(farm) && keys.has(pairKey(farm.id, userId))).sort(newestFirst);
+
+  const deleteComments = (ids: Set<string>) => {
+    // Replies cascade with their parent
+    comments.forEach((comment) => {
+      if (comment.parent_comment_id && ids.has(comment.parent_comment_id)) ids.add(comment.id);
+    });
+    comments = comments.filter((comment) => !ids.has(comment.id));
+    reactions = reactions.filter((reaction) => !ids.has(reaction.comment_id));
+  };
+
+  const deleteFarms = (ids: Set<string>) => {
+    farms = farms.filter((farm) => !ids.has(farm.id));
+    deleteComments(new Set(comments.filter((comment) => ids.has(comment.farm_id)).map((comment) => comment.id)));
+    planner = planner.filter((item) => !ids.has(item.farm_id));
+    farmTests = farmTests.filter((test) => !ids.has(test.farm_id));
+    revisions = revisions.filter((revision) => !ids.has(revision.farm_id));
+    progress = progress.filter((entry) => !ids.has(entry.farm_id));
+    [upvotes, favorites].forEach((keys) => {
+      [...keys].filter((key) => ids.has(key.split(':')[0])).forEach((key) => keys.delete(key));
+    });
+  };
+
+  const reactionsFor = (commentId: string, viewerId?: string | null) => {
+    const forComment = reactions.filter((reaction) => reaction.comment_id === commentId);
+    return {
+      like: forComment.filter((reaction) => reaction.reaction_type === 'like').length,
+      helpful: forComment.filter((reaction) => reaction.reaction_type === 'helpful').length,
+      userReactions: viewerId
+        ? forComment.filter((reaction) => reaction.user_id === viewerId).map((reaction) => reaction.reaction_type)
+        : [],
+    };
+  };
+
+  /**
+   * Records the farm's content after a write, like the database trigger, crediting the editor.
+   * Without one the database credits the author, and so does memory. Farms that have no revisions
+   * yet get their previous state recorded first
+   */
+  const recordRevision = (farm: Farm, editorId: string | undefined, previous?: Farm) => {
+    const snapshot = snapshotOf(farm);
+    if (previous) {
+      if (sameSnapshot(snapshotOf(previous), snapshot)) return;
+      if (!revisions.some((revision) => revision.farm_id === farm.id)) {
+        revisions.push({
+          id: createId('revision'),
+          farm_id: farm.id,
+          snapshot: snapshotOf(previous),
+          edited_by: previous.author_id,
+          created_at: previous.updated_at || previous.created_at || now(),
+        });
+      }
+    }
+    revisions.push({ id: createId('revision'), farm_id: farm.id, snapshot, edited_by: editorId ?? farm.author_id, created_at: now() });
+  };
+
+  const updateFarm = (id: string, editorId: string | undefined, change: (farm: Farm) => Farm) => {
+    farms = farms.map((farm) => {
+      if (farm.id !== id) return farm;
+      const updated = change(farm);
+      recordRevision(updated, editorId, farm);
+      return updated;
+    });
+  };
+
+  // The database keeps verified_versions in step with a trigger on farm_tests
+  const updateVerifiedVersions = (farmId: string) => {
+    const verified = getVerifiedVersions(farmTests.filter((test) => test.farm_id === farmId));
+    farms = farms.map((farm) => (farm.id === farmId ? { ...farm, verified_versions: verified } : farm));
+  };
+
+  const badgeStats = (userId: string): BadgeStats => {
+    const authored = farms.filter((farm) => farm.author_id === userId);
+    const authoredIds = new Set(authored.map((farm) => farm.id));
+    const commentIds = new Set(comments.filter((comment) => comment.user_id === userId).map((comment) => comment.id));
+    return {
+      farms: authored.filter(isPublic).length,
+      upvotes: [...upvotes].filter((key) => authoredIds.has(key.split(':')[0])).length,
+      tests: farmTests.filter((test) => test.user_id === userId).length,
+      helpful_reactions: reactions.filter(
+        (reaction) => reaction.reaction_type === 'helpful' && commentIds.has(reaction.comment_id)
+      ).length,
+    };
+  };
+
+  const setPair = (keys: Set<string>, key: string, on: boolean) => {
+    const changed = keys.has(key) !== on;
+    if (on) keys.add(key);
+    else keys.delete(key);
+    return changed;
+  };
+
+  const assertSlugFree = (slug: string, farmId?: string) => {
+    if (farms.some((farm) => farm.slug === slug && farm.id !== farmId)) {
+      // Same wording as the database, which the upload pages show as is
+      throw new Error('duplicate key value violates unique constraint "farms_slug_key"');
+    }
+  };
+
+  const files = {
+    async upload(_path: string, file: Blob, contentType?: string) {
+      return toDataUrl(file, contentType);
+    },
+
+    async remove(_urls: string[]) {
+      // Nothing to do; a data URL goes away with the last row using it
+    },
+  };
+
+  return {
+    farms: persisted({
+      async search(options, page = 0, pageSize = SEARCH_PAGE_SIZE) {
+        return searchFarmsLocally(farms.filter(isPublic), options, page, pageSize);
+      },
+
+      async facets(options) {
+        return computeFacetsLocally(farms.filter(isPublic), options);
+      },
+
+      async searchByItem(item, options = {}) {
+        return rankFarmsByItem(farms.filter(isPublic), item, options);
+      },
+
+      async getBySlug(slug) {
+        return farms.find((farm) => isPublic(farm) && farm.slug === slug) || null;
+      },
+
+      async getById(id) {
+        return farms.find((farm) => farm.id === id) || null;
+      },
+
+      async isSlugTaken(slug) {
+        return farms.some((farm) => farm.slug === slug);
+      },
+
+      async listSlugs(prefix) {
+        return farms.map((farm) => farm.slug).filter((slug) => slug.startsWith(prefix));
+      },
+
+      async listWithVideo() {
+        return farms
+          .filter((farm) => isPublic(farm) && farm.video_url)
+          .map(({ id, slug, title, platform, video_url }) => ({ id, slug, title, platform, video_url }));
+      },
+
+      async listByIds(ids, { publicOnly = false } = {}) {
+        return farms.filter((farm) => ids.includes(farm.id) && (!publicOnly || isPublic(farm)));
+      },
+
+      async listMostUpvoted(limit) {
+        return farms
+          .filter(isPublic)
+          .sort((a, b) => (b.upvotes_count || 0) - (a.upvotes_count || 0))
+          .slice(0, limit);
+      },
+
+      async listNewest(limit) {
+        return farms.filter(isPublic).sort(newestFirst).slice(0, limit);
+      },
+
+      async listByAuthor(authorId, { publicOnly = false } = {}) {
+        return farms
+          .filter((farm) => farm.author_id === authorId && (!publicOnly || isPublic(farm)))
+          .sort(newestFirst);
+      },
+
+      async listAll(limit) {
+        return [...farms].sort(newestFirst).slice(0, limit);
+      },
+
+      async countByCategory() {
+        const counts: Record<string, number> = {};
+        farms.filter(isPublic).forEach((farm) => {
+          if (farm.category) {
+            counts[farm.category] = (counts[farm.category] || 0) + 1;
+          }
+        });
+        return counts;
+      },
+
+      async create(farm) {
+        assertSlugFree(farm.slug);
+        const row = parseFarm({
+          public: true,
+          ...farm,
+          id: createId('farm'),
+          upvotes_count: 0,
+          created_at: now(),
+          updated_at: now(),
+          users: authorOf(farm.author_id),
+        });
+        farms.push(row);
+        recordRevision(row, farm.author_id);
+        return row;
+      },
+
+      async update(id, changes, editorId) {
+        if (changes.slug) assertSlugFree(changes.slug, id);
+        updateFarm(id, editorId, (farm) => parseFarm({ ...farm, ...changes, updated_at: now() }));
+      },
+
+      async delete(farm) {
+        deleteFarms(new Set([farm.id]));
+      },
+
+      async setPublic(farmId, value, editorId) {
+        updateFarm(farmId, editorId, (farm) => ({ ...farm, public: value, updated_at: now() }));
+      },
+
+      async listUpvoted(userId) {
+        return farmsIn(upvotes, userId);
+      },
+
+      async hasUpvoted(farmId, userId) {
+        return upvotes.has(pairKey(farmId, userId));
+      },
+
+      async setUpvoted(farmId, userId, upvoted) {
+        if (!setPair(upvotes, pairKey(farmId, userId), upvoted)) return;
+        // The database keeps upvotes_count in step with a trigger
+        farms = farms.map((farm) =>
+          farm.id === farmId ? { ...farm, upvotes_count: (farm.upvotes_count || 0) + (upvoted ? 1 : -1) } : farm
+        );
+      },
+
+      async listFavorited(userId) {
+        return farmsIn(favorites, userId);
+      },
+
+      async hasFavorited(farmId, userId) {
+        return favorites.has(pairKey(farmId, userId));
+      },
+
+      async setFavorited(farmId, userId, favorited) {
+        setPair(favorites, pairKey(farmId, userId), favorited);
+      },
+    }, ['create', 'update', 'delete', 'setPublic', 'setUpvoted', 'setFavorited']),
+
+    users: persisted({
+      async getById(id) {
+        return findUser(id);
+      },
+
+      async getByUsername(username) {
+        return users.find((user) => user.username === username) || null;
+      },
+
+      async getRole(id) {
+        return findUser(id)?.role ?? null;
+      },
+
+      async isUsernameTaken(username, exceptUserId) {
+        return users.some((user) => user.username === username.trim() && user.id !== exceptUserId);
+      },
+
+      async create(user) {
+        if (users.some((existing) => existing.id === user.id || existing.username === user.username)) {
+          throw new Error('A user with that id or username already exists');
+        }
+        users.push({ avatar_url: null, bio: null, created_at: now(), role: 'user', username_changed_at: null, ...user });
+      },
+
+      async update(id, changes) {
+        users = users.map((user) => (user.id === id ? { ...user, ...changes } : user));
+      },
+
+      async list() {
+        return [...users].sort(newestFirst);
+      },
+
+      async delete(id) {
+        users = users.filter((user) => user.id !== id);
+        deleteFarms(new Set(farms.filter((farm) => farm.author_id === id).map((farm) => farm.id)));
+        deleteComments(new Set(comments.filter((comment) => comment.user_id === id).map((comment) => comment.id)));
+        reactions = reactions.filter((reaction) => reaction.user_id !== id);
+        reports = reports.filter((report) => report.reporter_id !== id);
+        badges = badges.filter((badge) => badge.user_id !== id);
+        planner = planner.filter((item) => item.user_id !== id);
+        progress = progress.filter((entry) => entry.user_id !== id);
+        const testedFarms = new Set(farmTests.filter((test) => test.user_id === id).map((test) => test.farm_id));
+        farmTests = farmTests.filter((test) => test.user_id !== id);
+        testedFarms.forEach(updateVerifiedVersions);
+        revisions = revisions.map((revision) => (revision.edited_by === id ? { ...revision, edited_by: null } : revision));
+        [upvotes, favorites].forEach((keys) => {
+          [...keys].filter((key) => key.endsWith(`:${id}`)).forEach((key) => keys.delete(key));
+        });
+        [...following].filter((key) => key.split(':').includes(id)).forEach((key) => following.delete(key));
+      },
+
+      async setRole(id, role) {
+        users = users.map((user) => (user.id === id ? { ...user, role } : user));
+      },
+
+      async uploadAvatar(userId, file) {
+        return files.upload(userId, file);
+      },
+
+      async removeAvatar(_userId, url) {
+        await files.remove([url]);
+      },
+
+      async listBadges(userId) {
+        return badges.filter((badge) => badge.user_id === userId).sort((a, b) => b.earned_at!.localeCompare(a.earned_at!));
+      },
+
+      async getBadgeStats(userId) {
+        return badgeStats(userId);
+      },
+
+      async awardBadges(userId) {
+        if (!findUser(userId)) return [];
+        const awarded = badges.filter((badge) => badge.user_id === userId).map((badge) => badge.badge_type);
+        const earned = getNewBadges(badgeStats(userId), awarded).map((badge) => ({
+          id: createId('badge'),
+          user_id: userId,
+          badge_type: badge.type,
+          badge_name: badge.name,
+          badge_description: badge.description,
+          earned_at: now(),
+        }));
+        badges.push(...earned);
+        return earned;
+      },
+
+      async getProfileStats(userId, farmIds) {
+        const followers = [...following].filter((key) => key.endsWith(`:${userId}`)).length;
+        const followed = [...following].filter((key) => key.startsWith(`${userId}:`)).length;
+        return {
+          upvotesReceived: [...upvotes].filter((key) => farmIds.includes(key.split(':')[0])).length,
+          followersCount: followers,
+          followingCount: followed,
+          testsCount: farmTests.filter((test) => test.user_id === userId).length,
+        };
+      },
+
+      async isFollowing(followerId, followingId) {
+        return following.has(pairKey(followerId, followingId));
+      },
+
+      async setFollowing(followerId, followingId, value) {
+        if (followerId === followingId) throw new Error('Users cannot follow themselves');
+        setPair(following, pairKey(followerId, followingId), value);
+      },
+    }, ['create', 'update', 'delete', 'setRole', 'awardBadges', 'setFollowing']),
+
+    comments: persisted({
+      async listThreads(farmId, viewerId) {
+        const withReactions = (comment: CommentRecord) => ({ ...comment, reactions: reactionsFor(comment.id, viewerId) });
+        const forFarm = comments.filter((comment) => comment.farm_id === farmId);
+
+        return forFarm
+          .filter((comment) => !comment.parent_comment_id)
+          .sort(newestFirst)
+          .map((comment) => ({
+            ...withReactions(comment),
+            replies: forFarm
+              .filter((reply) => reply.parent_comment_id === comment.id)
+              .sort((a, b) => newestFirst(b, a))
+              .map(withReactions),
+          }));
+      },
+
+      async listRecent(limit) {
+        return [...comments].sort(newestFirst).slice(0, limit);
+      },
+
+      async add(comment) {
+        comments.push({
+          ...comment,
+          id: createId('comment'),
+          created_at: now(),
+          edited_at: null,
+          users: authorOf(comment.user_id),
+        });
+      },
+
+      async edit(id, body) {
+        comments = comments.map((comment) => (comment.id === id ? { ...comment, body, edited_at: now() } : comment));
+      },
+
+      async delete(id) {
+        deleteComments(new Set([id]));
+      },
+
+      async setReaction(commentId, userId, reaction) {
+        reactions = reactions.filter((existing) => !(existing.comment_id === commentId && existing.user_id === userId));
+        if (reaction) {
+          reactions.push({ comment_id: commentId, user_id: userId, reaction_type: reaction });
+        }
+      },
+    }, ['add', 'edit', 'delete', 'setReaction']),
+
+    reports: persisted({
+      async list() {
+        return [...reports].sort(newestFirst).map((report) => {
+          const reporter = findUser(report.reporter_id);
+          const farm = report.item_type === 'farm' ? farms.find((f) => f.id === report.item_id) : null;
+          const comment = report.item_type === 'comment' ? comments.find((c) => c.id === report.item_id) : null;
+          return {
+            ...report,
+            reporter: reporter ? { id: reporter.id, username: reporter.username } : null,
+            item: farm
+              ? { id: farm.id, title: farm.title, slug: farm.slug, platform: farm.platform, author_id: farm.author_id }
+              : comment
+                ? { id: comment.id, body: comment.body, farm_id: comment.farm_id, user_id: comment.user_id }
+                : null,
+          };
+        });
+      },
+
+      async create(report) {
+        reports.push({ ...report, id: createId('report'), status: 'pending', created_at: now() });
+      },
+
+      async setStatus(id, status) {
+        reports = reports.map((report) => (report.id === id ? { ...report, status } : report));
+      },
+    }, ['create', 'setStatus']),
+
+    planner: persisted({
+      async list(userId) {
+        return planner
+          .filter((item) => item.user_id === userId)
+          .sort((a, b) => newestFirst(b, a))
+          .map(({ farm_id, quantity }) => {
+            // Private farms stay hidden from everyone but their author
+            const farm = farms.find((f) => f.id === farm_id && (isPublic(f) || f.author_id === userId));
+            return {
+              farm_id,
+              quantity,
+              farm: farm
+                ? { id: farm.id, title: farm.title, slug: farm.slug, platform: farm.platform, materials: farm.materials }
+                : null,
+            };
+          });
+      },
+
+      async has(farmId, userId) {
+        return planner.some((item) => item.farm_id === farmId && item.user_id === userId);
+      },
+
+      async add(farmId, userId, quantity = 1) {
+        if (planner.some((item) => item.farm_id === farmId && item.user_id === userId)) return;
+        planner.push({ farm_id: farmId, user_id: userId, quantity, created_at: now() });
+      },
+
+      async setQuantity(farmId, userId, quantity) {
+        planner = planner.map((item) =>
+          item.farm_id === farmId && item.user_id === userId ? { ...item, quantity } : item
+        );
+      },
+
+      async remove(farmId, userId) {
+        planner = planner.filter((item) => !(item.farm_id === farmId && item.user_id === userId));
+      },
+    }, ['add', 'setQuantity', 'remove']),
+
+    farmTests: persisted({
+      async list(farmId) {
+        return farmTests
+          .filter((test) => test.farm_id === farmId)
+          .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+          .map((test) => {
+            const tester = findUser(test.user_id);
+            return { ...test, tester: tester ? { username: tester.username } : null };
+          });
+      },
+
+      async summarize(farmIds) {
+        return summarizeFarmTests(farmTests.filter((test) => farmIds.includes(test.farm_id)));
+      },
+
+      async submit(farmId, userId, input) {
+        const fields = {
+          test_result: input.result,
+          tested_platform: input.platform,
+          tested_version: input.version,
+          test_notes: input.notes.trim() || null,
+          updated_at: now(),
+        };
+        const isSameReport = (test: StoredFarmTest) =>
+          test.farm_id === farmId &&
+          test.user_id === userId &&
+          test.tested_platform === input.platform &&
+          test.tested_version === input.version;
+
+        if (farmTests.some(isSameReport)) {
+          farmTests = farmTests.map((test) => (isSameReport(test) ? { ...test, ...fields } : test));
+        } else {
+          farmTests.push({ id: createId('test'), farm_id: farmId, user_id: userId, created_at: now(), ...fields });
+        }
+        updateVerifiedVersions(farmId);
+      },
+
+      async delete(id) {
+        const test = farmTests.find((existing) => existing.id === id);
+        if (!test) return;
+        farmTests = farmTests.filter((existing) => existing.id !== id);
+        updateVerifiedVersions(test.farm_id);
+      },
+    }, ['submit', 'delete']),
+
+    revisions: persisted({
+      async list(farmId) {
+        // Newest first; revisions recorded in the same instant keep the order they were made in
+        return revisions
+          .filter((revision) => revision.farm_id === farmId)
+          .reverse()
+          .sort(newestFirst)
+          .map((revision) => {
+            const editor = revision.edited_by ? findUser(revision.edited_by) : null;
+            return { ...revision, editor: editor ? { username: editor.username } : null };
+          });
+      },
+
+      async restore(farmId, revision, editorId) {
+        const update = getRevisionUpdate(revision);
+        if (update.slug) assertSlugFree(update.slug, farmId);
+        updateFarm(farmId, editorId, (farm) => parseFarm({ ...farm, ...update, updated_at: now() }));
+
+        const restored = farms.find((farm) => farm.id === farmId);
+        if (!restored) throw new Error('Farm not found');
+        return restored;
+      },
+    }, ['restore']),
+
+    progress: persisted({
+      async get(farmId, userId) {
+        const entry = progress.find((existing) => existing.farm_id === farmId && existing.user_id === userId);
+        return {
+          completed_layers: entry?.completed_layers || [],
+          checked_materials: entry?.checked_materials || [],
+        };
+      },
+
+      async save(farmId, userId, changes) {
+        const isEntry = (entry: StoredProgress) => entry.farm_id === farmId && entry.user_id === userId;
+        if (progress.some(isEntry)) {
+          progress = progress.map((entry) => (isEntry(entry) ? { ...entry, ...changes } : entry));
+        } else {
+          progress.push({ farm_id: farmId, user_id: userId, completed_layers: [], checked_materials: [], ...changes });
+        }
+      },
+    }, ['save']),
+
+    files,
+  };
+}
@@ -0,0 +1,754 @@
+/**
+ * Repositories backed by Supabase: table queries, the search RPCs and the farm-images bucket
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TablesInsert, TablesUpdate } from '../database.types';
+import { parseFarm } from '../farm';
+import { FarmRevision, getRevisionUpdate } from '../farmRevisions';
+import { FACET_VERSIONS, FarmFacets, FarmSearchOptions, SEARCH_PAGE_SIZE, rankFarmsByItem } from '../farmSearch';
+import { FarmTest, summarizeFarmTests } from '../farmTests';
+import type { PlannerEntry } from '../planner';
+import type {
+  CommentReactions,
+  CommentRecord,
+  CommentsRepo,
+  FarmsRepo,
+  FarmTestsRepo,
+  FilesRepo,
+  PlannerRepo,
+  ProgressRepo,
+  ReactionType,
+  ReportedComment,
+  ReportedFarm,
+  ReportsRepo,
+  Repos,
+  RevisionsRepo,
+  UsersRepo,
+} from './types';
+
+const FARM_WITH_AUTHOR = '*, users:author_id(username, avatar_url)';
+const COMMENT_WITH_AUTHOR = '*, users:user_id(username, avatar_url)';
+const STORAGE_BUCKET = 'farm-images';
+
+function toRpcFilters(options: FarmSearchOptions) {
+  return {
+    search_query: options.query?.trim() || null,
+    filter_platform: options.platform || null,
+    filter_tag: options.tag || null,
+    filter_category: options.category || null,
+    filter_edition: options.version?.edition || null,
+    filter_version: options.version?.parts || null,
+    filter_biome: options.biome || null,
+    filter_build_time: options.buildTime || null,
+    filter_material_count: options.materialCount || null,
+    filter_has_schematic: options.hasSchematic ?? null,
+    filter_has_video: options.hasVideo ?? null,
+    filter_item: options.item || null,
+    filter_verified: options.verified ?? null,
+  };
+}
+
+function createFilesRepo(client: SupabaseClient<Database>): FilesRepo {
+  // Public URLs look like ".../storage/v1/object/public/farm-images/<path>"
+  const marker = `/object/public/${STORAGE_BUCKET}/`;
+  const pathOf = (url: string) => {
+    const index = url.indexOf(marker);
+    return index >= 0 ? decodeURIComponent(url.slice(index + marker.length)) : null;
+  };
+
+  return {
+    async upload(path, file, contentType) {
+      const { data, error } = await client.storage.from(STORAGE_BUCKET).upload(path, file, {
+        cacheControl: '3600',
+        contentType,
+        upsert: false,
+      });
+
+      if (error) throw error;
+      const { data: { publicUrl } } = client.storage.from(STORAGE_BUCKET).getPublicUrl(data.path);
+      return publicUrl;
+    },
+
+    async remove(urls) {
+      const paths = urls.map(pathOf).filter((path): path is string => !!path);
+      if (paths.length === 0) return;
+      const { error } = await client.storage.from(STORAGE_BUCKET).remove(paths);
+      if (error) throw error;
+    },
+  };
+}
+
+function createFarmsRepo(client: SupabaseClient<Database>, files: FilesRepo): FarmsRepo {
+  const listPublicByIds = async (ids: string[]) => {
+    if (ids.length === 0) return [];
+    const { data, error } = await client
+      .from('farms')
+      .select(FARM_WITH_AUTHOR)
+      .in('id', ids)
+      .eq('public', true)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(parseFarm);
+  };
+
+  return {
+    async search(options, page = 0, pageSize = SEARCH_PAGE_SIZE) {
+      const { data, error } = await client.rpc('search_farms', {
+        ...toRpcFilters(options),
+        sort_by: options.sort || 'relevance',
+        page_size: pageSize,
+        page_offset: page * pageSize,
+      });
+
+      if (error) throw error;
+      const rows = data || [];
+      return {
+        farms: rows.map((row) => parseFarm(row.farm as Record<string, unknown>)),
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
+    },
+
+    async facets(options) {
+      const { data, error } = await client.rpc('search_farm_facets', {
+        ...toRpcFilters(options),
+        facet_versions: FACET_VERSIONS,
+      });
+
+      if (error) throw error;
+      return data as unknown as FarmFacets;
+    },
+
+    async searchByItem(item, options = {}) {
+      // An item can be listed as farmable, in the drop rates, or both; farms_by_item ignores case like rankFarmsByItem
+      const { data, error } = await client.rpc('farms_by_item', { item_name: item });
+
+      if (error) throw error;
+      const farms = (data || []).map((row) => parseFarm(row.farm as Record<string, unknown>));
+      return rankFarmsByItem(farms, item, options);
+    },
+
+    async getBySlug(slug) {
+      const { data, error } = await client
+        .from('farms')
+        .select('*, users:author_id(id, username, avatar_url, bio)')
+        .eq('slug', slug)
+        .eq('public', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data && parseFarm(data);
+    },
+
+    async getById(id) {
+      const { data, error } = await client.from('farms').select(FARM_WITH_AUTHOR).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data && parseFarm(data);
+    },
+
+    async isSlugTaken(slug) {
+      const { data, error } = await client.from('farms').select('id').eq('slug', slug).limit(1);
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    async listSlugs(prefix) {
+      const { data, error } = await client.from('farms').select('slug').like('slug', `${prefix}%`);
+      if (error) throw error;
+      return (data || []).map((farm) => farm.slug);
+    },
+
+    async listWithVideo() {
+      const { data, error } = await client
+        .from('farms')
+        .select('id, slug, title, platform, video_url')
+        .eq('public', true)
+        .not('video_url', 'is', null);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listByIds(ids, { publicOnly = false } = {}) {
+      if (ids.length === 0) return [];
+      let query = client.from('farms').select(FARM_WITH_AUTHOR).in('id', ids);
+      if (publicOnly) query = query.eq('public', true);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(parseFarm);
+    },
+
+    async listMostUpvoted(limit) {
+      const { data, error } = await client
+        .from('farms')
+        .select(FARM_WITH_AUTHOR)
+        .eq('public', true)
+        .order('upvotes_count', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(parseFarm);
+    },
+
+    async listNewest(limit) {
+      const { data, error } = await client
+        .from('farms')
+        .select(FARM_WITH_AUTHOR)
+        .eq('public', true)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(parseFarm);
+    },
+
+    async listByAuthor(authorId, { publicOnly = false } = {}) {
+      let query = client.from('farms').select(FARM_WITH_AUTHOR).eq('author_id', authorId);
+      if (publicOnly) query = query.eq('public', true);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(parseFarm);
+    },
+
+    async listAll(limit) {
+      const { data, error } = await client
+        .from('farms')
+        .select(FARM_WITH_AUTHOR)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(parseFarm);
+    },
+
+    async countByCategory() {
+      const { data, error } = await client
+        .from('farms')
+        .select('category')
+        .eq('public', true)
+        .not('category', 'is', null);
+
+      if (error) throw error;
+      const counts: Record<string, number> = {};
+      (data || []).forEach((farm) => {
+        if (farm.category) {
+          counts[farm.category] = (counts[farm.category] || 0) + 1;
+        }
+      });
+      return counts;
+    },
+
+    async create(farm) {
+      const { data, error } = await client
+        .from('farms')
+        .insert(farm as TablesInsert<'farms'>)
+        .select(FARM_WITH_AUTHOR)
+        .single();
+
+      if (error) throw error;
+      return parseFarm(data);
+    },
+
+    async update(id, changes) {
+      const { error } = await client
+        .from('farms')
+        .update({ ...changes, updated_at: new Date().toISOString() } as TablesUpdate<'farms'>)
+        .eq('id', id);
+      if (error) throw error;
+    },
+
+    async delete(farm) {
+      if (farm.images && farm.images.length > 0) {
+        try {
+          await files.remove(farm.images);
+        } catch (error) {
+          // Missing images shouldn't stop the farm from being deleted
+          console.error('Error deleting images:', error);
+        }
+      }
+
+      const { error } = await client.from('farms').delete().eq('id', farm.id);
+      if (error) throw error;
+    },
+
+    async setPublic(farmId, isPublic) {
+      const { error } = await client.from('farms').update({ public: isPublic }).eq('id', farmId);
+      if (error) throw error;
+    },
+
+    async listUpvoted(userId) {
+      const { data, error } = await client.from('upvotes').select('farm_id').eq('user_id', userId);
+      if (error) throw error;
+      return listPublicByIds((data || []).map((upvote) => upvote.farm_id));
+    },
+
+    async hasUpvoted(farmId, userId) {
+      const { data, error } = await client
+        .from('upvotes')
+        .select('farm_id')
+        .eq('farm_id', farmId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+
+    async setUpvoted(farmId, userId, upvoted) {
+      const { error } = upvoted
+        ? await client.from('upvotes').insert({ farm_id: farmId, user_id: userId })
+        : await client.from('upvotes').delete().eq('farm_id', farmId).eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async listFavorited(userId) {
+      const { data, error } = await client.from('favorites').select('farm_id').eq('user_id', userId);
+      if (error) throw error;
+      return listPublicByIds((data || []).map((favorite) => favorite.farm_id));
+    },
+
+    async hasFavorited(farmId, userId) {
+      const { data, error } = await client
+        .from('favorites')
+        .select('farm_id')
+        .eq('farm_id', farmId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+
+    async setFavorited(farmId, userId, favorited) {
+      const { error } = favorited
+        ? await client.from('favorites').insert({ farm_id: farmId, user_id: userId })
+        : await client.from('favorites').delete().eq('farm_id', farmId).eq('user_id', userId);
+      if (error) throw error;
+    },
+  };
+}
+
+function createUsersRepo(client: SupabaseClient<Database>, files: FilesRepo): UsersRepo {
+  // Resolves a `{ count: 'exact', head: true }` query to its row count
+  const countRows = async (query: PromiseLike<{ count: number | null; error: PostgrestError | null }>) => {
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+  const countOptions = { count: 'exact', head: true } as const;
+
+  // Avatars linked from elsewhere aren't ours to delete
+  const removeAvatar = async (userId: string, url: string) => {
+    if (url.includes(userId)) await files.remove([url]);
+  };
+
+  return {
+    async getById(id) {
+      const { data, error } = await client.from('users').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async getByUsername(username) {
+      const { data, error } = await client.from('users').select('*').eq('username', username).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async getRole(id) {
+      const { data, error } = await client.from('users').select('role').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data?.role ?? null;
+    },
+
+    async isUsernameTaken(username, exceptUserId) {
+      let query = client.from('users').select('id').eq('username', username.trim());
+      if (exceptUserId) query = query.neq('id', exceptUserId);
+
+      const { data, error } = await query.limit(1);
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    async create(user) {
+      const { error } = await client.from('users').insert(user);
+      if (error) throw error;
+    },
+
+    async update(id, changes) {
+      const { error } = await client.from('users').update(changes).eq('id', id);
+      if (error) throw error;
+    },
+
+    async list() {
+      const { data, error } = await client.from('users').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async delete(id) {
+      // Cascades to the user's farms, comments and votes; the auth account is left for the dashboard
+      const { error } = await client.from('users').delete().eq('id', id);
+      if (error) throw error;
+    },
+
+    async setRole(id, role) {
+      const { error } = await client.from('users').update({ role }).eq('id', id);
+      if (error) throw error;
+    },
+
+    async uploadAvatar(userId, file, previousUrl) {
+      if (previousUrl) {
+        try {
+          await removeAvatar(userId, previousUrl);
+        } catch (error) {
+          console.error('Error deleting old avatar:', error);
+        }
+      }
+
+      return files.upload(`${userId}/avatar_${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`, file);
+    },
+
+    removeAvatar,
+
+    async listBadges(userId) {
+      const { data, error } = await client
+        .from('user_badges')
+        .select('*')
+        .eq('user_id', userId)
+        .order('earned_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getBadgeStats(userId) {
+      const { data, error } = await client.rpc('badge_stats', { target_user: userId });
+      if (error) throw error;
+      return data?.[0] ?? { farms: 0, upvotes: 0, tests: 0, helpful_reactions: 0 };
+    },
+
+    async awardBadges(userId) {
+      const { data, error } = await client.rpc('award_badges', { target_user: userId });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getProfileStats(userId, farmIds) {
+      const [upvotesReceived, followersCount, followingCount, testsCount] = await Promise.all([
+        farmIds.length > 0 ? countRows(client.from('upvotes').select('farm_id', countOptions).in('farm_id', farmIds)) : 0,
+        countRows(client.from('following').select('follower_id', countOptions).eq('following_id', userId)),
+        countRows(client.from('following').select('following_id', countOptions).eq('follower_id', userId)),
+        countRows(client.from('farm_tests').select('id', countOptions).eq('user_id', userId)),
+      ]);
+      return { upvotesReceived, followersCount, followingCount, testsCount };
+    },
+
+    async isFollowing(followerId, followingId) {
+      const { data, error } = await client
+        .from('following')
+        .select('follower_id')
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+
+    async setFollowing(followerId, followingId, following) {
+      const { error } = following
+        ? await client.from('following').insert({ follower_id: followerId, following_id: followingId })
+        : await client.from('following').delete().eq('follower_id', followerId).eq('following_id', followingId);
+      if (error) throw error;
+    },
+  };
+}
+
+function createCommentsRepo(client: SupabaseClient<Database>): CommentsRepo {
+  return {
+    async listThreads(farmId, viewerId) {
+      // Two queries for the whole farm instead of one per comment
+      const { data: comments, error } = await client
+        .from('comments')
+        .select(COMMENT_WITH_AUTHOR)
+        .eq('farm_id', farmId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const rows: CommentRecord[] = comments || [];
+
+      const { data: reactionRows, error: reactionsError } = rows.length
+        ? await client
+            .from('comment_reactions')
+            .select('comment_id, reaction_type, user_id')
+            .in('comment_id', rows.map((comment) => comment.id))
+        : { data: [], error: null };
+
+      if (reactionsError) throw reactionsError;
+
+      const reactions = new Map<string, CommentReactions>();
+      (reactionRows || []).forEach((reaction) => {
+        const counts = reactions.get(reaction.comment_id) || { like: 0, helpful: 0, userReactions: [] };
+        const type = reaction.reaction_type as ReactionType;
+        counts[type] += 1;
+        if (viewerId && reaction.user_id === viewerId) counts.userReactions.push(type);
+        reactions.set(reaction.comment_id, counts);
+      });
+
+      const withReactions = (comment: CommentRecord) => ({
+        ...comment,
+        reactions: reactions.get(comment.id) || { like: 0, helpful: 0, userReactions: [] },
+      });
+
+      return rows
+        .filter((comment) => !comment.parent_comment_id)
+        .reverse()
+        .map((comment) => ({
+          ...withReactions(comment),
+          replies: rows.filter((reply) => reply.parent_comment_id === comment.id).map(withReactions),
+        }));
+    },
+
+    async listRecent(limit) {
+      const { data, error } = await client
+        .from('comments')
+        .select(COMMENT_WITH_AUTHOR)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async add(comment) {
+      const { error } = await client.from('comments').insert(comment);
+      if (error) throw error;
+    },
+
+    async edit(id, body) {
+      const { error } = await client
+        .from('comments')
+        .update({ body, edited_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await client.from('comments').delete().eq('id', id);
+      if (error) throw error;
+    },
+
+    async setReaction(commentId, userId, reaction) {
+      const { error } = await client.from('comment_reactions').delete().eq('comment_id', commentId).eq('user_id', userId);
+      if (error) throw error;
+      if (!reaction) return;
+
+      const { error: insertError } = await client
+        .from('comment_reactions')
+        .insert({ comment_id: commentId, user_id: userId, reaction_type: reaction });
+      if (insertError) throw insertError;
+    },
+  };
+}
+
+function createReportsRepo(client: SupabaseClient<Database>): ReportsRepo {
+  return {
+    async list() {
+      const { data, error } = await client
+        .from('reports')
+        .select('*, reporter:reporter_id(id, username)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const reports = data || [];
+
+      const idsOf = (type: string) => reports.filter((report) => report.item_type === type).map((report) => report.item_id);
+      const [farms, comments] = await Promise.all([
+        idsOf('farm').length
+          ? client.from('farms').select('id, title, slug, platform, author_id').in('id', idsOf('farm'))
+          : { data: [], error: null },
+        idsOf('comment').length
+          ? client.from('comments').select('id, body, farm_id, user_id').in('id', idsOf('comment'))
+          : { data: [], error: null },
+      ]);
+
+      if (farms.error) throw farms.error;
+      if (comments.error) throw comments.error;
+
+      const items = new Map<string, ReportedFarm | ReportedComment>();
+      [...(farms.data || []), ...(comments.data || [])].forEach((item) => items.set(item.id, item));
+      return reports.map((report) => ({ ...report, item: items.get(report.item_id) || null }));
+    },
+
+    async create(report) {
+      const { error } = await client.from('reports').insert({ ...report, status: 'pending' });
+      if (error) throw error;
+    },
+
+    async setStatus(id, status) {
+      const { error } = await client.from('reports').update({ status }).eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+function createPlannerRepo(client: SupabaseClient<Database>): PlannerRepo {
+  return {
+    async list(userId) {
+      const { data, error } = await client
+        .from('planner_items')
+        .select('farm_id, quantity, farm:farm_id(id, title, slug, platform, materials)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as PlannerEntry[];
+    },
+
+    async has(farmId, userId) {
+      const { data, error } = await client
+        .from('planner_items')
+        .select('farm_id')
+        .eq('farm_id', farmId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+
+    async add(farmId, userId, quantity = 1) {
+      const { error } = await client
+        .from('planner_items')
+        .upsert({ farm_id: farmId, user_id: userId, quantity }, { onConflict: 'user_id,farm_id', ignoreDuplicates: true });
+      if (error) throw error;
+    },
+
+    async setQuantity(farmId, userId, quantity) {
+      const { error } = await client.from('planner_items').update({ quantity }).eq('farm_id', farmId).eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async remove(farmId, userId) {
+      const { error } = await client.from('planner_items').delete().eq('farm_id', farmId).eq('user_id', userId);
+      if (error) throw error;
+    },
+  };
+}
+
+function createFarmTestsRepo(client: SupabaseClient<Database>): FarmTestsRepo {
+  return {
+    async list(farmId) {
+      const { data, error } = await client
+        .from('farm_tests')
+        .select('*, tester:user_id(username)')
+        .eq('farm_id', farmId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as FarmTest[];
+    },
+
+    async summarize(farmIds) {
+      if (farmIds.length === 0) return {};
+      const { data, error } = await client.from('farm_tests').select('farm_id, test_result').in('farm_id', farmIds);
+      if (error) throw error;
+      return summarizeFarmTests(data || []);
+    },
+
+    async submit(farmId, userId, input) {
+      // A trigger keeps farms.verified_versions in step
+      const { error } = await client.from('farm_tests').upsert(
+        {
+          farm_id: farmId,
+          user_id: userId,
+          tested: true,
+          test_result: input.result,
+          tested_platform: input.platform,
+          tested_version: input.version,
+          test_notes: input.notes.trim() || null,
+        },
+        { onConflict: 'farm_id,user_id,tested_platform,tested_version' }
+      );
+      if (error) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await client.from('farm_tests').delete().eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+function createRevisionsRepo(client: SupabaseClient<Database>): RevisionsRepo {
+  return {
+    async list(farmId) {
+      // Revisions are written by a trigger on every farm update
+      const { data, error } = await client
+        .from('farm_revisions')
+        .select('*, editor:edited_by(username)')
+        .eq('farm_id', farmId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as FarmRevision[];
+    },
+
+    async restore(farmId, revision) {
+      const { data, error } = await client
+        .from('farms')
+        .update({ ...getRevisionUpdate(revision), updated_at: new Date().toISOString() })
+        .eq('id', farmId)
+        .select(FARM_WITH_AUTHOR)
+        .single();
+
+      if (error) throw error;
+      return parseFarm(data);
+    },
+  };
+}
+
+function createProgressRepo(client: SupabaseClient<Database>): ProgressRepo {
+  return {
+    async get(farmId, userId) {
+      const { data, error } = await client
+        .from('farm_progress')
+        .select('completed_layers, checked_materials')
+        .eq('farm_id', farmId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return {
+        completed_layers: data?.completed_layers || [],
+        checked_materials: data?.checked_materials || [],
+      };
+    },
+
+    async save(farmId, userId, progress) {
+      const { error } = await client
+        .from('farm_progress')
+        .upsert({ farm_id: farmId, user_id: userId, ...progress, updated_at: new Date().toISOString() });
+      if (error) throw error;
+    },
+  };
+}
+
+export function createSupabaseRepos(client: SupabaseClient<Database>): Repos {
+  const files = createFilesRepo(client);
+  return {
+    farms: createFarmsRepo(client, files),
+    users: createUsersRepo(client, files),
+    comments: createCommentsRepo(client),
+    reports: createReportsRepo(client),
+    planner: createPlannerRepo(client),
+    farmTests: createFarmTestsRepo(client),
+    revisions: createRevisionsRepo(client),
+    progress: createProgressRepo(client),
+    files,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * The data access contract shared by the Supabase and in-memory repositories. Pages talk to
+ * these interfaces through `repos` and never build queries themselves
+ */
+
+import type { BadgeStats } from '../badges';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Farm, FarmChanges, NewFarm } from '../farm';
+import type { FarmProgress } from '../farmProgress';
+import type { FarmRevision } from '../farmRevisions';
+import type { FarmFacets, FarmSearchOptions, FarmSearchPage, ItemFarmResult, ItemSearchOptions } from '../farmSearch';
+import type { FarmTest, FarmTestInput, FarmTestSummary } from '../farmTests';
+import type { PlannerEntry } from '../planner';
+
+export type UserRecord = Tables<'users'>;
+export type UserRole = NonNullable<UserRecord['role']>;
+
+export type NewUser = Pick<TablesInsert<'users'>, 'id' | 'email' | 'username' | 'role' | 'username_changed_at'>;
+export type UserChanges = Partial<Pick<UserRecord, 'username' | 'bio' | 'avatar_url' | 'username_changed_at'>>;
+
+export type UserBadge = Tables<'user_badges'>;
+
+export interface ProfileStats {
+  upvotesReceived: number;
+  followersCount: number;
+  followingCount: number;
+  testsCount: number;
+}
+
+export type ReactionType = Tables<'comment_reactions'>['reaction_type'];
+
+export interface CommentReactions {
+  like: number;
+  helpful: number;
+  // Reactions left by the viewer
+  userReactions: ReactionType[];
+}
+
+export interface CommentRecord extends Tables<'comments'> {
+  users?: {
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+export interface CommentWithReactions extends CommentRecord {
+  reactions: CommentReactions;
+}
+
+export interface CommentThread extends CommentWithReactions {
+  replies: CommentWithReactions[];
+}
+
+export interface NewComment {
+  farm_id: string;
+  user_id: string;
+  body: string;
+  parent_comment_id: string | null;
+}
+
+export type ReportItemType = Tables<'reports'>['item_type'];
+export type ReportStatus = NonNullable<Tables<'reports'>['status']>;
+
+export type ReportedFarm = Pick<Farm, 'id' | 'title' | 'slug' | 'platform' | 'author_id'>;
+export type ReportedComment = Pick<CommentRecord, 'id' | 'body' | 'farm_id' | 'user_id'>;
+
+export interface ReportRecord extends Tables<'reports'> {
+  reporter: { id: string; username: string } | null;
+  // The reported farm or comment; null once deleted
+  item: ReportedFarm | ReportedComment | null;
+}
+
+export interface NewReport {
+  item_type: ReportItemType;
+  item_id: string;
+  reason: string;
+  reporter_id: string;
+}
+
+export interface FarmsRepo {
+  search(options: FarmSearchOptions, page?: number, pageSize?: number): Promise<FarmSearchPage>;
+  // Counts for every facet value under the current query; each facet ignores its own filter
+  facets(options: FarmSearchOptions): Promise<FarmFacets>;
+  searchByItem(item: string, options?: ItemSearchOptions): Promise<ItemFarmResult[]>;
+  // Public farms only
+  getBySlug(slug: string): Promise<Farm | null>;
+  // Any farm the caller may see, including their own private ones
+  getById(id: string): Promise<Farm | null>;
+  isSlugTaken(slug: string): Promise<boolean>;
+  listSlugs(prefix: string): Promise<string[]>;
+  // Public farms with a video
+  listWithVideo(): Promise<Array<Pick<Farm, 'id' | 'slug' | 'title' | 'platform' | 'video_url'>>>;
+  listByIds(ids: string[], options?: { publicOnly?: boolean }): Promise<Farm[]>;
+  listMostUpvoted(limit: number): Promise<Farm[]>;
+  listNewest(limit: number): Promise<Farm[]>;
+  listByAuthor(authorId: string, options?: { publicOnly?: boolean }): Promise<Farm[]>;
+  // Every farm, public or not, newest first
+  listAll(limit: number): Promise<Farm[]>;
+  countByCategory(): Promise<Record<string, number>>;
+  // Slugs are unique; returns the stored row
+  create(farm: NewFarm): Promise<Farm>;
+  // `editorId` is credited with the change in the farm's history (the database reads it from the session)
+  update(id: string, changes: FarmChanges, editorId?: string): Promise<void>;
+  // Comments, upvotes and the like cascade; uploaded images are removed when given
+  delete(farm: { id: string; images?: string[] | null }): Promise<void>;
+  setPublic(farmId: string, isPublic: boolean, editorId?: string): Promise<void>;
+  listUpvoted(userId: string): Promise<Farm[]>;
+  hasUpvoted(farmId: string, userId: string): Promise<boolean>;
+  setUpvoted(farmId: string, userId: string, upvoted: boolean): Promise<void>;
+  listFavorited(userId: string): Promise<Farm[]>;
+  hasFavorited(farmId: string, userId: string): Promise<boolean>;
+  setFavorited(farmId: string, userId: string, favorited: boolean): Promise<void>;
+}
+
+export interface UsersRepo {
+  getById(id: string): Promise<UserRecord | null>;
+  getByUsername(username: string): Promise<UserRecord | null>;
+  getRole(id: string): Promise<UserRole | null>;
+  // `exceptUserId` lets a user keep their own name
+  isUsernameTaken(username: string, exceptUserId?: string): Promise<boolean>;
+  create(user: NewUser): Promise<void>;
+  update(id: string, changes: UserChanges): Promise<void>;
+  // Newest first
+  list(): Promise<UserRecord[]>;
+  delete(id: string): Promise<void>;
+  setRole(id: string, role: UserRole): Promise<void>;
+  // Stores the file, replacing `previousUrl` if it was one of the user's uploads, and returns its public URL
+  uploadAvatar(userId: string, file: File, previousUrl?: string | null): Promise<string>;
+  // Deletes the stored file behind an avatar URL, if it's one of the user's uploads
+  removeAvatar(userId: string, url: string): Promise<void>;
+  listBadges(userId: string): Promise<UserBadge[]>;
+  getBadgeStats(userId: string): Promise<BadgeStats>;
+  // Awards the badges the user has earned and doesn't have yet, and returns the new ones
+  awardBadges(userId: string): Promise<UserBadge[]>;
+  getProfileStats(userId: string, farmIds: string[]): Promise<ProfileStats>;
+  isFollowing(followerId: string, followingId: string): Promise<boolean>;
+  setFollowing(followerId: string, followingId: string, following: boolean): Promise<void>;
+}
+
+export interface CommentsRepo {
+  // Top-level comments newest first, each with its replies oldest first; reactions are counted for `viewerId`
+  listThreads(farmId: string, viewerId?: string | null): Promise<CommentThread[]>;
+  // Newest first, across all farms
+  listRecent(limit: number): Promise<CommentRecord[]>;
+  add(comment: NewComment): Promise<void>;
+  edit(id: string, body: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  // A user has at most one reaction per comment; null removes it
+  setReaction(commentId: string, userId: string, reaction: ReactionType | null): Promise<void>;
+}
+
+export interface ReportsRepo {
+  // Newest first, with the reporter and the reported item
+  list(): Promise<ReportRecord[]>;
+  create(report: NewReport): Promise<void>;
+  setStatus(id: string, status: ReportStatus): Promise<void>;
+}
+
+export interface PlannerRepo {
+  // Oldest first; `farm` is null once the farm is deleted or no longer visible to the user
+  list(userId: string): Promise<PlannerEntry[]>;
+  has(farmId: string, userId: string): Promise<boolean>;
+  // A farm that is already planned keeps its quantity
+  add(farmId: string, userId: string, quantity?: number): Promise<void>;
+  setQuantity(farmId: string, userId: string, quantity: number): Promise<void>;
+  remove(farmId: string, userId: string): Promise<void>;
+}
+
+export interface FarmTestsRepo {
+  // Most recently updated first, with the tester's username
+  list(farmId: string): Promise<FarmTest[]>;
+  // Report counts for several farms at once, keyed by farm id
+  summarize(farmIds: string[]): Promise<Record<string, FarmTestSummary>>;
+  // Testing the same platform + version again replaces the user's earlier report; the farm's
+  // verified_versions follow the reports
+  submit(farmId: string, userId: string, input: FarmTestInput): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface RevisionsRepo {
+  // Newest first, with the editor's username
+  list(farmId: string): Promise<FarmRevision[]>;
+  // Writes the revision's content back to the farm and returns the updated farm
+  restore(farmId: string, revision: FarmRevision, editorId?: string): Promise<Farm>;
+}
+
+export interface ProgressRepo {
+  // Empty progress when the user hasn't started the farm
+  get(farmId: string, userId: string): Promise<FarmProgress>;
+  // Saves only the given fields, leaving the rest of the stored progress untouched
+  save(farmId: string, userId: string, progress: Partial<FarmProgress>): Promise<void>;
+}
+
+export interface FilesRepo {
+  // Stores a file at "<user id>/..." in the farm-images bucket and returns its public URL
+  upload(path: string, file: Blob, contentType?: string): Promise<string>;
+  // Deletes files by the public URL `upload` returned; URLs from elsewhere are ignored
+  remove(urls: string[]): Promise<void>;
+}
+
+export interface Repos {
+  farms: FarmsRepo;
+  users: UsersRepo;
+  comments: CommentsRepo;
+  reports: ReportsRepo;
+  planner: PlannerRepo;
+  farmTests: FarmTestsRepo;
+  revisions: RevisionsRepo;
+  progress: ProgressRepo;
+  files: FilesRepo;
+}
@@ -0,0 +1,123 @@
+/**
+ * Shared schematic model used by every schematic file format reader
+ */
+
+import { NbtCompound, getCompound, getString } from './nbt';
+
+export interface BlockState {
+  name: string;
+  properties: Record<string, string>;
+}
+
+export interface Schematic {
+  name: string | null;
+  author: string | null;
+  width: number;
+  height: number;
+  length: number;
+  palette: BlockState[];
+  // Palette index per position, laid out as (y * length + z) * width + x
+  blocks: Uint32Array;
+}
+
+// Keeps a single schematic from exhausting browser memory (256 x 256 x 256)
+export const MAX_SCHEMATIC_VOLUME = 256 * 256 * 256;
+
+const AIR: BlockState = { name: 'minecraft:air', properties: {} };
+
+export function blockStateKey(state: BlockState): string {
+  const props = Object.keys(state.properties)
+    .sort()
+    .map((key) => `${key}=${state.properties[key]}`)
+    .join(',');
+  return props ? `${state.name}[${props}]` : state.name;
+}
+
+/**
+ * Collects block states into a single palette with air at index 0
+ */
+export class PaletteBuilder {
+  readonly palette: BlockState[] = [AIR];
+  private indexByKey = new Map<string, number>([[blockStateKey(AIR), 0]]);
+
+  add(state: BlockState): number {
+    const key = blockStateKey(state);
+    const existing = this.indexByKey.get(key);
+    if (existing !== undefined) return existing;
+    const index = this.palette.length;
+    this.palette.push(state);
+    this.indexByKey.set(key, index);
+    return index;
+  }
+}
+
+export function readBlockState(tag: NbtCompound): BlockState {
+  const name = getString(tag, 'Name');
+  if (!name) {
+    throw new Error('Block state is missing a name');
+  }
+  const properties: Record<string, string> = {};
+  const props = getCompound(tag, 'Properties');
+  if (props) {
+    for (const [key, value] of Object.entries(props)) {
+      properties[key] = String(value);
+    }
+  }
+  return { name, properties };
+}
+
+export function checkVolume(width: number, height: number, length: number) {
+  if (width <= 0 || height <= 0 || length <= 0) {
+    throw new Error('Schematic has invalid dimensions');
+  }
+  if (width * height * length > MAX_SCHEMATIC_VOLUME) {
+    throw new Error(`Schematic is too large to read (${width}x${height}x${length})`);
+  }
+}
+
+/**
+ * Counts how many positions use each palette entry (air is skipped)
+ * Pass a Y layer to only count blocks in that layer
+ */
+export function countBlockStates(schematic: Schematic, layer?: number): Map<number, number> {
+  const counts = new Map<number, number>();
+  const { blocks, width, length } = schematic;
+  const layerSize = width * length;
+  const start = layer === undefined ? 0 : layer * layerSize;
+  const end = layer === undefined ? blocks.length : Math.min(blocks.length, start + layerSize);
+  for (let i = start; i < end; i++) {
+    const index = blocks[i];
+    if (index === 0) continue;
+    counts.set(index, (counts.get(index) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Returns the palette index at a position, or 0 (air) outside the schematic
+ */
+export function getBlockAt(schematic: Schematic, x: number, y: number, z: number): number {
+  const { width, height, length } = schematic;
+  if (x < 0 || y < 0 || z < 0 || x >= width || y >= height || z >= length) return 0;
+  return schematic.blocks[(y * length + z) * width + x];
+}
+
+/**
+ * Parses a block state string such as "minecraft:oak_slab[type=double,waterlogged=false]"
+ */
+export function parseBlockStateString(value: string): BlockState {
+  const match = value.trim().match(/^([^[\]]+)(?:\[(.*)\])?$/);
+  if (!match) {
+    throw new Error(`Invalid block state "${value}"`);
+  }
+  const properties: Record<string, string> = {};
+  if (match[2]) {
+    for (const pair of match[2].split(',')) {
+      const [key, val] = pair.split('=');
+      if (key && val !== undefined) {
+        properties[key.trim()] = val.trim();
+      }
+    }
+  }
+  return { name: match[1].trim(), properties };
+}
@@ -0,0 +1,154 @@
+import { MINECRAFT_ITEMS } from './minecraftItems';
+import { BlockState, Schematic, countBlockStates } from './schematic';
+
+export interface SchematicMaterialsResult {
+  materials: Array<{ name: string; count: number }>;
+  // Block IDs that could not be mapped to a known Minecraft item
+  unmatched: Array<{ block: string; count: number }>;
+  totalBlocks: number;
+}
+
+// Blocks that are not placed from an item (or are created by the farm itself)
+const IGNORED_BLOCKS = new Set([
+  'air',
+  'cave_air',
+  'void_air',
+  'piston_head',
+  'moving_piston',
+  'nether_portal',
+  'end_portal',
+  'end_gateway',
+  'fire',
+  'soul_fire',
+  'frosted_ice',
+  'bubble_column',
+  'structure_void',
+  'barrier',
+  'light',
+]);
+
+// Blocks whose item has a different name than the block ID
+const BLOCK_ITEM_NAMES: Record<string, string> = {
+  water: 'Water Bucket',
+  lava: 'Lava Bucket',
+  powder_snow: 'Powder Snow Bucket',
+  redstone_wire: 'Redstone Dust',
+  repeater: 'Redstone Repeater',
+  comparator: 'Redstone Comparator',
+  tripwire: 'String',
+  wall_torch: 'Torch',
+  soul_wall_torch: 'Soul Torch',
+  redstone_wall_torch: 'Redstone Torch',
+  cocoa: 'Cocoa Beans',
+  carrots: 'Carrot',
+  potatoes: 'Potato',
+  beetroots: 'Beetroot Seeds',
+  wheat: 'Wheat Seeds',
+  melon_stem: 'Melon Seeds',
+  attached_melon_stem: 'Melon Seeds',
+  pumpkin_stem: 'Pumpkin Seeds',
+  attached_pumpkin_stem: 'Pumpkin Seeds',
+  sweet_berry_bush: 'Sweet Berries',
+  cave_vines: 'Glow Berries',
+  cave_vines_plant: 'Glow Berries',
+  kelp_plant: 'Kelp',
+  bamboo_sapling: 'Bamboo',
+  tall_seagrass: 'Seagrass',
+  weeping_vines_plant: 'Weeping Vines',
+  twisting_vines_plant: 'Twisting Vines',
+  torchflower_crop: 'Torchflower Seeds',
+  pitcher_crop: 'Pitcher Pod',
+  big_dripleaf_stem: 'Big Dripleaf',
+  water_cauldron: 'Cauldron',
+  lava_cauldron: 'Cauldron',
+  powder_snow_cauldron: 'Cauldron',
+  snow: 'Snow',
+};
+
+// Block states that stack several items into one position
+const MULTI_ITEM_PROPERTIES = ['candles', 'pickles', 'eggs', 'layers', 'flower_amount', 'segment_amount'];
+
+const ITEM_LOOKUP = new Map(MINECRAFT_ITEMS.map((item) => [normalizeItemKey(item), item]));
+
+function normalizeItemKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findItem(name: string): string | null {
+  return ITEM_LOOKUP.get(normalizeItemKey(name)) || null;
+}
+
+/**
+ * Maps a placed block state to the items needed to place it
+ * Returns an empty list for blocks that are not counted and null for unknown blocks
+ */
+export function blockStateToItems(state: BlockState): Array<{ name: string; count: number }> | null {
+  const [namespace, rawId] = state.name.includes(':') ? state.name.split(':', 2) : ['minecraft', state.name];
+  if (namespace !== 'minecraft') return null;
+  if (IGNORED_BLOCKS.has(rawId)) return [];
+
+  const props = state.properties;
+
+  // Two-block structures are counted once, on their lower/foot half
+  if (props.half === 'upper') return [];
+  if (rawId.endsWith('_bed') && props.part === 'head') return [];
+
+  let multiplier = 1;
+  if (rawId.endsWith('_slab') && props.type === 'double') multiplier = 2;
+  for (const key of MULTI_ITEM_PROPERTIES) {
+    const value = parseInt(props[key]);
+    if (!isNaN(value) && value > 1) multiplier = value;
+  }
+
+  if (rawId.startsWith('potted_')) {
+    const plant = findItem(rawId.slice('potted_'.length).replace(/_/g, ' '));
+    const pot = findItem('Flower Pot');
+    if (!plant || !pot) return null;
+    return [
+      { name: pot, count: 1 },
+      { name: plant, count: 1 },
+    ];
+  }
+
+  const id = rawId
+    .replace(/_wall_hanging_sign$/, '_hanging_sign')
+    .replace(/_wall_sign$/, '_sign')
+    .replace(/_wall_banner$/, '_banner')
+    .replace(/_wall_head$/, '_head')
+    .replace(/_wall_skull$/, '_skull')
+    .replace(/_wall_fan$/, '_fan');
+
+  const item = findItem(BLOCK_ITEM_NAMES[id] || id.replace(/_/g, ' '));
+  if (!item) return null;
+  return [{ name: item, count: multiplier }];
+}
+
+/**
+ * Builds a materials list ({ name, count } sorted by count) from every block in a schematic,
+ * or only from one Y layer when `layer` is given
+ */
+export function schematicToMaterials(schematic: Schematic, layer?: number): SchematicMaterialsResult {
+  const totals = new Map<string, number>();
+  const unmatched = new Map<string, number>();
+  let totalBlocks = 0;
+
+  countBlockStates(schematic, layer).forEach((count, paletteIndex) => {
+    const state = schematic.palette[paletteIndex];
+    const items = blockStateToItems(state);
+    if (items === null) {
+      unmatched.set(state.name, (unmatched.get(state.name) || 0) + count);
+      return;
+    }
+    if (items.length > 0) totalBlocks += count;
+    for (const item of items) {
+      totals.set(item.name, (totals.get(item.name) || 0) + item.count * count);
+    }
+  });
+
+  const byCount = <T extends { count: number }>(a: T, b: T) => b.count - a.count;
+  return {
+    materials: Array.from(totals, ([name, count]) => ({ name, count })).sort(byCount),
+    unmatched: Array.from(unmatched, ([block, count]) => ({ block, count })).sort(byCount),
+    totalBlocks,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Detects and reads every supported schematic file format
+ */
+
+import { NbtCompound, readNbtFile } from './nbt';
+import { Schematic } from './schematic';
+import { decodeLitematic, isLitematic } from './litematic';
+import { decodeSpongeSchematic, isLegacySchematic, isSpongeSchematic } from './spongeSchematic';
+import { decodeStructureNbt, isStructureNbt } from './structureNbt';
+
+export type SchematicFormat = 'litematic' | 'sponge' | 'structure' | 'mcedit';
+
+export interface SchematicReader {
+  format: SchematicFormat;
+  label: string;
+  extensions: string[];
+  detect: (root: NbtCompound) => boolean;
+  // Formats without a decoder can still be stored and downloaded
+  decode?: (root: NbtCompound) => Schematic;
+}
+
+export const SCHEMATIC_READERS: SchematicReader[] = [
+  {
+    format: 'litematic',
+    label: 'Litematica schematic',
+    extensions: ['.litematic'],
+    detect: isLitematic,
+    decode: decodeLitematic,
+  },
+  {
+    format: 'sponge',
+    label: 'WorldEdit schematic',
+    extensions: ['.schem', '.schematic'],
+    detect: isSpongeSchematic,
+    decode: decodeSpongeSchematic,
+  },
+  {
+    format: 'structure',
+    label: 'Structure block file',
+    extensions: ['.nbt'],
+    detect: isStructureNbt,
+    decode: decodeStructureNbt,
+  },
+  {
+    format: 'mcedit',
+    label: 'MCEdit schematic',
+    extensions: ['.schematic'],
+    detect: isLegacySchematic,
+  },
+];
+
+export const SCHEMATIC_EXTENSIONS = Array.from(
+  new Set(SCHEMATIC_READERS.flatMap((reader) => reader.extensions))
+);
+
+export interface SchematicFileInfo {
+  format: SchematicFormat;
+  // Null when the format is recognised but its blocks can't be read
+  schematic: Schematic | null;
+  error: string | null;
+}
+
+/**
+ * Returns the display label for a stored schematic format
+ */
+export function getSchematicFormatLabel(format: string | null | undefined): string {
+  const reader = SCHEMATIC_READERS.find((r) => r.format === format);
+  return reader ? reader.label : 'Schematic';
+}
+
+/**
+ * Reads a schematic file, detecting its format from the contents rather than the extension
+ */
+export async function readSchematicFile(data: ArrayBuffer | Uint8Array): Promise<SchematicFileInfo> {
+  let root: NbtCompound;
+  try {
+    root = (await readNbtFile(data)).value;
+  } catch {
+    throw new Error('File is not a valid schematic (could not read NBT data)');
+  }
+
+  const reader = SCHEMATIC_READERS.find((r) => r.detect(root));
+  if (!reader) {
+    throw new Error('Unrecognized schematic format. Supported formats: .litematic, .schem, .schematic and .nbt');
+  }
+
+  if (!reader.decode) {
+    return { format: reader.format, schematic: null, error: `Blocks in ${reader.label} files can't be read` };
+  }
+
+  try {
+    return { format: reader.format, schematic: reader.decode(root), error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { format: reader.format, schematic: null, error: message || 'Could not read blocks from this schematic' };
+  }
+}
+
+/**
+ * Downloads and reads a stored schematic
+ */
+export async function loadSchematicFromUrl(url: string): Promise<SchematicFileInfo> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download schematic (${response.status})`);
+  }
+  return readSchematicFile(await response.arrayBuffer());
+}
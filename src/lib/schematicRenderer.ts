@@ -0,0 +1,169 @@
+/**
+ * Software renderer for schematics using the 2D canvas API
+ * Draws flat-shaded cubes with the painter's algorithm, so it works without WebGL
+ */
+
+import { Schematic, getBlockAt } from './schematic';
+import { RGB, getBlockColor, isTransparentBlock } from './blockColors';
+
+export interface CameraState {
+  yaw: number;
+  pitch: number;
+  zoom: number;
+}
+
+export const DEFAULT_CAMERA: CameraState = {
+  yaw: Math.PI / 4,
+  pitch: Math.PI / 6,
+  zoom: 1,
+};
+
+interface Face {
+  // Four corners as x, y, z triples
+  corners: Float32Array;
+  normal: number;
+  color: RGB;
+  alpha: number;
+}
+
+// Neighbor offsets and face corners for +x, -x, +y, -y, +z, -z
+const DIRECTIONS: Array<{ offset: [number, number, number]; corners: number[] }> = [
+  { offset: [1, 0, 0], corners: [1, 0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1] },
+  { offset: [-1, 0, 0], corners: [0, 0, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0] },
+  { offset: [0, 1, 0], corners: [0, 1, 0, 0, 1, 1, 1, 1, 1, 1, 1, 0] },
+  { offset: [0, -1, 0], corners: [0, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1] },
+  { offset: [0, 0, 1], corners: [0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1] },
+  { offset: [0, 0, -1], corners: [0, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0, 0] },
+];
+
+// Fixed light per face direction so the shape reads without a lighting model
+const SHADING = [0.8, 0.7, 1, 0.5, 0.9, 0.65];
+
+// Rendering every face of a huge build would freeze the page
+export const MAX_RENDERED_FACES = 150000;
+
+export interface FaceSet {
+  faces: Face[];
+  truncated: boolean;
+}
+
+/**
+ * Collects the block faces that can be seen, limited to layers minY..maxY
+ * Faces between two opaque blocks are skipped
+ */
+export function buildVisibleFaces(schematic: Schematic, minY: number, maxY: number): FaceSet {
+  const { width, length, palette } = schematic;
+  const transparent = palette.map((state) => isTransparentBlock(state.name));
+  const colors = palette.map((state) => getBlockColor(state.name));
+
+  const faces: Face[] = [];
+  const cx = schematic.width / 2;
+  const cy = schematic.height / 2;
+  const cz = schematic.length / 2;
+
+  const isVisibleLayer = (y: number) => y >= minY && y <= maxY;
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let z = 0; z < length; z++) {
+      for (let x = 0; x < width; x++) {
+        const index = getBlockAt(schematic, x, y, z);
+        if (index === 0) continue;
+
+        for (let d = 0; d < DIRECTIONS.length; d++) {
+          const { offset, corners } = DIRECTIONS[d];
+          const ny = y + offset[1];
+          const neighbor = isVisibleLayer(ny) ? getBlockAt(schematic, x + offset[0], ny, z + offset[2]) : 0;
+          if (neighbor !== 0) {
+            // Hide faces between opaque blocks and between blocks of the same transparent type
+            if (!transparent[neighbor] || neighbor === index) continue;
+          }
+
+          if (faces.length >= MAX_RENDERED_FACES) {
+            return { faces, truncated: true };
+          }
+
+          const points = new Float32Array(12);
+          for (let i = 0; i < 12; i += 3) {
+            points[i] = x + corners[i] - cx;
+            points[i + 1] = y + corners[i + 1] - cy;
+            points[i + 2] = z + corners[i + 2] - cz;
+          }
+          faces.push({
+            corners: points,
+            normal: d,
+            color: colors[index],
+            alpha: transparent[index] ? 0.45 : 1,
+          });
+        }
+      }
+    }
+  }
+
+  return { faces, truncated: false };
+}
+
+/**
+ * Draws the faces onto a canvas using an orthographic orbit camera
+ */
+export function renderFaces(
+  ctx: CanvasRenderingContext2D,
+  faceSet: FaceSet,
+  schematic: Schematic,
+  camera: CameraState,
+  width: number,
+  height: number
+) {
+  ctx.clearRect(0, 0, width, height);
+
+  const cosYaw = Math.cos(camera.yaw);
+  const sinYaw = Math.sin(camera.yaw);
+  const cosPitch = Math.cos(camera.pitch);
+  const sinPitch = Math.sin(camera.pitch);
+
+  const diagonal = Math.hypot(schematic.width, schematic.height, schematic.length) || 1;
+  const scale = (Math.min(width, height) / diagonal) * camera.zoom;
+
+  // Depth of each rotated face normal decides which faces point at the camera
+  const normalDepth = DIRECTIONS.map(({ offset: [nx, ny, nz] }) => {
+    const rz = nx * sinYaw + nz * cosYaw;
+    return ny * sinPitch + rz * cosPitch;
+  });
+
+  const projected: Array<{ face: Face; points: number[]; depth: number }> = [];
+  for (const face of faceSet.faces) {
+    if (normalDepth[face.normal] <= 0) continue;
+
+    const points: number[] = [];
+    let depth = 0;
+    for (let i = 0; i < 12; i += 3) {
+      const x = face.corners[i];
+      const y = face.corners[i + 1];
+      const z = face.corners[i + 2];
+      const rx = x * cosYaw - z * sinYaw;
+      const rz = x * sinYaw + z * cosYaw;
+      const ry = y * cosPitch - rz * sinPitch;
+      depth += y * sinPitch + rz * cosPitch;
+      points.push(width / 2 + rx * scale, height / 2 - ry * scale);
+    }
+    projected.push({ face, points, depth });
+  }
+
+  projected.sort((a, b) => a.depth - b.depth);
+
+  const outline = scale > 6;
+  ctx.lineWidth = 0.5;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+  for (const { face, points } of projected) {
+    const shade = SHADING[face.normal];
+    const [r, g, b] = face.color;
+    ctx.fillStyle = `rgba(${Math.round(r * shade)}, ${Math.round(g * shade)}, ${Math.round(b * shade)}, ${face.alpha})`;
+    ctx.beginPath();
+    ctx.moveTo(points[0], points[1]);
+    ctx.lineTo(points[2], points[3]);
+    ctx.lineTo(points[4], points[5]);
+    ctx.lineTo(points[6], points[7]);
+    ctx.closePath();
+    ctx.fill();
+    if (outline) ctx.stroke();
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Sponge schematic (.schem) decoding, as written by WorldEdit 7+ (versions 1-3)
+ */
+
+import { NbtCompound, getCompound, getNumber, getString } from './nbt';
+import { PaletteBuilder, Schematic, checkVolume, parseBlockStateString } from './schematic';
+
+/**
+ * Version 3 nests everything under a "Schematic" compound, older versions use the root directly
+ */
+function getSchematicTag(root: NbtCompound): NbtCompound {
+  return getCompound(root, 'Schematic') || root;
+}
+
+/**
+ * Returns true if the NBT root looks like a Sponge schematic
+ */
+export function isSpongeSchematic(root: NbtCompound): boolean {
+  const tag = getSchematicTag(root);
+  const version = getNumber(tag, 'Version');
+  return (
+    version !== null &&
+    version >= 1 &&
+    version <= 3 &&
+    getNumber(tag, 'Width') !== null &&
+    getNumber(tag, 'Height') !== null &&
+    getNumber(tag, 'Length') !== null
+  );
+}
+
+/**
+ * Decodes the unsigned LEB128 varints used for Sponge block data
+ */
+function readVarints(bytes: Int8Array, count: number): Uint32Array {
+  const values = new Uint32Array(count);
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    let value = 0;
+    let shift = 0;
+    for (;;) {
+      if (offset >= bytes.length) {
+        throw new Error('Schematic block data is truncated');
+      }
+      const byte = bytes[offset++] & 0xff;
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+      shift += 7;
+      if (shift > 28) {
+        throw new Error('Schematic block data contains an invalid varint');
+      }
+    }
+    values[i] = value >>> 0;
+  }
+  return values;
+}
+
+/**
+ * Decodes a parsed Sponge schematic NBT tree
+ */
+export function decodeSpongeSchematic(root: NbtCompound): Schematic {
+  if (!isSpongeSchematic(root)) {
+    throw new Error('File is not a valid Sponge schematic');
+  }
+
+  const tag = getSchematicTag(root);
+  const version = getNumber(tag, 'Version');
+
+  // Dimensions are stored as unsigned shorts
+  const width = (getNumber(tag, 'Width') ?? 0) & 0xffff;
+  const height = (getNumber(tag, 'Height') ?? 0) & 0xffff;
+  const length = (getNumber(tag, 'Length') ?? 0) & 0xffff;
+  checkVolume(width, height, length);
+
+  const container = version === 3 ? getCompound(tag, 'Blocks') : tag;
+  const paletteTag = container ? getCompound(container, 'Palette') : null;
+  const data = container ? container[version === 3 ? 'Data' : 'BlockData'] : undefined;
+  if (!paletteTag || !(data instanceof Int8Array)) {
+    throw new Error('Schematic is missing its block palette or block data');
+  }
+
+  const builder = new PaletteBuilder();
+  const mapping: number[] = [];
+  for (const [key, value] of Object.entries(paletteTag)) {
+    if (typeof value !== 'number') continue;
+    mapping[value] = builder.add(parseBlockStateString(key));
+  }
+
+  const volume = width * height * length;
+  const indices = readVarints(data, volume);
+  const blocks = new Uint32Array(volume);
+  for (let i = 0; i < volume; i++) {
+    const global = mapping[indices[i]];
+    if (global === undefined) {
+      throw new Error('Schematic block data references an unknown palette entry');
+    }
+    blocks[i] = global;
+  }
+
+  const metadata = getCompound(tag, 'Metadata');
+  return {
+    name: metadata ? getString(metadata, 'Name') : null,
+    author: metadata ? getString(metadata, 'Author') : null,
+    width,
+    height,
+    length,
+    palette: builder.palette,
+    blocks,
+  };
+}
+
+/**
+ * Returns true if the NBT root is a legacy MCEdit/Schematica .schematic with numeric block IDs
+ */
+export function isLegacySchematic(root: NbtCompound): boolean {
+  return root.Blocks instanceof Int8Array && typeof root.Materials === 'string';
+}
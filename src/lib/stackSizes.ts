@@ -0,0 +1,93 @@
+/**
+ * Inventory stack sizes and stack/shulker box breakdowns for material counts
+ */
+
+export const SHULKER_BOX_SLOTS = 27;
+
+// Items that stack to 16
+const STACK_16_PATTERNS: RegExp[] = [
+  /^Ender Pearl$/,
+  /^Snowball$/,
+  /^(Brown |Blue )?Egg$/,
+  /^Bucket$/,
+  /^Honey Bottle$/,
+  /^Armor Stand$/,
+  /^Written Book$/,
+  / (Hanging )?Sign$/,
+  / Banner$/,
+];
+
+// Items that don't stack at all
+const UNSTACKABLE_PATTERNS: RegExp[] = [
+  / Bucket$/,
+  / Bucket of /,
+  / (Sword|Pickaxe|Axe|Shovel|Hoe|Helmet|Chestplate|Leggings|Boots|Horse Armor)$/,
+  /^(Bow|Crossbow|Trident|Shield|Elytra|Fishing Rod|Flint and Steel|Shears|Brush|Mace|Spyglass|Turtle Shell)$/,
+  / on a Stick$/,
+  / Bed$/,
+  / (Boat|Raft)( with Chest)?$/,
+  /Minecart/,
+  /Potion/,
+  /Shulker Box$/,
+  /^Saddle$/,
+  / Harness$/,
+  /^Totem of Undying$/,
+  /^Enchanted Book$/,
+  /^Music Disc/,
+  /^Cake$/,
+  /Bundle$/,
+  /^Goat Horn$/,
+  /(Stew|Soup)$/,
+  /^Book and Quill$/,
+  /^Knowledge Book$/,
+  /^Debug Stick$/,
+  /^Wolf Armor$/,
+];
+
+/**
+ * Returns how many of an item fit in one inventory slot (1, 16 or 64)
+ */
+export function getMaxStackSize(itemName: string): number {
+  const name = itemName.trim();
+  if (STACK_16_PATTERNS.some((pattern) => pattern.test(name))) return 16;
+  if (UNSTACKABLE_PATTERNS.some((pattern) => pattern.test(name))) return 1;
+  return 64;
+}
+
+export interface StackBreakdown {
+  stackSize: number;
+  stacks: number;
+  remainder: number;
+  // Inventory slots needed, counting a partial stack as a full slot
+  slots: number;
+  // Shulker boxes needed to carry everything (fractional)
+  shulkerBoxes: number;
+}
+
+export function getStackBreakdown(count: number, itemName: string): StackBreakdown {
+  const stackSize = getMaxStackSize(itemName);
+  const safeCount = Math.max(0, Math.floor(count));
+  const slots = Math.ceil(safeCount / stackSize);
+  return {
+    stackSize,
+    stacks: Math.floor(safeCount / stackSize),
+    remainder: safeCount % stackSize,
+    slots,
+    shulkerBoxes: slots / SHULKER_BOX_SLOTS,
+  };
+}
+
+/**
+ * Formats a count as stacks plus remainder, e.g. "3 stacks + 12" or "2 stacks of 16 + 4"
+ */
+export function formatStacks(breakdown: StackBreakdown): string {
+  const { stackSize, stacks, remainder } = breakdown;
+  if (stackSize === 1) {
+    return 'unstackable';
+  }
+  if (stacks === 0) {
+    return `${remainder}`;
+  }
+  const stackLabel = `${stacks} stack${stacks !== 1 ? 's' : ''}${stackSize !== 64 ? ` of ${stackSize}` : ''}`;
+  return remainder > 0 ? `${stackLabel} + ${remainder}` : stackLabel;
+}
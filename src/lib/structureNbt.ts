@@ -0,0 +1,75 @@
+/**
+ * Vanilla structure block (.nbt) decoding
+ */
+
+import { NbtCompound, NbtValue, getList, getNumber, getString, isCompound } from './nbt';
+import { PaletteBuilder, Schematic, checkVolume, readBlockState } from './schematic';
+
+function readIntTriple(value: NbtValue[]): [number, number, number] | null {
+  if (value.length !== 3 || value.some((v) => typeof v !== 'number')) return null;
+  return value as [number, number, number];
+}
+
+/**
+ * Returns true if the NBT root looks like a structure block file
+ */
+export function isStructureNbt(root: NbtCompound): boolean {
+  return (
+    readIntTriple(getList(root, 'size')) !== null &&
+    Array.isArray(root.blocks) &&
+    (Array.isArray(root.palette) || Array.isArray(root.palettes))
+  );
+}
+
+/**
+ * Decodes a parsed structure NBT tree
+ * Structures with several palettes (e.g. shipwrecks) use the first one
+ */
+export function decodeStructureNbt(root: NbtCompound): Schematic {
+  const size = readIntTriple(getList(root, 'size'));
+  if (!size || !isStructureNbt(root)) {
+    throw new Error('File is not a valid structure file');
+  }
+
+  const [width, height, length] = size;
+  checkVolume(width, height, length);
+
+  const paletteList = Array.isArray(root.palette)
+    ? root.palette
+    : (getList(root, 'palettes').find(Array.isArray) as NbtValue[] | undefined) || [];
+
+  const builder = new PaletteBuilder();
+  const mapping = paletteList.map((entry) => {
+    if (!isCompound(entry)) throw new Error('Invalid structure block palette');
+    return builder.add(readBlockState(entry));
+  });
+
+  // Positions without an entry are structure voids and stay as air
+  const blocks = new Uint32Array(width * height * length);
+  for (const entry of getList(root, 'blocks')) {
+    if (!isCompound(entry)) continue;
+    const pos = readIntTriple(getList(entry, 'pos'));
+    const state = getNumber(entry, 'state');
+    if (!pos || state === null) continue;
+
+    const [x, y, z] = pos;
+    if (x < 0 || y < 0 || z < 0 || x >= width || y >= height || z >= length) {
+      throw new Error('Structure contains a block outside its bounds');
+    }
+    const global = mapping[state];
+    if (global === undefined) {
+      throw new Error('Structure references an unknown palette entry');
+    }
+    blocks[(y * length + z) * width + x] = global;
+  }
+
+  return {
+    name: null,
+    author: getString(root, 'author'),
+    width,
+    height,
+    length,
+    palette: builder.palette,
+    blocks,
+  };
+}
@@ -2,10 +2,12 @@ import { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Mail, Lock, Upload, Heart, Edit3, Save, X, Trash2, Image as ImageIcon, Bookmark } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { repos, UserChanges } from '../lib/repos';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import FarmCard from '../components/FarmCard';
 import { getMinecraftMobAvatar } from '../lib/avatarUtils';
 import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+import type { Farm } from '../lib/farm';
 
 interface AccountProps {
   user: SupabaseUser | null;
@@ -15,9 +17,9 @@ export default function Account({ user: initialUser }: AccountProps) {
   const navigate = useNavigate();
   const [user, setUser] = useState<SupabaseUser | null>(initialUser);
   const [loading, setLoading] = useState(false);
-  const [myFarms, setMyFarms] = useState<any[]>([]);
-  const [upvotedFarms, setUpvotedFarms] = useState<any[]>([]);
-  const [favoritedFarms, setFavoritedFarms] = useState<any[]>([]);
+  const [myFarms, setMyFarms] = useState<Farm[]>([]);
+  const [upvotedFarms, setUpvotedFarms] = useState<Farm[]>([]);
+  const [favoritedFarms, setFavoritedFarms] = useState<Farm[]>([]);
   const [activeTab, setActiveTab] = useState<'farms' | 'upvoted' | 'favorites' | 'profile'>('farms');
   const [editingProfile, setEditingProfile] = useState(false);
   const [profileData, setProfileData] = useState({
@@ -47,11 +49,10 @@ export default function Account({ user: initialUser }: AccountProps) {
 
   const fetchUserData = async () => {
     if (!user) return;
-    const { data } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', user.id)
-      .single();
+    const data = await repos.users.getById(user.id).catch((error) => {
+      console.error('Error fetching profile:', error);
+      return null;
+    });
 
     if (data) {
       const changedAt = data.username_changed_at || data.created_at;
@@ -80,13 +81,11 @@ export default function Account({ user: initialUser }: AccountProps) {
 
   const fetchMyFarms = async () => {
     if (!user) return;
-    const { data } = await supabase
-      .from('farms')
-      .select('*, users:author_id(username, avatar_url)')
-      .eq('author_id', user.id)
-      .order('created_at', { ascending: false });
-
-    setMyFarms(data || []);
+    try {
+      setMyFarms(await repos.farms.listByAuthor(user.id));
+    } catch (error) {
+      console.error('Error fetching farms:', error);
+    }
   };
 
   const handleDeleteFarm = async (farmId: string, farmTitle: string) => {
@@ -110,32 +109,7 @@ export default function Account({ user: initialUser }: AccountProps) {
     }
 
     try {
-      // Delete associated images from storage if any
-      if (farm.images && farm.images.length > 0) {
-        const imagePromises = farm.images.map(async (imageUrl: string) => {
-          const urlParts = imageUrl.split('/');
-          const fileName = urlParts[urlParts.length - 1];
-          const filePath = `${user.id}/${fileName}`;
-          
-          try {
-            await supabase.storage
-              .from('farm-images')
-              .remove([filePath]);
-          } catch (error) {
-            console.error('Error deleting image:', error);
-          }
-        });
-        
-        await Promise.all(imagePromises);
-      }
-
-      // Delete the farm
-      const { error } = await supabase
-        .from('farms')
-        .delete()
-        .eq('id', farmId);
-
-      if (error) throw error;
+      await repos.farms.delete(farm);
 
       // Refresh the list
       fetchMyFarms();
@@ -148,40 +122,19 @@ export default function Account({ user: initialUser }: AccountProps) {
 
   const fetchUpvotedFarms = async () => {
     if (!user) return;
-    const { data: upvotes } = await supabase
-      .from('upvotes')
-      .select('farm_id')
-      .eq('user_id', user.id);
-
-    if (upvotes && upvotes.length > 0) {
-      const farmIds = upvotes.map((u) => u.farm_id);
-      const { data } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .in('id', farmIds)
-        .eq('public', true);
-
-      setUpvotedFarms(data || []);
+    try {
+      setUpvotedFarms(await repos.farms.listUpvoted(user.id));
+    } catch (error) {
+      console.error('Error fetching upvoted farms:', error);
     }
   };
 
   const fetchFavoritedFarms = async () => {
     if (!user) return;
-    const { data: favorites } = await supabase
-      .from('favorites')
-      .select('farm_id')
-      .eq('user_id', user.id);
-
-    if (favorites && favorites.length > 0) {
-      const farmIds = favorites.map((f) => f.farm_id);
-      const { data } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .in('id', farmIds)
-        .eq('public', true)
-        .order('created_at', { ascending: false });
-
-      setFavoritedFarms(data || []);
+    try {
+      setFavoritedFarms(await repos.farms.listFavorited(user.id));
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
     }
   };
 
@@ -244,13 +197,7 @@ export default function Account({ user: initialUser }: AccountProps) {
     setLoading(true);
     try {
       // Check if username is already taken
-      const { data: existingUser } = await supabase
-        .from('users')
-        .select('username')
-        .eq('username', authData.username.trim())
-        .single();
-
-      if (existingUser) {
+      if (await repos.users.isUsernameTaken(authData.username)) {
         alert('Username is already taken. Please choose another.');
         setLoading(false);
         return;
@@ -270,15 +217,13 @@ export default function Account({ user: initialUser }: AccountProps) {
 
       if (auth.user) {
         // Create user profile with chosen username
-        const { error: profileError } = await supabase.from('users').insert({
+        await repos.users.create({
           id: auth.user.id,
-          email: auth.user.email,
+          email: auth.user.email || authData.email,
           username: authData.username.trim(),
           role: 'user',
           username_changed_at: new Date().toISOString(),
         });
-
-        if (profileError) throw profileError;
         setUser(auth.user);
       }
     } catch (error: any) {
@@ -312,34 +257,7 @@ export default function Account({ user: initialUser }: AccountProps) {
 
     setUploadingAvatar(true);
     try {
-      const fileName = `avatar_${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-      const filePath = `${user.id}/${fileName}`;
-
-      // Delete old avatar if it exists
-      const oldAvatarPath = profileData.avatar_url?.split('/').pop();
-      if (oldAvatarPath && profileData.avatar_url?.includes(user.id)) {
-        try {
-          await supabase.storage
-            .from('farm-images')
-            .remove([`${user.id}/${oldAvatarPath}`]);
-        } catch (error) {
-          console.error('Error deleting old avatar:', error);
-        }
-      }
-
-      // Upload new avatar
-      const { data, error: uploadError } = await supabase.storage
-        .from('farm-images')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('farm-images')
-        .getPublicUrl(data.path);
+      const publicUrl = await repos.users.uploadAvatar(user.id, file, profileData.avatar_url);
 
       // Update profile data
       setProfileData(prev => ({
@@ -348,12 +266,7 @@ export default function Account({ user: initialUser }: AccountProps) {
       }));
 
       // Auto-save the avatar
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ avatar_url: publicUrl })
-        .eq('id', user.id);
-
-      if (updateError) throw updateError;
+      await repos.users.update(user.id, { avatar_url: publicUrl });
     } catch (error: any) {
       console.error('Error uploading avatar:', error);
       alert(error.message || 'Failed to upload avatar. Please try again.');
@@ -369,13 +282,9 @@ export default function Account({ user: initialUser }: AccountProps) {
     setLoading(true);
     try {
       // Check if username changed
-      const { data: currentUser } = await supabase
-        .from('users')
-        .select('username, username_changed_at, created_at')
-        .eq('id', user.id)
-        .single();
+      const currentUser = await repos.users.getById(user.id);
 
-      const updateData: any = {
+      const updateData: UserChanges = {
         bio: profileData.bio,
         avatar_url: profileData.avatar_url,
       };
@@ -384,7 +293,7 @@ export default function Account({ user: initialUser }: AccountProps) {
       if (currentUser && profileData.username !== currentUser.username) {
         const lastChanged = currentUser.username_changed_at 
           ? new Date(currentUser.username_changed_at)
-          : new Date(currentUser.created_at);
+          : new Date(currentUser.created_at!);
         
         const daysSinceChange = (Date.now() - lastChanged.getTime()) / (1000 * 60 * 60 * 24);
         
@@ -409,14 +318,7 @@ export default function Account({ user: initialUser }: AccountProps) {
         }
 
         // Check if username is already taken
-        const { data: existingUser } = await supabase
-          .from('users')
-          .select('username')
-          .eq('username', profileData.username.trim())
-          .neq('id', user.id)
-          .single();
-
-        if (existingUser) {
+        if (await repos.users.isUsernameTaken(profileData.username, user.id)) {
           alert('Username is already taken. Please choose another.');
           setLoading(false);
           return;
@@ -426,12 +328,7 @@ export default function Account({ user: initialUser }: AccountProps) {
         updateData.username_changed_at = new Date().toISOString();
       }
 
-      const { error } = await supabase
-        .from('users')
-        .update(updateData)
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await repos.users.update(user.id, updateData);
       setEditingProfile(false);
       fetchUserData();
     } catch (error: any) {
@@ -607,18 +504,8 @@ export default function Account({ user: initialUser }: AccountProps) {
                           onClick={async () => {
                             if (!user) return;
                             try {
-                              // Delete from storage
-                              const oldAvatarPath = profileData.avatar_url?.split('/').pop();
-                              if (oldAvatarPath && profileData.avatar_url?.includes(user.id)) {
-                                await supabase.storage
-                                  .from('farm-images')
-                                  .remove([`${user.id}/${oldAvatarPath}`]);
-                              }
-                              // Clear from database
-                              await supabase
-                                .from('users')
-                                .update({ avatar_url: null })
-                                .eq('id', user.id);
+                              await repos.users.removeAvatar(user.id, profileData.avatar_url);
+                              await repos.users.update(user.id, { avatar_url: null });
                               setProfileData(prev => ({ ...prev, avatar_url: '' }));
                             } catch (error) {
                               console.error('Error removing avatar:', error);
@@ -12,7 +12,8 @@ import {
   Grid3x3,
   Youtube
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { repos, CommentRecord, ReportRecord, UserRecord, UserRole } from '../lib/repos';
+import type { Farm } from '../lib/farm';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { formatDistanceToNow } from 'date-fns';
 import YouTubePlaylistImporter from '../components/YouTubePlaylistImporter';
@@ -21,60 +22,12 @@ interface AdminProps {
   user: SupabaseUser | null;
 }
 
-interface Report {
-  id: string;
-  item_type: 'farm' | 'comment';
-  item_id: string;
-  reason: string;
-  status: 'pending' | 'resolved' | 'dismissed';
-  created_at: string;
-  reporter: {
-    username: string;
-    id: string;
-  };
-  item?: any;
-}
-
-interface UserData {
-  id: string;
-  username: string;
-  email: string;
-  role: 'user' | 'moderator' | 'admin';
-  created_at: string;
-  avatar_url: string | null;
-  bio: string | null;
-}
-
-interface FarmData {
-  id: string;
-  title: string;
-  slug: string;
-  author_id: string;
-  created_at: string;
-  upvotes_count: number;
-  public: boolean;
-  users?: {
-    username: string;
-  };
-}
-
-interface CommentData {
-  id: string;
-  body: string;
-  farm_id: string;
-  user_id: string;
-  created_at: string;
-  users?: {
-    username: string;
-  };
-}
-
 export default function Admin({ user }: AdminProps) {
   const [activeTab, setActiveTab] = useState<'reports' | 'users' | 'farms' | 'comments' | 'youtube'>('reports');
-  const [reports, setReports] = useState<Report[]>([]);
-  const [users, setUsers] = useState<UserData[]>([]);
-  const [farms, setFarms] = useState<FarmData[]>([]);
-  const [comments, setComments] = useState<CommentData[]>([]);
+  const [reports, setReports] = useState<ReportRecord[]>([]);
+  const [users, setUsers] = useState<UserRecord[]>([]);
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [comments, setComments] = useState<CommentRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -97,21 +50,10 @@ export default function Admin({ user }: AdminProps) {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .single();
-
-      // Security: Verify on server-side and handle errors
-      if (error) {
-        console.error('Error checking user role:', error);
-        alert('Error verifying permissions. Please try again.');
-        window.location.href = '/';
-        return;
-      }
+      // Security: Verify on server-side
+      const role = await repos.users.getRole(user.id);
 
-      if (data && data.role === 'admin') {
+      if (role === 'admin') {
         setUserRole('admin');
       } else {
         alert('You do not have permission to access this page. Admin access required.');
@@ -145,69 +87,19 @@ export default function Admin({ user }: AdminProps) {
   };
 
   const fetchReports = async () => {
-    const { data, error } = await supabase
-      .from('reports')
-      .select(`
-        *,
-        reporter:reporter_id(username, id)
-      `)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-
-    const reportsWithItems = await Promise.all(
-      (data || []).map(async (report) => {
-        if (report.item_type === 'farm') {
-          const { data: farm } = await supabase
-            .from('farms')
-            .select('id, title, slug, platform, author_id')
-            .eq('id', report.item_id)
-            .single();
-          return { ...report, item: farm };
-        } else {
-          const { data: comment } = await supabase
-            .from('comments')
-            .select('id, body, farm_id, user_id')
-            .eq('id', report.item_id)
-            .single();
-          return { ...report, item: comment };
-        }
-      })
-    );
-
-    setReports(reportsWithItems);
+    setReports(await repos.reports.list());
   };
 
   const fetchUsers = async () => {
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    setUsers(data || []);
+    setUsers(await repos.users.list());
   };
 
   const fetchFarms = async () => {
-    const { data, error } = await supabase
-      .from('farms')
-      .select('*, users:author_id(username)')
-      .order('created_at', { ascending: false })
-      .limit(100);
-
-    if (error) throw error;
-    setFarms(data || []);
+    setFarms(await repos.farms.listAll(100));
   };
 
   const fetchComments = async () => {
-    const { data, error } = await supabase
-      .from('comments')
-      .select('*, users:user_id(username)')
-      .order('created_at', { ascending: false })
-      .limit(100);
-
-    if (error) throw error;
-    setComments(data || []);
+    setComments(await repos.comments.listRecent(100));
   };
 
   const handleDeleteFarm = async (farmId: string) => {
@@ -215,12 +107,7 @@ export default function Admin({ user }: AdminProps) {
 
     setDeleting(farmId);
     try {
-      const { error } = await supabase
-        .from('farms')
-        .delete()
-        .eq('id', farmId);
-
-      if (error) throw error;
+      await repos.farms.delete({ id: farmId });
       await fetchFarms();
       alert('Farm deleted successfully');
     } catch (error: any) {
@@ -236,12 +123,7 @@ export default function Admin({ user }: AdminProps) {
 
     setDeleting(commentId);
     try {
-      const { error } = await supabase
-        .from('comments')
-        .delete()
-        .eq('id', commentId);
-
-      if (error) throw error;
+      await repos.comments.delete(commentId);
       await fetchComments();
       alert('Comment deleted successfully');
     } catch (error: any) {
@@ -259,12 +141,7 @@ export default function Admin({ user }: AdminProps) {
     try {
       // Delete from users table (this will cascade delete their farms, comments, etc. due to ON DELETE CASCADE)
       // Note: The auth user will still exist in auth.users and needs to be deleted from Supabase dashboard
-      const { error } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', userId);
-      
-      if (error) throw error;
+      await repos.users.delete(userId);
 
       await fetchUsers();
       alert('User profile and all associated content deleted successfully. Note: The auth account may still exist and should be deleted from Supabase dashboard if needed.');
@@ -278,12 +155,7 @@ export default function Admin({ user }: AdminProps) {
 
   const handleResolveReport = async (reportId: string, action: 'resolve' | 'dismiss') => {
     try {
-      const { error } = await supabase
-        .from('reports')
-        .update({ status: action === 'resolve' ? 'resolved' : 'dismissed' })
-        .eq('id', reportId);
-
-      if (error) throw error;
+      await repos.reports.setStatus(reportId, action === 'resolve' ? 'resolved' : 'dismissed');
       await fetchReports();
     } catch (error: any) {
       console.error('Error resolving report:', error);
@@ -291,7 +163,7 @@ export default function Admin({ user }: AdminProps) {
     }
   };
 
-  const handleRemoveReportedItem = async (report: Report) => {
+  const handleRemoveReportedItem = async (report: ReportRecord) => {
     if (!confirm('Are you sure you want to remove this item?')) return;
 
     try {
@@ -306,14 +178,9 @@ export default function Admin({ user }: AdminProps) {
     }
   };
 
-  const handleUpdateUserRole = async (userId: string, newRole: 'user' | 'moderator' | 'admin') => {
+  const handleUpdateUserRole = async (userId: string, newRole: UserRole) => {
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ role: newRole })
-        .eq('id', userId);
-
-      if (error) throw error;
+      await repos.users.setRole(userId, newRole);
       await fetchUsers();
       alert('User role updated successfully');
     } catch (error: any) {
@@ -477,7 +344,7 @@ export default function Admin({ user }: AdminProps) {
                             <p className="text-gray-700 mb-2">{report.reason}</p>
                             {report.item && (
                               <div className="bg-white p-3 rounded mb-2">
-                                {report.item_type === 'farm' ? (
+                                {'title' in report.item ? (
                                   <div>
                                     <p className="font-semibold">{report.item.title}</p>
                                     <Link
@@ -493,7 +360,7 @@ export default function Admin({ user }: AdminProps) {
                               </div>
                             )}
                             <span className="text-xs text-gray-500">
-                              {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                              {formatDistanceToNow(new Date(report.created_at!), { addSuffix: true })}
                             </span>
                           </div>
                         </div>
@@ -580,12 +447,12 @@ export default function Admin({ user }: AdminProps) {
                         <div className="font-semibold text-gray-900">{userData.username}</div>
                         <div className="text-sm text-gray-600">{userData.email}</div>
                         <div className="text-xs text-gray-500">
-                          Joined {formatDistanceToNow(new Date(userData.created_at), { addSuffix: true })}
+                          Joined {formatDistanceToNow(new Date(userData.created_at!), { addSuffix: true })}
                         </div>
                       </div>
                       <div className="flex items-center space-x-3">
                         <select
-                          value={userData.role}
+                          value={userData.role ?? 'user'}
                           onChange={(e) => handleUpdateUserRole(userData.id, e.target.value as any)}
                           className="px-3 py-2 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
                         >
@@ -627,7 +494,7 @@ export default function Admin({ user }: AdminProps) {
                       <div className="font-semibold text-gray-900">{farm.title}</div>
                       <div className="text-sm text-gray-600">
                         by {farm.users?.username || 'Unknown'} • {farm.upvotes_count} upvotes •{' '}
-                        {formatDistanceToNow(new Date(farm.created_at), { addSuffix: true })}
+                        {formatDistanceToNow(new Date(farm.created_at!), { addSuffix: true })}
                       </div>
                       {!farm.public && (
                         <span className="inline-block mt-1 px-2 py-1 bg-red-100 text-red-700 rounded text-xs">
@@ -677,7 +544,7 @@ export default function Admin({ user }: AdminProps) {
                       </div>
                       <div className="text-gray-700 mb-2">{comment.body}</div>
                       <div className="text-xs text-gray-500">
-                        {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                        {formatDistanceToNow(new Date(comment.created_at!), { addSuffix: true })}
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
@@ -1,157 +1,201 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Filter, X, Search as SearchIcon, Sparkles, Grid3x3 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockFarms } from '../lib/demoData';
+import { repos } from '../lib/repos';
+import { COMMON_VERSIONS, parseEdition, parseMinecraftVersion } from '../lib/minecraftVersions';
+import {
+  BUILD_TIME_BUCKETS,
+  FACET_VERSIONS,
+  FarmFacets,
+  FarmSearchOptions,
+  MATERIAL_COUNT_BUCKETS,
+  SEARCH_PAGE_SIZE,
+} from '../lib/farmSearch';
 import FarmCard from '../components/FarmCard';
-import Fuse from 'fuse.js';
+import FacetFilter, { FacetOption } from '../components/FacetFilter';
+import LoadMoreTrigger from '../components/LoadMoreTrigger';
+import type { Farm } from '../lib/farm';
 
 const PLATFORMS = ['Java', 'Bedrock'];
 const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'newest', label: 'Newest First' },
   { value: 'oldest', label: 'Oldest First' },
   { value: 'upvotes', label: 'Most Popular' },
+  { value: 'drop_rate_desc', label: 'Highest Throughput' },
+  { value: 'efficiency_desc', label: 'Most Cost-Effective' },
+  { value: 'efficiency_time_desc', label: 'Best Value incl. Build Time' },
   { value: 'title', label: 'Title A-Z' },
 ];
 
+// Boolean facets, stored in the URL as `?schematic=1`
+const FEATURE_FILTERS = [
+  { param: 'schematic', label: 'Has Schematic' },
+  { param: 'video', label: 'Has Video' },
+  { param: 'verified', label: 'Verified by Testers' },
+];
+
+// Every URL parameter that narrows the results (the text query aside)
+const FILTER_PARAMS = ['platform', 'version', 'tag', 'category', 'biome', 'time', 'materials', 'item', 'schematic', 'video', 'verified'];
+
+// Looks up a count regardless of how the value is capitalised in the data
+function countFor(counts: Record<string, number> | undefined, value: string): number {
+  return Object.entries(counts || {})
+    .filter(([key]) => key.toLowerCase() === value.toLowerCase())
+    .reduce((sum, [, count]) => sum + count, 0);
+}
+
+// Facet values ordered by count, keeping the selected value even when nothing else matches
+function toFacetOptions(counts: Record<string, number> | undefined, selected: string): FacetOption[] {
+  const options = Object.entries(counts || {})
+    .sort(([aValue, aCount], [bValue, bCount]) => bCount - aCount || aValue.localeCompare(bValue))
+    .map(([value, count]) => ({ value, label: value, count }));
+  const selectedOption = options.find((option) => option.value.toLowerCase() === selected.toLowerCase());
+  if (selected && !selectedOption) {
+    options.unshift({ value: selected, label: selected, count: 0 });
+  } else if (selectedOption) {
+    selectedOption.value = selected;
+  }
+  return options;
+}
+
 export default function Browse() {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [farms, setFarms] = useState<any[]>([]);
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [totalFarms, setTotalFarms] = useState(0);
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
-  
+  const [facets, setFacets] = useState<FarmFacets | null>(null);
+  const latestRequest = useRef(0);
+  const latestFacetRequest = useRef(0);
+
+  const activeQuery = searchParams.get('q') || '';
   const selectedPlatform = searchParams.get('platform') || '';
-  const selectedSort = searchParams.get('sort') || 'newest';
+  const selectedSort = searchParams.get('sort') || (activeQuery ? 'relevance' : 'newest');
   const selectedTag = searchParams.get('tag') || '';
+  const selectedVersion = searchParams.get('version') || '';
+  const selectedCategory = searchParams.get('category') || '';
+  const selectedBiome = searchParams.get('biome') || '';
+  const selectedBuildTime = searchParams.get('time') || '';
+  const selectedMaterialCount = searchParams.get('materials') || '';
+  const selectedItem = searchParams.get('item') || '';
+  const selectedFeatures = FEATURE_FILTERS.filter((feature) => searchParams.get(feature.param) === '1').map((feature) => feature.param);
+  const filterKey = FILTER_PARAMS.map((param) => searchParams.get(param) || '').join('|');
+  const pushedQuery = useRef(activeQuery);
 
+  // Keep the search box in step when the query changes from outside (e.g. the navbar search)
   useEffect(() => {
-    fetchFarms();
-  }, [selectedPlatform, selectedSort, selectedTag]);
-
-  const fetchFarms = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      let demoFarms = [...mockFarms];
-      
-      if (selectedPlatform) {
-        demoFarms = demoFarms.filter(farm => 
-          farm.platform.map(p => p.toLowerCase()).includes(selectedPlatform.toLowerCase())
-        );
-      }
+    if (activeQuery !== pushedQuery.current) {
+      pushedQuery.current = activeQuery;
+      setSearchQuery(activeQuery);
+    }
+  }, [activeQuery]);
 
-      if (selectedTag) {
-        demoFarms = demoFarms.filter(farm => 
-          farm.tags.includes(selectedTag.toLowerCase())
-        );
+  // Debounce typing into the URL so every search is shareable and only hits the database once
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      if (searchQuery.trim() === activeQuery) return;
+      pushedQuery.current = searchQuery.trim();
+      const newParams = new URLSearchParams(searchParams);
+      if (searchQuery.trim()) {
+        newParams.set('q', searchQuery.trim());
+      } else {
+        newParams.delete('q');
       }
+      setSearchParams(newParams, { replace: true });
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
 
-      // Apply sorting
-      switch (selectedSort) {
-        case 'upvotes':
-          demoFarms.sort((a, b) => b.upvotes_count - a.upvotes_count);
-          break;
-        case 'oldest':
-          demoFarms.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-          break;
-        case 'title':
-          demoFarms.sort((a, b) => a.title.localeCompare(b.title));
-          break;
-        default:
-          demoFarms.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-      }
+  useEffect(() => {
+    fetchFarms(0);
+  }, [activeQuery, selectedSort, filterKey]);
+
+  useEffect(() => {
+    fetchFacets();
+  }, [activeQuery, filterKey]);
 
-      setFarms(demoFarms);
-      setLoading(false);
-      return;
+  // "1.21.3" on its own takes the edition from the platform filter, "Java 1.21.3" carries its own
+  const getVersionQuery = () => {
+    const version = parseMinecraftVersion(selectedVersion);
+    if (version && !version.edition && selectedPlatform) {
+      version.edition = parseEdition(selectedPlatform);
     }
+    return version;
+  };
+
+  const getSearchOptions = (): FarmSearchOptions => ({
+    query: activeQuery,
+    platform: selectedPlatform,
+    tag: selectedTag,
+    category: selectedCategory,
+    version: getVersionQuery(),
+    biome: selectedBiome,
+    buildTime: selectedBuildTime,
+    materialCount: selectedMaterialCount,
+    item: selectedItem,
+    hasSchematic: selectedFeatures.includes('schematic') || undefined,
+    hasVideo: selectedFeatures.includes('video') || undefined,
+    verified: selectedFeatures.includes('verified') || undefined,
+    sort: selectedSort,
+  });
+
+  const fetchFarms = async (pageToLoad: number) => {
+    const requestId = ++latestRequest.current;
+    const options = getSearchOptions();
 
     try {
-      setLoading(true);
-      let query = supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('public', true);
-
-      // Apply sorting
-      switch (selectedSort) {
-        case 'upvotes':
-          query = query.order('upvotes_count', { ascending: false });
-          break;
-        case 'oldest':
-          query = query.order('created_at', { ascending: true });
-          break;
-        case 'title':
-          query = query.order('title', { ascending: true });
-          break;
-        default:
-          query = query.order('created_at', { ascending: false });
+      if (pageToLoad === 0) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
       }
 
-      const { data, error } = await query;
-
-      if (error) throw error;
-      
-      // Filter by platform client-side (more reliable than contains for arrays)
-      let filteredData = data || [];
-      
-      if (selectedPlatform) {
-        filteredData = filteredData.filter((farm) =>
-          farm.platform?.some((p: string) => 
-            p.toLowerCase() === selectedPlatform.toLowerCase()
-          )
-        );
-      }
+      const result = await repos.farms.search(options, pageToLoad);
 
-      if (selectedTag) {
-        filteredData = filteredData.filter((farm) =>
-          farm.tags?.includes(selectedTag.toLowerCase())
-        );
-      }
+      // A newer search started while this one was in flight
+      if (requestId !== latestRequest.current) return;
 
-      setFarms(filteredData);
+      setFarms((prev) => (pageToLoad === 0 ? result.farms : [...prev, ...result.farms]));
+      if (pageToLoad === 0) setTotalFarms(result.total);
+      setPage(pageToLoad);
     } catch (error) {
       console.error('Error fetching farms:', error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
-  // Client-side search using Fuse.js
-  const filteredFarms = useMemo(() => {
-    if (!searchQuery.trim()) return farms;
-
-    const fuse = new Fuse(farms, {
-      keys: [
-        'title', 
-        'description', 
-        'tags', 
-        'materials',
-        'farmable_items', // Search by items the farm produces
-        {
-          name: 'drop_rate_per_hour',
-          getFn: (farm: any) => {
-            // Extract item names from drop_rate_per_hour array
-            if (Array.isArray(farm.drop_rate_per_hour)) {
-              return farm.drop_rate_per_hour.map((dr: any) => dr.item || '').join(' ');
-            }
-            return '';
-          }
-        }
-      ],
-      threshold: 0.3,
-    });
-
-    return fuse.search(searchQuery).map((result) => result.item);
-  }, [farms, searchQuery]);
-
-  const handlePlatformFilter = (platform: string) => {
+  const fetchFacets = async () => {
+    const requestId = ++latestFacetRequest.current;
+    const options = getSearchOptions();
+
+    try {
+      const result = await repos.farms.facets(options);
+      if (requestId === latestFacetRequest.current) setFacets(result);
+    } catch (error) {
+      console.error('Error fetching filter counts:', error);
+    }
+  };
+
+  const handleLoadMore = useCallback(() => {
+    if (!loadingMore) fetchFarms(page + 1);
+  }, [loadingMore, page, activeQuery, selectedSort, filterKey]);
+
+  // Selecting the active value again (or an empty one) clears that filter
+  const toggleFilter = (param: string, value: string) => {
     const newParams = new URLSearchParams(searchParams);
-    if (platform === selectedPlatform) {
-      newParams.delete('platform');
+    if (!value || value === searchParams.get(param)) {
+      newParams.delete(param);
     } else {
-      newParams.set('platform', platform);
+      newParams.set(param, value);
     }
     setSearchParams(newParams);
   };
@@ -162,14 +206,35 @@ export default function Browse() {
     setSearchParams(newParams);
   };
 
-  const handleTagFilter = (tag: string) => {
-    const newParams = new URLSearchParams(searchParams);
-    if (tag === selectedTag) {
-      newParams.delete('tag');
-    } else {
-      newParams.set('tag', tag);
-    }
-    setSearchParams(newParams);
+  const bucketLabel = (buckets: { value: string; label: string }[], value: string) =>
+    buckets.find((bucket) => bucket.value === value)?.label || value;
+
+  const activeFilters = [
+    { param: 'platform', value: selectedPlatform, label: selectedPlatform, color: 'from-minecraft-green to-minecraft-green-dark' },
+    {
+      param: 'version',
+      value: selectedVersion,
+      label: selectedPlatform && !/[a-z]/i.test(selectedVersion) ? `${selectedPlatform} ${selectedVersion}` : selectedVersion,
+      color: 'from-minecraft-gold to-yellow-600',
+    },
+    { param: 'category', value: selectedCategory, label: selectedCategory, color: 'from-minecraft-green to-minecraft-green-dark' },
+    { param: 'biome', value: selectedBiome, label: `Biome: ${selectedBiome}`, color: 'from-minecraft-green to-minecraft-green-dark' },
+    { param: 'time', value: selectedBuildTime, label: bucketLabel(BUILD_TIME_BUCKETS, selectedBuildTime), color: 'from-minecraft-green to-minecraft-green-dark' },
+    { param: 'materials', value: selectedMaterialCount, label: bucketLabel(MATERIAL_COUNT_BUCKETS, selectedMaterialCount), color: 'from-minecraft-green to-minecraft-green-dark' },
+    { param: 'item', value: selectedItem, label: `Makes ${selectedItem}`, color: 'from-minecraft-green to-minecraft-green-dark' },
+    ...FEATURE_FILTERS.map((feature) => ({
+      param: feature.param,
+      value: selectedFeatures.includes(feature.param) ? '1' : '',
+      label: feature.label,
+      color: 'from-minecraft-green to-minecraft-green-dark',
+    })),
+    { param: 'tag', value: selectedTag, label: selectedTag, color: 'from-minecraft-indigo to-minecraft-indigo-dark' },
+  ].filter((filter) => filter.value);
+
+  const featureCounts: Record<string, number | undefined> = {
+    schematic: facets?.has_schematic,
+    video: facets?.has_video,
+    verified: facets?.verified,
   };
 
   return (
@@ -265,13 +330,13 @@ export default function Browse() {
             >
               <Filter size={20} />
               <span>Filters</span>
-              {(selectedPlatform || selectedTag) && (
+              {activeFilters.length > 0 && (
                 <motion.span
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
                   className="ml-1 w-5 h-5 bg-white/30 rounded-full flex items-center justify-center text-xs"
                 >
-                  {(selectedPlatform ? 1 : 0) + (selectedTag ? 1 : 0)}
+                  {activeFilters.length}
                 </motion.span>
               )}
             </motion.button>
@@ -305,40 +370,101 @@ export default function Browse() {
                     </motion.button>
                   </div>
 
-                  {/* Platform Filter */}
+                  <FacetFilter
+                    title="Platform"
+                    options={PLATFORMS.map((platform) => ({
+                      value: platform,
+                      label: platform,
+                      count: facets ? countFor(facets.platform, platform) : undefined,
+                    }))}
+                    selected={selectedPlatform}
+                    onSelect={(platform) => toggleFilter('platform', platform)}
+                  />
+
+                  {/* Version Filter */}
                   <div className="mb-6">
-                    <h3 className="font-bold text-gray-800 mb-4 text-sm uppercase tracking-wide">Platform</h3>
-                    <div className="space-y-2">
-                      {PLATFORMS.map((platform, idx) => (
-                        <motion.button
-                          key={platform}
-                          initial={{ opacity: 0, x: -10 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          transition={{ delay: idx * 0.1 }}
-                          onClick={() => handlePlatformFilter(platform)}
-                          whileHover={{ scale: 1.02, x: 4 }}
-                          whileTap={{ scale: 0.98 }}
-                          className={`w-full text-left px-4 py-3 rounded-xl font-semibold transition-all shadow-minecraft-sm ${
-                            selectedPlatform === platform
-                              ? 'bg-gradient-to-r from-minecraft-green to-minecraft-green-dark text-white shadow-minecraft-lg'
-                              : 'bg-gray-100 hover:bg-gray-200 text-gray-700 hover:shadow-minecraft'
-                          }`}
-                        >
-                          {platform}
-                        </motion.button>
+                    <h3 className="font-bold text-gray-800 mb-4 text-sm uppercase tracking-wide">Works On Version</h3>
+                    <select
+                      value={selectedVersion}
+                      onChange={(e) => toggleFilter('version', e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 bg-gray-100 font-semibold text-gray-700 focus:outline-none focus:ring-2 focus:ring-minecraft-green cursor-pointer"
+                    >
+                      <option value="">Any Version</option>
+                      {selectedVersion && !COMMON_VERSIONS.includes(selectedVersion) && (
+                        <option value={selectedVersion}>{selectedVersion}</option>
+                      )}
+                      {COMMON_VERSIONS.map((version) => (
+                        <option key={version} value={version}>
+                          {facets && FACET_VERSIONS.includes(version) ? `${version} (${facets.version[version] || 0})` : version}
+                        </option>
                       ))}
-                    </div>
+                    </select>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Includes farms listed for a range covering this version. Pick a platform to narrow it to Java or Bedrock.
+                    </p>
                   </div>
 
+                  <FacetFilter
+                    title="Category"
+                    options={toFacetOptions(facets?.category, selectedCategory)}
+                    selected={selectedCategory}
+                    onSelect={(category) => toggleFilter('category', category)}
+                  />
+
+                  <FacetFilter
+                    title="Farmable Item"
+                    options={toFacetOptions(facets?.item, selectedItem)}
+                    selected={selectedItem}
+                    onSelect={(item) => toggleFilter('item', item)}
+                  />
+
+                  <FacetFilter
+                    title="Required Biome"
+                    options={toFacetOptions(facets?.biome, selectedBiome)}
+                    selected={selectedBiome}
+                    onSelect={(biome) => toggleFilter('biome', biome)}
+                  />
+
+                  <FacetFilter
+                    title="Build Time"
+                    options={BUILD_TIME_BUCKETS.map((bucket) => ({
+                      ...bucket,
+                      count: facets ? facets.build_time[bucket.value] || 0 : undefined,
+                    }))}
+                    selected={selectedBuildTime}
+                    onSelect={(bucket) => toggleFilter('time', bucket)}
+                  />
+
+                  <FacetFilter
+                    title="Materials Needed"
+                    options={MATERIAL_COUNT_BUCKETS.map((bucket) => ({
+                      ...bucket,
+                      count: facets ? facets.material_count[bucket.value] || 0 : undefined,
+                    }))}
+                    selected={selectedMaterialCount}
+                    onSelect={(bucket) => toggleFilter('materials', bucket)}
+                  />
+
+                  <FacetFilter
+                    title="Includes"
+                    options={FEATURE_FILTERS.map((feature) => ({
+                      value: feature.param,
+                      label: feature.label,
+                      count: featureCounts[feature.param],
+                    }))}
+                    selected={selectedFeatures}
+                    onSelect={(param) => toggleFilter(param, selectedFeatures.includes(param) ? '' : '1')}
+                  />
+
                   {/* Clear Filters */}
                   <AnimatePresence>
-                    {(selectedPlatform || selectedTag) && (
+                    {activeFilters.length > 0 && (
                       <motion.button
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
                         exit={{ opacity: 0, y: 10 }}
                         onClick={() => {
-                          setSearchParams({});
+                          setSearchParams(activeQuery ? { q: activeQuery } : {});
                           setShowFilters(false);
                         }}
                         whileHover={{ scale: 1.05 }}
@@ -358,23 +484,24 @@ export default function Browse() {
           <div className="flex-1 min-w-0">
             {/* Active Filters with enhanced styling */}
             <AnimatePresence>
-              {(selectedPlatform || selectedTag) && (
+              {activeFilters.length > 0 && (
                 <motion.div
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -10 }}
                   className="mb-6 flex flex-wrap gap-3"
                 >
-                  {selectedPlatform && (
+                  {activeFilters.map((filter) => (
                     <motion.span
+                      key={filter.param}
                       initial={{ scale: 0 }}
                       animate={{ scale: 1 }}
                       whileHover={{ scale: 1.1 }}
-                      className="inline-flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-minecraft-green to-minecraft-green-dark text-white rounded-full shadow-minecraft font-semibold"
+                      className={`inline-flex items-center space-x-2 px-4 py-2 bg-gradient-to-r ${filter.color} text-white rounded-full shadow-minecraft font-semibold`}
                     >
-                      <span>{selectedPlatform}</span>
+                      <span>{filter.label}</span>
                       <motion.button
-                        onClick={() => handlePlatformFilter(selectedPlatform)}
+                        onClick={() => toggleFilter(filter.param, '')}
                         whileHover={{ rotate: 90 }}
                         whileTap={{ scale: 0.8 }}
                         className="hover:text-gray-200 transition-colors"
@@ -382,25 +509,7 @@ export default function Browse() {
                         <X size={16} />
                       </motion.button>
                     </motion.span>
-                  )}
-                  {selectedTag && (
-                    <motion.span
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      whileHover={{ scale: 1.1 }}
-                      className="inline-flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-minecraft-indigo to-minecraft-indigo-dark text-white rounded-full shadow-minecraft font-semibold"
-                    >
-                      <span>{selectedTag}</span>
-                      <motion.button
-                        onClick={() => handleTagFilter(selectedTag)}
-                        whileHover={{ rotate: 90 }}
-                        whileTap={{ scale: 0.8 }}
-                        className="hover:text-gray-200 transition-colors"
-                      >
-                        <X size={16} />
-                      </motion.button>
-                    </motion.span>
-                  )}
+                  ))}
                 </motion.div>
               )}
             </AnimatePresence>
@@ -423,7 +532,7 @@ export default function Browse() {
                   Loading farms...
                 </div>
               </motion.div>
-            ) : filteredFarms.length > 0 ? (
+            ) : farms.length > 0 ? (
               <>
                 <motion.p
                   initial={{ opacity: 0 }}
@@ -431,15 +540,20 @@ export default function Browse() {
                   className="text-gray-700 mb-8 font-semibold text-lg flex items-center gap-2"
                 >
                   <Sparkles size={20} className="text-minecraft-gold" />
-                  Found <span className="text-minecraft-green-dark font-bold">{filteredFarms.length}</span> farm{filteredFarms.length !== 1 ? 's' : ''}
+                  Found <span className="text-minecraft-green-dark font-bold">{totalFarms}</span> farm{totalFarms !== 1 ? 's' : ''}
                 </motion.p>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   <AnimatePresence mode="popLayout">
-                    {filteredFarms.map((farm, index) => (
-                      <FarmCard key={farm.id} farm={farm} index={index} />
+                    {farms.map((farm, index) => (
+                      <FarmCard key={farm.id} farm={farm} index={index % SEARCH_PAGE_SIZE} />
                     ))}
                   </AnimatePresence>
                 </div>
+                <LoadMoreTrigger
+                  hasMore={farms.length < totalFarms}
+                  loading={loadingMore}
+                  onLoadMore={handleLoadMore}
+                />
               </>
             ) : (
               <motion.div
@@ -455,7 +569,7 @@ export default function Browse() {
                   🔍
                 </motion.div>
                 <p className="text-gray-700 text-xl mb-6 font-semibold">
-                  {searchQuery ? 'No farms match your search.' : 'No farms found with these filters.'}
+                  {activeQuery ? 'No farms match your search.' : 'No farms found with these filters.'}
                 </p>
                 <motion.button
                   onClick={() => {
@@ -3,12 +3,26 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { CheckCircle, XCircle, AlertCircle, Download, Edit2, Save, X } from 'lucide-react';
 import Papa from 'papaparse';
-import { supabase } from '../lib/supabase';
+import { repos } from '../lib/repos';
+import { checkAndAwardBadges } from '../lib/badges';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { FARM_CATEGORIES } from '../lib/farmCategories';
 import { MINECRAFT_ITEMS } from '../lib/minecraftItems';
-import { parseMaterialsFromText } from '../lib/materialParser';
+import { COMMON_VERSIONS, normalizeVersionLabel } from '../lib/minecraftVersions';
+import { DropRate, normalizeDropRate, parseDropRatesText, validateDropRate } from '../lib/dropRates';
+import { getRawMaterialCount } from '../lib/efficiency';
+import {
+  FARM_BUNDLE_EXTENSION,
+  FarmBundle,
+  findAvailableTitle,
+  isFarmBundle,
+  slugifyTitle,
+  uploadFarmBundleAssets,
+  validateFarmBundle,
+} from '../lib/farmBundle';
+import { parseMaterialsFromText, quantityToCount, ParsedMaterial, AmbiguousMaterial } from '../lib/materialParser';
 import CategoryAutocomplete from '../components/CategoryAutocomplete';
+import AmbiguousMaterialsPrompt from '../components/AmbiguousMaterialsPrompt';
 
 interface UploadProps {
   user: SupabaseUser | null;
@@ -31,8 +45,12 @@ interface FarmImportData {
   chunk_requirements?: string;
   height_requirements?: string;
   notes?: string;
-  drop_rate_per_hour?: string | Array<{ item: string; rate: string }>;
+  drop_rate_per_hour?: string | DropRate[];
   schematic_url?: string;
+  schematic_format?: string;
+  steps?: any[];
+  // Set for farms exported from another site; its images and schematic are uploaded on import
+  bundle?: FarmBundle;
 }
 
 interface ValidationResult {
@@ -45,17 +63,11 @@ interface ImportResult {
   success: number;
   failed: number;
   errors: Array<{ row: number; title: string; errors: string[] }>;
+  // Bundled farms whose title was already taken here
+  renamed: Array<{ from: string; to: string }>;
 }
 
 const PLATFORMS = ['Java', 'Bedrock'];
-const COMMON_VERSIONS = [
-  '1.21', '1.20.6', '1.20.5', '1.20.4', '1.20.3', '1.20.2', '1.20.1', '1.20',
-  '1.19.4', '1.19.3', '1.19.2', '1.19.1', '1.19',
-  '1.18.2', '1.18.1', '1.18',
-  '1.17.1', '1.17',
-  '1.16.5', '1.16.4', '1.16.3', '1.16.2', '1.16.1', '1.16',
-];
-
 export default function BulkImport({ user }: UploadProps) {
   const navigate = useNavigate();
   const [farms, setFarms] = useState<FarmImportData[]>([]);
@@ -65,6 +77,7 @@ export default function BulkImport({ user }: UploadProps) {
   const [previewMode, setPreviewMode] = useState(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editingFarm, setEditingFarm] = useState<FarmImportData | null>(null);
+  const [ambiguousMaterials, setAmbiguousMaterials] = useState<Array<AmbiguousMaterial & { optional: boolean }>>([]);
 
   if (!user) {
     return (
@@ -123,12 +136,12 @@ export default function BulkImport({ user }: UploadProps) {
             } catch {
               // If JSON fails, try simple text format
               const parsed = parseMaterialsFromText(value);
-              farm[key] = parsed.added;
+              farm[key] = parsed.added.map(({ name, count }) => ({ name, count }));
             }
           } else {
             // Simple text format
             const parsed = parseMaterialsFromText(value);
-            farm[key] = parsed.added;
+            farm[key] = parsed.added.map(({ name, count }) => ({ name, count }));
           }
         }
         // Parse drop_rate_per_hour
@@ -140,15 +153,8 @@ export default function BulkImport({ user }: UploadProps) {
               farm[key] = [];
             }
           } else {
-            // Simple format: "Iron Ingot: 3600/hour" or "Iron Ingot, 3600"
-            const items = value.split(/[;,]/).map((v: string) => v.trim()).filter((v: string) => v);
-            farm[key] = items.map((item: string) => {
-              const match = item.match(/^(.+?)[:\s]+(.+)$/);
-              if (match) {
-                return { item: match[1].trim(), rate: match[2].trim() };
-              }
-              return { item: item, rate: '' };
-            });
+            // Simple format: "Iron Ingot: 3600/hour AFK; Gold Nugget: 5400/hour"
+            farm[key] = parseDropRatesText(value);
           }
         }
         // Parse numbers
@@ -168,12 +174,18 @@ export default function BulkImport({ user }: UploadProps) {
   const parseJSON = (text: string): FarmImportData[] => {
     try {
       const data = JSON.parse(text);
-      return Array.isArray(data) ? data : [data];
+      const entries = Array.isArray(data) ? data : [data];
+      return entries.map((entry) => (isFarmBundle(entry) ? { ...entry.farm, bundle: entry } as FarmImportData : entry));
     } catch (error) {
       throw new Error('Invalid JSON format');
     }
   };
 
+  const getDropRates = (farm: FarmImportData): DropRate[] => {
+    if (typeof farm.drop_rate_per_hour === 'string') return parseDropRatesText(farm.drop_rate_per_hour);
+    return Array.isArray(farm.drop_rate_per_hour) ? farm.drop_rate_per_hour.map(normalizeDropRate) : [];
+  };
+
   const validateFarm = (farm: FarmImportData): ValidationResult => {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -233,11 +245,28 @@ export default function BulkImport({ user }: UploadProps) {
       });
     }
 
+    // Validate drop rates
+    getDropRates(farm).forEach((dropRate) => {
+      errors.push(...validateDropRate(dropRate));
+      if (dropRate.item && !MINECRAFT_ITEMS.includes(dropRate.item)) {
+        warnings.push(`Drop rate item "${dropRate.item}" may not be a valid Minecraft item`);
+      }
+    });
+
     // Validate video URL format
     if (farm.video_url && !farm.video_url.match(/youtube\.com|youtu\.be/)) {
       warnings.push('Video URL does not appear to be a YouTube URL');
     }
 
+    if (farm.bundle) {
+      errors.push(...validateFarmBundle(farm.bundle));
+      const linkedOnly = [...(farm.bundle.images || []), ...(farm.bundle.schematic ? [farm.bundle.schematic] : [])]
+        .filter((asset) => !asset.data);
+      if (linkedOnly.length > 0) {
+        warnings.push(`${linkedOnly.length} file(s) weren't included in the bundle and will stay linked to the original site`);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -246,18 +275,20 @@ export default function BulkImport({ user }: UploadProps) {
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const uploadedFile = e.target.files?.[0];
-    if (!uploadedFile) return;
+    // Several files can be picked at once, e.g. a folder of farm bundles
+    const uploadedFiles = Array.from(e.target.files || []);
+    if (uploadedFiles.length === 0) return;
 
     setImportResult(null);
     setEditingIndex(null);
     setEditingFarm(null);
 
     try {
-      const text = await uploadedFile.text();
-      const parsedFarms = uploadedFile.name.endsWith('.csv') 
-        ? parseCSV(text) 
-        : parseJSON(text);
+      const parsedFarms: FarmImportData[] = [];
+      for (const uploadedFile of uploadedFiles) {
+        const text = await uploadedFile.text();
+        parsedFarms.push(...(uploadedFile.name.endsWith('.csv') ? parseCSV(text) : parseJSON(text)));
+      }
 
       setFarms(parsedFarms);
 
@@ -273,6 +304,7 @@ export default function BulkImport({ user }: UploadProps) {
   const handleEdit = (index: number) => {
     setEditingIndex(index);
     setEditingFarm({ ...farms[index] });
+    setAmbiguousMaterials([]);
   };
 
   const handleSaveEdit = () => {
@@ -290,11 +322,13 @@ export default function BulkImport({ user }: UploadProps) {
 
     setEditingIndex(null);
     setEditingFarm(null);
+    setAmbiguousMaterials([]);
   };
 
   const handleCancelEdit = () => {
     setEditingIndex(null);
     setEditingFarm(null);
+    setAmbiguousMaterials([]);
   };
 
   const handleUpdateFarmField = (field: keyof FarmImportData, value: any) => {
@@ -313,33 +347,46 @@ export default function BulkImport({ user }: UploadProps) {
     });
   };
 
-  const handlePasteMaterials = (text: string, optional = false) => {
-    if (!editingFarm) return;
-    const parsed = parseMaterialsFromText(text);
+  const addMaterials = (materials: ParsedMaterial[], optional = false) => {
     const key = optional ? 'optional_materials' : 'materials';
-    const current = Array.isArray(editingFarm[key]) ? editingFarm[key] as Array<{ name: string; count: number }> : [];
-    
-    // Merge with existing materials
-    const merged = [...current];
-    parsed.added.forEach(({ name, count }) => {
-      const existingIndex = merged.findIndex(m => m.name === name);
-      if (existingIndex >= 0) {
-        merged[existingIndex].count += count;
-      } else {
-        merged.push({ name, count });
-      }
-    });
+    setEditingFarm((prev) => {
+      if (!prev) return prev;
+      const current = Array.isArray(prev[key]) ? prev[key] as Array<{ name: string; count: number }> : [];
+
+      // Merge with existing materials
+      const merged = current.map((m) => ({ ...m }));
+      materials.forEach(({ name, count }) => {
+        const existingIndex = merged.findIndex(m => m.name === name);
+        if (existingIndex >= 0) {
+          merged[existingIndex].count += count;
+        } else {
+          merged.push({ name, count });
+        }
+      });
 
-    setEditingFarm({
-      ...editingFarm,
-      [key]: merged,
+      return { ...prev, [key]: merged };
     });
+  };
+
+  const handlePasteMaterials = (text: string, optional = false) => {
+    if (!editingFarm) return;
+    const parsed = parseMaterialsFromText(text);
+    addMaterials(parsed.added, optional);
+    setAmbiguousMaterials((prev) => [...prev, ...parsed.ambiguous.map((item) => ({ ...item, optional }))]);
 
     if (parsed.failed.length > 0) {
       alert(`Could not match ${parsed.failed.length} item(s): ${parsed.failed.join(', ')}`);
     }
   };
 
+  const handleResolveAmbiguous = (item: AmbiguousMaterial, name: string | null) => {
+    const pending = ambiguousMaterials.find((p) => p === item);
+    if (name && pending) {
+      addMaterials([{ name, count: quantityToCount(item.quantity, name) }], pending.optional);
+    }
+    setAmbiguousMaterials((prev) => prev.filter((p) => p !== item));
+  };
+
   const handleImport = async () => {
     if (!user) return;
 
@@ -348,6 +395,7 @@ export default function BulkImport({ user }: UploadProps) {
       success: 0,
       failed: 0,
       errors: [],
+      renamed: [],
     };
 
     for (let i = 0; i < farms.length; i++) {
@@ -367,7 +415,7 @@ export default function BulkImport({ user }: UploadProps) {
       try {
         // Normalize data
         const platforms = Array.isArray(farm.platform) ? farm.platform : [farm.platform];
-        const versions = Array.isArray(farm.versions) ? farm.versions : [farm.versions];
+        const versions = (Array.isArray(farm.versions) ? farm.versions : [farm.versions]).map(normalizeVersionLabel);
         const tags = farm.tags 
           ? (Array.isArray(farm.tags) ? farm.tags : [farm.tags])
           : [];
@@ -376,21 +424,14 @@ export default function BulkImport({ user }: UploadProps) {
           : [];
         const materials = Array.isArray(farm.materials) ? farm.materials : [];
         const optionalMaterials = Array.isArray(farm.optional_materials) ? farm.optional_materials : [];
-        const dropRates = Array.isArray(farm.drop_rate_per_hour) ? farm.drop_rate_per_hour : [];
+        const dropRates = getDropRates(farm);
 
-        const slug = farm.title
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, '-')
-          .replace(/^-|-$/g, '');
+        // Bundles are usually farms that already exist somewhere, so a taken title gets a "(2)" instead of failing
+        const title = farm.bundle ? await findAvailableTitle(farm.title) : farm.title;
+        const slug = slugifyTitle(title);
 
         // Check for duplicate slug
-        const { data: existing } = await supabase
-          .from('farms')
-          .select('id')
-          .eq('slug', slug)
-          .single();
-
-        if (existing) {
+        if (await repos.farms.isSlugTaken(slug)) {
           result.failed++;
           result.errors.push({
             row: i + 2,
@@ -400,8 +441,10 @@ export default function BulkImport({ user }: UploadProps) {
           continue;
         }
 
+        const assets = farm.bundle ? await uploadFarmBundleAssets(farm.bundle, user.id) : null;
+
         const farmData = {
-          title: farm.title,
+          title,
           description: farm.description,
           category: farm.category,
           platform: platforms,
@@ -409,6 +452,7 @@ export default function BulkImport({ user }: UploadProps) {
           video_url: farm.video_url || null,
           materials: materials,
           optional_materials: optionalMaterials,
+          raw_material_count: getRawMaterialCount(materials),
           tags: tags,
           farmable_items: farmableItems,
           estimated_time: farm.estimated_time ? parseInt(String(farm.estimated_time)) : null,
@@ -418,24 +462,21 @@ export default function BulkImport({ user }: UploadProps) {
           height_requirements: farm.height_requirements || null,
           notes: farm.notes || null,
           drop_rate_per_hour: dropRates.length > 0 ? dropRates : null,
-          schematic_url: farm.schematic_url || null,
+          schematic_url: assets ? assets.schematic_url : farm.schematic_url || null,
+          schematic_format: farm.schematic_format || null,
+          ...(assets ? { images: assets.images, preview_image: assets.images[0] || null } : {}),
+          ...(Array.isArray(farm.steps) && farm.steps.length > 0 ? { steps: farm.steps } : {}),
           author_id: user.id,
           public: true,
           upvotes_count: 0,
           slug,
         };
 
-        const { error } = await supabase.from('farms').insert([farmData]);
+        await repos.farms.create(farmData);
 
-        if (error) {
-          result.failed++;
-          result.errors.push({
-            row: i + 2,
-            title: farm.title,
-            errors: [error.message],
-          });
-        } else {
-          result.success++;
+        result.success++;
+        if (title !== farm.title) {
+          result.renamed.push({ from: farm.title, to: title });
         }
       } catch (error: any) {
         result.failed++;
@@ -447,6 +488,8 @@ export default function BulkImport({ user }: UploadProps) {
       }
     }
 
+    if (result.success > 0) await checkAndAwardBadges(user.id, repos.users);
+
     setImportResult(result);
     setImporting(false);
   };
@@ -468,7 +511,7 @@ export default function BulkImport({ user }: UploadProps) {
         estimated_time: '120',
         required_biome: 'Plains',
         farm_designer: 'DesignerName',
-        drop_rate_per_hour: 'Iron Ingot: 3600/hour',
+        drop_rate_per_hour: 'Iron Ingot: 3600/hour AFK',
         chunk_requirements: '',
         height_requirements: '',
         notes: 'Requires 3 villagers',
@@ -487,7 +530,7 @@ export default function BulkImport({ user }: UploadProps) {
         estimated_time: '90',
         required_biome: 'Nether Wastes',
         farm_designer: 'AnotherDesigner',
-        drop_rate_per_hour: 'Gold Ingot: 1800/hour; Gold Nugget: 5400/hour',
+        drop_rate_per_hour: 'Gold Ingot: 1800/hour looting 3; Gold Nugget: 5400/hour looting 3',
         chunk_requirements: '',
         height_requirements: '',
         notes: '',
@@ -522,7 +565,8 @@ export default function BulkImport({ user }: UploadProps) {
               <div>
                 <h2 className="text-2xl font-bold mb-4">Upload File</h2>
                 <p className="text-gray-600 mb-4">
-                  Upload a CSV or JSON file containing farm data. Materials can be in simple text format!
+                  Upload a CSV or JSON file containing farm data, or farm bundles ({FARM_BUNDLE_EXTENSION}) exported
+                  from a farm page. Materials can be in simple text format!
                 </p>
                 <div className="flex gap-4 mb-4">
                   <button
@@ -536,6 +580,7 @@ export default function BulkImport({ user }: UploadProps) {
                 <input
                   type="file"
                   accept=".csv,.json"
+                  multiple
                   onChange={handleFileUpload}
                   className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-minecraft-green"
                 />
@@ -563,11 +608,12 @@ export default function BulkImport({ user }: UploadProps) {
                   <li><strong>description</strong> - Farm description</li>
                   <li><strong>category</strong> - Must match a category from the list</li>
                   <li><strong>platform</strong> - Java or Bedrock (use semicolon for multiple: "Java; Bedrock")</li>
-                  <li><strong>versions</strong> - Minecraft versions (use semicolon for multiple: "1.21; 1.20.6")</li>
+                  <li><strong>versions</strong> - Minecraft versions or ranges (use semicolon for multiple: "1.21; 1.20.6" or "1.20-1.21.4")</li>
                 </ul>
                 <h3 className="font-semibold text-green-900 mt-4 mb-2">Optional Fields:</h3>
                 <ul className="text-sm text-green-800 list-disc list-inside space-y-1">
                   <li>video_url, materials, optional_materials, tags, farmable_items, estimated_time, required_biome, farm_designer, etc.</li>
+                  <li><strong>drop_rate_per_hour</strong> - "Item: rate" with semicolons between items, e.g. "Gunpowder: 2.5k/h AFK, 4 players, sim distance 10"</li>
                 </ul>
               </div>
             </div>
@@ -730,6 +776,7 @@ export default function BulkImport({ user }: UploadProps) {
                             className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg"
                             rows={2}
                           />
+                          <AmbiguousMaterialsPrompt items={ambiguousMaterials} onResolve={handleResolveAmbiguous} />
                           <div className="mt-2 space-y-1">
                             {Array.isArray(editingFarm.materials) && editingFarm.materials.map((mat, i) => (
                               <div key={i} className="flex items-center justify-between p-2 bg-gray-50 rounded">
@@ -850,6 +897,15 @@ export default function BulkImport({ user }: UploadProps) {
                             : 0} items
                         </div>
                       </div>
+                      {farm.bundle && (
+                        <div>
+                          <span className="text-gray-500">Bundled files:</span>
+                          <div className="font-semibold">
+                            {farm.bundle.images?.length || 0} image{farm.bundle.images?.length !== 1 ? 's' : ''}
+                            {farm.bundle.schematic ? ' + schematic' : ''}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 );
@@ -877,6 +933,19 @@ export default function BulkImport({ user }: UploadProps) {
               </div>
             </div>
 
+            {importResult.renamed.length > 0 && (
+              <div className="mb-6">
+                <h3 className="font-semibold text-gray-900 mb-3">Renamed (the title was already taken):</h3>
+                <ul className="text-sm text-gray-700 list-disc list-inside space-y-1">
+                  {importResult.renamed.map(({ from, to }, index) => (
+                    <li key={index}>
+                      {from} → <strong>{to}</strong>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {importResult.errors.length > 0 && (
               <div>
                 <h3 className="font-semibold text-gray-900 mb-3">Errors:</h3>
@@ -1,11 +1,14 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Grid3x3, Filter, ChevronDown } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockFarms } from '../lib/demoData';
 import { getCategoryFromSlug } from '../lib/farmCategories';
+import { COMMON_VERSIONS, parseMinecraftVersion } from '../lib/minecraftVersions';
+import { FarmSearchOptions, SEARCH_PAGE_SIZE } from '../lib/farmSearch';
+import { repos } from '../lib/repos';
 import FarmCard from '../components/FarmCard';
+import LoadMoreTrigger from '../components/LoadMoreTrigger';
+import type { Farm } from '../lib/farm';
 
 const SORT_OPTIONS = [
   { value: 'upvotes_desc', label: 'Most Upvoted' },
@@ -14,6 +17,8 @@ const SORT_OPTIONS = [
   { value: 'oldest', label: 'Oldest First' },
   { value: 'drop_rate_desc', label: 'Highest Drop Rate' },
   { value: 'drop_rate_asc', label: 'Lowest Drop Rate' },
+  { value: 'efficiency_desc', label: 'Most Cost-Effective' },
+  { value: 'efficiency_time_desc', label: 'Best Value incl. Build Time' },
   { value: 'build_time_asc', label: 'Quickest Build' },
   { value: 'build_time_desc', label: 'Longest Build' },
   { value: 'resources_asc', label: 'Least Resources' },
@@ -22,20 +27,16 @@ const SORT_OPTIONS = [
   { value: 'version_oldest', label: 'Oldest Version' },
 ];
 
-const COMMON_VERSIONS = [
-  '1.21', '1.20.6', '1.20.5', '1.20.4', '1.20.3', '1.20.2', '1.20.1', '1.20',
-  '1.19.4', '1.19.3', '1.19.2', '1.19.1', '1.19',
-  '1.18.2', '1.18.1', '1.18',
-  '1.17.1', '1.17',
-  '1.16.5', '1.16.4', '1.16.3', '1.16.2', '1.16.1', '1.16',
-];
-
 export default function CategoryPage() {
   const { categorySlug } = useParams<{ categorySlug: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [farms, setFarms] = useState<any[]>([]);
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [totalFarms, setTotalFarms] = useState(0);
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const latestRequest = useRef(0);
   const category = categorySlug ? getCategoryFromSlug(categorySlug) : null;
   
   const selectedSort = searchParams.get('sort') || 'upvotes_desc';
@@ -43,237 +44,46 @@ export default function CategoryPage() {
 
   useEffect(() => {
     if (category) {
-      fetchFarmsByCategory();
+      fetchFarmsByCategory(0);
     }
   }, [category, selectedSort, selectedVersion]);
 
-  const fetchFarmsByCategory = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      let categoryFarms = mockFarms.filter((f) => f.category === category);
-      
-      // Apply version filter
-      if (selectedVersion) {
-        categoryFarms = categoryFarms.filter((f) =>
-          f.versions?.some((v: string) => v === selectedVersion)
-        );
-      }
-      
-      setFarms(categoryFarms);
-      setLoading(false);
-      return;
-    }
+  const fetchFarmsByCategory = async (pageToLoad: number) => {
+    const requestId = ++latestRequest.current;
+    // Sorting and version compatibility (including ranges like "1.20–1.21.4") are handled by the search
+    const options: FarmSearchOptions = {
+      category: category || undefined,
+      version: parseMinecraftVersion(selectedVersion),
+      sort: selectedSort,
+    };
 
     try {
-      setLoading(true);
-      let query = supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('public', true)
-        .eq('category', category);
-
-      // Apply version filter
-      if (selectedVersion) {
-        query = query.contains('versions', [selectedVersion]);
-      }
-
-      // Apply database-level sorting for simple cases
-      if (selectedSort === 'upvotes_desc') {
-        query = query.order('upvotes_count', { ascending: false });
-      } else if (selectedSort === 'upvotes_asc') {
-        query = query.order('upvotes_count', { ascending: true });
-      } else if (selectedSort === 'newest') {
-        query = query.order('created_at', { ascending: false });
-      } else if (selectedSort === 'oldest') {
-        query = query.order('created_at', { ascending: true });
+      if (pageToLoad === 0) {
+        setLoading(true);
       } else {
-        // Default to upvotes for complex sorts (will be handled client-side)
-        query = query.order('upvotes_count', { ascending: false });
+        setLoadingMore(true);
       }
 
-      const { data, error } = await query;
+      const result = await repos.farms.search(options, pageToLoad);
+      if (requestId !== latestRequest.current) return;
 
-      if (error) throw error;
-      setFarms(data || []);
+      setFarms((prev) => (pageToLoad === 0 ? result.farms : [...prev, ...result.farms]));
+      if (pageToLoad === 0) setTotalFarms(result.total);
+      setPage(pageToLoad);
     } catch (error) {
       console.error('Error fetching farms by category:', error);
-      setFarms([]); // Set empty array on error to prevent crashes
+      if (pageToLoad === 0) setFarms([]); // Set empty array on error to prevent crashes
     } finally {
-      setLoading(false);
-    }
-  };
-
-  // Client-side sorting for complex cases
-  const sortedFarms = useMemo(() => {
-    try {
-      let sorted = [...farms];
-
-      switch (selectedSort) {
-        case 'drop_rate_desc':
-          sorted.sort((a, b) => {
-            try {
-              const aRate = getMaxDropRate(a);
-              const bRate = getMaxDropRate(b);
-              return bRate - aRate;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'drop_rate_asc':
-          sorted.sort((a, b) => {
-            try {
-              const aRate = getMaxDropRate(a);
-              const bRate = getMaxDropRate(b);
-              return aRate - bRate;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'build_time_asc':
-          sorted.sort((a, b) => {
-            try {
-              const aTime = a?.estimated_time || Infinity;
-              const bTime = b?.estimated_time || Infinity;
-              return aTime - bTime;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'build_time_desc':
-          sorted.sort((a, b) => {
-            try {
-              const aTime = a?.estimated_time || 0;
-              const bTime = b?.estimated_time || 0;
-              return bTime - aTime;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'resources_asc':
-          sorted.sort((a, b) => {
-            try {
-              const aCount = getMaterialCount(a);
-              const bCount = getMaterialCount(b);
-              return aCount - bCount;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'resources_desc':
-          sorted.sort((a, b) => {
-            try {
-              const aCount = getMaterialCount(a);
-              const bCount = getMaterialCount(b);
-              return bCount - aCount;
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'version_newest':
-          sorted.sort((a, b) => {
-            try {
-              const aVersion = getNewestVersion(a?.versions || []);
-              const bVersion = getNewestVersion(b?.versions || []);
-              return compareVersions(bVersion, aVersion);
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
-        case 'version_oldest':
-          sorted.sort((a, b) => {
-            try {
-              const aVersion = getNewestVersion(a?.versions || []);
-              const bVersion = getNewestVersion(b?.versions || []);
-              return compareVersions(aVersion, bVersion);
-            } catch (e) {
-              return 0;
-            }
-          });
-          break;
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
       }
-
-      return sorted;
-    } catch (error) {
-      console.error('Error sorting farms:', error);
-      return farms; // Return original array if sorting fails
-    }
-  }, [farms, selectedSort]);
-
-  const getMaxDropRate = (farm: any): number => {
-    try {
-      if (!farm || !farm.drop_rate_per_hour || !Array.isArray(farm.drop_rate_per_hour)) return 0;
-      if (farm.drop_rate_per_hour.length === 0) return 0;
-      
-      const rates = farm.drop_rate_per_hour
-        .map((dr: any) => {
-          if (!dr) return 0;
-          const rateStr = dr.rate?.toString() || '0';
-          const rate = parseFloat(rateStr.replace(/[^0-9.]/g, '') || '0');
-          return isNaN(rate) ? 0 : rate;
-        })
-        .filter((r: number) => r > 0);
-      
-      if (rates.length === 0) return 0;
-      return Math.max(...rates);
-    } catch (e) {
-      return 0;
-    }
-  };
-
-  const getMaterialCount = (farm: any): number => {
-    try {
-      if (!farm) return 0;
-      const materials = Array.isArray(farm.materials) ? farm.materials : [];
-      const optional = Array.isArray(farm.optional_materials) ? farm.optional_materials : [];
-      return materials.length + optional.length;
-    } catch (e) {
-      return 0;
-    }
-  };
-
-  const getNewestVersion = (versions: string[]): string => {
-    try {
-      if (!Array.isArray(versions) || versions.length === 0) return '0.0';
-      // Sort versions and return the newest
-      const validVersions = versions.filter(v => v && typeof v === 'string');
-      if (validVersions.length === 0) return '0.0';
-      const sorted = [...validVersions].sort((a, b) => compareVersions(b, a));
-      return sorted[0] || '0.0';
-    } catch (e) {
-      return '0.0';
     }
   };
 
-  const compareVersions = (a: string, b: string): number => {
-    try {
-      if (!a || !b) return 0;
-      const aParts = a.split('.').map(Number).filter(n => !isNaN(n));
-      const bParts = b.split('.').map(Number).filter(n => !isNaN(n));
-      
-      if (aParts.length === 0 && bParts.length === 0) return 0;
-      if (aParts.length === 0) return -1;
-      if (bParts.length === 0) return 1;
-      
-      const maxLength = Math.max(aParts.length, bParts.length);
-      
-      for (let i = 0; i < maxLength; i++) {
-        const aPart = aParts[i] || 0;
-        const bPart = bParts[i] || 0;
-        if (aPart > bPart) return 1;
-        if (aPart < bPart) return -1;
-      }
-      return 0;
-    } catch (e) {
-      return 0;
-    }
-  };
+  const handleLoadMore = useCallback(() => {
+    if (!loadingMore) fetchFarmsByCategory(page + 1);
+  }, [loadingMore, page, category, selectedSort, selectedVersion]);
 
   const handleSortChange = (sortValue: string) => {
     const newParams = new URLSearchParams(searchParams);
@@ -325,7 +135,7 @@ export default function CategoryPage() {
                   {category}
                 </h1>
                 <p className="text-gray-600 mt-2">
-                  {sortedFarms.length} {sortedFarms.length === 1 ? 'farm design' : 'farm designs'} found
+                  {totalFarms} {totalFarms === 1 ? 'farm design' : 'farm designs'} found
                 </p>
               </div>
             </div>
@@ -402,7 +212,7 @@ export default function CategoryPage() {
         {/* Farms Grid */}
         {!loading && (
           <>
-            {sortedFarms.length === 0 ? (
+            {farms.length === 0 ? (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -425,18 +235,23 @@ export default function CategoryPage() {
                 animate={{ opacity: 1 }}
                 className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
               >
-                {sortedFarms.map((farm, index) => (
+                {farms.map((farm, index) => (
                   <motion.div
                     key={farm.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: (index % SEARCH_PAGE_SIZE) * 0.05 }}
                   >
                     <FarmCard farm={farm} />
                   </motion.div>
                 ))}
               </motion.div>
             )}
+            <LoadMoreTrigger
+              hasMore={farms.length < totalFarms}
+              loading={loadingMore}
+              onLoadMore={handleLoadMore}
+            />
           </>
         )}
       </div>
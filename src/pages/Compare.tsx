@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Columns3, X, Trophy } from 'lucide-react';
+import { repos } from '../lib/repos';
+import { getYouTubeThumbnail } from '../lib/avatarUtils';
+import type { FarmTestSummary } from '../lib/farmTests';
+import {
+  MAX_COMPARE_FARMS,
+  MIN_COMPARE_FARMS,
+  buildComparisonRows,
+  getCompareSelection,
+  getCompareUrl,
+  setCompareSelection,
+} from '../lib/compare';
+import type { Farm } from '../lib/farm';
+
+export default function Compare() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [tests, setTests] = useState<Record<string, FarmTestSummary>>({});
+  const [loading, setLoading] = useState(true);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const ids = (searchParams.get('ids') || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE_FARMS);
+  const idsKey = ids.join(',');
+
+  useEffect(() => {
+    const selection = getCompareSelection();
+    if (ids.length === 0 && selection.length > 0) {
+      setSearchParams({ ids: selection.join(',') }, { replace: true });
+      return;
+    }
+    // A shared link becomes the current selection, so the compare bar matches the table
+    if (ids.length > 0) setCompareSelection(ids);
+    fetchFarms();
+  }, [idsKey]);
+
+  const fetchFarms = async () => {
+    if (ids.length === 0) {
+      setFarms([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await repos.farms.listByIds(ids);
+      // Keep the order the farms were picked in
+      setFarms(ids.flatMap((id) => data.filter((farm) => farm.id === id)));
+
+      try {
+        setTests(await repos.farmTests.summarize(ids));
+      } catch (testError) {
+        console.error('Error fetching test results:', testError);
+        setTests({});
+      }
+    } catch (error) {
+      console.error('Error fetching farms to compare:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (farmId: string) => {
+    const remaining = ids.filter((id) => id !== farmId);
+    setCompareSelection(remaining);
+    setSearchParams(remaining.length > 0 ? { ids: remaining.join(',') } : {});
+  };
+
+  const rows = buildComparisonRows(farms, tests);
+  const visibleRows = differencesOnly ? rows.filter((row) => row.differs) : rows;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-4xl font-display text-minecraft-green animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <div className="flex items-center space-x-3 mb-4">
+              <Columns3 className="text-minecraft-green" size={32} />
+              <h1 className="text-4xl md:text-5xl font-display text-gray-900">Compare Farms</h1>
+            </div>
+            <p className="text-lg text-gray-600">
+              Differences are highlighted; the best value in a row is marked with a trophy.
+            </p>
+          </div>
+          {farms.length >= MIN_COMPARE_FARMS && (
+            <label className="flex items-center space-x-2 font-semibold text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={differencesOnly}
+                onChange={(e) => setDifferencesOnly(e.target.checked)}
+                className="w-4 h-4 accent-minecraft-green"
+              />
+              <span>Only show differences</span>
+            </label>
+          )}
+        </div>
+
+        {farms.length < MIN_COMPARE_FARMS ? (
+          <div className="text-center py-12 bg-white rounded-xl shadow-minecraft">
+            <p className="text-gray-600 text-lg mb-4">
+              Tick "Compare" on {MIN_COMPARE_FARMS} to {MAX_COMPARE_FARMS} farm cards to see them side by side.
+            </p>
+            <Link to="/farms" className="text-minecraft-green hover:underline font-semibold">
+              Browse farms
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-minecraft overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-200">
+                  <th className="sticky left-0 bg-white p-4 text-left w-44" />
+                  {farms.map((farm) => {
+                    const imageSrc = farm.preview_image || getYouTubeThumbnail(farm.video_url);
+                    return (
+                      <th key={farm.id} className="p-4 text-left align-top min-w-[200px]">
+                        <div className="relative">
+                          <button
+                            onClick={() => handleRemove(farm.id)}
+                            title="Remove from comparison"
+                            className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-gray-500 hover:text-red-600 shadow-minecraft-sm"
+                          >
+                            <X size={14} />
+                          </button>
+                          {imageSrc ? (
+                            <img src={imageSrc} alt={farm.title} className="w-full h-28 object-cover rounded-lg mb-2" />
+                          ) : (
+                            <div className="w-full h-28 rounded-lg mb-2 bg-gradient-to-br from-minecraft-green-light to-minecraft-indigo-light flex items-center justify-center text-4xl">
+                              🧱
+                            </div>
+                          )}
+                          <Link
+                            to={`/farms/${farm.platform?.[0] || 'java'}/${farm.slug}`}
+                            className="font-bold text-gray-900 hover:text-minecraft-green-dark"
+                          >
+                            {farm.title}
+                          </Link>
+                          {farm.users?.username && (
+                            <div className="text-xs font-normal text-gray-500">by {farm.users.username}</div>
+                          )}
+                        </div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => (
+                  <tr key={row.label} className="border-b border-gray-100">
+                    <th
+                      className={`sticky left-0 p-4 text-left font-semibold align-top ${
+                        row.differs ? 'bg-yellow-50 text-gray-900' : 'bg-white text-gray-600'
+                      }`}
+                    >
+                      {row.label}
+                    </th>
+                    {row.values.map((value, index) => (
+                      <td
+                        key={farms[index].id}
+                        className={`p-4 align-top whitespace-pre-line ${
+                          row.best.includes(index)
+                            ? 'bg-green-50 text-minecraft-green-dark font-semibold'
+                            : row.differs
+                            ? 'bg-yellow-50 text-gray-900'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {row.best.includes(index) && <Trophy size={14} className="inline mr-1 -mt-0.5" />}
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {visibleRows.length === 0 && (
+                  <tr>
+                    <td colSpan={farms.length + 1} className="p-8 text-center text-gray-600">
+                      These farms are the same on every compared field.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {farms.length > 0 && farms.length < ids.length && (
+          <p className="mt-4 text-sm text-gray-500">
+            Some farms in this link couldn't be found; they may have been deleted or made private.{' '}
+            <Link to={getCompareUrl(farms.map((farm) => farm.id))} className="text-minecraft-green hover:underline">
+              Update link
+            </Link>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
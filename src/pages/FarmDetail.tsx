@@ -12,17 +12,36 @@ import {
   Trash2,
   Download,
   Bookmark,
+  Box,
+  Layers,
+  ClipboardList,
+  History,
+  FlaskConical,
+  ChevronDown,
+  ChevronUp,
+  FileDown,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockFarms } from '../lib/demoData';
+import { repos } from '../lib/repos';
+import { checkAndAwardBadges } from '../lib/badges';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import CommentsSection from '../components/CommentsSection';
 import StepsEditor from '../components/StepsEditor';
 import ReportModal from '../components/ReportModal';
+import SchematicViewer from '../components/SchematicViewer';
+import BuildGuide from '../components/BuildGuide';
+import MaterialsCalculator from '../components/MaterialsCalculator';
+import RawMaterialsBreakdown from '../components/RawMaterialsBreakdown';
+import FarmHistory from '../components/FarmHistory';
+import FarmTesting from '../components/FarmTesting';
 import { getMinecraftMobAvatar, getYouTubeThumbnail, getYouTubeVideoId } from '../lib/avatarUtils';
 import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { DropRate, formatDropRateConditions, formatItemsPerHour, normalizeDropRate } from '../lib/dropRates';
+import { getSchematicFormatLabel, loadSchematicFromUrl } from '../lib/schematicReaders';
+import { Schematic } from '../lib/schematic';
+import { createFarmBundle, downloadFarmBundle } from '../lib/farmBundle';
 import { sanitizeYouTubeUrl, sanitizeImageUrl, sanitizeUrl, sanitizeYouTubeChannelUrl, escapeHtml, decodeHtmlEntities } from '../lib/urlSanitizer';
+import type { Farm } from '../lib/farm';
 
 interface FarmDetailProps {
   user: SupabaseUser | null;
@@ -30,31 +49,40 @@ interface FarmDetailProps {
 
 export default function FarmDetail({ user }: FarmDetailProps) {
   const { slug } = useParams<{ platform: string; slug: string }>();
-  const [farm, setFarm] = useState<any>(null);
+  const [farm, setFarm] = useState<Farm | null>(null);
   const [loading, setLoading] = useState(true);
   const [upvoted, setUpvoted] = useState(false);
   const [favorited, setFavorited] = useState(false);
-  const [checkedMaterials, setCheckedMaterials] = useState<Set<number>>(new Set());
+  const [inPlanner, setInPlanner] = useState(false);
   const [shareCopied, setShareCopied] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [youtubeCreator, setYoutubeCreator] = useState<{ name: string; avatar: string; channelId: string } | null>(null);
   const [loadingCreator, setLoadingCreator] = useState(false);
   const [showReportModal, setShowReportModal] = useState(false);
+  const [schematic, setSchematic] = useState<Schematic | null>(null);
+  const [loadingSchematic, setLoadingSchematic] = useState(false);
+  const [schematicError, setSchematicError] = useState<string | null>(null);
+  const [schematicTab, setSchematicTab] = useState<'viewer' | 'guide'>('viewer');
+  const [showHistory, setShowHistory] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
     fetchFarm();
+    setSchematic(null);
+    setSchematicError(null);
   }, [slug]);
 
   useEffect(() => {
     if (farm && user) {
       checkUpvoted();
       checkFavorited();
+      checkInPlanner();
     }
   }, [farm, user]);
 
   useEffect(() => {
     if (farm?.video_url) {
-      fetchYouTubeCreator(farm.video_url, farm?.farm_designer);
+      fetchYouTubeCreator(farm.video_url, farm.farm_designer ?? undefined);
     } else if (farm?.farm_designer) {
       // If we have farm_designer but no video URL, create a simple creator object
       setYoutubeCreator({
@@ -68,26 +96,8 @@ export default function FarmDetail({ user }: FarmDetailProps) {
   }, [farm?.video_url, farm?.farm_designer]);
 
   const fetchFarm = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      const demoFarm = mockFarms.find(f => f.slug === slug);
-      if (demoFarm) {
-        setFarm(demoFarm);
-      }
-      setLoading(false);
-      return;
-    }
-
     try {
-      const { data, error } = await supabase
-        .from('farms')
-        .select('*, users:author_id(id, username, avatar_url, bio)')
-        .eq('slug', slug)
-        .eq('public', true)
-        .single();
-
-      if (error) throw error;
-      setFarm(data);
+      setFarm(await repos.farms.getBySlug(slug!));
     } catch (error) {
       console.error('Error fetching farm:', error);
     } finally {
@@ -97,26 +107,29 @@ export default function FarmDetail({ user }: FarmDetailProps) {
 
   const checkUpvoted = async () => {
     if (!user || !farm) return;
-    const { data } = await supabase
-      .from('upvotes')
-      .select('*')
-      .eq('farm_id', farm.id)
-      .eq('user_id', user.id)
-      .single();
-
-    setUpvoted(!!data);
+    try {
+      setUpvoted(await repos.farms.hasUpvoted(farm.id, user.id));
+    } catch (error) {
+      console.error('Error checking upvote:', error);
+    }
   };
 
   const checkFavorited = async () => {
     if (!user || !farm) return;
-    const { data } = await supabase
-      .from('favorites')
-      .select('*')
-      .eq('farm_id', farm.id)
-      .eq('user_id', user.id)
-      .single();
-
-    setFavorited(!!data);
+    try {
+      setFavorited(await repos.farms.hasFavorited(farm.id, user.id));
+    } catch (error) {
+      console.error('Error checking favorite:', error);
+    }
+  };
+
+  const checkInPlanner = async () => {
+    if (!user || !farm) return;
+    try {
+      setInPlanner(await repos.planner.has(farm.id, user.id));
+    } catch (error) {
+      console.error('Error checking planner:', error);
+    }
   };
 
   const handleUpvote = async () => {
@@ -128,22 +141,14 @@ export default function FarmDetail({ user }: FarmDetailProps) {
     if (!farm) return;
 
     try {
+      await repos.farms.setUpvoted(farm.id, user.id, !upvoted);
       if (upvoted) {
-        await supabase
-          .from('upvotes')
-          .delete()
-          .eq('farm_id', farm.id)
-          .eq('user_id', user.id);
-
-        setFarm({ ...farm, upvotes_count: farm.upvotes_count - 1 });
+        setFarm({ ...farm, upvotes_count: (farm.upvotes_count || 0) - 1 });
         setUpvoted(false);
       } else {
-        await supabase
-          .from('upvotes')
-          .insert({ farm_id: farm.id, user_id: user.id });
-
-        setFarm({ ...farm, upvotes_count: farm.upvotes_count + 1 });
+        setFarm({ ...farm, upvotes_count: (farm.upvotes_count || 0) + 1 });
         setUpvoted(true);
+        if (farm.author_id) await checkAndAwardBadges(farm.author_id, repos.users);
       }
     } catch (error) {
       console.error('Error toggling upvote:', error);
@@ -159,36 +164,62 @@ export default function FarmDetail({ user }: FarmDetailProps) {
     if (!farm) return;
 
     try {
-      if (favorited) {
-        await supabase
-          .from('favorites')
-          .delete()
-          .eq('farm_id', farm.id)
-          .eq('user_id', user.id);
-
-        setFavorited(false);
-      } else {
-        await supabase
-          .from('favorites')
-          .insert({ farm_id: farm.id, user_id: user.id });
-
-        setFavorited(true);
-      }
+      await repos.farms.setFavorited(farm.id, user.id, !favorited);
+      setFavorited(!favorited);
     } catch (error) {
       console.error('Error toggling favorite:', error);
     }
   };
 
-  const handleMaterialToggle = (index: number) => {
-    setCheckedMaterials((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(index)) {
-        newSet.delete(index);
+  const handleTogglePlanner = async () => {
+    if (!user) {
+      navigate('/account');
+      return;
+    }
+
+    if (!farm) return;
+
+    try {
+      if (inPlanner) {
+        await repos.planner.remove(farm.id, user.id);
+        setInPlanner(false);
       } else {
-        newSet.add(index);
+        await repos.planner.add(farm.id, user.id);
+        setInPlanner(true);
       }
-      return newSet;
-    });
+    } catch (error) {
+      console.error('Error toggling planner:', error);
+    }
+  };
+
+  const handleRevisionRestored = (restored: Farm) => {
+    if (!farm) return;
+    if (restored.slug !== farm.slug) {
+      navigate(`/farms/${restored.platform[0] || 'java'}/${restored.slug}`);
+      return;
+    }
+    setFarm({ ...farm, ...restored });
+  };
+
+  const handleLoadSchematic = async (tab: 'viewer' | 'guide') => {
+    setSchematicTab(tab);
+    const url = sanitizeUrl(farm?.schematic_url);
+    if (!url || schematic) return;
+
+    setLoadingSchematic(true);
+    setSchematicError(null);
+    try {
+      const info = await loadSchematicFromUrl(url);
+      if (!info.schematic) {
+        throw new Error(info.error || 'Could not read blocks from this schematic');
+      }
+      setSchematic(info.schematic);
+    } catch (error: any) {
+      console.error('Error loading schematic:', error);
+      setSchematicError(error.message || 'Failed to load schematic');
+    } finally {
+      setLoadingSchematic(false);
+    }
   };
 
   const handleShare = async () => {
@@ -210,6 +241,28 @@ export default function FarmDetail({ user }: FarmDetailProps) {
     }
   };
 
+  const handleExport = async () => {
+    if (!farm) return;
+
+    setExporting(true);
+    try {
+      const bundle = await createFarmBundle(farm);
+      downloadFarmBundle(bundle);
+
+      const linkedOnly = [...bundle.images, ...(bundle.schematic ? [bundle.schematic] : [])].filter((asset) => !asset.data);
+      if (linkedOnly.length > 0) {
+        alert(
+          `${linkedOnly.length} file${linkedOnly.length !== 1 ? 's' : ''} couldn't be downloaded, so the export links to them instead.`
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting farm:', error);
+      alert('Failed to export farm. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleReport = () => {
     if (!user) {
       navigate('/account');
@@ -297,34 +350,8 @@ export default function FarmDetail({ user }: FarmDetailProps) {
     }
 
     try {
-      // Delete associated images from storage if any
-      if (farm.images && farm.images.length > 0 && user.id) {
-        const imagePromises = farm.images.map(async (imageUrl: string) => {
-          // Extract the file path from the URL
-          const urlParts = imageUrl.split('/');
-          const fileName = urlParts[urlParts.length - 1];
-          const filePath = `${user.id}/${fileName}`;
-          
-          try {
-            await supabase.storage
-              .from('farm-images')
-              .remove([filePath]);
-          } catch (error) {
-            console.error('Error deleting image:', error);
-            // Continue even if image deletion fails
-          }
-        });
-        
-        await Promise.all(imagePromises);
-      }
-
-      // Delete the farm (this will cascade delete comments and upvotes)
-      const { error } = await supabase
-        .from('farms')
-        .delete()
-        .eq('id', farm.id);
-
-      if (error) throw error;
+      // Removes the farm's images too; comments and upvotes cascade
+      await repos.farms.delete(farm);
 
       alert('Farm deleted successfully.');
       navigate('/farms');
@@ -484,6 +511,18 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                   <Bookmark size={20} fill={favorited ? 'currentColor' : 'none'} />
                   <span>{favorited ? 'Saved' : 'Save'}</span>
                 </button>
+                <button
+                  onClick={handleTogglePlanner}
+                  className={`flex items-center justify-center space-x-2 px-6 py-3 rounded-xl font-semibold transition-all ${
+                    inPlanner
+                      ? 'bg-minecraft-green text-white shadow-minecraft-sm'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  type="button"
+                >
+                  <ClipboardList size={20} />
+                  <span>{inPlanner ? 'In Planner' : 'Add to Planner'}</span>
+                </button>
                 <button
                   onClick={handleShare}
                   className="flex items-center justify-center space-x-2 px-6 py-3 bg-minecraft-indigo text-white rounded-xl font-semibold hover:bg-minecraft-indigo-dark transition-colors"
@@ -492,6 +531,16 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                   <Share2 size={20} />
                   <span>{shareCopied ? 'Copied!' : 'Share'}</span>
                 </button>
+                <button
+                  onClick={handleExport}
+                  disabled={exporting}
+                  title="Download this farm as a bundle you can import on another site"
+                  className="flex items-center justify-center space-x-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  type="button"
+                >
+                  <FileDown size={20} />
+                  <span>{exporting ? 'Exporting...' : 'Export'}</span>
+                </button>
                 <button
                   onClick={handleReport}
                   className="flex items-center space-x-2 px-6 py-3 bg-red-500 text-white rounded-xl font-semibold hover:bg-red-600 transition-colors"
@@ -530,8 +579,10 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                   <span>Build Steps</span>
                 </h2>
                 <StepsEditor
+                  key={farm.updated_at}
                   steps={farm.steps}
                   farmId={farm.id}
+                  editorId={user?.id}
                   readOnly={user?.id !== farm.author_id}
                 />
               </div>
@@ -540,7 +591,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
             {/* Schematic Download */}
             {farm.schematic_url && (
               <div className="bg-white rounded-xl shadow-minecraft p-6">
-                <h2 className="text-2xl font-bold mb-4">Litematica Schematic</h2>
+                <h2 className="text-2xl font-bold mb-4">Schematic</h2>
                 <div className="flex items-center justify-between p-4 bg-gradient-to-r from-minecraft-green/10 to-minecraft-indigo/10 rounded-lg border-2 border-minecraft-green/20">
                   <div className="flex items-center space-x-4">
                     <div className="p-3 bg-minecraft-green rounded-lg">
@@ -548,7 +599,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                     </div>
                     <div>
                       <div className="font-semibold text-gray-900">Download Schematic</div>
-                      <div className="text-sm text-gray-600">Litematica schematic file available</div>
+                      <div className="text-sm text-gray-600">{getSchematicFormatLabel(farm.schematic_format)} file available</div>
                     </div>
                   </div>
                   <a
@@ -560,58 +611,64 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                     <span>Download</span>
                   </a>
                 </div>
+
+                {/* 3D Viewer / Build Guide */}
+                <div className="mt-4">
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    <button
+                      onClick={() => handleLoadSchematic('viewer')}
+                      disabled={loadingSchematic}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 ${
+                        schematic && schematicTab === 'viewer'
+                          ? 'bg-minecraft-indigo text-white'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      <Box size={18} />
+                      <span>View in 3D</span>
+                    </button>
+                    <button
+                      onClick={() => handleLoadSchematic('guide')}
+                      disabled={loadingSchematic}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 ${
+                        schematic && schematicTab === 'guide'
+                          ? 'bg-minecraft-indigo text-white'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      <Layers size={18} />
+                      <span>Build by Layer</span>
+                    </button>
+                  </div>
+                  {loadingSchematic && (
+                    <p className="text-sm text-gray-600">Loading schematic...</p>
+                  )}
+                  {schematicError && (
+                    <p className="text-sm text-red-600">⚠ {schematicError}</p>
+                  )}
+                  {schematic && schematicTab === 'viewer' && <SchematicViewer schematic={schematic} />}
+                  {schematic && schematicTab === 'guide' && (
+                    <BuildGuide schematic={schematic} farmId={farm.id} farmTitle={farm.title} user={user} />
+                  )}
+                </div>
               </div>
             )}
 
             {/* Materials */}
             <div className="bg-white rounded-xl shadow-minecraft p-6">
               <h2 className="text-2xl font-bold mb-4">Required Materials</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                {materials.map((material: any, index: number) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border-2 border-gray-200"
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 flex items-center justify-center flex-shrink-0">
-                        <img
-                          src={sanitizeImageUrl(getMinecraftItemIcon(material.name || material.item)) || ''}
-                          alt={escapeHtml(material.name || material.item)}
-                          className="w-10 h-10 object-contain"
-                          onError={(e) => {
-                            // Fallback to emoji if image fails to load
-                            const target = e.target as HTMLImageElement;
-                            target.style.display = 'none';
-                            const fallback = target.nextElementSibling as HTMLElement;
-                            if (fallback) {
-                              fallback.style.display = 'inline';
-                            }
-                          }}
-                        />
-                        <span className="text-2xl hidden">🧱</span>
-                      </div>
-                      <div>
-                        <div className="font-semibold">{material.name || material.item}</div>
-                        {material.count && (
-                          <div className="text-sm text-gray-600">x{material.count}</div>
-                        )}
-                      </div>
-                    </div>
-                    <input
-                      type="checkbox"
-                      checked={checkedMaterials.has(index)}
-                      onChange={() => handleMaterialToggle(index)}
-                      className="w-5 h-5 text-minecraft-green rounded focus:ring-minecraft-green cursor-pointer"
-                    />
-                  </div>
-                ))}
+              <div className="mb-6">
+                <MaterialsCalculator materials={materials} farmId={farm.id} user={user} />
+              </div>
+              <div className="mb-6">
+                <RawMaterialsBreakdown materials={materials} />
               </div>
 
               {optionalMaterials.length > 0 && (
                 <>
                   <h3 className="text-xl font-semibold mb-4">Optional Materials</h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {optionalMaterials.map((material: any, index: number) => (
+                    {optionalMaterials.map((material, index) => (
                       <div
                         key={index}
                         className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg border-2 border-yellow-200"
@@ -619,8 +676,8 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                         <div className="flex items-center space-x-3">
                           <div className="w-10 h-10 flex items-center justify-center flex-shrink-0">
                             <img
-                              src={sanitizeImageUrl(getMinecraftItemIcon(material.name || material.item)) || ''}
-                              alt={escapeHtml(material.name || material.item)}
+                              src={sanitizeImageUrl(getMinecraftItemIcon(material.name)) || ''}
+                              alt={escapeHtml(material.name)}
                               className="w-10 h-10 object-contain"
                               onError={(e) => {
                                 // Fallback to emoji if image fails to load
@@ -635,7 +692,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                             <span className="text-2xl hidden">✨</span>
                           </div>
                           <div>
-                            <div className="font-semibold">{material.name || material.item}</div>
+                            <div className="font-semibold">{material.name}</div>
                             {material.count && (
                               <div className="text-sm text-gray-600">x{material.count}</div>
                             )}
@@ -683,7 +740,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                     <div>
                       <h3 className="text-xl font-semibold mb-3">Drop Rate Per Hour</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {farm.drop_rate_per_hour.map((dropRate: any, index: number) => (
+                        {farm.drop_rate_per_hour.map(normalizeDropRate).map((dropRate: DropRate, index: number) => (
                           <div
                             key={index}
                             className="flex items-center space-x-3 p-3 bg-green-50 rounded-lg border-2 border-green-200"
@@ -698,7 +755,20 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                             />
                             <div className="flex-1">
                               <div className="font-semibold text-gray-900">{dropRate.item}</div>
-                              <div className="text-sm text-gray-600">{dropRate.rate}</div>
+                              <div className="text-sm text-gray-600" title={dropRate.rate}>
+                                {typeof dropRate.items_per_hour === 'number'
+                                  ? formatItemsPerHour(dropRate.items_per_hour)
+                                  : dropRate.rate}
+                              </div>
+                              {dropRate.conditions && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {formatDropRateConditions(dropRate.conditions).map((condition) => (
+                                    <span key={condition} className="px-2 py-0.5 text-xs font-semibold rounded bg-white text-green-800 border border-green-200">
+                                      {condition}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -750,6 +820,35 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                 </div>
               </div>
             )}
+
+            {/* Community Testing */}
+            <div className="bg-white rounded-xl shadow-minecraft p-6">
+              <h2 className="text-2xl font-bold mb-4 flex items-center space-x-2">
+                <FlaskConical className="text-minecraft-green" />
+                <span>Community Testing</span>
+              </h2>
+              <FarmTesting farm={farm} user={user} />
+            </div>
+
+            {/* History */}
+            <div className="bg-white rounded-xl shadow-minecraft p-6">
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="w-full flex items-center justify-between text-left"
+                type="button"
+              >
+                <h2 className="text-2xl font-bold flex items-center space-x-2">
+                  <History className="text-minecraft-indigo" />
+                  <span>History</span>
+                </h2>
+                {showHistory ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
+              </button>
+              {showHistory && (
+                <div className="mt-4">
+                  <FarmHistory farm={farm} user={user} onRestored={handleRevisionRestored} />
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Sidebar */}
@@ -823,7 +922,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                 <div>
                   <div className="font-semibold">{escapeHtml(farm.users?.username || 'Unknown')}</div>
                   <div className="text-sm text-gray-600">
-                    {formatDistanceToNow(new Date(farm.created_at), { addSuffix: true })}
+                    {formatDistanceToNow(new Date(farm.created_at!), { addSuffix: true })}
                   </div>
                 </div>
               </Link>
@@ -851,7 +950,7 @@ export default function FarmDetail({ user }: FarmDetailProps) {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Created</span>
                   <span className="font-semibold">
-                    {new Date(farm.created_at).toLocaleDateString()}
+                    {new Date(farm.created_at!).toLocaleDateString()}
                   </span>
                 </div>
               </div>
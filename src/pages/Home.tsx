@@ -2,14 +2,14 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowRight, TrendingUp, Sparkles, Grid } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockFarms } from '../lib/demoData';
+import { repos } from '../lib/repos';
 import FarmCard from '../components/FarmCard';
 import { FARM_CATEGORIES, getCategorySlug } from '../lib/farmCategories';
+import type { Farm } from '../lib/farm';
 
 export default function Home() {
-  const [featuredFarms, setFeaturedFarms] = useState<any[]>([]);
-  const [trendingFarms, setTrendingFarms] = useState<any[]>([]);
+  const [featuredFarms, setFeaturedFarms] = useState<Farm[]>([]);
+  const [trendingFarms, setTrendingFarms] = useState<Farm[]>([]);
   const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
 
@@ -18,57 +18,18 @@ export default function Home() {
   }, []);
 
   const fetchFarms = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      setFeaturedFarms(mockFarms.slice(0, 6));
-      setTrendingFarms(mockFarms.slice(0, 6));
-      
-      // Calculate category counts from mock data
-      const counts: Record<string, number> = {};
-      mockFarms.forEach((farm) => {
-        if (farm.category) {
-          counts[farm.category] = (counts[farm.category] || 0) + 1;
-        }
-      });
-      setCategoryCounts(counts);
-      setLoading(false);
-      return;
-    }
-
     try {
-      // Fetch featured farms (most upvoted)
-      const { data: featured } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('public', true)
-        .order('upvotes_count', { ascending: false })
-        .limit(6);
+      const [featured, trending, counts] = await Promise.all([
+        // Featured: most upvoted
+        repos.farms.listMostUpvoted(6),
+        // Trending: newest
+        repos.farms.listNewest(6),
+        repos.farms.countByCategory(),
+      ]);
 
-      // Fetch trending farms (recent with high upvotes)
-      const { data: trending } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('public', true)
-        .order('created_at', { ascending: false })
-        .limit(6);
-
-      // Fetch category counts
-      const { data: farms } = await supabase
-        .from('farms')
-        .select('category')
-        .eq('public', true)
-        .not('category', 'is', null);
-
-      const counts: Record<string, number> = {};
-      farms?.forEach((farm) => {
-        if (farm.category) {
-          counts[farm.category] = (counts[farm.category] || 0) + 1;
-        }
-      });
+      setFeaturedFarms(featured);
+      setTrendingFarms(trending);
       setCategoryCounts(counts);
-
-      setFeaturedFarms(featured || []);
-      setTrendingFarms(trending || []);
     } catch (error) {
       console.error('Error fetching farms:', error);
     } finally {
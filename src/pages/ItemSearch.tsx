@@ -0,0 +1,211 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { PackageSearch, ThumbsUp, Zap } from 'lucide-react';
+import { MINECRAFT_ITEMS } from '../lib/minecraftItems';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { COMMON_VERSIONS, parseEdition, parseMinecraftVersion } from '../lib/minecraftVersions';
+import { formatItemsPerHour } from '../lib/dropRates';
+import { ItemFarmResult, ItemSearchOptions } from '../lib/farmSearch';
+import { repos } from '../lib/repos';
+import MaterialAutocomplete from '../components/MaterialAutocomplete';
+
+const PLATFORMS = ['Java', 'Bedrock'];
+
+export default function ItemSearch() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedItem = searchParams.get('item') || '';
+  const selectedPlatform = searchParams.get('platform') || '';
+  const selectedVersion = searchParams.get('version') || '';
+  const [itemInput, setItemInput] = useState(selectedItem);
+  const [results, setResults] = useState<ItemFarmResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    setItemInput(selectedItem);
+  }, [selectedItem]);
+
+  useEffect(() => {
+    if (selectedItem) {
+      fetchResults();
+    } else {
+      setResults([]);
+    }
+  }, [selectedItem, selectedPlatform, selectedVersion]);
+
+  const fetchResults = async () => {
+    const requestId = ++latestRequest.current;
+    const version = parseMinecraftVersion(selectedVersion);
+    if (version && !version.edition && selectedPlatform) {
+      version.edition = parseEdition(selectedPlatform);
+    }
+    const options: ItemSearchOptions = { platform: selectedPlatform, version };
+
+    try {
+      setLoading(true);
+      const ranked = await repos.farms.searchByItem(selectedItem, options);
+      if (requestId === latestRequest.current) setResults(ranked);
+    } catch (error) {
+      console.error('Error searching farms by item:', error);
+    } finally {
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const updateParam = (key: string, value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (!value || value === searchParams.get(key)) {
+      newParams.delete(key);
+    } else {
+      newParams.set(key, value);
+    }
+    setSearchParams(newParams);
+  };
+
+  const handleItemChange = (value: string) => {
+    setItemInput(value);
+    // Only search once the text is a real item name (picked from the list or typed exactly)
+    if (MINECRAFT_ITEMS.includes(value) && value !== selectedItem) {
+      const newParams = new URLSearchParams(searchParams);
+      newParams.set('item', value);
+      setSearchParams(newParams);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-4">
+            <PackageSearch className="text-minecraft-green" size={32} />
+            <h1 className="text-4xl md:text-5xl font-display text-gray-900">Find Farms by Item</h1>
+          </div>
+          <p className="text-lg text-gray-600">
+            Pick an item to see every farm that produces it, fastest first.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-minecraft p-6 mb-8">
+          <div className="flex flex-col md:flex-row gap-4 md:items-start">
+            <div className="flex items-center gap-3 flex-1">
+              {selectedItem && (
+                <img
+                  src={getMinecraftItemIcon(selectedItem)}
+                  alt={selectedItem}
+                  className="w-12 h-12 object-contain flex-shrink-0"
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).style.display = 'none';
+                  }}
+                />
+              )}
+              <MaterialAutocomplete
+                value={itemInput}
+                onChange={handleItemChange}
+                placeholder="e.g. Gunpowder"
+              />
+            </div>
+            <div className="flex gap-2">
+              {PLATFORMS.map((platform) => (
+                <button
+                  key={platform}
+                  onClick={() => updateParam('platform', platform)}
+                  className={`px-4 py-3 rounded-lg font-semibold transition-colors ${
+                    selectedPlatform === platform
+                      ? 'bg-minecraft-green text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {platform}
+                </button>
+              ))}
+            </div>
+            <select
+              value={selectedVersion}
+              onChange={(e) => updateParam('version', e.target.value)}
+              className="px-4 py-3 rounded-lg border-2 border-gray-200 bg-gray-100 font-semibold text-gray-700 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+            >
+              <option value="">Any Version</option>
+              {selectedVersion && !COMMON_VERSIONS.includes(selectedVersion) && (
+                <option value={selectedVersion}>{selectedVersion}</option>
+              )}
+              {COMMON_VERSIONS.map((version) => (
+                <option key={version} value={version}>
+                  {version}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!selectedItem ? (
+          <div className="text-center py-12 bg-white rounded-xl shadow-minecraft">
+            <p className="text-gray-600 text-lg">Start typing an item name above.</p>
+          </div>
+        ) : loading ? (
+          <div className="text-center py-12">
+            <div className="text-3xl font-display text-minecraft-green animate-pulse">
+              Finding farms...
+            </div>
+          </div>
+        ) : results.length > 0 ? (
+          <>
+            <p className="text-gray-700 mb-4 font-semibold">
+              {results.length} farm{results.length !== 1 ? 's' : ''} produce {selectedItem}
+            </p>
+            <div className="space-y-3">
+              {results.map(({ farm, itemsPerHour }, index) => (
+                <motion.div
+                  key={farm.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(index, 10) * 0.03 }}
+                >
+                  <Link
+                    to={`/farms/${farm.platform?.[0] || 'java'}/${farm.slug}`}
+                    className="flex items-center gap-4 bg-white rounded-xl shadow-minecraft p-4 hover:shadow-minecraft-lg transition-shadow"
+                  >
+                    <div className="w-10 text-center text-2xl font-display text-gray-400">#{index + 1}</div>
+                    <div className="flex-1 min-w-0">
+                      <h2 className="font-bold text-gray-900 truncate">{farm.title}</h2>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-600">
+                        {farm.platform?.map((platform: string) => (
+                          <span key={platform} className="px-2 py-0.5 rounded bg-gray-100 font-semibold">
+                            {platform}
+                          </span>
+                        ))}
+                        {farm.versions?.length > 0 && <span>{farm.versions.join(', ')}</span>}
+                        {farm.users?.username && <span>by {farm.users.username}</span>}
+                        <span className="inline-flex items-center gap-1">
+                          <ThumbsUp size={14} />
+                          {farm.upvotes_count}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      {itemsPerHour !== null ? (
+                        <span className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-minecraft-green/10 text-minecraft-green-dark font-bold">
+                          <Zap size={16} />
+                          {formatItemsPerHour(itemsPerHour)}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">Rate not listed</span>
+                      )}
+                    </div>
+                  </Link>
+                </motion.div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-xl shadow-minecraft">
+            <p className="text-gray-600 text-lg mb-4">No farms produce {selectedItem} with these filters yet.</p>
+            <Link to="/upload" className="text-minecraft-green hover:underline font-semibold">
+              Upload one
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,28 +2,15 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Flag, Check, X, Ban } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { repos, ReportRecord } from '../lib/repos';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 
 interface ModerationProps {
   user: SupabaseUser | null;
 }
 
-interface Report {
-  id: string;
-  item_type: 'farm' | 'comment';
-  item_id: string;
-  reason: string;
-  status: 'pending' | 'resolved' | 'dismissed';
-  created_at: string;
-  reporter: {
-    username: string;
-  };
-  item?: any;
-}
-
 export default function Moderation({ user }: ModerationProps) {
-  const [reports, setReports] = useState<Report[]>([]);
+  const [reports, setReports] = useState<ReportRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [userRole, setUserRole] = useState<string | null>(null);
 
@@ -43,14 +30,13 @@ export default function Moderation({ user }: ModerationProps) {
       return;
     }
 
-    const { data } = await supabase
-      .from('users')
-      .select('role')
-      .eq('id', user.id)
-      .single();
+    const role = await repos.users.getRole(user.id).catch((error) => {
+      console.error('Error checking user role:', error);
+      return null;
+    });
 
-    if (data && (data.role === 'moderator' || data.role === 'admin')) {
-      setUserRole(data.role);
+    if (role === 'moderator' || role === 'admin') {
+      setUserRole(role);
     } else {
       alert('You do not have permission to access this page.');
       window.location.href = '/';
@@ -59,38 +45,7 @@ export default function Moderation({ user }: ModerationProps) {
 
   const fetchReports = async () => {
     try {
-      const { data, error } = await supabase
-        .from('reports')
-        .select(`
-          *,
-          reporter:reporter_id(username)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Fetch item details for each report
-      const reportsWithItems = await Promise.all(
-        (data || []).map(async (report) => {
-          if (report.item_type === 'farm') {
-            const { data: farm } = await supabase
-              .from('farms')
-              .select('id, title, slug, platform')
-              .eq('id', report.item_id)
-              .single();
-            return { ...report, item: farm };
-          } else {
-            const { data: comment } = await supabase
-              .from('comments')
-              .select('id, body, farm_id')
-              .eq('id', report.item_id)
-              .single();
-            return { ...report, item: comment };
-          }
-        })
-      );
-
-      setReports(reportsWithItems);
+      setReports(await repos.reports.list());
     } catch (error) {
       console.error('Error fetching reports:', error);
     } finally {
@@ -100,12 +55,7 @@ export default function Moderation({ user }: ModerationProps) {
 
   const handleResolve = async (reportId: string, action: 'resolve' | 'dismiss') => {
     try {
-      const { error } = await supabase
-        .from('reports')
-        .update({ status: action === 'resolve' ? 'resolved' : 'dismissed' })
-        .eq('id', reportId);
-
-      if (error) throw error;
+      await repos.reports.setStatus(reportId, action === 'resolve' ? 'resolved' : 'dismissed');
       fetchReports();
     } catch (error) {
       console.error('Error resolving report:', error);
@@ -113,22 +63,15 @@ export default function Moderation({ user }: ModerationProps) {
     }
   };
 
-  const handleRemoveItem = async (report: Report) => {
+  const handleRemoveItem = async (report: ReportRecord) => {
     if (!confirm('Are you sure you want to remove this item?')) return;
 
     try {
+      // Moderators hide farms rather than deleting them
       if (report.item_type === 'farm') {
-        const { error } = await supabase
-          .from('farms')
-          .update({ public: false })
-          .eq('id', report.item_id);
-        if (error) throw error;
+        await repos.farms.setPublic(report.item_id, false, user?.id);
       } else {
-        const { error } = await supabase
-          .from('comments')
-          .delete()
-          .eq('id', report.item_id);
-        if (error) throw error;
+        await repos.comments.delete(report.item_id);
       }
 
       await handleResolve(report.id, 'resolve');
@@ -187,7 +130,7 @@ export default function Moderation({ user }: ModerationProps) {
                       <p className="text-gray-700 mb-2">{report.reason}</p>
                       {report.item && (
                         <div className="bg-gray-50 p-3 rounded mb-2">
-                          {report.item_type === 'farm' ? (
+                          {'title' in report.item ? (
                             <div>
                               <p className="font-semibold">{report.item.title}</p>
                               <Link
@@ -203,7 +146,7 @@ export default function Moderation({ user }: ModerationProps) {
                         </div>
                       )}
                       <span className="text-xs text-gray-500">
-                        {new Date(report.created_at).toLocaleString()}
+                        {new Date(report.created_at!).toLocaleString()}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardList, Copy, Download, Trash2 } from 'lucide-react';
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import {
+  PlannerEntry,
+  mergePlannerMaterials,
+  materialsToCsv,
+  materialsToText,
+} from '../lib/planner';
+import { repos } from '../lib/repos';
+import { getStackBreakdown, formatStacks } from '../lib/stackSizes';
+import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { sanitizeImageUrl, escapeHtml } from '../lib/urlSanitizer';
+import RawMaterialsBreakdown from '../components/RawMaterialsBreakdown';
+
+interface PlannerProps {
+  user: SupabaseUser | null;
+}
+
+export default function Planner({ user }: PlannerProps) {
+  const [entries, setEntries] = useState<PlannerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [textCopied, setTextCopied] = useState(false);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [user]);
+
+  const fetchEntries = async () => {
+    if (!user) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setEntries(await repos.planner.list(user.id));
+    } catch (error) {
+      console.error('Error fetching planner:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQuantityChange = async (farmId: string, value: string) => {
+    if (!user) return;
+    const quantity = Math.max(1, Math.min(999, parseInt(value) || 1));
+    setEntries((prev) => prev.map((entry) => (entry.farm_id === farmId ? { ...entry, quantity } : entry)));
+
+    try {
+      await repos.planner.setQuantity(farmId, user.id, quantity);
+    } catch (error) {
+      console.error('Error updating planner quantity:', error);
+    }
+  };
+
+  const handleRemove = async (farmId: string) => {
+    if (!user) return;
+
+    try {
+      await repos.planner.remove(farmId, user.id);
+      setEntries((prev) => prev.filter((entry) => entry.farm_id !== farmId));
+    } catch (error: any) {
+      console.error('Error removing farm from planner:', error);
+      alert('Failed to remove farm: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const materials = mergePlannerMaterials(entries);
+
+  const handleDownload = (content: string, extension: 'csv' | 'txt') => {
+    const blob = new Blob([content], { type: extension === 'csv' ? 'text/csv' : 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `farm-planner-materials.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyText = async () => {
+    try {
+      await navigator.clipboard.writeText(materialsToText(materials));
+      setTextCopied(true);
+      setTimeout(() => setTextCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying materials:', error);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center bg-white rounded-xl shadow-minecraft p-8 max-w-md">
+          <ClipboardList className="mx-auto text-minecraft-green mb-4" size={48} />
+          <h1 className="text-2xl font-bold mb-2">Build Planner</h1>
+          <p className="text-gray-600 mb-6">Sign in to plan several farms at once and get one combined materials list.</p>
+          <Link
+            to="/account"
+            className="inline-block px-6 py-3 bg-minecraft-indigo text-white rounded-lg font-semibold hover:bg-minecraft-indigo-dark transition-colors"
+          >
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-4">
+            <ClipboardList className="text-minecraft-green" size={32} />
+            <h1 className="text-4xl md:text-5xl font-display text-gray-900">Build Planner</h1>
+          </div>
+          <p className="text-lg text-gray-600">
+            {loading
+              ? 'Loading...'
+              : `${entries.length} farm${entries.length !== 1 ? 's' : ''} planned · ${materials.length} different materials`}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="text-3xl font-display text-minecraft-green animate-pulse">
+              Loading planner...
+            </div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-xl shadow-minecraft">
+            <p className="text-gray-600 text-lg mb-4">Your planner is empty. Add farms from their cards or detail pages.</p>
+            <Link to="/farms" className="text-minecraft-green hover:underline font-semibold">
+              Browse all farms
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Planned Farms */}
+            <div className="bg-white rounded-xl shadow-minecraft p-6 h-fit">
+              <h2 className="text-2xl font-bold mb-4">Farms</h2>
+              <div className="space-y-3">
+                {entries.map((entry) => (
+                  <div key={entry.farm_id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg border-2 border-gray-200">
+                    {entry.farm ? (
+                      <Link
+                        to={`/farms/${entry.farm.platform?.[0] || 'java'}/${entry.farm.slug}`}
+                        className="font-semibold text-gray-900 hover:text-minecraft-green-dark line-clamp-2"
+                      >
+                        {entry.farm.title}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-500 italic">Farm no longer available</span>
+                    )}
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className="text-sm text-gray-600">x</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={999}
+                        value={entry.quantity}
+                        onChange={(e) => handleQuantityChange(entry.farm_id, e.target.value)}
+                        className="w-16 px-2 py-1 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+                      />
+                      <button
+                        onClick={() => handleRemove(entry.farm_id)}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Remove from planner"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Merged Materials */}
+            <div className="lg:col-span-2 bg-white rounded-xl shadow-minecraft p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <h2 className="text-2xl font-bold">Combined Materials</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCopyText}
+                    disabled={materials.length === 0}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-40"
+                  >
+                    <Copy size={18} />
+                    <span>{textCopied ? 'Copied!' : 'Copy'}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDownload(materialsToText(materials), 'txt')}
+                    disabled={materials.length === 0}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-40"
+                  >
+                    <Download size={18} />
+                    <span>Text</span>
+                  </button>
+                  <button
+                    onClick={() => handleDownload(materialsToCsv(materials), 'csv')}
+                    disabled={materials.length === 0}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-40"
+                  >
+                    <Download size={18} />
+                    <span>CSV</span>
+                  </button>
+                </div>
+              </div>
+
+              {materials.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+                    {materials.map((material) => (
+                      <div key={material.name} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border-2 border-gray-200">
+                        <div className="flex items-center space-x-3">
+                          <img
+                            src={sanitizeImageUrl(getMinecraftItemIcon(material.name)) || ''}
+                            alt={escapeHtml(material.name)}
+                            className="w-8 h-8 object-contain"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).style.display = 'none';
+                            }}
+                          />
+                          <span className="font-semibold">{material.name}</span>
+                        </div>
+                        <div className="text-right text-sm text-gray-600">
+                          <div className="font-semibold text-gray-900">x{material.count.toLocaleString()}</div>
+                          {material.count >= 64 && <div>{formatStacks(getStackBreakdown(material.count, material.name))}</div>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <RawMaterialsBreakdown materials={materials} />
+                </>
+              ) : (
+                <p className="text-gray-600">None of the planned farms list any materials yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
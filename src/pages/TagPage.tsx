@@ -1,50 +1,58 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { Tag as TagIcon } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { isDemoMode, mockFarms } from '../lib/demoData';
+import { FarmSearchOptions, SEARCH_PAGE_SIZE } from '../lib/farmSearch';
+import { repos } from '../lib/repos';
 import FarmCard from '../components/FarmCard';
+import LoadMoreTrigger from '../components/LoadMoreTrigger';
+import type { Farm } from '../lib/farm';
 
 export default function TagPage() {
   const { tag } = useParams<{ tag: string }>();
-  const [farms, setFarms] = useState<any[]>([]);
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [totalFarms, setTotalFarms] = useState(0);
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const latestRequest = useRef(0);
 
   useEffect(() => {
     if (tag) {
-      fetchFarmsByTag();
+      fetchFarmsByTag(0);
     }
   }, [tag]);
 
-  const fetchFarmsByTag = async () => {
-    if (isDemoMode()) {
-      // Use mock data in demo mode
-      const tagFarms = mockFarms.filter(f => 
-        f.tags.includes(tag?.toLowerCase() || '')
-      );
-      setFarms(tagFarms);
-      setLoading(false);
-      return;
-    }
+  const fetchFarmsByTag = async (pageToLoad: number) => {
+    const requestId = ++latestRequest.current;
+    const options: FarmSearchOptions = { tag, sort: 'upvotes' };
 
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('public', true)
-        .contains('tags', [tag])
-        .order('upvotes_count', { ascending: false });
+      if (pageToLoad === 0) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+
+      const result = await repos.farms.search(options, pageToLoad);
+      if (requestId !== latestRequest.current) return;
 
-      if (error) throw error;
-      setFarms(data || []);
+      setFarms((prev) => (pageToLoad === 0 ? result.farms : [...prev, ...result.farms]));
+      if (pageToLoad === 0) setTotalFarms(result.total);
+      setPage(pageToLoad);
     } catch (error) {
       console.error('Error fetching farms by tag:', error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
+  const handleLoadMore = useCallback(() => {
+    if (!loadingMore) fetchFarmsByTag(page + 1);
+  }, [loadingMore, page, tag]);
+
   if (!tag) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -66,7 +74,7 @@ export default function TagPage() {
           <p className="text-lg text-gray-600">
             {loading
               ? 'Loading...'
-              : `Found ${farms.length} farm${farms.length !== 1 ? 's' : ''} with this tag`}
+              : `Found ${totalFarms} farm${totalFarms !== 1 ? 's' : ''} with this tag`}
           </p>
         </div>
 
@@ -77,11 +85,18 @@ export default function TagPage() {
             </div>
           </div>
         ) : farms.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {farms.map((farm, index) => (
-              <FarmCard key={farm.id} farm={farm} index={index} />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {farms.map((farm, index) => (
+                <FarmCard key={farm.id} farm={farm} index={index % SEARCH_PAGE_SIZE} />
+              ))}
+            </div>
+            <LoadMoreTrigger
+              hasMore={farms.length < totalFarms}
+              loading={loadingMore}
+              onLoadMore={handleLoadMore}
+            />
+          </>
         ) : (
           <div className="text-center py-12 bg-white rounded-xl shadow-minecraft">
             <p className="text-gray-600 text-lg mb-4">No farms found with this tag.</p>
@@ -2,36 +2,38 @@ import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Upload as UploadIcon, X, Eye } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from '../lib/supabase';
-import { isDemoMode } from '../lib/demoData';
+import { repos } from '../lib/repos';
+import { checkAndAwardBadges } from '../lib/badges';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import MaterialAutocomplete from '../components/MaterialAutocomplete';
 import CategoryAutocomplete from '../components/CategoryAutocomplete';
+import AmbiguousMaterialsPrompt from '../components/AmbiguousMaterialsPrompt';
 import { MINECRAFT_ITEMS } from '../lib/minecraftItems';
+import { parseMaterialsFromText, quantityToCount, ParsedMaterial, AmbiguousMaterial } from '../lib/materialParser';
 import { getMinecraftItemIcon } from '../lib/minecraftItemIcons';
+import { COMMON_VERSIONS, normalizeVersionLabel } from '../lib/minecraftVersions';
+import {
+  DropRate,
+  DropRateMode,
+  MAX_LOOTING_LEVEL,
+  SIMULATION_DISTANCE_RANGE,
+  formatDropRateConditions,
+  formatItemsPerHour,
+  normalizeDropRate,
+  validateDropRate,
+} from '../lib/dropRates';
+import { getRawMaterialCount } from '../lib/efficiency';
 import { getYouTubeVideoId } from '../lib/avatarUtils';
 import { sanitizeImageUrl, sanitizeUrl, escapeHtml } from '../lib/urlSanitizer';
+import { readSchematicFile, getSchematicFormatLabel, SCHEMATIC_EXTENSIONS } from '../lib/schematicReaders';
+import { schematicToMaterials, SchematicMaterialsResult } from '../lib/schematicMaterials';
+import type { NewFarm } from '../lib/farm';
 
 interface UploadProps {
   user: SupabaseUser | null;
 }
 
 const PLATFORMS = ['Java', 'Bedrock'];
-const COMMON_VERSIONS = [
-  '1.21', '1.20.6', '1.20.5', '1.20.4', '1.20.3', '1.20.2', '1.20.1', '1.20',
-  '1.19.4', '1.19.3', '1.19.2', '1.19.1', '1.19',
-  '1.18.2', '1.18.1', '1.18',
-  '1.17.1', '1.17',
-  '1.16.5', '1.16.4', '1.16.3', '1.16.2', '1.16.1', '1.16',
-  '1.15.2', '1.15.1', '1.15',
-  '1.14.4', '1.14.3', '1.14.2', '1.14.1', '1.14',
-  '1.13.2', '1.13.1', '1.13',
-  '1.12.2', '1.12.1', '1.12',
-  '1.11.2', '1.11.1', '1.11',
-  '1.10.2', '1.10.1', '1.10',
-  '1.9.4', '1.9.3', '1.9.2', '1.9.1', '1.9',
-  '1.8.9', '1.8.8', '1.8.7', '1.8.6', '1.8.5', '1.8.4', '1.8.3', '1.8.2', '1.8.1', '1.8',
-];
 
 export default function Upload({ user }: UploadProps) {
   const navigate = useNavigate();
@@ -52,26 +54,32 @@ export default function Upload({ user }: UploadProps) {
     height_requirements: '',
     notes: '',
     farm_designer: '',
-    drop_rate_per_hour: [] as Array<{ item: string; rate: string }>,
+    drop_rate_per_hour: [] as DropRate[],
     farmable_items: [] as string[],
     required_biome: '',
     category: '',
     schematic_url: '',
+    schematic_format: '',
     public: true,
   });
 
   const [newRequiredMaterial, setNewRequiredMaterial] = useState({ name: '', count: '' });
   const [newOptionalMaterial, setNewOptionalMaterial] = useState({ name: '', count: '' });
   const [pasteMaterialsText, setPasteMaterialsText] = useState('');
-  const [pasteResult, setPasteResult] = useState<{ added: number; failed: string[] } | null>(null);
+  const [pasteResult, setPasteResult] = useState<{ added: ParsedMaterial[]; failed: string[] } | null>(null);
+  const [pasteAmbiguous, setPasteAmbiguous] = useState<AmbiguousMaterial[]>([]);
   const [newTag, setNewTag] = useState('');
   const [newVersion, setNewVersion] = useState('');
-  const [newDropRate, setNewDropRate] = useState({ item: '', rate: '' });
+  const emptyDropRate = { item: '', rate: '', mode: '', looting: '', players: '', simulation_distance: '' };
+  const [newDropRate, setNewDropRate] = useState(emptyDropRate);
   const [newFarmableItem, setNewFarmableItem] = useState('');
   const [preview, setPreview] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [images, setImages] = useState<string[]>([]);
   const [uploadingSchematic, setUploadingSchematic] = useState(false);
+  const [schematicMaterials, setSchematicMaterials] = useState<SchematicMaterialsResult | null>(null);
+  const [schematicParseError, setSchematicParseError] = useState<string | null>(null);
+  const [schematicSize, setSchematicSize] = useState<string | null>(null);
   const [youtubeCreator, setYoutubeCreator] = useState<{ name: string; avatar: string; channelId: string } | null>(null);
   const [loadingCreator, setLoadingCreator] = useState(false);
 
@@ -86,46 +94,10 @@ export default function Upload({ user }: UploadProps) {
 
   // Removed auto-redirect - will show prompt instead
 
-  if (isDemoMode()) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-16">
-        <div className="max-w-4xl mx-auto px-4 text-center">
-          <div className="bg-white rounded-xl shadow-minecraft p-12">
-            <h1 className="text-4xl font-display text-gray-900 mb-4">Upload Farm</h1>
-            <p className="text-xl text-gray-600 mb-8">
-              Upload functionality requires Supabase setup. 
-              You're currently in preview mode with demo data.
-            </p>
-            <p className="text-gray-600 mb-8">
-              To enable uploads, please:
-            </p>
-            <ol className="text-left max-w-md mx-auto space-y-2 mb-8">
-              <li>1. Set up a Supabase project</li>
-              <li>2. Run the database schema</li>
-              <li>3. Add your credentials to <code className="bg-gray-100 px-2 py-1 rounded">.env.local</code></li>
-              <li>4. Restart the dev server</li>
-            </ol>
-            <Link
-              to="/farms"
-              className="inline-block px-8 py-4 bg-minecraft-green text-white rounded-xl font-bold text-lg shadow-minecraft hover:shadow-minecraft-lg transition-all"
-            >
-              Browse Demo Farms
-            </Link>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   const fetchFarm = async () => {
     try {
-      const { data, error } = await supabase
-        .from('farms')
-        .select('*')
-        .eq('id', editId)
-        .single();
-
-      if (error) throw error;
+      const data = await repos.farms.getById(editId!);
+      if (!data) throw new Error('Farm not found');
       if (data.author_id !== user?.id) {
         alert('You can only edit your own farms.');
         navigate('/farms');
@@ -146,12 +118,13 @@ export default function Upload({ user }: UploadProps) {
         height_requirements: data.height_requirements || '',
         notes: data.notes || '',
         farm_designer: data.farm_designer || '',
-        drop_rate_per_hour: data.drop_rate_per_hour || [],
+        drop_rate_per_hour: (data.drop_rate_per_hour || []).map(normalizeDropRate),
         farmable_items: data.farmable_items || [],
         required_biome: data.required_biome || '',
         category: data.category || '',
         schematic_url: data.schematic_url || '',
-        public: data.public,
+        schematic_format: data.schematic_format || '',
+        public: data.public !== false,
       });
       setImages(data.images || []);
     } catch (error) {
@@ -250,10 +223,11 @@ export default function Upload({ user }: UploadProps) {
   }, [formData.video_url]);
 
   const handleAddVersion = () => {
-    if (newVersion.trim() && !formData.versions.includes(newVersion.trim())) {
+    const version = normalizeVersionLabel(newVersion);
+    if (version && !formData.versions.includes(version)) {
       setFormData((prev) => ({
         ...prev,
-        versions: [...prev.versions, newVersion.trim()],
+        versions: [...prev.versions, version],
       }));
       setNewVersion('');
     }
@@ -289,93 +263,10 @@ export default function Upload({ user }: UploadProps) {
     }));
   };
 
-  const handlePasteMaterials = () => {
-    if (!pasteMaterialsText.trim()) return;
-
-    const lines = pasteMaterialsText.split('\n').map(line => line.trim()).filter(line => line);
-    const added: Array<{ name: string; count: number }> = [];
-    const failed: string[] = [];
-
-    // Helper function to find matching Minecraft item
-    const findMatchingItem = (itemName: string): string | null => {
-      const normalized = itemName.toLowerCase().trim();
-      
-      // Try exact match first (case-insensitive)
-      const exactMatch = MINECRAFT_ITEMS.find(item => item.toLowerCase() === normalized);
-      if (exactMatch) return exactMatch;
-
-      // Try removing common suffixes/plurals
-      const withoutSuffixes = normalized
-        .replace(/\s+blocks?$/i, '')
-        .replace(/\s+block$/i, '')
-        .replace(/\s+buckets?$/i, '')
-        .replace(/\s+bucket$/i, '')
-        .replace(/\s+slabs?$/i, '')
-        .replace(/\s+slab$/i, '')
-        .replace(/\s+trapdoors?$/i, '')
-        .replace(/\s+trapdoor$/i, '')
-        .replace(/\s+chests?$/i, '')
-        .replace(/\s+chest$/i, '')
-        .replace(/\s+hoppers?$/i, '')
-        .replace(/\s+hopper$/i, '')
-        .replace(/\s+signs?$/i, '')
-        .replace(/\s+sign$/i, '')
-        .replace(/\s+torches?$/i, '')
-        .replace(/\s+torch$/i, '')
-        .replace(/\s+repeaters?$/i, '')
-        .replace(/\s+repeater$/i, '')
-        .replace(/\s+pistons?$/i, '')
-        .replace(/\s+piston$/i, '')
-        .replace(/\s+levers?$/i, '')
-        .replace(/\s+lever$/i, '')
-        .trim();
-
-      // Try matching without suffixes
-      const suffixMatch = MINECRAFT_ITEMS.find(item => 
-        item.toLowerCase() === withoutSuffixes ||
-        item.toLowerCase().includes(withoutSuffixes) ||
-        withoutSuffixes.includes(item.toLowerCase())
-      );
-      if (suffixMatch) return suffixMatch;
-
-      // Try partial match
-      const partialMatch = MINECRAFT_ITEMS.find(item => 
-        item.toLowerCase().includes(normalized) ||
-        normalized.includes(item.toLowerCase())
-      );
-      if (partialMatch) return partialMatch;
-
-      return null;
-    };
-
-    lines.forEach((line) => {
-      // Match pattern: number followed by item name
-      const match = line.match(/^(\d+)\s+(.+)$/i);
-      if (!match) {
-        failed.push(line);
-        return;
-      }
-
-      const count = parseInt(match[1]);
-      const itemName = match[2].trim();
-      
-      if (isNaN(count) || count <= 0) {
-        failed.push(line);
-        return;
-      }
-
-      const matchedItem = findMatchingItem(itemName);
-      if (matchedItem) {
-        added.push({ name: matchedItem, count });
-      } else {
-        failed.push(line);
-      }
-    });
-
-    // Add successfully matched items
-    if (added.length > 0) {
-      const updatedMaterials = [...formData.materials];
-      added.forEach(({ name, count }) => {
+  const addPastedMaterials = (materials: ParsedMaterial[]) => {
+    setFormData((prev) => {
+      const updatedMaterials = prev.materials.map((m) => ({ ...m }));
+      materials.forEach(({ name, count }) => {
         const existingIndex = updatedMaterials.findIndex((m) => m.name === name);
         if (existingIndex >= 0) {
           updatedMaterials[existingIndex].count += count;
@@ -383,18 +274,34 @@ export default function Upload({ user }: UploadProps) {
           updatedMaterials.push({ name, count });
         }
       });
-      setFormData((prev) => ({
-        ...prev,
-        materials: updatedMaterials,
-      }));
+      return { ...prev, materials: updatedMaterials };
+    });
+  };
+
+  const handlePasteMaterials = () => {
+    if (!pasteMaterialsText.trim()) return;
+
+    const { added, ambiguous, failed } = parseMaterialsFromText(pasteMaterialsText);
+
+    // Add successfully matched items
+    if (added.length > 0) {
+      addPastedMaterials(added);
     }
 
+    // Uncertain matches wait for the user to pick an item
+    setPasteAmbiguous(ambiguous);
+
     // Show results
-    setPasteResult({ added: added.length, failed });
+    // Kept until dismissed so converted quantities (stacks, shulkers) can be reviewed
+    setPasteResult({ added, failed });
     setPasteMaterialsText('');
+  };
 
-    // Clear result after 5 seconds
-    setTimeout(() => setPasteResult(null), 5000);
+  const handleResolveAmbiguous = (item: AmbiguousMaterial, name: string | null) => {
+    if (name) {
+      addPastedMaterials([{ name, count: quantityToCount(item.quantity, name) }]);
+    }
+    setPasteAmbiguous((prev) => prev.filter((pending) => pending !== item));
   };
 
   const handleAddMaterial = (optional = false) => {
@@ -483,11 +390,28 @@ export default function Upload({ user }: UploadProps) {
       return;
     }
 
+    const toNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+    const dropRate = normalizeDropRate({
+      item: newDropRate.item,
+      rate: newDropRate.rate,
+      conditions: {
+        mode: (newDropRate.mode || undefined) as DropRateMode | undefined,
+        looting: toNumber(newDropRate.looting),
+        players: toNumber(newDropRate.players),
+        simulation_distance: toNumber(newDropRate.simulation_distance),
+      },
+    });
+    const errors = validateDropRate(dropRate);
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+
     setFormData((prev) => ({
       ...prev,
-      drop_rate_per_hour: [...prev.drop_rate_per_hour, { item: newDropRate.item, rate: newDropRate.rate }],
+      drop_rate_per_hour: [...prev.drop_rate_per_hour, dropRate],
     }));
-    setNewDropRate({ item: '', rate: '' });
+    setNewDropRate(emptyDropRate);
   };
 
   const handleRemoveDropRate = (index: number) => {
@@ -531,11 +455,10 @@ export default function Upload({ user }: UploadProps) {
 
     setUploadingSchematic(true);
     try {
-      // Validate file type (.litematic or .schematic)
-      const validExtensions = ['.litematic', '.schematic'];
+      // Validate file extension before reading the contents
       const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
-      if (!validExtensions.includes(fileExtension)) {
-        throw new Error('Please upload a .litematic or .schematic file');
+      if (!SCHEMATIC_EXTENSIONS.includes(fileExtension)) {
+        throw new Error(`Please upload a ${SCHEMATIC_EXTENSIONS.join(', ')} file`);
       }
 
       // Validate file size (max 50MB for schematics)
@@ -543,22 +466,23 @@ export default function Upload({ user }: UploadProps) {
         throw new Error('Schematic file is too large. Maximum size is 50MB');
       }
 
+      // Detect the real format from the file contents
+      const schematicInfo = await readSchematicFile(await file.arrayBuffer());
+
       const fileName = `${user.id}/schematics/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
       
-      const { data, error } = await supabase.storage
-        .from('farm-images')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
-
-      if (error) throw error;
+      const publicUrl = await repos.files.upload(fileName, file);
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('farm-images')
-        .getPublicUrl(data.path);
+      setFormData((prev) => ({ ...prev, schematic_url: publicUrl, schematic_format: schematicInfo.format }));
 
-      setFormData((prev) => ({ ...prev, schematic_url: publicUrl }));
+      // Offer the block list so the creator can fill in materials from it
+      setSchematicSize(
+        schematicInfo.schematic
+          ? `${schematicInfo.schematic.width}x${schematicInfo.schematic.height}x${schematicInfo.schematic.length}`
+          : null
+      );
+      setSchematicMaterials(schematicInfo.schematic ? schematicToMaterials(schematicInfo.schematic) : null);
+      setSchematicParseError(schematicInfo.error);
     } catch (error: any) {
       console.error('Error uploading schematic:', error);
       alert(error.message || 'Failed to upload schematic');
@@ -567,6 +491,31 @@ export default function Upload({ user }: UploadProps) {
     }
   };
 
+  const handleApplySchematicMaterials = (replace: boolean) => {
+    if (!schematicMaterials) return;
+
+    const updatedMaterials = replace
+      ? schematicMaterials.materials.map((m) => ({ ...m }))
+      : formData.materials.map((m) => ({ ...m }));
+
+    if (!replace) {
+      schematicMaterials.materials.forEach(({ name, count }) => {
+        const existingIndex = updatedMaterials.findIndex((m) => m.name === name);
+        if (existingIndex >= 0) {
+          updatedMaterials[existingIndex].count += count;
+        } else {
+          updatedMaterials.push({ name, count });
+        }
+      });
+    }
+
+    setFormData((prev) => ({
+      ...prev,
+      materials: updatedMaterials,
+    }));
+    setSchematicMaterials(null);
+  };
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || !user) return;
@@ -585,23 +534,7 @@ export default function Upload({ user }: UploadProps) {
 
         const fileName = `${user.id}/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
         
-        const { data, error } = await supabase.storage
-          .from('farm-images')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-
-        if (error) {
-          console.error('Upload error:', error);
-          throw error;
-        }
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('farm-images')
-          .getPublicUrl(data.path);
-
-        return publicUrl;
+        return repos.files.upload(fileName, file);
       });
 
       const urls = await Promise.all(uploadPromises);
@@ -629,21 +562,23 @@ export default function Upload({ user }: UploadProps) {
       return;
     }
 
+    const dropRateErrors = formData.drop_rate_per_hour.map(normalizeDropRate).flatMap(validateDropRate);
+    if (dropRateErrors.length > 0) {
+      alert(`Please fix these drop rates:\n\n${dropRateErrors.join('\n')}`);
+      return;
+    }
+
     // Check for duplicate YouTube video URL (only if video URL is provided)
-    if (formData.video_url && formData.video_url.trim() && !isDemoMode()) {
+    if (formData.video_url && formData.video_url.trim()) {
       try {
         const videoId = getYouTubeVideoId(formData.video_url);
         if (videoId) {
           // Check if a farm with this video ID already exists (excluding current farm if editing)
-          const { data: existingFarms, error: checkError } = await supabase
-            .from('farms')
-            .select('id, slug, title, platform, video_url')
-            .eq('public', true)
-            .not('video_url', 'is', null);
-          
-          if (!checkError && existingFarms && existingFarms.length > 0) {
+          const existingFarms = await repos.farms.listWithVideo();
+
+          if (existingFarms.length > 0) {
             // Check if any existing farm has the same video ID
-            const duplicate = existingFarms.find((farm: any) => {
+            const duplicate = existingFarms.find((farm) => {
               if (editId && farm.id === editId) return false; // Skip current farm if editing
               if (!farm.video_url) return false;
               const existingVideoId = getYouTubeVideoId(farm.video_url);
@@ -676,7 +611,7 @@ export default function Upload({ user }: UploadProps) {
         .replace(/[^a-z0-9]+/g, '-')
         .replace(/^-|-$/g, '');
 
-      const farmData: any = {
+      const farmData: Omit<NewFarm, 'author_id'> = {
         title: formData.title,
         description: formData.description,
         platform: formData.platform,
@@ -684,6 +619,7 @@ export default function Upload({ user }: UploadProps) {
         video_url: formData.video_url || null,
         materials: formData.materials,
         optional_materials: formData.optional_materials,
+        raw_material_count: getRawMaterialCount(formData.materials),
         images,
         preview_image: images[0] || null,
         tags: formData.tags,
@@ -692,35 +628,24 @@ export default function Upload({ user }: UploadProps) {
         height_requirements: formData.height_requirements || null,
         notes: formData.notes || null,
         farm_designer: formData.farm_designer || null,
-        drop_rate_per_hour: formData.drop_rate_per_hour.length > 0 ? formData.drop_rate_per_hour : null,
+        drop_rate_per_hour: formData.drop_rate_per_hour.length > 0 ? formData.drop_rate_per_hour.map(normalizeDropRate) : null,
         farmable_items: formData.farmable_items.length > 0 ? formData.farmable_items : [],
         required_biome: formData.required_biome || null,
         category: formData.category || null,
         schematic_url: formData.schematic_url || null,
+        schematic_format: formData.schematic_url && formData.schematic_format ? formData.schematic_format : null,
         public: formData.public,
         slug,
-        ...(editId ? {} : { author_id: user?.id, upvotes_count: 0 }),
       };
 
       if (editId) {
-        const { error } = await supabase
-          .from('farms')
-          .update({
-            ...farmData,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editId);
-
-        if (error) throw error;
-        navigate(`/farms/${formData.platform[0]}/${slug}`);
-      } else {
-        const { error } = await supabase
-          .from('farms')
-          .insert([farmData]);
-
-        if (error) throw error;
-        navigate('/farms');
+        await repos.farms.update(editId, farmData, user?.id);
+      } else if (user) {
+        await repos.farms.create({ ...farmData, author_id: user.id, upvotes_count: 0 });
       }
+      // Publishing a private farm counts too, so edits are checked as well
+      if (user) await checkAndAwardBadges(user.id, repos.users);
+      navigate(editId ? `/farms/${formData.platform[0]}/${slug}` : '/farms');
     } catch (error: any) {
       console.error('Error saving farm:', error);
       const errorMessage = error?.message || error?.error_description || 'Failed to save farm. Please try again.';
@@ -730,7 +655,7 @@ export default function Upload({ user }: UploadProps) {
     }
   };
 
-  if (!user && !isDemoMode()) {
+  if (!user) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-16">
         <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -916,7 +841,7 @@ export default function Upload({ user }: UploadProps) {
                             value={newVersion}
                             onChange={(e) => setNewVersion(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && handleAddVersion()}
-                            placeholder="e.g., 1.20.1 (or select from list below)"
+                            placeholder="e.g., 1.20.1 or 1.20–1.21.4 (or select from list below)"
                             className="flex-1 px-4 py-2 rounded-lg border-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-minecraft-green"
                           />
                           <button
@@ -1034,13 +959,13 @@ export default function Upload({ user }: UploadProps) {
 
             {/* Schematic Upload */}
             <div className="bg-white rounded-xl shadow-minecraft p-6">
-              <h2 className="text-2xl font-bold mb-4">Litematica Schematic (Optional)</h2>
+              <h2 className="text-2xl font-bold mb-4">Schematic (Optional)</h2>
               <div className="space-y-4">
                 <div>
                   <label className="block font-semibold mb-2">Upload Schematic File</label>
                   <input
                     type="file"
-                    accept=".litematic,.schematic"
+                    accept={SCHEMATIC_EXTENSIONS.join(',')}
                     onChange={handleSchematicUpload}
                     disabled={uploadingSchematic}
                     className="mb-2"
@@ -1050,7 +975,10 @@ export default function Upload({ user }: UploadProps) {
                   )}
                   {formData.schematic_url && (
                     <div className="mt-2 p-3 bg-green-50 rounded-lg border-2 border-green-200">
-                      <p className="text-sm text-green-700 font-semibold mb-1">✓ Schematic uploaded</p>
+                      <p className="text-sm text-green-700 font-semibold mb-1">
+                        ✓ {getSchematicFormatLabel(formData.schematic_format)} uploaded
+                        {schematicSize && <span className="font-normal"> ({schematicSize} blocks)</span>}
+                      </p>
                       <a
                         href={sanitizeUrl(formData.schematic_url) || '#'}
                         target="_blank"
@@ -1061,15 +989,73 @@ export default function Upload({ user }: UploadProps) {
                       </a>
                       <button
                         type="button"
-                        onClick={() => setFormData((prev) => ({ ...prev, schematic_url: '' }))}
+                        onClick={() => {
+                          setFormData((prev) => ({ ...prev, schematic_url: '', schematic_format: '' }));
+                          setSchematicMaterials(null);
+                          setSchematicParseError(null);
+                          setSchematicSize(null);
+                        }}
                         className="ml-4 text-sm text-red-600 hover:text-red-700"
                       >
                         Remove
                       </button>
                     </div>
                   )}
+                  {schematicParseError && (
+                    <p className="mt-2 text-sm text-red-600">
+                      ⚠ Could not read materials from this schematic: {schematicParseError}
+                    </p>
+                  )}
+                  {schematicMaterials && (
+                    <div className="mt-3 p-4 bg-blue-50 rounded-lg border-2 border-blue-200">
+                      <p className="text-sm font-semibold text-gray-700 mb-2">
+                        Found {schematicMaterials.materials.length} material{schematicMaterials.materials.length !== 1 ? 's' : ''} ({schematicMaterials.totalBlocks.toLocaleString()} blocks) in this schematic
+                      </p>
+                      <ul className="text-xs text-gray-700 max-h-40 overflow-y-auto mb-3 space-y-1 font-mono">
+                        {schematicMaterials.materials.map((m) => (
+                          <li key={m.name}>{m.count} {m.name}</li>
+                        ))}
+                      </ul>
+                      {schematicMaterials.unmatched.length > 0 && (
+                        <div className="mb-3">
+                          <div className="text-red-600 text-xs font-semibold mb-1">
+                            ⚠ Could not match {schematicMaterials.unmatched.length} block type{schematicMaterials.unmatched.length !== 1 ? 's' : ''} (please add manually):
+                          </div>
+                          <ul className="text-xs text-gray-700 list-disc list-inside space-y-1">
+                            {schematicMaterials.unmatched.map((u) => (
+                              <li key={u.block}>{u.count} {u.block}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleApplySchematicMaterials(true)}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-semibold"
+                        >
+                          Replace Materials List
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleApplySchematicMaterials(false)}
+                          className="px-4 py-2 bg-white text-blue-700 border-2 border-blue-300 rounded-lg hover:bg-blue-100 transition-colors text-sm font-semibold"
+                        >
+                          Add to Materials
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setSchematicMaterials(null)}
+                          className="px-4 py-2 text-gray-600 hover:text-gray-800 text-sm"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  )}
                   <p className="text-xs text-gray-600 mt-2">
-                    Upload a .litematic or .schematic file for users to download. Maximum size: 50MB.
+                    Upload a Litematica (.litematic), WorldEdit (.schem, .schematic) or structure block (.nbt) file for users to download. Maximum size: 50MB.
+                    Blocks are counted so you can fill in the materials list automatically.
                   </p>
                 </div>
               </div>
@@ -1152,7 +1138,10 @@ export default function Upload({ user }: UploadProps) {
                 {/* Drop Rates */}
                 <div>
                   <label className="block font-semibold mb-2">Drop Rate Per Hour</label>
-                  <p className="text-sm text-gray-600 mb-3">Specify how many items this farm produces per hour</p>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Specify how many items this farm produces per hour, e.g. "3600/hour", "2.5k/h" or "3 stacks per hour",
+                    and the conditions it was measured under
+                  </p>
                   <div className="flex gap-2 mb-2">
                     <MaterialAutocomplete
                       value={newDropRate.item}
@@ -1177,6 +1166,46 @@ export default function Upload({ user }: UploadProps) {
                       Add
                     </button>
                   </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+                    <select
+                      value={newDropRate.mode}
+                      onChange={(e) => setNewDropRate({ ...newDropRate, mode: e.target.value })}
+                      className="px-3 py-2 rounded-lg border-2 border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+                    >
+                      <option value="">AFK or active?</option>
+                      <option value="afk">AFK</option>
+                      <option value="active">Active play</option>
+                    </select>
+                    <select
+                      value={newDropRate.looting}
+                      onChange={(e) => setNewDropRate({ ...newDropRate, looting: e.target.value })}
+                      className="px-3 py-2 rounded-lg border-2 border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+                    >
+                      <option value="">Looting level?</option>
+                      {Array.from({ length: MAX_LOOTING_LEVEL + 1 }, (_, level) => (
+                        <option key={level} value={level}>
+                          {level === 0 ? 'No looting' : `Looting ${level}`}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={newDropRate.players}
+                      onChange={(e) => setNewDropRate({ ...newDropRate, players: e.target.value })}
+                      placeholder="Players"
+                      className="px-3 py-2 rounded-lg border-2 border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+                    />
+                    <input
+                      type="number"
+                      min={SIMULATION_DISTANCE_RANGE.min}
+                      max={SIMULATION_DISTANCE_RANGE.max}
+                      value={newDropRate.simulation_distance}
+                      onChange={(e) => setNewDropRate({ ...newDropRate, simulation_distance: e.target.value })}
+                      placeholder="Simulation distance"
+                      className="px-3 py-2 rounded-lg border-2 border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-minecraft-green"
+                    />
+                  </div>
                   <div className="space-y-2">
                     {formData.drop_rate_per_hour.map((dropRate, index) => (
                       <div
@@ -1194,7 +1223,16 @@ export default function Upload({ user }: UploadProps) {
                           />
                           <div>
                             <div className="font-semibold">{dropRate.item}</div>
-                            <div className="text-sm text-gray-600">{dropRate.rate}</div>
+                            <div className="text-sm text-gray-600" title={dropRate.rate}>
+                              {typeof dropRate.items_per_hour === 'number'
+                                ? formatItemsPerHour(dropRate.items_per_hour)
+                                : dropRate.rate}
+                            </div>
+                            {formatDropRateConditions(dropRate.conditions).length > 0 && (
+                              <div className="text-xs text-gray-500">
+                                {formatDropRateConditions(dropRate.conditions).join(' · ')}
+                              </div>
+                            )}
                           </div>
                         </div>
                         <button
@@ -1223,7 +1261,7 @@ export default function Upload({ user }: UploadProps) {
                       Paste Material List (Optional)
                     </label>
                     <p className="text-xs text-gray-600 mb-2">
-                      Paste a list like "93 Cobbled Deepslate" (one per line). Items will be automatically matched and added.
+                      Paste a list like "93 Cobbled Deepslate" (one per line). Items will be automatically matched and added; you'll be asked about unclear names.
                     </p>
                     <textarea
                       value={pasteMaterialsText}
@@ -1240,11 +1278,28 @@ export default function Upload({ user }: UploadProps) {
                       Parse and Add Materials
                     </button>
                     {pasteResult && (
-                      <div className="mt-3 p-3 bg-white rounded-lg border-2 border-gray-200">
-                        {pasteResult.added > 0 && (
-                          <div className="text-green-600 text-sm font-semibold mb-2">
-                            ✓ Successfully added {pasteResult.added} material{pasteResult.added !== 1 ? 's' : ''}
-                          </div>
+                      <div className="relative mt-3 p-3 bg-white rounded-lg border-2 border-gray-200">
+                        <button
+                          type="button"
+                          onClick={() => setPasteResult(null)}
+                          className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+                          title="Dismiss"
+                        >
+                          <X size={16} />
+                        </button>
+                        {pasteResult.added.length > 0 && (
+                          <details className="mb-2">
+                            <summary className="text-green-600 text-sm font-semibold cursor-pointer">
+                              ✓ Successfully added {pasteResult.added.length} material{pasteResult.added.length !== 1 ? 's' : ''}
+                            </summary>
+                            <ul className="mt-1 text-xs text-gray-700 space-y-1">
+                              {pasteResult.added.map((material, idx) => (
+                                <li key={idx}>
+                                  <span className="font-mono">{material.line}</span> → {material.count.toLocaleString()} {material.name}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
                         )}
                         {pasteResult.failed.length > 0 && (
                           <div>
@@ -1260,6 +1315,7 @@ export default function Upload({ user }: UploadProps) {
                         )}
                       </div>
                     )}
+                    <AmbiguousMaterialsPrompt items={pasteAmbiguous} onResolve={handleResolveAmbiguous} />
                   </div>
 
                   <div className="flex gap-2 mb-2">
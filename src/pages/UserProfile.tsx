@@ -1,12 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { User as SupabaseUser } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { repos, UserBadge, UserRecord } from '../lib/repos';
 import { getMinecraftMobAvatar } from '../lib/avatarUtils';
 import { sanitizeImageUrl, escapeHtml, decodeHtmlEntities } from '../lib/urlSanitizer';
 import FarmCard from '../components/FarmCard';
 import { UserPlus, UserMinus, Award, TrendingUp, Heart, Bookmark, Upload as UploadIcon } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { BADGE_METRIC_LABELS, BADGE_TYPES, BadgeStats, getBadgeProgress } from '../lib/badges';
+import type { Farm } from '../lib/farm';
 
 interface UserProfileProps {
   currentUser: SupabaseUser | null;
@@ -14,9 +16,10 @@ interface UserProfileProps {
 
 export default function UserProfile({ currentUser }: UserProfileProps) {
   const { username } = useParams<{ username: string }>();
-  const [profileUser, setProfileUser] = useState<any>(null);
-  const [userFarms, setUserFarms] = useState<any[]>([]);
-  const [userBadges, setUserBadges] = useState<any[]>([]);
+  const [profileUser, setProfileUser] = useState<UserRecord | null>(null);
+  const [userFarms, setUserFarms] = useState<Farm[]>([]);
+  const [userBadges, setUserBadges] = useState<UserBadge[]>([]);
+  const [badgeStats, setBadgeStats] = useState<BadgeStats | null>(null);
   const [stats, setStats] = useState({
     farmsCount: 0,
     upvotesReceived: 0,
@@ -42,13 +45,9 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
   const fetchUserProfile = async () => {
     try {
       // Fetch user by username
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('username', username)
-        .single();
+      const userData = await repos.users.getByUsername(username!);
 
-      if (userError || !userData) {
+      if (!userData) {
         setLoading(false);
         return;
       }
@@ -56,51 +55,28 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
       setProfileUser(userData);
 
       // Fetch user's farms
-      const { data: farmsData } = await supabase
-        .from('farms')
-        .select('*, users:author_id(username, avatar_url)')
-        .eq('author_id', userData.id)
-        .eq('public', true)
-        .order('created_at', { ascending: false });
+      const farmsData = await repos.farms.listByAuthor(userData.id, { publicOnly: true });
+      setUserFarms(farmsData);
 
-      setUserFarms(farmsData || []);
-
-      // Fetch user badges
-      const { data: badgesData } = await supabase
-        .from('user_badges')
-        .select('*')
-        .eq('user_id', userData.id)
-        .order('earned_at', { ascending: false });
-
-      setUserBadges(badgesData || []);
-
-      // Fetch stats
-      const [upvotesResult, followersResult, followingResult, testsResult] = await Promise.all([
-        supabase
-          .from('upvotes')
-          .select('farm_id', { count: 'exact', head: true })
-          .in('farm_id', farmsData?.map(f => f.id) || []),
-        supabase
-          .from('following')
-          .select('follower_id', { count: 'exact', head: true })
-          .eq('following_id', userData.id),
-        supabase
-          .from('following')
-          .select('following_id', { count: 'exact', head: true })
-          .eq('follower_id', userData.id),
-        supabase
-          .from('farm_tests')
-          .select('id', { count: 'exact', head: true })
-          .eq('user_id', userData.id),
+      // Badges and stats are extras; the profile still shows without them
+      const [badgesData, badgeStatsData, profileStats] = await Promise.all([
+        repos.users.listBadges(userData.id).catch((error) => {
+          console.error('Error fetching badges:', error);
+          return [];
+        }),
+        repos.users.getBadgeStats(userData.id).catch((error) => {
+          console.error('Error fetching badge progress:', error);
+          return null;
+        }),
+        repos.users.getProfileStats(userData.id, farmsData.map((f) => f.id)).catch((error) => {
+          console.error('Error fetching profile stats:', error);
+          return { upvotesReceived: 0, followersCount: 0, followingCount: 0, testsCount: 0 };
+        }),
       ]);
 
-      setStats({
-        farmsCount: farmsData?.length || 0,
-        upvotesReceived: upvotesResult.count || 0,
-        followersCount: followersResult.count || 0,
-        followingCount: followingResult.count || 0,
-        testsCount: testsResult.count || 0,
-      });
+      setUserBadges(badgesData);
+      setBadgeStats(badgeStatsData);
+      setStats({ farmsCount: farmsData.length, ...profileStats });
     } catch (error) {
       console.error('Error fetching user profile:', error);
     } finally {
@@ -111,35 +87,22 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
   const checkFollowing = async () => {
     if (!currentUser || !profileUser) return;
 
-    const { data } = await supabase
-      .from('following')
-      .select('*')
-      .eq('follower_id', currentUser.id)
-      .eq('following_id', profileUser.id)
-      .single();
-
-    setIsFollowing(!!data);
+    try {
+      setIsFollowing(await repos.users.isFollowing(currentUser.id, profileUser.id));
+    } catch (error) {
+      console.error('Error checking follow:', error);
+    }
   };
 
   const handleFollow = async () => {
     if (!currentUser || !profileUser) return;
 
     try {
+      await repos.users.setFollowing(currentUser.id, profileUser.id, !isFollowing);
       if (isFollowing) {
-        await supabase
-          .from('following')
-          .delete()
-          .eq('follower_id', currentUser.id)
-          .eq('following_id', profileUser.id);
         setIsFollowing(false);
         setStats(prev => ({ ...prev, followersCount: prev.followersCount - 1 }));
       } else {
-        await supabase
-          .from('following')
-          .insert({
-            follower_id: currentUser.id,
-            following_id: profileUser.id,
-          });
         setIsFollowing(true);
         setStats(prev => ({ ...prev, followersCount: prev.followersCount + 1 }));
       }
@@ -176,6 +139,11 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
 
   const isOwnProfile = currentUser?.id === profileUser.id;
 
+  // Every badge with the user's progress; without stats, just the ones they have
+  const badgeProgress = badgeStats ? getBadgeProgress(badgeStats, userBadges.map((badge) => badge.badge_type)) : [];
+  const otherBadges = userBadges.filter((badge) => !badgeStats || !BADGE_TYPES[badge.badge_type]);
+  const earnedAt = (type: string) => userBadges.find((badge) => badge.badge_type === type)?.earned_at;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-minecraft-sky-light/50 to-white py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -240,7 +208,7 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
                   <span>{stats.testsCount} Tests</span>
                 </div>
                 <span className="text-gray-400">
-                  Joined {formatDistanceToNow(new Date(profileUser.created_at), { addSuffix: true })}
+                  Joined {formatDistanceToNow(new Date(profileUser.created_at!), { addSuffix: true })}
                 </span>
               </div>
             </div>
@@ -278,14 +246,53 @@ export default function UserProfile({ currentUser }: UserProfileProps) {
         </div>
 
         {/* Badges Section */}
-        {userBadges.length > 0 && (
+        {(badgeProgress.length > 0 || otherBadges.length > 0) && (
           <div className="bg-white rounded-xl shadow-minecraft p-6 mb-6">
             <h2 className="text-2xl font-bold mb-4 flex items-center space-x-2">
               <Award className="text-minecraft-gold" />
-              <span>Badges ({userBadges.length})</span>
+              <span>
+                Badges ({badgeProgress.filter((entry) => entry.earned).length + otherBadges.length}
+                {badgeStats && ` of ${badgeProgress.length}`})
+              </span>
             </h2>
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-              {userBadges.map((badge) => (
+              {badgeProgress.map(({ badge, current, earned, progress }) => (
+                <div
+                  key={badge.type}
+                  className={`text-center p-4 rounded-lg border-2 ${
+                    earned
+                      ? 'bg-gradient-to-br from-minecraft-gold/10 to-minecraft-gold/5 border-minecraft-gold/20'
+                      : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <div
+                    className={`w-16 h-16 mx-auto mb-2 rounded-full flex items-center justify-center ${
+                      earned ? 'bg-minecraft-gold' : 'bg-gray-300'
+                    }`}
+                  >
+                    <Award size={32} className="text-white" />
+                  </div>
+                  <div className={`font-semibold text-sm ${earned ? '' : 'text-gray-500'}`}>{badge.name}</div>
+                  <div className="text-xs text-gray-600 mt-1">{badge.description}</div>
+                  {earned ? (
+                    earnedAt(badge.type) && (
+                      <div className="text-xs text-gray-400 mt-2">
+                        Earned {formatDistanceToNow(new Date(earnedAt(badge.type)!), { addSuffix: true })}
+                      </div>
+                    )
+                  ) : (
+                    <div className="mt-2">
+                      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-minecraft-green" style={{ width: `${progress * 100}%` }} />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {Math.min(current, badge.threshold)} / {badge.threshold} {BADGE_METRIC_LABELS[badge.metric]}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {otherBadges.map((badge) => (
                 <div
                   key={badge.id}
                   className="text-center p-4 bg-gradient-to-br from-minecraft-gold/10 to-minecraft-gold/5 rounded-lg border-2 border-minecraft-gold/20"
@@ -0,0 +1,333 @@
+-- Enable UUID extension
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm"; -- For fuzzy search
+
+-- Users table (extends Supabase auth.users)
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  email TEXT NOT NULL UNIQUE,
+  avatar_url TEXT,
+  bio TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  role TEXT DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin'))
+);
+
+-- Farms table
+CREATE TABLE IF NOT EXISTS farms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  platform TEXT[] NOT NULL,
+  versions TEXT[] NOT NULL,
+  video_url TEXT,
+  materials JSONB DEFAULT '[]'::jsonb,
+  optional_materials JSONB DEFAULT '[]'::jsonb,
+  images TEXT[] DEFAULT ARRAY[]::TEXT[],
+  preview_image TEXT,
+  author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  public BOOLEAN DEFAULT true,
+  upvotes_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  search_vector TSVECTOR,
+  steps JSONB,
+  tags TEXT[] DEFAULT ARRAY[]::TEXT[],
+  estimated_time INTEGER,
+  chunk_requirements TEXT,
+  height_requirements TEXT,
+  notes TEXT,
+  farm_designer TEXT,
+  drop_rate_per_hour JSONB DEFAULT '[]'::jsonb,
+  farmable_items TEXT[] DEFAULT ARRAY[]::TEXT[],
+  required_biome TEXT,
+  category TEXT,
+  schematic_url TEXT
+);
+
+-- Comments table
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  parent_comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  edited_at TIMESTAMPTZ
+);
+
+-- Reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  item_type TEXT NOT NULL CHECK (item_type IN ('farm', 'comment')),
+  item_id UUID NOT NULL,
+  reason TEXT NOT NULL,
+  reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Upvotes table
+CREATE TABLE IF NOT EXISTS upvotes (
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (farm_id, user_id)
+);
+
+-- Favorites/Bookmarks table
+CREATE TABLE IF NOT EXISTS favorites (
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (farm_id, user_id)
+);
+
+-- Following table (users following other users)
+CREATE TABLE IF NOT EXISTS following (
+  follower_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id != following_id)
+);
+
+-- Comment reactions table
+CREATE TABLE IF NOT EXISTS comment_reactions (
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reaction_type TEXT NOT NULL CHECK (reaction_type IN ('like', 'helpful')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id, reaction_type)
+);
+
+-- User badges table
+CREATE TABLE IF NOT EXISTS user_badges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  badge_type TEXT NOT NULL,
+  badge_name TEXT NOT NULL,
+  badge_description TEXT,
+  earned_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, badge_type)
+);
+
+-- Farm testing table (community testing)
+CREATE TABLE IF NOT EXISTS farm_tests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tested BOOLEAN DEFAULT true,
+  test_result TEXT CHECK (test_result IN ('works', 'works_with_issues', 'does_not_work')),
+  test_notes TEXT,
+  tested_version TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(farm_id, user_id)
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_farms_author ON farms(author_id);
+CREATE INDEX IF NOT EXISTS idx_farms_platform ON farms USING GIN(platform);
+CREATE INDEX IF NOT EXISTS idx_farms_versions ON farms USING GIN(versions);
+CREATE INDEX IF NOT EXISTS idx_farms_tags ON farms USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_farms_public ON farms(public) WHERE public = true;
+CREATE INDEX IF NOT EXISTS idx_farms_search ON farms USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_farms_upvotes ON farms(upvotes_count DESC);
+CREATE INDEX IF NOT EXISTS idx_farms_created ON farms(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_comments_farm ON comments(farm_id);
+CREATE INDEX IF NOT EXISTS idx_comments_user ON comments(user_id);
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_comment_id);
+CREATE INDEX IF NOT EXISTS idx_upvotes_user ON upvotes(user_id);
+CREATE INDEX IF NOT EXISTS idx_favorites_user ON favorites(user_id);
+CREATE INDEX IF NOT EXISTS idx_favorites_farm ON favorites(farm_id);
+CREATE INDEX IF NOT EXISTS idx_following_follower ON following(follower_id);
+CREATE INDEX IF NOT EXISTS idx_following_following ON following(following_id);
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_comment ON comment_reactions(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_user ON comment_reactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_badges_user ON user_badges(user_id);
+CREATE INDEX IF NOT EXISTS idx_farm_tests_farm ON farm_tests(farm_id);
+CREATE INDEX IF NOT EXISTS idx_farm_tests_user ON farm_tests(user_id);
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status) WHERE status = 'pending';
+
+-- Function to update search vector
+CREATE OR REPLACE FUNCTION update_farm_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.materials::text, '')), 'D');
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to automatically update search vector
+CREATE TRIGGER update_farm_search_vector_trigger
+  BEFORE INSERT OR UPDATE ON farms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_farm_search_vector();
+
+-- Function to sync user on auth.users insert
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.users (id, email, username, username_changed_at)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'username', split_part(NEW.email, '@', 1)),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to create user profile on signup
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Function to update farm_tests updated_at
+CREATE OR REPLACE FUNCTION update_farm_tests_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to update farm_tests updated_at
+CREATE TRIGGER update_farm_tests_updated_at_trigger
+  BEFORE UPDATE ON farm_tests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_farm_tests_updated_at();
+
+-- Row Level Security (RLS) Policies
+
+-- Enable RLS
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upvotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE following ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farm_tests ENABLE ROW LEVEL SECURITY;
+
+-- Users policies
+CREATE POLICY "Users are viewable by everyone" ON users
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert own profile" ON users
+  FOR INSERT WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update own profile" ON users
+  FOR UPDATE USING (auth.uid() = id);
+
+-- Farms policies
+CREATE POLICY "Public farms are viewable by everyone" ON farms
+  FOR SELECT USING (public = true OR auth.uid() = author_id);
+
+CREATE POLICY "Users can insert own farms" ON farms
+  FOR INSERT WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Users can update own farms" ON farms
+  FOR UPDATE USING (auth.uid() = author_id);
+
+CREATE POLICY "Users can delete own farms" ON farms
+  FOR DELETE USING (auth.uid() = author_id);
+
+-- Comments policies
+CREATE POLICY "Comments are viewable by everyone" ON comments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can insert comments" ON comments
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own comments" ON comments
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own comments" ON comments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Upvotes policies
+CREATE POLICY "Upvotes are viewable by everyone" ON upvotes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can insert upvotes" ON upvotes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own upvotes" ON upvotes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Favorites policies
+CREATE POLICY "Users can view own favorites" ON favorites
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can insert favorites" ON favorites
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own favorites" ON favorites
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Following policies
+CREATE POLICY "Following relationships are viewable by everyone" ON following
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can follow others" ON following
+  FOR INSERT WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow others" ON following
+  FOR DELETE USING (auth.uid() = follower_id);
+
+-- Comment reactions policies
+CREATE POLICY "Comment reactions are viewable by everyone" ON comment_reactions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can react to comments" ON comment_reactions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own reactions" ON comment_reactions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- User badges policies
+CREATE POLICY "User badges are viewable by everyone" ON user_badges
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can award badges" ON user_badges
+  FOR INSERT WITH CHECK (true);
+
+-- Farm tests policies
+CREATE POLICY "Farm tests are viewable by everyone" ON farm_tests
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can test farms" ON farm_tests
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own test results" ON farm_tests
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own test results" ON farm_tests
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Reports policies
+CREATE POLICY "Users can view own reports" ON reports
+  FOR SELECT USING (auth.uid() = reporter_id OR EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('moderator', 'admin')
+  ));
+
+CREATE POLICY "Authenticated users can create reports" ON reports
+  FOR INSERT WITH CHECK (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can update reports" ON reports
+  FOR UPDATE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('moderator', 'admin')
+  ));
+
@@ -1,5 +1,4 @@
 -- Add username_changed_at column and make username unique
--- Run this in Supabase SQL Editor if you already have the users table
 
 -- Add username_changed_at column if it doesn't exist
 ALTER TABLE users 
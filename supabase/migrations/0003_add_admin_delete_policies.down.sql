@@ -0,0 +1,4 @@
+DROP POLICY IF EXISTS "Admins can delete any farm" ON farms;
+DROP POLICY IF EXISTS "Admins can delete any comment" ON comments;
+DROP POLICY IF EXISTS "Admins can delete any user" ON users;
+DROP POLICY IF EXISTS "Admins can update any user" ON users;
@@ -1,5 +1,4 @@
 -- Add RLS policies to allow admins to delete farms, comments, and users
--- Run this in Supabase SQL Editor
 
 -- Allow admins to delete any farm
 CREATE POLICY "Admins can delete any farm" ON farms
@@ -1,5 +1,4 @@
 -- Storage policies for farm-images bucket
--- Run this in Supabase SQL Editor to allow image uploads
 
 -- Drop existing policies if they exist (safe to run multiple times)
 DROP POLICY IF EXISTS "Users can upload to own folder" ON storage.objects;
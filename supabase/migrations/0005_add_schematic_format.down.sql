@@ -0,0 +1 @@
+ALTER TABLE farms DROP COLUMN IF EXISTS schematic_format;
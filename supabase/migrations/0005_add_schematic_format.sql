@@ -0,0 +1,5 @@
+-- Add schematic_format column to farms table
+-- Values: 'litematic', 'sponge', 'structure', 'mcedit'
+
+ALTER TABLE farms 
+ADD COLUMN IF NOT EXISTS schematic_format TEXT;
@@ -0,0 +1,25 @@
+-- Add farm_progress table for per-user build progress (completed schematic layers)
+
+CREATE TABLE IF NOT EXISTS farm_progress (
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  completed_layers INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (farm_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_progress_user ON farm_progress(user_id);
+
+ALTER TABLE farm_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own farm progress" ON farm_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own farm progress" ON farm_progress
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own farm progress" ON farm_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own farm progress" ON farm_progress
+  FOR DELETE USING (auth.uid() = user_id);
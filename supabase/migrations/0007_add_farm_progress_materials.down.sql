@@ -0,0 +1 @@
+ALTER TABLE farm_progress DROP COLUMN IF EXISTS checked_materials;
@@ -0,0 +1,4 @@
+-- Add checked_materials column to farm_progress table (materials checklist)
+
+ALTER TABLE farm_progress 
+ADD COLUMN IF NOT EXISTS checked_materials TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,25 @@
+-- Add planner_items table for the multi-farm build planner
+
+CREATE TABLE IF NOT EXISTS planner_items (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, farm_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_planner_items_user ON planner_items(user_id);
+
+ALTER TABLE planner_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own planner" ON planner_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to own planner" ON planner_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own planner" ON planner_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove from own planner" ON planner_items
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+DROP POLICY IF EXISTS "Admins can update any farm" ON farms;
+
+DROP TRIGGER IF EXISTS snapshot_farm_revision_trigger ON farms;
+DROP FUNCTION IF EXISTS snapshot_farm_revision();
+
+DROP TABLE IF EXISTS farm_revisions;
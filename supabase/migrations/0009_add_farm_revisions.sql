@@ -0,0 +1,59 @@
+-- Add farm_revisions table with a snapshot of every farm edit
+
+CREATE TABLE IF NOT EXISTS farm_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- Farm content after the edit (without id, author, counters and timestamps)
+  snapshot JSONB NOT NULL,
+  edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_revisions_farm ON farm_revisions(farm_id, created_at DESC);
+
+-- Function to snapshot farm content on insert and on every content change
+CREATE OR REPLACE FUNCTION snapshot_farm_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_fields TEXT[] := ARRAY['id', 'author_id', 'upvotes_count', 'created_at', 'updated_at', 'search_vector'];
+  new_snapshot JSONB := to_jsonb(NEW) - ignored_fields;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (to_jsonb(OLD) - ignored_fields) = new_snapshot THEN
+      RETURN NEW;
+    END IF;
+
+    -- Farms created before revisions existed get their previous state recorded first
+    IF NOT EXISTS (SELECT 1 FROM farm_revisions WHERE farm_id = NEW.id) THEN
+      INSERT INTO farm_revisions (farm_id, snapshot, edited_by, created_at)
+      VALUES (OLD.id, to_jsonb(OLD) - ignored_fields, OLD.author_id, COALESCE(OLD.updated_at, OLD.created_at));
+    END IF;
+  END IF;
+
+  INSERT INTO farm_revisions (farm_id, snapshot, edited_by)
+  VALUES (NEW.id, new_snapshot, COALESCE(auth.uid(), NEW.author_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS snapshot_farm_revision_trigger ON farms;
+CREATE TRIGGER snapshot_farm_revision_trigger
+  AFTER INSERT OR UPDATE ON farms
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_farm_revision();
+
+ALTER TABLE farm_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by the trigger; reading follows the farm's visibility
+CREATE POLICY "Farm revisions are viewable with the farm" ON farm_revisions
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM farms WHERE farms.id = farm_revisions.farm_id AND (farms.public = true OR farms.author_id = auth.uid())
+  ) OR EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- Allow admins to update any farm (for restoring revisions)
+CREATE POLICY "Admins can update any farm" ON farms
+  FOR UPDATE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
@@ -0,0 +1,11 @@
+-- snapshot_farm_revision keeps ignoring verified_versions, which is harmless once the column is gone
+DROP TRIGGER IF EXISTS update_farm_verified_versions_trigger ON farm_tests;
+DROP FUNCTION IF EXISTS update_farm_verified_versions();
+
+ALTER TABLE farms DROP COLUMN IF EXISTS verified_versions;
+
+-- Back to one report per user per farm; fails if someone has already reported several versions
+ALTER TABLE farm_tests DROP CONSTRAINT IF EXISTS farm_tests_farm_user_version_key;
+ALTER TABLE farm_tests ADD CONSTRAINT farm_tests_farm_id_user_id_key UNIQUE (farm_id, user_id);
+
+ALTER TABLE farm_tests DROP COLUMN IF EXISTS tested_platform;
@@ -0,0 +1,68 @@
+-- Add platform to community farm tests and keep a list of verified versions on each farm
+
+ALTER TABLE farm_tests ADD COLUMN IF NOT EXISTS tested_platform TEXT;
+
+-- One report per user per platform + version instead of one per farm
+ALTER TABLE farm_tests DROP CONSTRAINT IF EXISTS farm_tests_farm_id_user_id_key;
+ALTER TABLE farm_tests DROP CONSTRAINT IF EXISTS farm_tests_farm_user_version_key;
+ALTER TABLE farm_tests ADD CONSTRAINT farm_tests_farm_user_version_key
+  UNIQUE (farm_id, user_id, tested_platform, tested_version);
+
+-- Versions the community has confirmed, e.g. {"Java 1.21", "Bedrock 1.21.0"}
+ALTER TABLE farms ADD COLUMN IF NOT EXISTS verified_versions TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- A platform + version is verified when someone reports it working and working reports outnumber failures
+CREATE OR REPLACE FUNCTION update_farm_verified_versions()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_farm UUID := COALESCE(NEW.farm_id, OLD.farm_id);
+BEGIN
+  UPDATE farms
+  SET verified_versions = COALESCE((
+    SELECT ARRAY_AGG(label ORDER BY label)
+    FROM (
+      SELECT TRIM(COALESCE(tested_platform, '') || ' ' || tested_version) AS label
+      FROM farm_tests
+      WHERE farm_id = target_farm AND tested_version IS NOT NULL
+      GROUP BY tested_platform, tested_version
+      HAVING COUNT(*) FILTER (WHERE test_result = 'works') > 0
+        AND COUNT(*) FILTER (WHERE test_result IN ('works', 'works_with_issues'))
+          > COUNT(*) FILTER (WHERE test_result = 'does_not_work')
+    ) verified
+  ), ARRAY[]::TEXT[])
+  WHERE id = target_farm;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_farm_verified_versions_trigger ON farm_tests;
+CREATE TRIGGER update_farm_verified_versions_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON farm_tests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_farm_verified_versions();
+
+-- Verification changes come from testers, not the author, so they are left out of farm revisions
+CREATE OR REPLACE FUNCTION snapshot_farm_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_fields TEXT[] := ARRAY['id', 'author_id', 'upvotes_count', 'verified_versions', 'created_at', 'updated_at', 'search_vector'];
+  new_snapshot JSONB := to_jsonb(NEW) - ignored_fields;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (to_jsonb(OLD) - ignored_fields) = new_snapshot THEN
+      RETURN NEW;
+    END IF;
+
+    -- Farms created before revisions existed get their previous state recorded first
+    IF NOT EXISTS (SELECT 1 FROM farm_revisions WHERE farm_id = NEW.id) THEN
+      INSERT INTO farm_revisions (farm_id, snapshot, edited_by, created_at)
+      VALUES (OLD.id, to_jsonb(OLD) - ignored_fields, OLD.author_id, COALESCE(OLD.updated_at, OLD.created_at));
+    END IF;
+  END IF;
+
+  INSERT INTO farm_revisions (farm_id, snapshot, edited_by)
+  VALUES (NEW.id, new_snapshot, COALESCE(auth.uid(), NEW.author_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
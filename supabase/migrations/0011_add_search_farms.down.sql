@@ -0,0 +1,6 @@
+DROP FUNCTION IF EXISTS search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, INT, INT);
+DROP FUNCTION IF EXISTS farm_max_drop_rate(JSONB);
+DROP FUNCTION IF EXISTS farm_newest_version(TEXT[]);
+DROP FUNCTION IF EXISTS farm_supports_version(TEXT[], TEXT[], TEXT, INT[]);
+DROP FUNCTION IF EXISTS parse_version_range(TEXT);
+DROP FUNCTION IF EXISTS compare_version_parts(INT[], INT[]);
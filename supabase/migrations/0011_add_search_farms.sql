@@ -0,0 +1,221 @@
+-- Add server-side farm search: ranked full-text + trigram matching, filters, sorting and pagination
+
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- Compares version numbers part by part; missing parts count as 0, so {1,21} equals {1,21,0}
+CREATE OR REPLACE FUNCTION compare_version_parts(a INT[], b INT[])
+RETURNS INT AS $$
+DECLARE
+  i INT;
+BEGIN
+  FOR i IN 1..GREATEST(COALESCE(array_length(a, 1), 0), COALESCE(array_length(b, 1), 0)) LOOP
+    IF COALESCE(a[i], 0) > COALESCE(b[i], 0) THEN
+      RETURN 1;
+    ELSIF COALESCE(a[i], 0) < COALESCE(b[i], 0) THEN
+      RETURN -1;
+    END IF;
+  END LOOP;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Parses one `versions` entry ("Java 1.21.1", "1.20–1.21.4", "1.20+", "All versions") into an inclusive range
+-- Mirrors parseVersionRange in src/lib/minecraftVersions.ts
+CREATE OR REPLACE FUNCTION parse_version_range(
+  entry TEXT,
+  OUT edition TEXT,
+  OUT min_version INT[],
+  OUT max_version INT[],
+  OUT parsed BOOLEAN
+) AS $$
+DECLARE
+  token_pattern CONSTANT TEXT := '[0-9]+\.[0-9]+(?:\.[0-9]+)?(?:\.x)?';
+  rest TEXT := lower(COALESCE(entry, ''));
+  tokens TEXT[];
+  separators TEXT[];
+  swapped INT[];
+BEGIN
+  parsed := false;
+
+  IF rest ~ '(^|[^a-z])(java( +edition)?|je)([^a-z]|$)' THEN
+    edition := 'java';
+    rest := regexp_replace(rest, '(^|[^a-z])(java( +edition)?|je)([^a-z]|$)', '\1 \4', 'g');
+  END IF;
+  IF rest ~ '(^|[^a-z])(bedrock( +edition)?|be|mcpe|pocket( +edition)?)([^a-z]|$)' THEN
+    edition := 'bedrock';
+    rest := regexp_replace(rest, '(^|[^a-z])(bedrock( +edition)?|be|mcpe|pocket( +edition)?)([^a-z]|$)', '\1 \5', 'g');
+  END IF;
+  rest := btrim(regexp_replace(regexp_replace(rest, '[():,]', ' ', 'g'), '\s+', ' ', 'g'));
+
+  IF rest ~ '^(all|any)( versions?)?$' OR (rest = '' AND edition IS NOT NULL) THEN
+    parsed := true;
+    RETURN;
+  END IF;
+
+  SELECT array_agg(m[1]) INTO tokens
+  FROM regexp_matches(rest, '([0-9]+\.[0-9]+(?:\.[0-9]+)?)(?:\.x)?', 'g') AS m;
+  separators := regexp_split_to_array(rest, token_pattern);
+
+  IF array_length(tokens, 1) = 1 AND btrim(separators[1]) = '' THEN
+    IF btrim(separators[2]) = '' THEN
+      min_version := string_to_array(tokens[1], '.')::INT[];
+      max_version := min_version;
+      parsed := true;
+    ELSIF separators[2] ~ '^\s*(\+|and\s+(up|above|newer|later)|or\s+(newer|later|above))\s*$' THEN
+      min_version := string_to_array(tokens[1], '.')::INT[];
+      parsed := true;
+    END IF;
+  ELSIF array_length(tokens, 1) = 2 AND btrim(separators[1]) = '' AND btrim(separators[3]) = ''
+    AND separators[2] ~ '^\s*(-|–|—|to|through|until)\s*$' THEN
+    min_version := string_to_array(tokens[1], '.')::INT[];
+    max_version := string_to_array(tokens[2], '.')::INT[];
+    IF compare_version_parts(min_version, max_version) > 0 THEN
+      swapped := min_version;
+      min_version := max_version;
+      max_version := swapped;
+    END IF;
+    parsed := true;
+  END IF;
+
+  IF NOT parsed THEN
+    edition := NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whether a farm is listed as working on a version; mirrors isFarmCompatible in src/lib/minecraftVersions.ts
+CREATE OR REPLACE FUNCTION farm_supports_version(
+  farm_versions TEXT[],
+  farm_platforms TEXT[],
+  query_edition TEXT,
+  query_version INT[]
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  editions TEXT[];
+  default_edition TEXT;
+  entry TEXT;
+  entry_range RECORD;
+  entry_edition TEXT;
+  any_parsed BOOLEAN := false;
+BEGIN
+  SELECT array_agg(DISTINCT e.edition) INTO editions
+  FROM unnest(COALESCE(farm_platforms, ARRAY[]::TEXT[])) AS p, parse_version_range(p) AS e
+  WHERE e.edition IS NOT NULL;
+
+  IF query_edition IS NOT NULL AND array_length(editions, 1) > 0 AND NOT (query_edition = ANY(editions)) THEN
+    RETURN false;
+  END IF;
+  IF array_length(editions, 1) = 1 THEN
+    default_edition := editions[1];
+  END IF;
+
+  FOREACH entry IN ARRAY COALESCE(farm_versions, ARRAY[]::TEXT[]) LOOP
+    SELECT * INTO entry_range FROM parse_version_range(entry);
+    CONTINUE WHEN NOT entry_range.parsed;
+    any_parsed := true;
+
+    entry_edition := COALESCE(entry_range.edition, default_edition);
+    CONTINUE WHEN entry_edition IS NOT NULL AND query_edition IS NOT NULL AND entry_edition <> query_edition;
+    CONTINUE WHEN entry_range.min_version IS NOT NULL
+      AND compare_version_parts(query_version, entry_range.min_version) < 0;
+    -- An upper bound written as "1.21" covers every 1.21.x release
+    CONTINUE WHEN entry_range.max_version IS NOT NULL
+      AND compare_version_parts(query_version[1:array_length(entry_range.max_version, 1)], entry_range.max_version) > 0;
+
+    RETURN true;
+  END LOOP;
+
+  -- Farms that list no recognisable versions aren't restricted
+  RETURN NOT any_parsed;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Newest version a farm lists, for sorting
+CREATE OR REPLACE FUNCTION farm_newest_version(farm_versions TEXT[])
+RETURNS INT[] AS $$
+  SELECT MAX(COALESCE(r.max_version, r.min_version))
+  FROM unnest(COALESCE(farm_versions, ARRAY[]::TEXT[])) AS v, parse_version_range(v) AS r
+  WHERE r.parsed;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Highest number found in a farm's drop rates ("~2000/h" -> 2000), for sorting
+CREATE OR REPLACE FUNCTION farm_max_drop_rate(drop_rates JSONB)
+RETURNS NUMERIC AS $$
+  SELECT MAX(substring(regexp_replace(d->>'rate', '[^0-9.]', '', 'g') FROM '^[0-9]*\.?[0-9]+')::NUMERIC)
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(drop_rates) = 'array' THEN drop_rates ELSE '[]'::jsonb END) AS d;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked, filtered and paginated search over public farms
+-- Each row carries the farm (with its author under `users`), its relevance and the total number of matches
+CREATE OR REPLACE FUNCTION search_farms(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INT DEFAULT 24,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (farm JSONB, rank REAL, total_count BIGINT) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(search_query), '') AS query_text,
+      CASE WHEN NULLIF(btrim(search_query), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', search_query)
+      END AS query_ts
+  ),
+  matches AS (
+    SELECT
+      f.*,
+      (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+        'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+      ) AS farm_json,
+      CASE WHEN p.query_text IS NULL THEN 0
+        -- Weighted tsvector rank, plus trigram similarity so typos like "sugarcaen" still match
+        ELSE COALESCE(ts_rank_cd(f.search_vector, p.query_ts, 32), 0) + word_similarity(lower(p.query_text), s.search_text)
+      END::REAL AS match_rank
+    FROM farms f
+    LEFT JOIN users u ON u.id = f.author_id
+    CROSS JOIN params p
+    CROSS JOIN LATERAL (
+      SELECT lower(
+        COALESCE(f.title, '') || ' ' ||
+        COALESCE(array_to_string(f.tags, ' '), '') || ' ' ||
+        COALESCE(array_to_string(f.farmable_items, ' '), '')
+      ) AS search_text
+    ) s
+    WHERE f.public = true
+      AND (p.query_text IS NULL OR f.search_vector @@ p.query_ts OR lower(p.query_text) <% s.search_text)
+      AND (filter_platform IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(f.platform) AS pl WHERE lower(pl) = lower(filter_platform)
+      ))
+      AND (filter_tag IS NULL OR lower(filter_tag) = ANY(f.tags))
+      AND (filter_category IS NULL OR f.category = filter_category)
+      AND (filter_version IS NULL OR farm_supports_version(f.versions, f.platform, filter_edition, filter_version))
+  )
+  SELECT farm_json, match_rank, COUNT(*) OVER ()
+  FROM matches
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN match_rank END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('upvotes', 'upvotes_desc') THEN upvotes_count END DESC NULLS LAST,
+    CASE WHEN sort_by = 'upvotes_asc' THEN upvotes_count END ASC NULLS LAST,
+    CASE WHEN sort_by = 'oldest' THEN created_at END ASC NULLS LAST,
+    CASE WHEN sort_by = 'title' THEN title END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_asc' THEN estimated_time END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_desc' THEN estimated_time END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('resources_asc', 'resources_desc') THEN
+      jsonb_array_length(COALESCE(materials, '[]'::jsonb)) + jsonb_array_length(COALESCE(optional_materials, '[]'::jsonb))
+    END * CASE WHEN sort_by = 'resources_desc' THEN -1 ELSE 1 END ASC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_desc' THEN farm_max_drop_rate(drop_rate_per_hour) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_asc' THEN farm_max_drop_rate(drop_rate_per_hour) END ASC NULLS LAST,
+    CASE WHEN sort_by = 'version_newest' THEN farm_newest_version(versions) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_oldest' THEN farm_newest_version(versions) END ASC NULLS LAST,
+    created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, INT, INT) TO anon, authenticated;
@@ -0,0 +1,80 @@
+-- Back to the search_farms signature from 0011, without facet filters
+DROP FUNCTION IF EXISTS search_farm_facets(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT[]);
+DROP FUNCTION IF EXISTS search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT, INT, INT);
+DROP FUNCTION IF EXISTS farm_search_matches(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS build_time_bucket(INT);
+DROP FUNCTION IF EXISTS material_count_bucket(JSONB);
+
+-- Ranked, filtered and paginated search over public farms
+-- Each row carries the farm (with its author under `users`), its relevance and the total number of matches
+CREATE OR REPLACE FUNCTION search_farms(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INT DEFAULT 24,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (farm JSONB, rank REAL, total_count BIGINT) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(search_query), '') AS query_text,
+      CASE WHEN NULLIF(btrim(search_query), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', search_query)
+      END AS query_ts
+  ),
+  matches AS (
+    SELECT
+      f.*,
+      (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+        'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+      ) AS farm_json,
+      CASE WHEN p.query_text IS NULL THEN 0
+        -- Weighted tsvector rank, plus trigram similarity so typos like "sugarcaen" still match
+        ELSE COALESCE(ts_rank_cd(f.search_vector, p.query_ts, 32), 0) + word_similarity(lower(p.query_text), s.search_text)
+      END::REAL AS match_rank
+    FROM farms f
+    LEFT JOIN users u ON u.id = f.author_id
+    CROSS JOIN params p
+    CROSS JOIN LATERAL (
+      SELECT lower(
+        COALESCE(f.title, '') || ' ' ||
+        COALESCE(array_to_string(f.tags, ' '), '') || ' ' ||
+        COALESCE(array_to_string(f.farmable_items, ' '), '')
+      ) AS search_text
+    ) s
+    WHERE f.public = true
+      AND (p.query_text IS NULL OR f.search_vector @@ p.query_ts OR lower(p.query_text) <% s.search_text)
+      AND (filter_platform IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(f.platform) AS pl WHERE lower(pl) = lower(filter_platform)
+      ))
+      AND (filter_tag IS NULL OR lower(filter_tag) = ANY(f.tags))
+      AND (filter_category IS NULL OR f.category = filter_category)
+      AND (filter_version IS NULL OR farm_supports_version(f.versions, f.platform, filter_edition, filter_version))
+  )
+  SELECT farm_json, match_rank, COUNT(*) OVER ()
+  FROM matches
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN match_rank END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('upvotes', 'upvotes_desc') THEN upvotes_count END DESC NULLS LAST,
+    CASE WHEN sort_by = 'upvotes_asc' THEN upvotes_count END ASC NULLS LAST,
+    CASE WHEN sort_by = 'oldest' THEN created_at END ASC NULLS LAST,
+    CASE WHEN sort_by = 'title' THEN title END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_asc' THEN estimated_time END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_desc' THEN estimated_time END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('resources_asc', 'resources_desc') THEN
+      jsonb_array_length(COALESCE(materials, '[]'::jsonb)) + jsonb_array_length(COALESCE(optional_materials, '[]'::jsonb))
+    END * CASE WHEN sort_by = 'resources_desc' THEN -1 ELSE 1 END ASC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_desc' THEN farm_max_drop_rate(drop_rate_per_hour) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_asc' THEN farm_max_drop_rate(drop_rate_per_hour) END ASC NULLS LAST,
+    CASE WHEN sort_by = 'version_newest' THEN farm_newest_version(versions) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_oldest' THEN farm_newest_version(versions) END ASC NULLS LAST,
+    created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, INT, INT) TO anon, authenticated;
@@ -0,0 +1,275 @@
+-- Add faceted filters to farm search and a function returning live counts per facet value
+
+-- search_farms gains new parameters, so the old signature has to go
+DROP FUNCTION IF EXISTS search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, INT, INT);
+
+-- Build time bucket for the estimated_time facet; keep in sync with BUILD_TIME_BUCKETS in src/lib/farmSearch.ts
+CREATE OR REPLACE FUNCTION build_time_bucket(minutes INT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN minutes IS NULL THEN NULL
+    WHEN minutes < 30 THEN 'under_30m'
+    WHEN minutes <= 120 THEN '30m_2h'
+    ELSE 'over_2h'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Material count bucket (number of required materials); keep in sync with MATERIAL_COUNT_BUCKETS
+CREATE OR REPLACE FUNCTION material_count_bucket(materials JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(materials) IS DISTINCT FROM 'array' THEN NULL
+    WHEN jsonb_array_length(materials) = 0 THEN NULL
+    WHEN jsonb_array_length(materials) < 10 THEN 'under_10'
+    WHEN jsonb_array_length(materials) <= 25 THEN '10_25'
+    ELSE 'over_25'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Public farms matching the text query and tag, with one flag per facet filter
+-- search_farms keeps rows where every flag is true; search_farm_facets counts each facet
+-- against the rows that pass every other filter
+CREATE OR REPLACE FUNCTION farm_search_matches(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (
+  farm_id UUID,
+  match_rank REAL,
+  platform_ok BOOLEAN,
+  category_ok BOOLEAN,
+  version_ok BOOLEAN,
+  biome_ok BOOLEAN,
+  build_time_ok BOOLEAN,
+  material_count_ok BOOLEAN,
+  schematic_ok BOOLEAN,
+  video_ok BOOLEAN,
+  item_ok BOOLEAN,
+  verified_ok BOOLEAN
+) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(search_query), '') AS query_text,
+      CASE WHEN NULLIF(btrim(search_query), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', search_query)
+      END AS query_ts
+  )
+  SELECT
+    f.id,
+    CASE WHEN p.query_text IS NULL THEN 0
+      -- Weighted tsvector rank, plus trigram similarity so typos like "sugarcaen" still match
+      ELSE COALESCE(ts_rank_cd(f.search_vector, p.query_ts, 32), 0) + word_similarity(lower(p.query_text), s.search_text)
+    END::REAL,
+    -- Flags are never NULL, so a farm missing a field simply fails that filter
+    COALESCE(filter_platform IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(f.platform) AS pl WHERE lower(pl) = lower(filter_platform)
+    ), false),
+    COALESCE(filter_category IS NULL OR f.category = filter_category, false),
+    COALESCE(filter_version IS NULL OR farm_supports_version(f.versions, f.platform, filter_edition, filter_version), false),
+    COALESCE(filter_biome IS NULL OR lower(btrim(f.required_biome)) = lower(filter_biome), false),
+    COALESCE(filter_build_time IS NULL OR build_time_bucket(f.estimated_time) = filter_build_time, false),
+    COALESCE(filter_material_count IS NULL OR material_count_bucket(f.materials) = filter_material_count, false),
+    COALESCE(filter_has_schematic IS NULL OR (COALESCE(f.schematic_url, '') <> '') = filter_has_schematic, false),
+    COALESCE(filter_has_video IS NULL OR (COALESCE(f.video_url, '') <> '') = filter_has_video, false),
+    COALESCE(filter_item IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(f.farmable_items) AS item WHERE lower(item) = lower(filter_item)
+    ), false),
+    COALESCE(filter_verified IS NULL OR (COALESCE(array_length(f.verified_versions, 1), 0) > 0) = filter_verified, false)
+  FROM farms f
+  CROSS JOIN params p
+  CROSS JOIN LATERAL (
+    SELECT lower(
+      COALESCE(f.title, '') || ' ' ||
+      COALESCE(array_to_string(f.tags, ' '), '') || ' ' ||
+      COALESCE(array_to_string(f.farmable_items, ' '), '')
+    ) AS search_text
+  ) s
+  WHERE f.public = true
+    AND (p.query_text IS NULL OR f.search_vector @@ p.query_ts OR lower(p.query_text) <% s.search_text)
+    AND (filter_tag IS NULL OR lower(filter_tag) = ANY(f.tags));
+$$ LANGUAGE sql STABLE;
+
+-- Ranked, filtered and paginated search over public farms
+-- Each row carries the farm (with its author under `users`), its relevance and the total number of matches
+CREATE OR REPLACE FUNCTION search_farms(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INT DEFAULT 24,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (farm JSONB, rank REAL, total_count BIGINT) AS $$
+  SELECT
+    (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+      'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+    ),
+    m.match_rank,
+    COUNT(*) OVER ()
+  FROM farm_search_matches(
+    search_query, filter_platform, filter_tag, filter_category, filter_edition, filter_version,
+    filter_biome, filter_build_time, filter_material_count, filter_has_schematic, filter_has_video,
+    filter_item, filter_verified
+  ) m
+  JOIN farms f ON f.id = m.farm_id
+  LEFT JOIN users u ON u.id = f.author_id
+  WHERE m.platform_ok AND m.category_ok AND m.version_ok AND m.biome_ok AND m.build_time_ok
+    AND m.material_count_ok AND m.schematic_ok AND m.video_ok AND m.item_ok AND m.verified_ok
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.match_rank END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('upvotes', 'upvotes_desc') THEN f.upvotes_count END DESC NULLS LAST,
+    CASE WHEN sort_by = 'upvotes_asc' THEN f.upvotes_count END ASC NULLS LAST,
+    CASE WHEN sort_by = 'oldest' THEN f.created_at END ASC NULLS LAST,
+    CASE WHEN sort_by = 'title' THEN f.title END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_asc' THEN f.estimated_time END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_desc' THEN f.estimated_time END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('resources_asc', 'resources_desc') THEN
+      jsonb_array_length(COALESCE(f.materials, '[]'::jsonb)) + jsonb_array_length(COALESCE(f.optional_materials, '[]'::jsonb))
+    END * CASE WHEN sort_by = 'resources_desc' THEN -1 ELSE 1 END ASC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_desc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_asc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END ASC NULLS LAST,
+    CASE WHEN sort_by = 'version_newest' THEN farm_newest_version(f.versions) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_oldest' THEN farm_newest_version(f.versions) END ASC NULLS LAST,
+    f.created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Live counts for every facet value under the current query and filters
+-- A facet's counts ignore its own filter, so they show what picking another value would return
+CREATE OR REPLACE FUNCTION search_farm_facets(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL,
+  facet_versions TEXT[] DEFAULT ARRAY[]::TEXT[]
+)
+RETURNS JSONB AS $$
+  WITH m AS (
+    SELECT
+      matches.*,
+      f.platform, f.category, f.versions, f.required_biome, f.estimated_time, f.materials,
+      f.schematic_url, f.video_url, f.farmable_items, f.verified_versions,
+      -- Number of facet filters this farm fails
+      (NOT matches.platform_ok)::INT + (NOT matches.category_ok)::INT + (NOT matches.version_ok)::INT
+        + (NOT matches.biome_ok)::INT + (NOT matches.build_time_ok)::INT + (NOT matches.material_count_ok)::INT
+        + (NOT matches.schematic_ok)::INT + (NOT matches.video_ok)::INT + (NOT matches.item_ok)::INT
+        + (NOT matches.verified_ok)::INT AS failures
+    FROM farm_search_matches(
+      search_query, filter_platform, filter_tag, filter_category, filter_edition, filter_version,
+      filter_biome, filter_build_time, filter_material_count, filter_has_schematic, filter_has_video,
+      filter_item, filter_verified
+    ) matches
+    JOIN farms f ON f.id = matches.farm_id
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM m WHERE failures = 0),
+    'platform', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT pl AS value, COUNT(*) AS n
+        FROM m, unnest(m.platform) AS pl
+        WHERE pl IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT platform_ok))
+        GROUP BY pl
+      ) counts
+    ),
+    'category', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT category AS value, COUNT(*) AS n
+        FROM m
+        WHERE category IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT category_ok))
+        GROUP BY category
+      ) counts
+    ),
+    'version', (
+      SELECT COALESCE(jsonb_object_agg(v, n), '{}'::jsonb) FROM (
+        SELECT v, COUNT(m.farm_id) FILTER (
+          WHERE farm_supports_version(m.versions, m.platform, filter_edition, string_to_array(v, '.')::INT[])
+        ) AS n
+        FROM unnest(facet_versions) AS v
+        LEFT JOIN m ON m.failures = 0 OR (m.failures = 1 AND NOT m.version_ok)
+        GROUP BY v
+      ) counts
+    ),
+    'biome', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT MIN(btrim(required_biome)) AS value, COUNT(*) AS n
+        FROM m
+        WHERE COALESCE(btrim(required_biome), '') <> '' AND (failures = 0 OR (failures = 1 AND NOT biome_ok))
+        GROUP BY lower(btrim(required_biome))
+        ORDER BY n DESC
+        LIMIT 20
+      ) counts
+    ),
+    'build_time', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT build_time_bucket(estimated_time) AS value, COUNT(*) AS n
+        FROM m
+        WHERE estimated_time IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT build_time_ok))
+        GROUP BY 1
+      ) counts
+    ),
+    'material_count', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT material_count_bucket(materials) AS value, COUNT(*) AS n
+        FROM m
+        WHERE material_count_bucket(materials) IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT material_count_ok))
+        GROUP BY 1
+      ) counts
+    ),
+    'item', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT MIN(item) AS value, COUNT(DISTINCT m.farm_id) AS n
+        FROM m, unnest(m.farmable_items) AS item
+        WHERE COALESCE(btrim(item), '') <> '' AND (failures = 0 OR (failures = 1 AND NOT item_ok))
+        GROUP BY lower(item)
+        ORDER BY n DESC
+        LIMIT 20
+      ) counts
+    ),
+    'has_schematic', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(schematic_url, '') <> '' AND (failures = 0 OR (failures = 1 AND NOT schematic_ok))
+    ),
+    'has_video', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(video_url, '') <> '' AND (failures = 0 OR (failures = 1 AND NOT video_ok))
+    ),
+    'verified', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(array_length(verified_versions, 1), 0) > 0 AND (failures = 0 OR (failures = 1 AND NOT verified_ok))
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT, INT, INT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_farm_facets(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT[]) TO anon, authenticated;
@@ -0,0 +1,7 @@
+-- Back to reading the first number in each rate's text
+-- Highest number found in a farm's drop rates ("~2000/h" -> 2000), for sorting
+CREATE OR REPLACE FUNCTION farm_max_drop_rate(drop_rates JSONB)
+RETURNS NUMERIC AS $$
+  SELECT MAX(substring(regexp_replace(d->>'rate', '[^0-9.]', '', 'g') FROM '^[0-9]*\.?[0-9]+')::NUMERIC)
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(drop_rates) = 'array' THEN drop_rates ELSE '[]'::jsonb END) AS d;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,14 @@
+-- Sort farms by the numeric items_per_hour stored with each drop rate
+-- Drop rates saved from now on carry {item, rate, items_per_hour, conditions}; older entries only
+-- have the rate text, so the first number in it is used until the farm is saved again
+
+CREATE OR REPLACE FUNCTION farm_max_drop_rate(drop_rates JSONB)
+RETURNS NUMERIC AS $$
+  SELECT MAX(
+    CASE WHEN jsonb_typeof(d->'items_per_hour') = 'number'
+      THEN (d->>'items_per_hour')::NUMERIC
+      ELSE substring(regexp_replace(d->>'rate', '[^0-9.]', '', 'g') FROM '^[0-9]*\.?[0-9]+')::NUMERIC
+    END
+  )
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(drop_rates) = 'array' THEN drop_rates ELSE '[]'::jsonb END) AS d;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,60 @@
+-- search_farms goes back to the body from 0012 first, since it calls farm_efficiency
+-- Ranked, filtered and paginated search over public farms
+-- Each row carries the farm (with its author under `users`), its relevance and the total number of matches
+CREATE OR REPLACE FUNCTION search_farms(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INT DEFAULT 24,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (farm JSONB, rank REAL, total_count BIGINT) AS $$
+  SELECT
+    (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+      'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+    ),
+    m.match_rank,
+    COUNT(*) OVER ()
+  FROM farm_search_matches(
+    search_query, filter_platform, filter_tag, filter_category, filter_edition, filter_version,
+    filter_biome, filter_build_time, filter_material_count, filter_has_schematic, filter_has_video,
+    filter_item, filter_verified
+  ) m
+  JOIN farms f ON f.id = m.farm_id
+  LEFT JOIN users u ON u.id = f.author_id
+  WHERE m.platform_ok AND m.category_ok AND m.version_ok AND m.biome_ok AND m.build_time_ok
+    AND m.material_count_ok AND m.schematic_ok AND m.video_ok AND m.item_ok AND m.verified_ok
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.match_rank END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('upvotes', 'upvotes_desc') THEN f.upvotes_count END DESC NULLS LAST,
+    CASE WHEN sort_by = 'upvotes_asc' THEN f.upvotes_count END ASC NULLS LAST,
+    CASE WHEN sort_by = 'oldest' THEN f.created_at END ASC NULLS LAST,
+    CASE WHEN sort_by = 'title' THEN f.title END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_asc' THEN f.estimated_time END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_desc' THEN f.estimated_time END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('resources_asc', 'resources_desc') THEN
+      jsonb_array_length(COALESCE(f.materials, '[]'::jsonb)) + jsonb_array_length(COALESCE(f.optional_materials, '[]'::jsonb))
+    END * CASE WHEN sort_by = 'resources_desc' THEN -1 ELSE 1 END ASC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_desc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_asc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END ASC NULLS LAST,
+    CASE WHEN sort_by = 'version_newest' THEN farm_newest_version(f.versions) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_oldest' THEN farm_newest_version(f.versions) END ASC NULLS LAST,
+    f.created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS farm_efficiency(JSONB, INT, JSONB, INT, BOOLEAN);
+
+ALTER TABLE farms DROP COLUMN IF EXISTS raw_material_count;
@@ -0,0 +1,5 @@
+DROP FUNCTION IF EXISTS award_badges(UUID);
+DROP FUNCTION IF EXISTS badge_stats(UUID);
+
+CREATE POLICY "System can award badges" ON user_badges
+  FOR INSERT WITH CHECK (true);
@@ -0,0 +1,50 @@
+-- Award badges from rules instead of letting clients insert them
+-- Run `npm run badges:backfill` afterwards to award existing users what they've already earned
+
+-- What a user has done so far, counted the way the badge rules need it
+CREATE OR REPLACE FUNCTION badge_stats(target_user UUID)
+RETURNS TABLE (farms BIGINT, upvotes BIGINT, tests BIGINT, helpful_reactions BIGINT) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM farms f WHERE f.author_id = target_user AND f.public = true),
+    (SELECT COUNT(*) FROM upvotes u JOIN farms f ON f.id = u.farm_id WHERE f.author_id = target_user),
+    (SELECT COUNT(*) FROM farm_tests t WHERE t.user_id = target_user),
+    (SELECT COUNT(*) FROM comment_reactions r JOIN comments c ON c.id = r.comment_id
+      WHERE c.user_id = target_user AND r.reaction_type = 'helpful');
+$$ LANGUAGE sql STABLE;
+
+-- Awards every badge the user has earned and doesn't have yet, returning the new ones, so it's safe to call any time.
+-- The rules mirror BADGE_TYPES in src/lib/badges.ts
+CREATE OR REPLACE FUNCTION award_badges(target_user UUID)
+RETURNS SETOF user_badges AS $$
+  WITH stats AS (
+    SELECT * FROM badge_stats(target_user)
+  ),
+  rules (badge_type, badge_name, badge_description, metric, threshold) AS (
+    VALUES
+      ('first_farm', 'First Farm', 'Uploaded your first farm', 'farms', 1),
+      ('ten_farms', 'Farm Builder', 'Uploaded 10 farms', 'farms', 10),
+      ('fifty_farms', 'Master Builder', 'Uploaded 50 farms', 'farms', 50),
+      ('hundred_upvotes', 'Popular Creator', 'Received 100 upvotes on your farms', 'upvotes', 100),
+      ('first_test', 'Tester', 'Tested your first farm', 'tests', 1),
+      ('ten_tests', 'Quality Tester', 'Tested 10 farms', 'tests', 10),
+      ('helpful_comment', 'Helpful', 'Received 10 helpful reactions on comments', 'helpful_reactions', 10)
+  )
+  INSERT INTO user_badges (user_id, badge_type, badge_name, badge_description)
+  SELECT target_user, r.badge_type, r.badge_name, r.badge_description
+  FROM rules r, stats s
+  WHERE EXISTS (SELECT 1 FROM users WHERE id = target_user)
+    AND CASE r.metric
+      WHEN 'farms' THEN s.farms
+      WHEN 'upvotes' THEN s.upvotes
+      WHEN 'tests' THEN s.tests
+      ELSE s.helpful_reactions
+    END >= r.threshold
+  ON CONFLICT (user_id, badge_type) DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION badge_stats(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION award_badges(UUID) TO authenticated;
+
+-- Badges now only come from award_badges
+DROP POLICY IF EXISTS "System can award badges" ON user_badges;
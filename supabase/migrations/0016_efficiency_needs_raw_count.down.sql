@@ -0,0 +1,18 @@
+-- Back to summing the listed material counts for farms without raw_material_count
+CREATE OR REPLACE FUNCTION farm_efficiency(
+  drop_rates JSONB,
+  raw_count INT,
+  materials JSONB,
+  build_minutes INT,
+  include_build_time BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC AS $$
+  SELECT farm_max_drop_rate(drop_rates) / (
+    NULLIF(COALESCE(raw_count, (
+      SELECT SUM((m->>'count')::NUMERIC)
+      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(materials) = 'array' THEN materials ELSE '[]'::jsonb END) AS m
+      WHERE jsonb_typeof(m->'count') = 'number'
+    )), 0)
+    + CASE WHEN include_build_time THEN COALESCE(build_minutes, 0) * 64 ELSE 0 END
+  );
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,17 @@
+-- Farms without raw_material_count get no efficiency score, as in getEfficiencyScore (src/lib/efficiency.ts)
+-- Summing the listed material counts instead disagreed with the app, which resolves recipes back to raw
+-- resources; `npm run farms:backfill-raw-counts` fills in the count for farms saved before 0014
+-- `materials` is no longer read, but stays in the signature that search_farms calls
+CREATE OR REPLACE FUNCTION farm_efficiency(
+  drop_rates JSONB,
+  raw_count INT,
+  materials JSONB,
+  build_minutes INT,
+  include_build_time BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC AS $$
+  SELECT farm_max_drop_rate(drop_rates) / (
+    NULLIF(raw_count, 0)
+    + CASE WHEN include_build_time THEN COALESCE(build_minutes, 0) * 64 ELSE 0 END
+  );
+$$ LANGUAGE sql IMMUTABLE;
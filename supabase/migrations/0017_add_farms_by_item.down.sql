@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS farms_by_item(TEXT);
@@ -0,0 +1,26 @@
+-- Look farms up by item in the database, ignoring case, instead of with case-sensitive containment filters
+
+-- Public farms that list an item as farmable or in their drop rates, each with its author under `users`
+-- Names match case-insensitively, as in rankFarmsByItem (src/lib/farmSearch.ts), which ranks the results
+CREATE OR REPLACE FUNCTION farms_by_item(item_name TEXT)
+RETURNS TABLE (farm JSONB) AS $$
+  SELECT
+    (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+      'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+    )
+  FROM farms f
+  LEFT JOIN users u ON u.id = f.author_id
+  WHERE f.public = true
+    AND (
+      EXISTS (SELECT 1 FROM unnest(f.farmable_items) AS item WHERE lower(item) = lower(item_name))
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(f.drop_rate_per_hour) = 'array' THEN f.drop_rate_per_hour ELSE '[]'::jsonb END
+        ) AS d
+        WHERE lower(d->>'item') = lower(item_name)
+      )
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION farms_by_item(TEXT) TO anon, authenticated;
@@ -10,6 +10,7 @@ CREATE TABLE IF NOT EXISTS users (
   avatar_url TEXT,
   bio TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  username_changed_at TIMESTAMPTZ DEFAULT NOW(),
   role TEXT DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin'))
 );
 
@@ -39,11 +40,17 @@ CREATE TABLE IF NOT EXISTS farms (
   height_requirements TEXT,
   notes TEXT,
   farm_designer TEXT,
+  -- [{item, rate, items_per_hour, conditions: {mode, looting, players, simulation_distance}}]
   drop_rate_per_hour JSONB DEFAULT '[]'::jsonb,
   farmable_items TEXT[] DEFAULT ARRAY[]::TEXT[],
   required_biome TEXT,
   category TEXT,
-  schematic_url TEXT
+  schematic_url TEXT,
+  schematic_format TEXT,
+  -- Community-confirmed versions, maintained from farm_tests, e.g. {"Java 1.21"}
+  verified_versions TEXT[] DEFAULT ARRAY[]::TEXT[],
+  -- Materials resolved back to raw resources, worked out in the app when the farm is saved
+  raw_material_count INTEGER
 );
 
 -- Comments table
@@ -122,12 +129,43 @@ CREATE TABLE IF NOT EXISTS farm_tests (
   test_result TEXT CHECK (test_result IN ('works', 'works_with_issues', 'does_not_work')),
   test_notes TEXT,
   tested_version TEXT,
+  tested_platform TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
-  UNIQUE(farm_id, user_id)
+  CONSTRAINT farm_tests_farm_user_version_key UNIQUE(farm_id, user_id, tested_platform, tested_version)
+);
+
+-- Build progress table (per-user checklist progress for a farm)
+CREATE TABLE IF NOT EXISTS farm_progress (
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  completed_layers INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+  checked_materials TEXT[] DEFAULT ARRAY[]::TEXT[],
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (farm_id, user_id)
+);
+
+-- Planner table (farms a user plans to build, with how many copies)
+CREATE TABLE IF NOT EXISTS planner_items (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, farm_id)
+);
+
+-- Farm revisions table (snapshot of farm content after each edit)
+CREATE TABLE IF NOT EXISTS farm_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- Farm content after the edit (without id, author, counters and timestamps)
+  snapshot JSONB NOT NULL,
+  edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS users_username_unique ON users(username);
 CREATE INDEX IF NOT EXISTS idx_farms_author ON farms(author_id);
 CREATE INDEX IF NOT EXISTS idx_farms_platform ON farms USING GIN(platform);
 CREATE INDEX IF NOT EXISTS idx_farms_versions ON farms USING GIN(versions);
@@ -149,6 +187,9 @@ CREATE INDEX IF NOT EXISTS idx_comment_reactions_user ON comment_reactions(user_
 CREATE INDEX IF NOT EXISTS idx_user_badges_user ON user_badges(user_id);
 CREATE INDEX IF NOT EXISTS idx_farm_tests_farm ON farm_tests(farm_id);
 CREATE INDEX IF NOT EXISTS idx_farm_tests_user ON farm_tests(user_id);
+CREATE INDEX IF NOT EXISTS idx_farm_progress_user ON farm_progress(user_id);
+CREATE INDEX IF NOT EXISTS idx_planner_items_user ON planner_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_farm_revisions_farm ON farm_revisions(farm_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status) WHERE status = 'pending';
 
 -- Function to update search vector
@@ -207,6 +248,579 @@ CREATE TRIGGER update_farm_tests_updated_at_trigger
   FOR EACH ROW
   EXECUTE FUNCTION update_farm_tests_updated_at();
 
+-- Function to recompute a farm's verified versions from its test reports
+-- A platform + version is verified when someone reports it working and working reports outnumber failures
+CREATE OR REPLACE FUNCTION update_farm_verified_versions()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_farm UUID := COALESCE(NEW.farm_id, OLD.farm_id);
+BEGIN
+  UPDATE farms
+  SET verified_versions = COALESCE((
+    SELECT ARRAY_AGG(label ORDER BY label)
+    FROM (
+      SELECT TRIM(COALESCE(tested_platform, '') || ' ' || tested_version) AS label
+      FROM farm_tests
+      WHERE farm_id = target_farm AND tested_version IS NOT NULL
+      GROUP BY tested_platform, tested_version
+      HAVING COUNT(*) FILTER (WHERE test_result = 'works') > 0
+        AND COUNT(*) FILTER (WHERE test_result IN ('works', 'works_with_issues'))
+          > COUNT(*) FILTER (WHERE test_result = 'does_not_work')
+    ) verified
+  ), ARRAY[]::TEXT[])
+  WHERE id = target_farm;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to keep verified versions in sync with test reports
+CREATE TRIGGER update_farm_verified_versions_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON farm_tests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_farm_verified_versions();
+
+-- Function to snapshot farm content on insert and on every content change
+CREATE OR REPLACE FUNCTION snapshot_farm_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_fields TEXT[] := ARRAY['id', 'author_id', 'upvotes_count', 'verified_versions', 'created_at', 'updated_at', 'search_vector'];
+  new_snapshot JSONB := to_jsonb(NEW) - ignored_fields;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (to_jsonb(OLD) - ignored_fields) = new_snapshot THEN
+      RETURN NEW;
+    END IF;
+
+    -- Farms created before revisions existed get their previous state recorded first
+    IF NOT EXISTS (SELECT 1 FROM farm_revisions WHERE farm_id = NEW.id) THEN
+      INSERT INTO farm_revisions (farm_id, snapshot, edited_by, created_at)
+      VALUES (OLD.id, to_jsonb(OLD) - ignored_fields, OLD.author_id, COALESCE(OLD.updated_at, OLD.created_at));
+    END IF;
+  END IF;
+
+  INSERT INTO farm_revisions (farm_id, snapshot, edited_by)
+  VALUES (NEW.id, new_snapshot, COALESCE(auth.uid(), NEW.author_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to record farm revisions
+CREATE TRIGGER snapshot_farm_revision_trigger
+  AFTER INSERT OR UPDATE ON farms
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_farm_revision();
+
+-- Compares version numbers part by part; missing parts count as 0, so {1,21} equals {1,21,0}
+CREATE OR REPLACE FUNCTION compare_version_parts(a INT[], b INT[])
+RETURNS INT AS $$
+DECLARE
+  i INT;
+BEGIN
+  FOR i IN 1..GREATEST(COALESCE(array_length(a, 1), 0), COALESCE(array_length(b, 1), 0)) LOOP
+    IF COALESCE(a[i], 0) > COALESCE(b[i], 0) THEN
+      RETURN 1;
+    ELSIF COALESCE(a[i], 0) < COALESCE(b[i], 0) THEN
+      RETURN -1;
+    END IF;
+  END LOOP;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Parses one `versions` entry ("Java 1.21.1", "1.20–1.21.4", "1.20+", "All versions") into an inclusive range
+-- Mirrors parseVersionRange in src/lib/minecraftVersions.ts
+CREATE OR REPLACE FUNCTION parse_version_range(
+  entry TEXT,
+  OUT edition TEXT,
+  OUT min_version INT[],
+  OUT max_version INT[],
+  OUT parsed BOOLEAN
+) AS $$
+DECLARE
+  token_pattern CONSTANT TEXT := '[0-9]+\.[0-9]+(?:\.[0-9]+)?(?:\.x)?';
+  rest TEXT := lower(COALESCE(entry, ''));
+  tokens TEXT[];
+  separators TEXT[];
+  swapped INT[];
+BEGIN
+  parsed := false;
+
+  IF rest ~ '(^|[^a-z])(java( +edition)?|je)([^a-z]|$)' THEN
+    edition := 'java';
+    rest := regexp_replace(rest, '(^|[^a-z])(java( +edition)?|je)([^a-z]|$)', '\1 \4', 'g');
+  END IF;
+  IF rest ~ '(^|[^a-z])(bedrock( +edition)?|be|mcpe|pocket( +edition)?)([^a-z]|$)' THEN
+    edition := 'bedrock';
+    rest := regexp_replace(rest, '(^|[^a-z])(bedrock( +edition)?|be|mcpe|pocket( +edition)?)([^a-z]|$)', '\1 \5', 'g');
+  END IF;
+  rest := btrim(regexp_replace(regexp_replace(rest, '[():,]', ' ', 'g'), '\s+', ' ', 'g'));
+
+  IF rest ~ '^(all|any)( versions?)?$' OR (rest = '' AND edition IS NOT NULL) THEN
+    parsed := true;
+    RETURN;
+  END IF;
+
+  SELECT array_agg(m[1]) INTO tokens
+  FROM regexp_matches(rest, '([0-9]+\.[0-9]+(?:\.[0-9]+)?)(?:\.x)?', 'g') AS m;
+  separators := regexp_split_to_array(rest, token_pattern);
+
+  IF array_length(tokens, 1) = 1 AND btrim(separators[1]) = '' THEN
+    IF btrim(separators[2]) = '' THEN
+      min_version := string_to_array(tokens[1], '.')::INT[];
+      max_version := min_version;
+      parsed := true;
+    ELSIF separators[2] ~ '^\s*(\+|and\s+(up|above|newer|later)|or\s+(newer|later|above))\s*$' THEN
+      min_version := string_to_array(tokens[1], '.')::INT[];
+      parsed := true;
+    END IF;
+  ELSIF array_length(tokens, 1) = 2 AND btrim(separators[1]) = '' AND btrim(separators[3]) = ''
+    AND separators[2] ~ '^\s*(-|–|—|to|through|until)\s*$' THEN
+    min_version := string_to_array(tokens[1], '.')::INT[];
+    max_version := string_to_array(tokens[2], '.')::INT[];
+    IF compare_version_parts(min_version, max_version) > 0 THEN
+      swapped := min_version;
+      min_version := max_version;
+      max_version := swapped;
+    END IF;
+    parsed := true;
+  END IF;
+
+  IF NOT parsed THEN
+    edition := NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whether a farm is listed as working on a version; mirrors isFarmCompatible in src/lib/minecraftVersions.ts
+CREATE OR REPLACE FUNCTION farm_supports_version(
+  farm_versions TEXT[],
+  farm_platforms TEXT[],
+  query_edition TEXT,
+  query_version INT[]
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  editions TEXT[];
+  default_edition TEXT;
+  entry TEXT;
+  entry_range RECORD;
+  entry_edition TEXT;
+  any_parsed BOOLEAN := false;
+BEGIN
+  SELECT array_agg(DISTINCT e.edition) INTO editions
+  FROM unnest(COALESCE(farm_platforms, ARRAY[]::TEXT[])) AS p, parse_version_range(p) AS e
+  WHERE e.edition IS NOT NULL;
+
+  IF query_edition IS NOT NULL AND array_length(editions, 1) > 0 AND NOT (query_edition = ANY(editions)) THEN
+    RETURN false;
+  END IF;
+  IF array_length(editions, 1) = 1 THEN
+    default_edition := editions[1];
+  END IF;
+
+  FOREACH entry IN ARRAY COALESCE(farm_versions, ARRAY[]::TEXT[]) LOOP
+    SELECT * INTO entry_range FROM parse_version_range(entry);
+    CONTINUE WHEN NOT entry_range.parsed;
+    any_parsed := true;
+
+    entry_edition := COALESCE(entry_range.edition, default_edition);
+    CONTINUE WHEN entry_edition IS NOT NULL AND query_edition IS NOT NULL AND entry_edition <> query_edition;
+    CONTINUE WHEN entry_range.min_version IS NOT NULL
+      AND compare_version_parts(query_version, entry_range.min_version) < 0;
+    -- An upper bound written as "1.21" covers every 1.21.x release
+    CONTINUE WHEN entry_range.max_version IS NOT NULL
+      AND compare_version_parts(query_version[1:array_length(entry_range.max_version, 1)], entry_range.max_version) > 0;
+
+    RETURN true;
+  END LOOP;
+
+  -- Farms that list no recognisable versions aren't restricted
+  RETURN NOT any_parsed;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Newest version a farm lists, for sorting
+CREATE OR REPLACE FUNCTION farm_newest_version(farm_versions TEXT[])
+RETURNS INT[] AS $$
+  SELECT MAX(COALESCE(r.max_version, r.min_version))
+  FROM unnest(COALESCE(farm_versions, ARRAY[]::TEXT[])) AS v, parse_version_range(v) AS r
+  WHERE r.parsed;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fastest items per hour in a farm's drop rates, for sorting
+-- Entries without items_per_hour fall back to the first number in the rate text ("~2000/h" -> 2000)
+CREATE OR REPLACE FUNCTION farm_max_drop_rate(drop_rates JSONB)
+RETURNS NUMERIC AS $$
+  SELECT MAX(
+    CASE WHEN jsonb_typeof(d->'items_per_hour') = 'number'
+      THEN (d->>'items_per_hour')::NUMERIC
+      ELSE substring(regexp_replace(d->>'rate', '[^0-9.]', '', 'g') FROM '^[0-9]*\.?[0-9]+')::NUMERIC
+    END
+  )
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(drop_rates) = 'array' THEN drop_rates ELSE '[]'::jsonb END) AS d;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fastest drop rate per raw resource; null for farms without raw_material_count, as in getEfficiencyScore
+-- With include_build_time, every minute of building costs one stack of resources (BUILD_MINUTE_COST in src/lib/efficiency.ts)
+-- `materials` is no longer read, but stays in the signature that search_farms calls
+CREATE OR REPLACE FUNCTION farm_efficiency(
+  drop_rates JSONB,
+  raw_count INT,
+  materials JSONB,
+  build_minutes INT,
+  include_build_time BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC AS $$
+  SELECT farm_max_drop_rate(drop_rates) / (
+    NULLIF(raw_count, 0)
+    + CASE WHEN include_build_time THEN COALESCE(build_minutes, 0) * 64 ELSE 0 END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Build time bucket for the estimated_time facet; keep in sync with BUILD_TIME_BUCKETS in src/lib/farmSearch.ts
+CREATE OR REPLACE FUNCTION build_time_bucket(minutes INT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN minutes IS NULL THEN NULL
+    WHEN minutes < 30 THEN 'under_30m'
+    WHEN minutes <= 120 THEN '30m_2h'
+    ELSE 'over_2h'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Material count bucket (number of required materials); keep in sync with MATERIAL_COUNT_BUCKETS
+CREATE OR REPLACE FUNCTION material_count_bucket(materials JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(materials) IS DISTINCT FROM 'array' THEN NULL
+    WHEN jsonb_array_length(materials) = 0 THEN NULL
+    WHEN jsonb_array_length(materials) < 10 THEN 'under_10'
+    WHEN jsonb_array_length(materials) <= 25 THEN '10_25'
+    ELSE 'over_25'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Public farms matching the text query and tag, with one flag per facet filter
+-- search_farms keeps rows where every flag is true; search_farm_facets counts each facet
+-- against the rows that pass every other filter
+CREATE OR REPLACE FUNCTION farm_search_matches(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (
+  farm_id UUID,
+  match_rank REAL,
+  platform_ok BOOLEAN,
+  category_ok BOOLEAN,
+  version_ok BOOLEAN,
+  biome_ok BOOLEAN,
+  build_time_ok BOOLEAN,
+  material_count_ok BOOLEAN,
+  schematic_ok BOOLEAN,
+  video_ok BOOLEAN,
+  item_ok BOOLEAN,
+  verified_ok BOOLEAN
+) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(search_query), '') AS query_text,
+      CASE WHEN NULLIF(btrim(search_query), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', search_query)
+      END AS query_ts
+  )
+  SELECT
+    f.id,
+    CASE WHEN p.query_text IS NULL THEN 0
+      -- Weighted tsvector rank, plus trigram similarity so typos like "sugarcaen" still match
+      ELSE COALESCE(ts_rank_cd(f.search_vector, p.query_ts, 32), 0) + word_similarity(lower(p.query_text), s.search_text)
+    END::REAL,
+    -- Flags are never NULL, so a farm missing a field simply fails that filter
+    COALESCE(filter_platform IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(f.platform) AS pl WHERE lower(pl) = lower(filter_platform)
+    ), false),
+    COALESCE(filter_category IS NULL OR f.category = filter_category, false),
+    COALESCE(filter_version IS NULL OR farm_supports_version(f.versions, f.platform, filter_edition, filter_version), false),
+    COALESCE(filter_biome IS NULL OR lower(btrim(f.required_biome)) = lower(filter_biome), false),
+    COALESCE(filter_build_time IS NULL OR build_time_bucket(f.estimated_time) = filter_build_time, false),
+    COALESCE(filter_material_count IS NULL OR material_count_bucket(f.materials) = filter_material_count, false),
+    COALESCE(filter_has_schematic IS NULL OR (COALESCE(f.schematic_url, '') <> '') = filter_has_schematic, false),
+    COALESCE(filter_has_video IS NULL OR (COALESCE(f.video_url, '') <> '') = filter_has_video, false),
+    COALESCE(filter_item IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(f.farmable_items) AS item WHERE lower(item) = lower(filter_item)
+    ), false),
+    COALESCE(filter_verified IS NULL OR (COALESCE(array_length(f.verified_versions, 1), 0) > 0) = filter_verified, false)
+  FROM farms f
+  CROSS JOIN params p
+  CROSS JOIN LATERAL (
+    SELECT lower(
+      COALESCE(f.title, '') || ' ' ||
+      COALESCE(array_to_string(f.tags, ' '), '') || ' ' ||
+      COALESCE(array_to_string(f.farmable_items, ' '), '')
+    ) AS search_text
+  ) s
+  WHERE f.public = true
+    AND (p.query_text IS NULL OR f.search_vector @@ p.query_ts OR lower(p.query_text) <% s.search_text)
+    AND (filter_tag IS NULL OR lower(filter_tag) = ANY(f.tags));
+$$ LANGUAGE sql STABLE;
+
+-- Ranked, filtered and paginated search over public farms
+-- Each row carries the farm (with its author under `users`), its relevance and the total number of matches
+CREATE OR REPLACE FUNCTION search_farms(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_size INT DEFAULT 24,
+  page_offset INT DEFAULT 0
+)
+RETURNS TABLE (farm JSONB, rank REAL, total_count BIGINT) AS $$
+  SELECT
+    (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+      'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+    ),
+    m.match_rank,
+    COUNT(*) OVER ()
+  FROM farm_search_matches(
+    search_query, filter_platform, filter_tag, filter_category, filter_edition, filter_version,
+    filter_biome, filter_build_time, filter_material_count, filter_has_schematic, filter_has_video,
+    filter_item, filter_verified
+  ) m
+  JOIN farms f ON f.id = m.farm_id
+  LEFT JOIN users u ON u.id = f.author_id
+  WHERE m.platform_ok AND m.category_ok AND m.version_ok AND m.biome_ok AND m.build_time_ok
+    AND m.material_count_ok AND m.schematic_ok AND m.video_ok AND m.item_ok AND m.verified_ok
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.match_rank END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('upvotes', 'upvotes_desc') THEN f.upvotes_count END DESC NULLS LAST,
+    CASE WHEN sort_by = 'upvotes_asc' THEN f.upvotes_count END ASC NULLS LAST,
+    CASE WHEN sort_by = 'oldest' THEN f.created_at END ASC NULLS LAST,
+    CASE WHEN sort_by = 'title' THEN f.title END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_asc' THEN f.estimated_time END ASC NULLS LAST,
+    CASE WHEN sort_by = 'build_time_desc' THEN f.estimated_time END DESC NULLS LAST,
+    CASE WHEN sort_by IN ('resources_asc', 'resources_desc') THEN
+      jsonb_array_length(COALESCE(f.materials, '[]'::jsonb)) + jsonb_array_length(COALESCE(f.optional_materials, '[]'::jsonb))
+    END * CASE WHEN sort_by = 'resources_desc' THEN -1 ELSE 1 END ASC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_desc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'drop_rate_asc' THEN farm_max_drop_rate(f.drop_rate_per_hour) END ASC NULLS LAST,
+    CASE WHEN sort_by IN ('efficiency_desc', 'efficiency_time_desc') THEN
+      farm_efficiency(f.drop_rate_per_hour, f.raw_material_count, f.materials, f.estimated_time, sort_by = 'efficiency_time_desc')
+    END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_newest' THEN farm_newest_version(f.versions) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'version_oldest' THEN farm_newest_version(f.versions) END ASC NULLS LAST,
+    f.created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Live counts for every facet value under the current query and filters
+-- A facet's counts ignore its own filter, so they show what picking another value would return
+CREATE OR REPLACE FUNCTION search_farm_facets(
+  search_query TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_edition TEXT DEFAULT NULL,
+  filter_version INT[] DEFAULT NULL,
+  filter_biome TEXT DEFAULT NULL,
+  filter_build_time TEXT DEFAULT NULL,
+  filter_material_count TEXT DEFAULT NULL,
+  filter_has_schematic BOOLEAN DEFAULT NULL,
+  filter_has_video BOOLEAN DEFAULT NULL,
+  filter_item TEXT DEFAULT NULL,
+  filter_verified BOOLEAN DEFAULT NULL,
+  facet_versions TEXT[] DEFAULT ARRAY[]::TEXT[]
+)
+RETURNS JSONB AS $$
+  WITH m AS (
+    SELECT
+      matches.*,
+      f.platform, f.category, f.versions, f.required_biome, f.estimated_time, f.materials,
+      f.schematic_url, f.video_url, f.farmable_items, f.verified_versions,
+      -- Number of facet filters this farm fails
+      (NOT matches.platform_ok)::INT + (NOT matches.category_ok)::INT + (NOT matches.version_ok)::INT
+        + (NOT matches.biome_ok)::INT + (NOT matches.build_time_ok)::INT + (NOT matches.material_count_ok)::INT
+        + (NOT matches.schematic_ok)::INT + (NOT matches.video_ok)::INT + (NOT matches.item_ok)::INT
+        + (NOT matches.verified_ok)::INT AS failures
+    FROM farm_search_matches(
+      search_query, filter_platform, filter_tag, filter_category, filter_edition, filter_version,
+      filter_biome, filter_build_time, filter_material_count, filter_has_schematic, filter_has_video,
+      filter_item, filter_verified
+    ) matches
+    JOIN farms f ON f.id = matches.farm_id
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM m WHERE failures = 0),
+    'platform', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT pl AS value, COUNT(*) AS n
+        FROM m, unnest(m.platform) AS pl
+        WHERE pl IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT platform_ok))
+        GROUP BY pl
+      ) counts
+    ),
+    'category', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT category AS value, COUNT(*) AS n
+        FROM m
+        WHERE category IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT category_ok))
+        GROUP BY category
+      ) counts
+    ),
+    'version', (
+      SELECT COALESCE(jsonb_object_agg(v, n), '{}'::jsonb) FROM (
+        SELECT v, COUNT(m.farm_id) FILTER (
+          WHERE farm_supports_version(m.versions, m.platform, filter_edition, string_to_array(v, '.')::INT[])
+        ) AS n
+        FROM unnest(facet_versions) AS v
+        LEFT JOIN m ON m.failures = 0 OR (m.failures = 1 AND NOT m.version_ok)
+        GROUP BY v
+      ) counts
+    ),
+    'biome', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT MIN(btrim(required_biome)) AS value, COUNT(*) AS n
+        FROM m
+        WHERE COALESCE(btrim(required_biome), '') <> '' AND (failures = 0 OR (failures = 1 AND NOT biome_ok))
+        GROUP BY lower(btrim(required_biome))
+        ORDER BY n DESC
+        LIMIT 20
+      ) counts
+    ),
+    'build_time', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT build_time_bucket(estimated_time) AS value, COUNT(*) AS n
+        FROM m
+        WHERE estimated_time IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT build_time_ok))
+        GROUP BY 1
+      ) counts
+    ),
+    'material_count', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT material_count_bucket(materials) AS value, COUNT(*) AS n
+        FROM m
+        WHERE material_count_bucket(materials) IS NOT NULL AND (failures = 0 OR (failures = 1 AND NOT material_count_ok))
+        GROUP BY 1
+      ) counts
+    ),
+    'item', (
+      SELECT COALESCE(jsonb_object_agg(value, n), '{}'::jsonb) FROM (
+        SELECT MIN(item) AS value, COUNT(DISTINCT m.farm_id) AS n
+        FROM m, unnest(m.farmable_items) AS item
+        WHERE COALESCE(btrim(item), '') <> '' AND (failures = 0 OR (failures = 1 AND NOT item_ok))
+        GROUP BY lower(item)
+        ORDER BY n DESC
+        LIMIT 20
+      ) counts
+    ),
+    'has_schematic', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(schematic_url, '') <> '' AND (failures = 0 OR (failures = 1 AND NOT schematic_ok))
+    ),
+    'has_video', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(video_url, '') <> '' AND (failures = 0 OR (failures = 1 AND NOT video_ok))
+    ),
+    'verified', (
+      SELECT COUNT(*) FROM m
+      WHERE COALESCE(array_length(verified_versions, 1), 0) > 0 AND (failures = 0 OR (failures = 1 AND NOT verified_ok))
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Public farms that list an item as farmable or in their drop rates, each with its author under `users`
+-- Names match case-insensitively, as in rankFarmsByItem (src/lib/farmSearch.ts), which ranks the results
+CREATE OR REPLACE FUNCTION farms_by_item(item_name TEXT)
+RETURNS TABLE (farm JSONB) AS $$
+  SELECT
+    (to_jsonb(f) - 'search_vector') || jsonb_build_object(
+      'users', jsonb_build_object('username', u.username, 'avatar_url', u.avatar_url)
+    )
+  FROM farms f
+  LEFT JOIN users u ON u.id = f.author_id
+  WHERE f.public = true
+    AND (
+      EXISTS (SELECT 1 FROM unnest(f.farmable_items) AS item WHERE lower(item) = lower(item_name))
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(f.drop_rate_per_hour) = 'array' THEN f.drop_rate_per_hour ELSE '[]'::jsonb END
+        ) AS d
+        WHERE lower(d->>'item') = lower(item_name)
+      )
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_farms(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT, INT, INT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_farm_facets(TEXT, TEXT, TEXT, TEXT, TEXT, INT[], TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TEXT[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION farms_by_item(TEXT) TO anon, authenticated;
+
+-- What a user has done so far, counted the way the badge rules need it
+CREATE OR REPLACE FUNCTION badge_stats(target_user UUID)
+RETURNS TABLE (farms BIGINT, upvotes BIGINT, tests BIGINT, helpful_reactions BIGINT) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM farms f WHERE f.author_id = target_user AND f.public = true),
+    (SELECT COUNT(*) FROM upvotes u JOIN farms f ON f.id = u.farm_id WHERE f.author_id = target_user),
+    (SELECT COUNT(*) FROM farm_tests t WHERE t.user_id = target_user),
+    (SELECT COUNT(*) FROM comment_reactions r JOIN comments c ON c.id = r.comment_id
+      WHERE c.user_id = target_user AND r.reaction_type = 'helpful');
+$$ LANGUAGE sql STABLE;
+
+-- Awards every badge the user has earned and doesn't have yet, returning the new ones, so it's safe to call any time.
+-- The rules mirror BADGE_TYPES in src/lib/badges.ts
+CREATE OR REPLACE FUNCTION award_badges(target_user UUID)
+RETURNS SETOF user_badges AS $$
+  WITH stats AS (
+    SELECT * FROM badge_stats(target_user)
+  ),
+  rules (badge_type, badge_name, badge_description, metric, threshold) AS (
+    VALUES
+      ('first_farm', 'First Farm', 'Uploaded your first farm', 'farms', 1),
+      ('ten_farms', 'Farm Builder', 'Uploaded 10 farms', 'farms', 10),
+      ('fifty_farms', 'Master Builder', 'Uploaded 50 farms', 'farms', 50),
+      ('hundred_upvotes', 'Popular Creator', 'Received 100 upvotes on your farms', 'upvotes', 100),
+      ('first_test', 'Tester', 'Tested your first farm', 'tests', 1),
+      ('ten_tests', 'Quality Tester', 'Tested 10 farms', 'tests', 10),
+      ('helpful_comment', 'Helpful', 'Received 10 helpful reactions on comments', 'helpful_reactions', 10)
+  )
+  INSERT INTO user_badges (user_id, badge_type, badge_name, badge_description)
+  SELECT target_user, r.badge_type, r.badge_name, r.badge_description
+  FROM rules r, stats s
+  WHERE EXISTS (SELECT 1 FROM users WHERE id = target_user)
+    AND CASE r.metric
+      WHEN 'farms' THEN s.farms
+      WHEN 'upvotes' THEN s.upvotes
+      WHEN 'tests' THEN s.tests
+      ELSE s.helpful_reactions
+    END >= r.threshold
+  ON CONFLICT (user_id, badge_type) DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION badge_stats(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION award_badges(UUID) TO authenticated;
+
 -- Row Level Security (RLS) Policies
 
 -- Enable RLS
@@ -220,6 +834,9 @@ ALTER TABLE following ENABLE ROW LEVEL SECURITY;
 ALTER TABLE comment_reactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
 ALTER TABLE farm_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farm_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE planner_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farm_revisions ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
 CREATE POLICY "Users are viewable by everyone" ON users
@@ -231,6 +848,16 @@ CREATE POLICY "Users can insert own profile" ON users
 CREATE POLICY "Users can update own profile" ON users
   FOR UPDATE USING (auth.uid() = id);
 
+CREATE POLICY "Admins can update any user" ON users
+  FOR UPDATE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can delete any user" ON users
+  FOR DELETE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
 -- Farms policies
 CREATE POLICY "Public farms are viewable by everyone" ON farms
   FOR SELECT USING (public = true OR auth.uid() = author_id);
@@ -241,9 +868,19 @@ CREATE POLICY "Users can insert own farms" ON farms
 CREATE POLICY "Users can update own farms" ON farms
   FOR UPDATE USING (auth.uid() = author_id);
 
+CREATE POLICY "Admins can update any farm" ON farms
+  FOR UPDATE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
 CREATE POLICY "Users can delete own farms" ON farms
   FOR DELETE USING (auth.uid() = author_id);
 
+CREATE POLICY "Admins can delete any farm" ON farms
+  FOR DELETE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
 -- Comments policies
 CREATE POLICY "Comments are viewable by everyone" ON comments
   FOR SELECT USING (true);
@@ -257,6 +894,11 @@ CREATE POLICY "Users can update own comments" ON comments
 CREATE POLICY "Users can delete own comments" ON comments
   FOR DELETE USING (auth.uid() = user_id);
 
+CREATE POLICY "Admins can delete any comment" ON comments
+  FOR DELETE USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
 -- Upvotes policies
 CREATE POLICY "Upvotes are viewable by everyone" ON upvotes
   FOR SELECT USING (true);
@@ -301,8 +943,7 @@ CREATE POLICY "Users can remove own reactions" ON comment_reactions
 CREATE POLICY "User badges are viewable by everyone" ON user_badges
   FOR SELECT USING (true);
 
-CREATE POLICY "System can award badges" ON user_badges
-  FOR INSERT WITH CHECK (true);
+-- Badges are only inserted by award_badges()
 
 -- Farm tests policies
 CREATE POLICY "Farm tests are viewable by everyone" ON farm_tests
@@ -317,6 +958,40 @@ CREATE POLICY "Users can update own test results" ON farm_tests
 CREATE POLICY "Users can delete own test results" ON farm_tests
   FOR DELETE USING (auth.uid() = user_id);
 
+-- Farm progress policies
+CREATE POLICY "Users can view own farm progress" ON farm_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own farm progress" ON farm_progress
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own farm progress" ON farm_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own farm progress" ON farm_progress
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Planner policies
+CREATE POLICY "Users can view own planner" ON planner_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to own planner" ON planner_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own planner" ON planner_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove from own planner" ON planner_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Farm revisions policies (revisions are written only by the trigger)
+CREATE POLICY "Farm revisions are viewable with the farm" ON farm_revisions
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM farms WHERE farms.id = farm_revisions.farm_id AND (farms.public = true OR farms.author_id = auth.uid())
+  ) OR EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
 -- Reports policies
 CREATE POLICY "Users can view own reports" ON reports
   FOR SELECT USING (auth.uid() = reporter_id OR EXISTS (
@@ -331,3 +1006,41 @@ CREATE POLICY "Moderators can update reports" ON reports
     SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('moderator', 'admin')
   ));
 
+-- Storage policies for the farm-images bucket
+-- Allow authenticated users to upload files to their own folder
+CREATE POLICY "Users can upload to own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'farm-images' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Allow authenticated users to update files in their own folder
+CREATE POLICY "Users can update own files"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'farm-images' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+)
+WITH CHECK (
+  bucket_id = 'farm-images' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Allow authenticated users to delete files from their own folder
+CREATE POLICY "Users can delete own files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'farm-images' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Allow public to read all files (for displaying images)
+CREATE POLICY "Public can view images"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'farm-images');
+
@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import { BADGE_TYPES, getBadgeProgress, getNewBadges } from '../src/lib/badges';
+
+const stats = { farms: 3, upvotes: 120, tests: 0, helpful_reactions: 9 };
+
+test.describe('Badges', () => {
+  test('reports progress towards every badge', () => {
+    const progress = Object.fromEntries(getBadgeProgress(stats, ['first_test']).map((entry) => [entry.badge.type, entry]));
+
+    expect(progress.first_farm).toMatchObject({ earned: true, progress: 1 });
+    expect(progress.ten_farms).toMatchObject({ current: 3, earned: false, progress: 0.3 });
+    expect(progress.hundred_upvotes).toMatchObject({ earned: true, progress: 1 });
+    // Awarded badges stay earned
+    expect(progress.first_test).toMatchObject({ current: 0, earned: true });
+    expect(progress.helpful_comment).toMatchObject({ earned: false, progress: 0.9 });
+  });
+
+  test('lists only badges that are earned and not yet awarded', () => {
+    expect(getNewBadges(stats, ['first_farm']).map((badge) => badge.type)).toEqual(['hundred_upvotes']);
+    expect(getNewBadges({ ...stats, farms: 0, upvotes: 0 }, [])).toEqual([]);
+  });
+
+  test('the database awards badges with the same rules', () => {
+    const sql = fs.readFileSync('supabase/schema.sql', 'utf8');
+    const rules = [...sql.matchAll(/\('(\w+)', '([^']+)', '([^']+)', '(\w+)', (\d+)\)/g)].map(
+      ([, type, name, description, metric, threshold]) => ({ type, name, description, metric, threshold: Number(threshold) })
+    );
+
+    expect(rules).toEqual(Object.values(BADGE_TYPES));
+  });
+});
@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import { parseSql, readSchemaSources, renderDatabaseTypes } from '../scripts/dbTypes';
+import { parseFarm, parseMaterials, parseSteps } from '../src/lib/farm';
+
+test.describe('Database type generator', () => {
+  test('reads tables, checks, references and later columns', () => {
+    const schema = parseSql([
+      `CREATE TABLE public.users (id UUID PRIMARY KEY);`,
+      `CREATE TABLE public.things (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+        status TEXT DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+        tags TEXT[] DEFAULT '{}',
+        data JSONB
+      );`,
+      `ALTER TABLE public.things ADD COLUMN IF NOT EXISTS score INTEGER NOT NULL DEFAULT 0;`,
+    ]);
+
+    const things = schema.tables.get('things')!;
+    expect(things.columns.map((column) => column.name)).toEqual(['id', 'owner_id', 'status', 'tags', 'data', 'score']);
+
+    const types = renderDatabaseTypes(schema);
+    expect(types).toContain(`status: 'open' | 'closed' | null;`);
+    expect(types).toContain('tags: string[] | null;');
+    expect(types).toContain('data: Json | null;');
+    expect(types).toContain('score?: number;');
+    expect(types).toContain(`referencedRelation: 'users';`);
+  });
+
+  test('reads function arguments and return types', () => {
+    const schema = parseSql([
+      `CREATE OR REPLACE FUNCTION public.count_things(owner UUID, since TIMESTAMPTZ DEFAULT NULL)
+       RETURNS INTEGER AS $$ SELECT 1 $$ LANGUAGE sql;`,
+      `CREATE FUNCTION public.touch() RETURNS TRIGGER AS $$ BEGIN RETURN NEW; END; $$ LANGUAGE plpgsql;`,
+    ]);
+
+    expect([...schema.functions.keys()]).toEqual(['count_things']);
+    const types = renderDatabaseTypes(schema);
+    expect(types).toContain('owner: string;');
+    expect(types).toContain('since?: string | null;');
+    expect(types).toContain('Returns: number;');
+  });
+
+  test('the committed types match the schema', () => {
+    const generated = renderDatabaseTypes(parseSql(readSchemaSources('supabase')));
+    expect(generated).toBe(fs.readFileSync('src/lib/database.types.ts', 'utf8'));
+  });
+});
+
+test.describe('Farm validation', () => {
+  test('keeps well-formed materials and steps only', () => {
+    expect(parseMaterials([{ name: 'Hopper', count: 4 }, { item: 'Chest', count: '2' }, { name: 'Bad' }, 'junk'])).toEqual([
+      { name: 'Hopper', count: 4 },
+      { name: 'Chest', count: 2 },
+    ]);
+    expect(parseSteps([{ title: 'Dig' }, { description: 'Place hoppers', order: 5 }, {}])).toEqual([
+      { title: 'Dig', description: '', order: 0 },
+      { title: '', description: 'Place hoppers', order: 5 },
+    ]);
+  });
+
+  test('fills in missing JSONB and array columns', () => {
+    const farm = parseFarm({ id: 'farm', title: 'Farm', materials: null, tags: ['iron', 3], search_vector: 'x' });
+
+    expect(farm).toMatchObject({ materials: [], steps: [], drop_rate_per_hour: [], tags: ['iron'], platform: [] });
+    expect(farm).not.toHaveProperty('search_vector');
+  });
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { normalizeDropRate, parseDropRate, parseDropRatesText, validateDropRate } from '../src/lib/dropRates';
+
+test.describe('Drop rates', () => {
+  test('converts rates to items per hour', () => {
+    expect(parseDropRate('~2.4k/h AFK')).toBe(2400);
+    expect(parseDropRate('60 per minute')).toBe(3600);
+    expect(parseDropRate('3,600/h, looting 3')).toBe(3600);
+    // Ranges use their midpoint, and share a trailing suffix
+    expect(parseDropRate('2000-3000/h')).toBe(2500);
+    expect(parseDropRate('2-3k/h')).toBe(2500);
+    expect(parseDropRate(12)).toBe(12);
+    expect(parseDropRate('none')).toBeNull();
+  });
+
+  test('counts stacks with the item stack size', () => {
+    expect(parseDropRate('3 stacks/hour', 'Glass')).toBe(192);
+    expect(parseDropRate('3 stacks/hour', 'Ender Pearl')).toBe(48);
+    // A Minecraft day is 20 minutes
+    expect(parseDropRate('1 shulker per mc day', 'Glass')).toBe(27 * 64 * 3);
+  });
+
+  test('reads the conditions written into a rate', () => {
+    expect(normalizeDropRate({ item: ' Iron Ingot ', rate: '40k/h AFK, looting III, 4 players, sim distance 10' })).toEqual({
+      item: 'Iron Ingot',
+      rate: '40k/h AFK, looting III, 4 players, sim distance 10',
+      items_per_hour: 40000,
+      conditions: { mode: 'afk', looting: 3, players: 4, simulation_distance: 10 },
+    });
+  });
+
+  test('keeps numbers and conditions that were given explicitly', () => {
+    expect(normalizeDropRate({ item: 'Gold Ingot', rate: '100/h solo', items_per_hour: 50, conditions: { players: 2 } })).toEqual({
+      item: 'Gold Ingot',
+      rate: '100/h solo',
+      items_per_hour: 50,
+      conditions: { players: 2 },
+    });
+  });
+
+  test('reads bulk text and flags impossible conditions', () => {
+    expect(parseDropRatesText('Iron Ingot: 3600/hour AFK; Gold Nugget: 5400/hour | Poppy')).toEqual([
+      { item: 'Iron Ingot', rate: '3600/hour AFK', items_per_hour: 3600, conditions: { mode: 'afk' } },
+      { item: 'Gold Nugget', rate: '5400/hour', items_per_hour: 5400 },
+      { item: 'Poppy', rate: '', items_per_hour: null },
+    ]);
+    expect(validateDropRate(normalizeDropRate({ item: 'Bone', rate: '10/h looting 5, sd 40' }))).toEqual([
+      'Bone: looting level must be between 0 and 3',
+      'Bone: simulation distance must be between 2 and 32',
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import { createFarmsApiHandler } from '../serverless/farms-api/handler';
+import { createMemorySource } from '../serverless/farms-api/sources';
+import { mockFarms } from '../src/lib/demoData';
+
+// Runs the API handler directly against the demo farms; no browser or network needed
+const handleRequest = createFarmsApiHandler(createMemorySource(mockFarms), { siteUrl: 'https://farms.test' });
+const get = (path: string, headers: Record<string, string> = {}) =>
+  handleRequest(new Request(`https://api.test${path}`, { headers }));
+
+test.describe('Farms API', () => {
+  test('lists farms with pagination links', async () => {
+    const response = await get('/v1/farms?per_page=2');
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body.data).toHaveLength(2);
+    expect(body.pagination).toMatchObject({ page: 1, per_page: 2, total: mockFarms.length });
+    expect(body.links.next).toContain('page=2');
+    expect(body.links.prev).toBeNull();
+  });
+
+  test('gets a farm by slug with stable field names', async () => {
+    const farm = mockFarms[0];
+    const body = await (await get(`/v1/farms/${farm.slug}`)).json();
+    expect(body.data).toMatchObject({ slug: farm.slug, title: farm.title, platforms: farm.platform });
+    expect(body.data).not.toHaveProperty('upvotes_count');
+    expect(body.data.url).toBe(`https://farms.test/farms/${farm.platform[0]}/${farm.slug}`);
+  });
+
+  test('answers unchanged content with 304', async () => {
+    const first = await get('/v1/farms');
+    const etag = first.headers.get('ETag');
+    expect(etag).toBeTruthy();
+
+    const second = await get('/v1/farms', { 'If-None-Match': etag! });
+    expect(second.status).toBe(304);
+  });
+
+  test('rejects bad input with a JSON error', async () => {
+    expect((await get('/v1/farms?per_page=1000')).status).toBe(400);
+    expect((await get('/v1/farms?sort=random')).status).toBe(400);
+    expect((await get('/v1/search')).status).toBe(400);
+    expect((await get('/v1/farms/no-such-farm')).status).toBe(404);
+    expect((await get('/v1/categories/no-such-category/farms')).status).toBe(404);
+    expect(await (await get('/v1/farms/no-such-farm')).json()).toHaveProperty('error');
+  });
+});
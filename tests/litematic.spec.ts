@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import * as zlib from 'zlib';
+import { parseNbt } from '../src/lib/nbt';
+import { readSchematicFile } from '../src/lib/schematicReaders';
+
+// Just enough NBT to write a schematic: numbers are ints, arrays are lists of compounds
+type FixtureValue = number | string | BigInt64Array | FixtureCompound[] | FixtureCompound;
+interface FixtureCompound {
+  [key: string]: FixtureValue;
+}
+
+function writeNbt(root: FixtureCompound): Uint8Array {
+  const chunks: Buffer[] = [];
+  const int = (value: number) => {
+    const chunk = Buffer.alloc(4);
+    chunk.writeInt32BE(value);
+    chunks.push(chunk);
+  };
+  const string = (value: string) => {
+    const bytes = Buffer.from(value, 'utf8');
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(bytes.length);
+    chunks.push(length, bytes);
+  };
+  const tagType = (value: FixtureValue) =>
+    typeof value === 'number' ? 3 : typeof value === 'string' ? 8 : value instanceof BigInt64Array ? 12 : Array.isArray(value) ? 9 : 10;
+  const payload = (value: FixtureValue) => {
+    if (typeof value === 'number') {
+      int(value);
+    } else if (typeof value === 'string') {
+      string(value);
+    } else if (value instanceof BigInt64Array) {
+      int(value.length);
+      value.forEach((long) => {
+        const chunk = Buffer.alloc(8);
+        chunk.writeBigInt64BE(long);
+        chunks.push(chunk);
+      });
+    } else if (Array.isArray(value)) {
+      chunks.push(Buffer.from([10]));
+      int(value.length);
+      value.forEach(payload);
+    } else {
+      Object.entries(value).forEach(([key, child]) => {
+        chunks.push(Buffer.from([tagType(child)]));
+        string(key);
+        payload(child);
+      });
+      chunks.push(Buffer.from([0]));
+    }
+  };
+
+  chunks.push(Buffer.from([10]));
+  string('');
+  payload(root);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// Packs palette indices the way Litematica does: low bits first, running on into the next long
+function packBlockStates(indices: number[], bits: number): BigInt64Array {
+  const longs = new BigInt64Array(Math.ceil((indices.length * bits) / 64));
+  indices.forEach((value, index) => {
+    for (let bit = 0; bit < bits; bit++) {
+      if (value & (1 << bit)) {
+        const offset = index * bits + bit;
+        longs[Math.floor(offset / 64)] |= 1n << BigInt(offset % 64);
+      }
+    }
+  });
+  return longs;
+}
+
+const PALETTE: FixtureCompound[] = [
+  { Name: 'minecraft:air' },
+  { Name: 'minecraft:stone' },
+  { Name: 'minecraft:glass' },
+  { Name: 'minecraft:oak_slab', Properties: { type: 'double' } },
+  { Name: 'minecraft:hopper', Properties: { facing: 'down' } },
+];
+// 27 entries of 3 bits, so entry 21 (a 3) is split between the first and second long
+const INDICES = Array.from({ length: 27 }, (_, index) => (index * 3) % PALETTE.length);
+
+const litematic = (region: FixtureCompound): FixtureCompound => ({
+  MinecraftDataVersion: 3953,
+  Version: 6,
+  Metadata: { Name: 'Test Farm', Author: 'Builder' },
+  Regions: { Main: region },
+});
+
+const cube = (blockStates: BigInt64Array): FixtureCompound => ({
+  Position: { x: 0, y: 0, z: 0 },
+  Size: { x: 3, y: 3, z: 3 },
+  BlockStatePalette: PALETTE,
+  BlockStates: blockStates,
+});
+
+test.describe('Litematica schematics', () => {
+  test('reads the NBT it is given', () => {
+    const { name, value } = parseNbt(writeNbt({ Name: 'Test', Size: { x: -2 }, States: new BigInt64Array([-1n]) }));
+
+    expect(name).toBe('');
+    expect(value).toEqual({ Name: 'Test', Size: { x: -2 }, States: new BigInt64Array([-1n]) });
+    expect(() => parseNbt(writeNbt({ Name: 'Test' }).slice(0, -3))).toThrow('Unexpected end of NBT data');
+  });
+
+  test('unpacks block states that span two longs from a gzipped file', async () => {
+    const file = zlib.gzipSync(writeNbt(litematic(cube(packBlockStates(INDICES, 3)))));
+    const { format, schematic, error } = await readSchematicFile(new Uint8Array(file));
+
+    expect({ format, error }).toEqual({ format: 'litematic', error: null });
+    expect(schematic).toMatchObject({ name: 'Test Farm', author: 'Builder', width: 3, height: 3, length: 3 });
+    expect(Array.from(schematic!.blocks)).toEqual(INDICES);
+    expect(schematic!.palette[schematic!.blocks[21]]).toEqual({ name: 'minecraft:oak_slab', properties: { type: 'double' } });
+  });
+
+  test('places regions with negative sizes before their position', async () => {
+    const region = { ...cube(packBlockStates(INDICES, 3)), Position: { x: 2, y: 0, z: 0 }, Size: { x: -3, y: 3, z: 3 } };
+    const { schematic } = await readSchematicFile(writeNbt(litematic(region)));
+
+    expect(Array.from(schematic!.blocks)).toEqual(INDICES);
+  });
+
+  test('reports truncated block data', async () => {
+    const { schematic, error } = await readSchematicFile(writeNbt(litematic(cube(packBlockStates(INDICES, 3).slice(0, 1)))));
+
+    expect(schematic).toBeNull();
+    expect(error).toBe('Litematic block data is truncated');
+  });
+});
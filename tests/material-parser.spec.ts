@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { matchMaterialName, parseMaterialsFromText, quantityToCount } from '../src/lib/materialParser';
+
+const counts = (text: string) => parseMaterialsFromText(text).added.map(({ name, count }) => ({ name, count }));
+
+test.describe('Material parser', () => {
+  test('adds loose items to stacks of the matched item', () => {
+    expect(counts('3 stacks + 12 Glass')).toEqual([{ name: 'Glass', count: 204 }]);
+    expect(counts('2s+5 Sand')).toEqual([{ name: 'Sand', count: 133 }]);
+    expect(counts('Glass - 3 stacks')).toEqual([{ name: 'Glass', count: 192 }]);
+  });
+
+  test('uses the stack size of the item', () => {
+    expect(counts('1 stack of ender pearls')).toEqual([{ name: 'Ender Pearl', count: 16 }]);
+    expect(counts('1.5 stacks Hoppers')).toEqual([{ name: 'Hopper', count: 96 }]);
+    expect(counts('2 shulkers of Cobblestone; 1 dc Glass')).toEqual([
+      { name: 'Cobblestone', count: 2 * 27 * 64 },
+      { name: 'Glass', count: 54 * 64 },
+    ]);
+    expect(counts('3 dcs Glass')).toEqual([{ name: 'Glass', count: 3 * 54 * 64 }]);
+  });
+
+  test('only allows fractions of stacks', () => {
+    expect(parseMaterialsFromText('1.5 Hoppers')).toEqual({ added: [], ambiguous: [], failed: ['1.5 Hoppers'] });
+  });
+
+  test('reads list formats and keeps the original line', () => {
+    expect(parseMaterialsFromText('- 93 Cobbled Deepslate, [x] 59x Scaffolding\nRedstone Torch: 4').added).toEqual([
+      { name: 'Cobbled Deepslate', count: 93, line: '- 93 Cobbled Deepslate' },
+      { name: 'Scaffolding', count: 59, line: '[x] 59x Scaffolding' },
+      { name: 'Redstone Torch', count: 4, line: 'Redstone Torch: 4' },
+    ]);
+    // "Shulker Boxes" is the item here, not a unit
+    expect(counts('3 Shulker Boxes')).toEqual([{ name: 'Shulker Box', count: 3 }]);
+  });
+
+  test('matches aliases and asks about unclear names', () => {
+    expect(counts('10 rs')).toEqual([{ name: 'Redstone Dust', count: 10 }]);
+    expect(matchMaterialName('ender perl').name).toBe('Ender Pearl');
+
+    const { ambiguous, failed } = parseMaterialsFromText('2 stacks oak\nzzz');
+    expect(ambiguous).toHaveLength(1);
+    expect(ambiguous[0].candidates.map((candidate) => candidate.name)).toContain('Oak Log');
+    expect(quantityToCount(ambiguous[0].quantity, 'Oak Boat')).toBe(2);
+    expect(failed).toEqual(['zzz']);
+  });
+});
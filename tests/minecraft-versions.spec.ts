@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import {
+  getNewestListedVersion,
+  isFarmCompatible,
+  normalizeVersionLabel,
+  parseMinecraftVersion,
+  parseVersionRange,
+  rangeIncludes,
+} from '../src/lib/minecraftVersions';
+
+const version = (text: string) => parseMinecraftVersion(text)!;
+
+test.describe('Minecraft versions', () => {
+  test('parses exact, bounded, open and unrestricted ranges', () => {
+    expect(parseVersionRange('Java 1.21.1')).toEqual({ edition: 'java', min: [1, 21, 1], max: [1, 21, 1] });
+    expect(parseVersionRange('1.20 - 1.21.4')).toEqual({ edition: null, min: [1, 20], max: [1, 21, 4] });
+    // Reversed bounds are swapped
+    expect(parseVersionRange('1.21.4 to 1.20')).toEqual({ edition: null, min: [1, 20], max: [1, 21, 4] });
+    expect(parseVersionRange('Bedrock 1.19 and up')).toEqual({ edition: 'bedrock', min: [1, 19], max: null });
+    expect(parseVersionRange('All versions')).toEqual({ edition: null, min: null, max: null });
+    expect(parseVersionRange('Java')).toEqual({ edition: 'java', min: null, max: null });
+  });
+
+  test('rejects text that is not one version or range', () => {
+    expect(parseVersionRange('soon')).toBeNull();
+    expect(parseVersionRange('1.20 1.21')).toBeNull();
+    expect(parseMinecraftVersion('1.20+')).toBeNull();
+  });
+
+  test('normalizes labels to one spelling', () => {
+    expect(normalizeVersionLabel('java1.21.1')).toBe('Java 1.21.1');
+    expect(normalizeVersionLabel('1.20 - 1.21.4')).toBe('1.20–1.21.4');
+    expect(normalizeVersionLabel('Bedrock 1.19 or newer')).toBe('Bedrock 1.19+');
+    expect(normalizeVersionLabel(' soon ')).toBe('soon');
+  });
+
+  test('treats a minor version upper bound as the whole line', () => {
+    const range = parseVersionRange('1.20–1.21')!;
+
+    expect(rangeIncludes(range, version('1.21.4'))).toBe(true);
+    expect(rangeIncludes(range, version('1.19.4'))).toBe(false);
+    expect(rangeIncludes(range, version('1.22'))).toBe(false);
+  });
+
+  test('checks farm compatibility against its platforms', () => {
+    expect(isFarmCompatible({ versions: ['1.20+'], platform: ['Java'] }, version('Bedrock 1.21'))).toBe(false);
+    expect(isFarmCompatible({ versions: ['1.20+'], platform: ['Java', 'Bedrock'] }, version('Bedrock 1.21'))).toBe(true);
+    expect(isFarmCompatible({ versions: ['Java 1.18'], platform: ['Java', 'Bedrock'] }, version('1.21'))).toBe(false);
+    // Farms without recognisable versions aren't restricted
+    expect(isFarmCompatible({ versions: ['soon'], platform: [] }, version('1.8'))).toBe(true);
+  });
+
+  test('finds the newest version a farm lists', () => {
+    expect(getNewestListedVersion(['1.18', '1.20+', '1.19–1.21.4'])).toEqual({ edition: null, parts: [1, 21, 4] });
+    expect(getNewestListedVersion(['soon'])).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createMemoryRepos, MemoryPersistence, MemorySnapshot } from '../src/lib/repos/memory';
+import { createSupabaseRepos } from '../src/lib/repos/supabase';
+import type { Database } from '../src/lib/database.types';
+import { mockComments, mockFarms } from '../src/lib/demoData';
+import { getEfficiencyScore, getRawMaterialCount } from '../src/lib/efficiency';
+import type { NewFarm } from '../src/lib/farm';
+
+// A farm with every required column filled in
+const newFarm = (fields: Pick<NewFarm, 'title' | 'slug' | 'author_id'> & Partial<NewFarm>): NewFarm => ({
+  description: '',
+  platform: ['Java'],
+  versions: ['1.21'],
+  ...fields,
+});
+
+// The in-memory repositories stand in for the database in demo mode, so they should behave like it
+test.describe('Memory repositories', () => {
+  test('serves public farms from the seed', async () => {
+    const repos = createMemoryRepos({
+      farms: [...mockFarms, { ...mockFarms[0], id: 'hidden', slug: 'hidden-farm', public: false }],
+    });
+
+    expect(await repos.farms.getBySlug(mockFarms[0].slug)).toMatchObject({ id: mockFarms[0].id });
+    expect(await repos.farms.getBySlug('hidden-farm')).toBeNull();
+    expect(await repos.farms.listNewest(100)).toHaveLength(mockFarms.length);
+    expect(await repos.farms.listAll(100)).toHaveLength(mockFarms.length + 1);
+
+    const { total } = await repos.farms.search({ query: 'sugarcane' });
+    expect(total).toBeGreaterThan(0);
+  });
+
+  test('counts raw materials for seeded farms that have no count, as the backfill does', async () => {
+    const repos = createMemoryRepos({ farms: [{ ...mockFarms[0], raw_material_count: null }] });
+    const farm = await repos.farms.getById(mockFarms[0].id);
+
+    expect(farm?.raw_material_count).toBe(getRawMaterialCount(mockFarms[0].materials));
+    expect(getEfficiencyScore({ ...farm!, raw_material_count: null })).toBeNull();
+  });
+
+  test('keeps upvote counts in step with votes', async () => {
+    const repos = createMemoryRepos();
+    const farm = mockFarms[0];
+
+    await repos.farms.setUpvoted(farm.id, 'voter', true);
+    await repos.farms.setUpvoted(farm.id, 'voter', true);
+    expect(await repos.farms.hasUpvoted(farm.id, 'voter')).toBe(true);
+    const upvoted = await repos.farms.getBySlug(farm.slug);
+    expect(upvoted).not.toBeNull();
+    expect(upvoted!.upvotes_count).toBe(farm.upvotes_count + 1);
+    expect(await repos.farms.listUpvoted('voter')).toHaveLength(1);
+
+    // The seed itself is never changed
+    expect(mockFarms[0].upvotes_count).toBe(farm.upvotes_count);
+  });
+
+  test('threads comments with one reaction per user', async () => {
+    const repos = createMemoryRepos();
+    const [parent] = mockComments;
+
+    await repos.comments.add({ farm_id: parent.farm_id, user_id: 'demo-user', body: 'Thanks!', parent_comment_id: parent.id });
+    await repos.comments.setReaction(parent.id, 'reader', 'like');
+    await repos.comments.setReaction(parent.id, 'reader', 'helpful');
+
+    const threads = await repos.comments.listThreads(parent.farm_id, 'reader');
+    const thread = threads.find((comment) => comment.id === parent.id)!;
+    expect(thread.replies.map((reply) => reply.body)).toEqual(['Thanks!']);
+    expect(thread.replies[0].users?.username).toBe(mockFarms[0].users.username);
+    expect(thread.reactions).toEqual({ like: 0, helpful: 1, userReactions: ['helpful'] });
+
+    await repos.comments.delete(parent.id);
+    const remaining = await repos.comments.listThreads(parent.farm_id);
+    expect(remaining.some((comment) => comment.id === parent.id)).toBe(false);
+    expect((await repos.comments.listRecent(100)).some((comment) => comment.body === 'Thanks!')).toBe(false);
+  });
+
+  test('awards earned badges once', async () => {
+    const repos = createMemoryRepos();
+    const [comment] = mockComments;
+
+    const first = await repos.users.awardBadges(mockFarms[0].author_id);
+    expect(first.map((badge) => badge.badge_type)).toEqual(['first_farm']);
+    expect(await repos.users.awardBadges(mockFarms[0].author_id)).toEqual([]);
+
+    for (let i = 0; i < 10; i++) await repos.comments.setReaction(comment.id, `reader-${i}`, 'helpful');
+    expect(await repos.users.getBadgeStats(comment.user_id)).toMatchObject({ helpful_reactions: 10 });
+    expect((await repos.users.awardBadges(comment.user_id)).map((badge) => badge.badge_type)).toContain('helpful_comment');
+    expect(await repos.users.awardBadges('nobody')).toEqual([]);
+  });
+
+  test('lists reports with their reporter and item', async () => {
+    const repos = createMemoryRepos();
+    const farm = mockFarms[0];
+
+    await repos.reports.create({ item_type: 'farm', item_id: farm.id, reason: 'Spam', reporter_id: farm.author_id });
+    const [report] = await repos.reports.list();
+    expect(report).toMatchObject({
+      status: 'pending',
+      reporter: { username: farm.users.username },
+      item: { id: farm.id, title: farm.title },
+    });
+
+    await repos.reports.setStatus(report.id, 'resolved');
+    expect((await repos.reports.list())[0].status).toBe('resolved');
+  });
+
+  test('cascades deleting a user to their farms', async () => {
+    const repos = createMemoryRepos();
+    const authorId = mockFarms[0].author_id;
+
+    expect(await repos.users.getByUsername(mockFarms[0].users.username)).toMatchObject({ id: authorId, role: 'user' });
+    expect(await repos.users.isUsernameTaken(mockFarms[0].users.username)).toBe(true);
+    expect(await repos.users.isUsernameTaken(mockFarms[0].users.username, authorId)).toBe(false);
+
+    await repos.users.delete(authorId);
+    expect(await repos.users.getById(authorId)).toBeNull();
+    expect(await repos.farms.listByAuthor(authorId)).toHaveLength(0);
+  });
+
+  test('creates farms with unique slugs', async () => {
+    const repos = createMemoryRepos();
+    const farm = await repos.farms.create(newFarm({ title: 'My Farm', slug: 'my-farm', author_id: 'demo-user', public: false }));
+
+    expect(farm).toMatchObject({ upvotes_count: 0, users: { username: mockFarms[0].users.username } });
+    expect(await repos.farms.getBySlug('my-farm')).toBeNull();
+    expect(await repos.farms.getById(farm.id)).toMatchObject({ title: 'My Farm' });
+    expect(await repos.farms.listSlugs('my-')).toEqual(['my-farm']);
+    await expect(repos.farms.create(newFarm({ title: 'My Farm', slug: 'my-farm', author_id: 'someone' }))).rejects.toThrow(/farms_slug_key/);
+    await expect(repos.farms.update(farm.id, { slug: mockFarms[0].slug })).rejects.toThrow(/farms_slug_key/);
+
+    await repos.farms.update(farm.id, { public: true });
+    expect(await repos.farms.getBySlug('my-farm')).toMatchObject({ id: farm.id });
+  });
+
+  test('keeps a planner per user that follows deleted farms', async () => {
+    const repos = createMemoryRepos();
+    const [first, second] = mockFarms;
+
+    await repos.planner.add(first.id, 'builder', 2);
+    await repos.planner.add(second.id, 'builder');
+    await repos.planner.add(first.id, 'builder', 5);
+    await repos.planner.setQuantity(second.id, 'builder', 3);
+
+    expect(await repos.planner.has(first.id, 'builder')).toBe(true);
+    expect(await repos.planner.has(first.id, 'someone-else')).toBe(false);
+    expect(await repos.planner.list('builder')).toMatchObject([
+      { farm_id: first.id, quantity: 2, farm: { title: first.title } },
+      { farm_id: second.id, quantity: 3, farm: { title: second.title } },
+    ]);
+
+    await repos.farms.delete(first);
+    await repos.planner.remove(second.id, 'builder');
+    expect(await repos.planner.list('builder')).toEqual([]);
+  });
+
+  test('verifies versions from farm tests and counts them for badges', async () => {
+    const repos = createMemoryRepos();
+    const farm = mockFarms[0];
+    const report = { result: 'works' as const, platform: 'Java', version: '1.21', notes: '' };
+
+    await repos.farmTests.submit(farm.id, 'tester', report);
+    await repos.farmTests.submit(farm.id, 'tester', { ...report, notes: 'Still works' });
+    await repos.farmTests.submit(farm.id, 'other', { ...report, result: 'does_not_work' });
+    await repos.farmTests.submit(farm.id, 'third', { ...report, version: '1.20' });
+
+    const tests = await repos.farmTests.list(farm.id);
+    expect(tests).toHaveLength(3);
+    expect(tests.find((test) => test.user_id === 'tester')?.test_notes).toBe('Still works');
+    expect(await repos.farmTests.summarize([farm.id])).toEqual({ [farm.id]: { works: 2, withIssues: 0, doesNotWork: 1 } });
+    // One working report doesn't outnumber one failure
+    expect((await repos.farms.getById(farm.id))?.verified_versions).toEqual(['Java 1.20']);
+    expect(await repos.users.getBadgeStats('tester')).toMatchObject({ tests: 1 });
+
+    await repos.farmTests.delete(tests.find((test) => test.user_id === 'other')!.id);
+    expect((await repos.farms.getById(farm.id))?.verified_versions).toEqual(['Java 1.20', 'Java 1.21']);
+  });
+
+  test('records a revision for every content change and restores them', async () => {
+    const repos = createMemoryRepos();
+    const farm = mockFarms[0];
+
+    // Another user, standing in for an admin
+    const admin = mockFarms.find((other) => other.author_id !== farm.author_id)!;
+
+    await repos.farms.update(farm.id, { title: 'Renamed' }, farm.author_id);
+    await repos.farms.setUpvoted(farm.id, 'voter', true);
+    await repos.farms.update(farm.id, { title: 'Renamed' }, farm.author_id);
+
+    const revisions = await repos.revisions.list(farm.id);
+    // The seeded state, then the rename; votes and no-op saves aren't edits
+    expect(revisions.map((revision) => revision.snapshot.title)).toEqual(['Renamed', farm.title]);
+    expect(revisions[0]).toMatchObject({ edited_by: farm.author_id, editor: { username: farm.users.username } });
+
+    const restored = await repos.revisions.restore(farm.id, revisions[1], admin.author_id);
+    expect(restored.title).toBe(farm.title);
+    expect(restored.updated_at).toEqual(expect.any(String));
+    await repos.farms.setPublic(farm.id, false, admin.author_id);
+
+    const history = await repos.revisions.list(farm.id);
+    expect(history).toHaveLength(4);
+    expect(history.slice(0, 2).map((revision) => revision.editor?.username)).toEqual([admin.users.username, admin.users.username]);
+  });
+
+  test('saves build progress one field at a time', async () => {
+    const repos = createMemoryRepos();
+    const farm = mockFarms[0];
+
+    expect(await repos.progress.get(farm.id, 'builder')).toEqual({ completed_layers: [], checked_materials: [] });
+    await repos.progress.save(farm.id, 'builder', { completed_layers: [0, 1] });
+    await repos.progress.save(farm.id, 'builder', { checked_materials: ['Hopper'] });
+    expect(await repos.progress.get(farm.id, 'builder')).toEqual({ completed_layers: [0, 1], checked_materials: ['Hopper'] });
+    expect(await repos.progress.get(farm.id, 'someone-else')).toEqual({ completed_layers: [], checked_materials: [] });
+  });
+
+  test('saves changes and loads them back', async () => {
+    let saved: MemorySnapshot | null = null;
+    const persistence: MemoryPersistence = {
+      load: async () => saved && structuredClone(saved),
+      save: async (snapshot) => {
+        saved = structuredClone(snapshot);
+      },
+    };
+    const farm = mockFarms[0];
+
+    const first = createMemoryRepos({}, persistence);
+    await first.farms.setUpvoted(farm.id, 'voter', true);
+    await first.comments.add({ farm_id: farm.id, user_id: 'demo-user', body: 'Saved', parent_comment_id: null });
+    await first.farms.create(newFarm({ title: 'Saved Farm', slug: 'saved-farm', author_id: 'demo-user' }));
+
+    const reloaded = createMemoryRepos({}, persistence);
+    expect(await reloaded.farms.hasUpvoted(farm.id, 'voter')).toBe(true);
+    const reloadedFarm = await reloaded.farms.getBySlug(farm.slug);
+    expect(reloadedFarm).not.toBeNull();
+    expect(reloadedFarm!.upvotes_count).toBe(farm.upvotes_count + 1);
+    expect((await reloaded.comments.listThreads(farm.id)).some((comment) => comment.body === 'Saved')).toBe(true);
+    expect(await reloaded.farms.isSlugTaken('saved-farm')).toBe(true);
+  });
+
+  test('stores uploaded files inline', async () => {
+    const repos = createMemoryRepos();
+    const url = await repos.files.upload('demo-user/1_a.txt', new Blob(['hi'], { type: 'text/plain' }));
+    expect(url).toBe('data:text/plain;base64,aGk=');
+  });
+});
+
+// The Supabase repositories against a stand-in client that records each RPC and answers it with canned rows
+test.describe('Supabase repositories', () => {
+  const fakeClient = (rows: Record<string, unknown[]>) => {
+    const calls: Array<{ fn: string; args: unknown }> = [];
+    const client = {
+      rpc: async (fn: string, args: unknown) => {
+        calls.push({ fn, args });
+        return { data: rows[fn] ?? [], error: null };
+      },
+    };
+    return { client: client as unknown as SupabaseClient<Database>, calls };
+  };
+
+  test('finds farms by item whatever its case, as the memory repositories do', async () => {
+    const farm = {
+      ...mockFarms[0],
+      farmable_items: ['Iron Ingot'],
+      drop_rate_per_hour: [{ item: 'Iron Ingot', rate: '3600/h', items_per_hour: 3600 }],
+    };
+    const { client, calls } = fakeClient({ farms_by_item: [{ farm }] });
+
+    const [result] = await createSupabaseRepos(client).farms.searchByItem('iron ingot');
+    expect(calls).toEqual([{ fn: 'farms_by_item', args: { item_name: 'iron ingot' } }]);
+    expect(result).toMatchObject({ farm: { id: farm.id }, itemsPerHour: 3600 });
+    expect(await createMemoryRepos({ farms: [farm] }).farms.searchByItem('iron ingot')).toMatchObject([{ farm: { id: farm.id } }]);
+
+    // Both sides of each comparison are lowercased in the database
+    const sql = fs.readFileSync('supabase/schema.sql', 'utf8');
+    const farmsByItem = sql.slice(sql.indexOf('FUNCTION farms_by_item'), sql.indexOf('$$ LANGUAGE', sql.indexOf('FUNCTION farms_by_item')));
+    expect(farmsByItem).toContain('lower(item) = lower(item_name)');
+    expect(farmsByItem).toContain("lower(d->>'item') = lower(item_name)");
+  });
+});
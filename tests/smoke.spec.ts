@@ -16,5 +16,15 @@ test.describe('Smoke Tests', () => {
     await page.click('text=Sign In');
     await expect(page).toHaveURL(/\/account/);
   });
-});
 
+  test('demo account signs in and stays signed in', async ({ page }) => {
+    await page.goto('/account');
+    await page.fill('input[type="email"]', 'demo@example.com');
+    await page.fill('input[type="password"]', 'demo-password');
+    await page.click('button[type="submit"]');
+    await expect(page.locator('text=My Farms')).toBeVisible();
+
+    await page.reload();
+    await expect(page.locator('text=My Farms')).toBeVisible();
+  });
+});